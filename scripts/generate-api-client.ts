@@ -0,0 +1,18 @@
+/**
+ * Generate the typed BFF client for the React app
+ *
+ * Usage: npm run generate:api-client
+ * Writes src/lib/api/bffClient.ts from the route contracts in src/server.
+ */
+
+// Context7: consulted for fs
+import { writeFileSync } from 'fs';
+import { buildOpenApiDocument } from '../src/server/openapi/document';
+import { generateClientSource } from '../src/server/openapi/clientGenerator';
+import { apiContracts, BFF_API_INFO } from '../src/server/openapi/routes';
+
+const OUTPUT_PATH = 'src/lib/api/bffClient.ts';
+
+const document = buildOpenApiDocument(apiContracts, BFF_API_INFO);
+writeFileSync(OUTPUT_PATH, generateClientSource(document));
+console.log(`Generated ${OUTPUT_PATH} (${Object.keys(document.paths).length} paths)`);
@@ -0,0 +1,133 @@
+/**
+ * Component Approval Control
+ *
+ * Approval badge for a row in the ScriptEditor component list, with Approve
+ * and Unapprove actions for the roles allowed to use them. Unapproving an
+ * approved (locked) component asks for a reason, which is kept in
+ * component_status_history.
+ */
+
+// Context7: consulted for react
+import React, { useState } from 'react';
+import type { ComponentStatus } from '../../types/scriptComponent';
+import type { UserRole } from '../../lib/supabase';
+import {
+  COMPONENT_STATUS_LABELS,
+  findComponentTransition,
+  toComponentStatus
+} from '../../lib/workflow/componentApprovalWorkflow';
+
+export interface ComponentApprovalControlProps {
+  componentId: string;
+  status: string;
+  role?: UserRole | null;
+  onStatusChange?: (componentId: string, status: ComponentStatus, reason?: string) => Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+const BADGE_CLASSES: Record<ComponentStatus, string> = {
+  created: 'bg-gray-100 text-gray-600',
+  in_edit: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800'
+};
+
+export const ComponentApprovalControl: React.FC<ComponentApprovalControlProps> = ({
+  componentId,
+  status,
+  role = null,
+  onStatusChange,
+  onError
+}) => {
+  const current = toComponentStatus(status);
+  const [isUnapproving, setIsUnapproving] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canApprove = !!onStatusChange && current !== 'approved' && !!findComponentTransition(current, 'approved', role);
+  const canUnapprove = !!onStatusChange && current === 'approved' && !!findComponentTransition(current, 'in_edit', role);
+
+  const change = async (next: ComponentStatus, changeReason?: string) => {
+    if (!onStatusChange) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onStatusChange(componentId, next, changeReason);
+      setIsUnapproving(false);
+      setReason('');
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : 'Failed to change status');
+      onError?.(changeError as Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Clicks must not open the component editor behind the control
+  return (
+    <div className="mt-1 text-xs" onClick={event => event.stopPropagation()}>
+      <div className="flex items-center gap-2">
+        <span
+          className={`px-2 py-0.5 rounded-full font-medium ${BADGE_CLASSES[current]}`}
+          data-testid={`component-status-${componentId}`}
+        >
+          {current === 'approved' ? '✓ ' : ''}{COMPONENT_STATUS_LABELS[current]}
+        </span>
+        {canApprove && (
+          <button
+            type="button"
+            onClick={() => change('approved')}
+            disabled={isSaving}
+            className="px-2 py-0.5 text-green-700 hover:bg-green-50 rounded"
+            data-testid={`approve-component-${componentId}`}
+          >
+            Approve
+          </button>
+        )}
+        {canUnapprove && !isUnapproving && (
+          <button
+            type="button"
+            onClick={() => setIsUnapproving(true)}
+            className="px-2 py-0.5 text-orange-700 hover:bg-orange-50 rounded"
+            data-testid={`unapprove-component-${componentId}`}
+          >
+            Unapprove
+          </button>
+        )}
+      </div>
+
+      {isUnapproving && (
+        <div className="flex gap-1 mt-1">
+          <input
+            type="text"
+            value={reason}
+            onChange={event => setReason(event.target.value)}
+            placeholder="Reason for reopening"
+            className="flex-1 px-2 py-0.5 border rounded"
+            data-testid={`unapprove-reason-${componentId}`}
+          />
+          <button
+            type="button"
+            onClick={() => change('in_edit', reason)}
+            disabled={isSaving || !reason.trim()}
+            className="px-2 py-0.5 bg-orange-600 text-white rounded disabled:bg-gray-300"
+            data-testid={`confirm-unapprove-${componentId}`}
+          >
+            {isSaving ? 'Saving...' : 'Unapprove'}
+          </button>
+          <button
+            type="button"
+            onClick={() => { setIsUnapproving(false); setReason(''); }}
+            className="px-2 py-0.5 text-gray-600 hover:bg-gray-100 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-1 text-red-600" role="alert">{error}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+/**
+ * Component History Panel
+ *
+ * Lists the stored versions of a script component (newest first), previews
+ * the wording of the selected version and restores it. A restore is saved as
+ * a new version through the optimistic lock, so nothing in the history is
+ * ever overwritten.
+ */
+
+// Context7: consulted for react
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ComponentVersion } from '../../types/scriptComponent';
+
+export interface ComponentHistoryPanelProps {
+  componentId: string;
+  currentVersion: number;
+  loadHistory: (componentId: string) => Promise<ComponentVersion[]>;
+  onRestore: (componentId: string, version: ComponentVersion) => Promise<void>;
+  onClose: () => void;
+  onError?: (error: Error) => void;
+}
+
+export const ComponentHistoryPanel: React.FC<ComponentHistoryPanelProps> = ({
+  componentId,
+  currentVersion,
+  loadHistory,
+  onRestore,
+  onClose,
+  onError
+}) => {
+  const [versions, setVersions] = useState<ComponentVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setVersions(await loadHistory(componentId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [componentId, loadHistory]);
+
+  // Reload whenever a new version is saved (including our own restores)
+  useEffect(() => {
+    refresh();
+  }, [refresh, currentVersion]);
+
+  const selected = versions.find(v => v.version === selectedVersion);
+
+  const handleRestore = async (version: ComponentVersion) => {
+    setRestoringVersion(version.version);
+    setError(null);
+    try {
+      await onRestore(componentId, version);
+      setSelectedVersion(null);
+    } catch (restoreError) {
+      const message = restoreError instanceof Error ? restoreError.message : 'Failed to restore version';
+      setError(message);
+      onError?.(restoreError as Error);
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  return (
+    <div className="component-history border-b p-4 bg-white" data-testid={`component-history-${componentId}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-gray-700">Version History</div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+        >
+          Close History
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-2 text-xs text-red-600" role="alert" data-testid="component-history-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading && versions.length === 0 ? (
+        <div className="text-xs text-gray-500">Loading history...</div>
+      ) : versions.length === 0 ? (
+        <div className="text-xs text-gray-500">No earlier versions recorded</div>
+      ) : (
+        <div className="flex gap-4">
+          <ul className="w-48 border rounded text-xs" data-testid="component-history-list">
+            {versions.map(version => (
+              <li key={version.version_id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedVersion(version.version)}
+                  className={`w-full text-left px-2 py-1 border-b last:border-b-0 ${
+                    version.version === selectedVersion ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                  }`}
+                  data-testid={`history-version-${version.version}`}
+                >
+                  <span className="font-medium">v{version.version}</span>
+                  {version.version === currentVersion && (
+                    <span className="ml-1 text-green-600">(current)</span>
+                  )}
+                  <div className="text-gray-500">{new Date(version.created_at).toLocaleString()}</div>
+                  {version.restored_from_version !== null && (
+                    <div className="text-gray-500">Restored from v{version.restored_from_version}</div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1">
+            {selected ? (
+              <>
+                <div
+                  className="p-3 border rounded text-sm whitespace-pre-wrap bg-gray-50"
+                  data-testid="history-preview"
+                >
+                  {selected.content_plain || 'Empty component'}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRestore(selected)}
+                  disabled={selected.version === currentVersion || restoringVersion !== null}
+                  className="mt-2 px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:bg-gray-300"
+                  data-testid="restore-version-button"
+                >
+                  {restoringVersion === selected.version ? 'Restoring...' : `Restore v${selected.version}`}
+                </button>
+              </>
+            ) : (
+              <div className="text-xs text-gray-500">Select a version to preview its wording</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+/**
+ * Component Merge View
+ *
+ * Side-by-side resolution of a component edit that collided with a
+ * concurrent save. The parts that merged cleanly are already in
+ * conflict.mergedContent; each remaining conflict area shows "your version"
+ * next to "their version". The selected ConflictResolutionStrategy decides
+ * what gets saved: either side wholesale, or a choice per conflict area.
+ */
+
+// Context7: consulted for react
+import React, { useMemo, useState } from 'react';
+import type { ConflictResolutionStrategy, MergeConflict } from '../../types/scriptComponent';
+import { extractPlainText, type JSONContent } from '../../lib/content/content-processor';
+import {
+  resolveConflictAreas,
+  type ConflictAreaValue,
+  type ConflictChoice
+} from '../../lib/content/tiptapMerge';
+
+export interface ComponentMergeViewProps {
+  conflict: MergeConflict;
+  strategy?: ConflictResolutionStrategy;
+  onResolve: (content: object, strategy: ConflictResolutionStrategy) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Strategies a person can pick here; auto_merge and retry_with_latest already ran before we got here
+const STRATEGY_OPTIONS: Array<{ value: ConflictResolutionStrategy; label: string }> = [
+  { value: 'manual_merge', label: 'Merge section by section' },
+  { value: 'client_wins', label: 'Keep my version' },
+  { value: 'server_wins', label: 'Keep their version' }
+];
+
+const CONFLICT_LABELS: Record<string, string> = {
+  text_conflict: 'Both edited this text',
+  structural_conflict: 'Both restructured this section',
+  deletion_conflict: 'Edited on one side, deleted on the other'
+};
+
+const nodesText = (value: Record<string, unknown>): string =>
+  extractPlainText({ type: 'doc', content: (value as ConflictAreaValue).nodes }).trim();
+
+export const ComponentMergeView: React.FC<ComponentMergeViewProps> = ({
+  conflict,
+  strategy = 'manual_merge',
+  onResolve,
+  onCancel
+}) => {
+  const initialStrategy = STRATEGY_OPTIONS.some(option => option.value === strategy) ? strategy : 'manual_merge';
+  const [selectedStrategy, setSelectedStrategy] = useState<ConflictResolutionStrategy>(initialStrategy);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolvedContent = useMemo((): JSONContent => {
+    switch (selectedStrategy) {
+      case 'client_wins':
+        return conflict.clientContent as JSONContent;
+      case 'server_wins':
+        return conflict.serverContent as JSONContent;
+      default:
+        return resolveConflictAreas(
+          (conflict.mergedContent ?? conflict.serverContent) as JSONContent,
+          conflict.conflictAreas,
+          choices
+        );
+    }
+  }, [conflict, selectedStrategy, choices]);
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onResolve(resolvedContent, selectedStrategy);
+    } catch (resolveError) {
+      setError(resolveError instanceof Error ? resolveError.message : 'Failed to save merged content');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="component-merge border-b p-4 bg-yellow-50" data-testid={`component-merge-${conflict.componentId}`}>
+      <div className="mb-2 text-sm font-medium text-gray-700">
+        Someone else saved this component while you were editing (v{conflict.clientVersion} → v{conflict.serverVersion})
+      </div>
+
+      <div className="flex gap-4 mb-3 text-xs" role="radiogroup" aria-label="Resolution strategy">
+        {STRATEGY_OPTIONS.map(option => (
+          <label key={option.value} className="flex items-center gap-1">
+            <input
+              type="radio"
+              name={`merge-strategy-${conflict.componentId}`}
+              value={option.value}
+              checked={selectedStrategy === option.value}
+              onChange={() => setSelectedStrategy(option.value)}
+              data-testid={`merge-strategy-${option.value}`}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      {selectedStrategy === 'manual_merge' && conflict.conflictAreas.map(area => (
+        <div key={area.path} className="mb-3 border rounded bg-white" data-testid={`conflict-area-${area.path}`}>
+          <div className="px-2 py-1 text-xs text-orange-700 border-b">
+            {CONFLICT_LABELS[area.conflictType] ?? area.conflictType}
+          </div>
+          <div className="grid grid-cols-2 gap-2 p-2 text-sm">
+            {([['client', 'Your version', area.clientValue], ['server', 'Their version', area.serverValue]] as const)
+              .map(([side, label, value]) => (
+                <div key={side}>
+                  <div className="text-xs text-gray-500 mb-1">{label}</div>
+                  <div
+                    className={`p-2 border rounded whitespace-pre-wrap ${
+                      (choices[area.path] ?? 'server') === side || choices[area.path] === 'both' ? 'border-blue-500' : ''
+                    }`}
+                    data-testid={`conflict-${side}-${area.path}`}
+                  >
+                    {nodesText(value) || <span className="text-gray-400">(removed)</span>}
+                  </div>
+                </div>
+              ))}
+          </div>
+          <div className="flex gap-2 px-2 pb-2">
+            {(['client', 'server', 'both'] as const).map(choice => (
+              <button
+                key={choice}
+                type="button"
+                onClick={() => setChoices(prev => ({ ...prev, [area.path]: choice }))}
+                className={`px-2 py-1 rounded text-xs ${
+                  (choices[area.path] ?? 'server') === choice ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+                }`}
+                data-testid={`conflict-choose-${choice}-${area.path}`}
+              >
+                {choice === 'client' ? 'Use mine' : choice === 'server' ? 'Use theirs' : 'Keep both'}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="text-xs text-gray-500 mb-1">Result</div>
+      <div className="p-2 border rounded bg-white text-sm whitespace-pre-wrap" data-testid="merge-preview">
+        {extractPlainText(resolvedContent).trim() || 'Empty component'}
+      </div>
+
+      {error && (
+        <div className="mt-2 text-xs text-red-600" role="alert">{error}</div>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isSaving}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:bg-gray-300"
+          data-testid="apply-merge-button"
+        >
+          {isSaving ? 'Saving...' : 'Save Resolution'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 bg-gray-500 text-white rounded text-xs hover:bg-gray-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+/**
+ * Component Transfer Menu
+ *
+ * "Move to…" action for a row in the ScriptEditor component list: pick
+ * another script and move the component there (appended at the end) or
+ * copy it. Approved components are locked, so they can only be copied.
+ */
+
+// Context7: consulted for react
+import React, { useState } from 'react';
+import type { ComponentTransferMode } from '../../types/scriptComponent';
+
+export interface ComponentTransferTarget {
+  scriptId: string;
+  title: string;
+}
+
+export interface ComponentTransferMenuProps {
+  componentId: string;
+  targets: ComponentTransferTarget[];
+  locked?: boolean;
+  onTransfer: (componentId: string, targetScriptId: string, mode: ComponentTransferMode) => Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+export const ComponentTransferMenu: React.FC<ComponentTransferMenuProps> = ({
+  componentId,
+  targets,
+  locked = false,
+  onTransfer,
+  onError
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetScriptId, setTargetScriptId] = useState('');
+  const [mode, setMode] = useState<ComponentTransferMode>(locked ? 'copy' : 'move');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const effectiveMode: ComponentTransferMode = locked ? 'copy' : mode;
+
+  const close = () => {
+    setIsOpen(false);
+    setTargetScriptId('');
+    setError(null);
+  };
+
+  const submit = async () => {
+    if (!targetScriptId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onTransfer(componentId, targetScriptId, effectiveMode);
+      close();
+    } catch (transferError) {
+      setError(transferError instanceof Error ? transferError.message : `Failed to ${effectiveMode} component`);
+      onError?.(transferError as Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (targets.length === 0) {
+    return null;
+  }
+
+  // Clicks must not open the component editor behind the menu
+  return (
+    <div className="mt-1 text-xs" onClick={event => event.stopPropagation()}>
+      {!isOpen ? (
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="px-2 py-0.5 text-gray-600 hover:bg-gray-100 rounded"
+          data-testid={`move-component-${componentId}`}
+        >
+          Move to…
+        </button>
+      ) : (
+        <div className="flex flex-wrap gap-1" data-testid={`move-component-menu-${componentId}`}>
+          <select
+            value={targetScriptId}
+            onChange={event => setTargetScriptId(event.target.value)}
+            aria-label="Target script"
+            className="flex-1 px-1 py-0.5 border rounded"
+            data-testid={`move-component-target-${componentId}`}
+          >
+            <option value="">Choose a script…</option>
+            {targets.map(target => (
+              <option key={target.scriptId} value={target.scriptId}>{target.title}</option>
+            ))}
+          </select>
+          <select
+            value={effectiveMode}
+            onChange={event => setMode(event.target.value as ComponentTransferMode)}
+            disabled={locked}
+            title={locked ? 'Approved components can only be copied' : undefined}
+            aria-label="Move or copy"
+            className="px-1 py-0.5 border rounded"
+            data-testid={`move-component-mode-${componentId}`}
+          >
+            <option value="move">Move</option>
+            <option value="copy">Copy</option>
+          </select>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={isSaving || !targetScriptId}
+            className="px-2 py-0.5 bg-blue-600 text-white rounded disabled:bg-gray-300"
+            data-testid={`confirm-move-component-${componentId}`}
+          >
+            {isSaving ? 'Saving...' : effectiveMode === 'move' ? 'Move' : 'Copy'}
+          </button>
+          <button
+            type="button"
+            onClick={close}
+            className="px-2 py-0.5 text-gray-600 hover:bg-gray-100 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-1 text-red-600" role="alert">{error}</div>
+      )}
+    </div>
+  );
+};
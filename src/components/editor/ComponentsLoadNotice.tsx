@@ -0,0 +1,60 @@
+/**
+ * Components Load Notice
+ *
+ * Says when the component list is not the database's latest answer: a saved
+ * copy shown while it refreshes, the offline copy kept on this device while
+ * the database cannot be reached, or no list at all.
+ * An unavailable list must not read as a script with no components, so it is
+ * an alert with a Retry action. Renders nothing for a fresh list.
+ */
+
+// Context7: consulted for react
+import React from 'react';
+import type { ComponentsLoadState } from '../../types/editor';
+
+export interface ComponentsLoadNoticeProps {
+  state: ComponentsLoadState;
+  onRetry?: () => void;
+}
+
+export const ComponentsLoadNotice: React.FC<ComponentsLoadNoticeProps> = ({ state, onRetry }) => {
+  if (state.status === 'fresh') {
+    return null;
+  }
+
+  if (state.status === 'stale') {
+    return (
+      <div className="components-load-notice p-2 text-xs bg-amber-50 text-amber-800 border-b" data-testid="components-load-stale">
+        Showing a saved copy from {new Date(state.fetchedAt).toLocaleString()}. Changes made elsewhere may not appear yet.
+      </div>
+    );
+  }
+
+  if (state.status === 'offline') {
+    return (
+      <div className="components-load-notice p-2 text-xs bg-amber-50 text-amber-800 border-b" data-testid="components-load-offline">
+        Offline copy from {new Date(state.fetchedAt).toLocaleString()}. The database cannot be reached right now.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="components-load-notice flex items-center justify-between p-2 text-xs bg-red-50 text-red-700 border-b"
+      role="alert"
+      data-testid="components-load-unavailable"
+    >
+      <span>Components could not be loaded: {state.error}</span>
+      {onRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="px-2 py-0.5 bg-red-600 text-white rounded"
+          data-testid="components-load-retry"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
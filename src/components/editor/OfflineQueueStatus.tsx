@@ -0,0 +1,128 @@
+/**
+ * Offline Queue Status
+ *
+ * Shows component writes waiting to reach the server and the ones it
+ * rejected, with Sync now / Retry / Discard actions, and warns when offline
+ * storage is running out. Renders nothing while the queue is empty, nothing
+ * has failed and storage has room.
+ */
+
+// Context7: consulted for react
+import React from 'react';
+import type { OutboxOperation, OutboxStatus } from '../../lib/database/componentOutbox';
+import type { StoragePressure } from '../../lib/database/indexedDBQueue';
+
+export interface OfflineQueueStatusProps {
+  status: OutboxStatus;
+  onReplay: () => void;
+  onRetryFailed: () => void;
+  onDiscardFailed: () => void;
+}
+
+const OPERATION_LABELS: Record<OutboxOperation, string> = {
+  create: 'Add component',
+  update: 'Edit component',
+  delete: 'Delete component',
+  restore: 'Restore component',
+  bulkDelete: 'Delete components',
+  updatePositions: 'Reorder components',
+  batchUpdate: 'Edit components',
+  restoreVersion: 'Restore earlier version',
+  transfer: 'Move or copy component',
+  setStatus: 'Change component status'
+};
+
+function describePressure(pressure: StoragePressure): string {
+  if (pressure.level === 'warning') {
+    return 'Offline storage on this device is nearly full. Sync soon so new changes can still be saved.';
+  }
+  if (pressure.rejectedBytes !== undefined) {
+    return 'Offline storage on this device is full. New changes cannot be saved offline until waiting ones sync.';
+  }
+  return 'Offline storage on this device is full. Waiting changes were moved to a smaller backup store.';
+}
+
+export const OfflineQueueStatus: React.FC<OfflineQueueStatusProps> = ({
+  status,
+  onReplay,
+  onRetryFailed,
+  onDiscardFailed
+}) => {
+  const { depth, failures, isReplaying, lastError, storageType, storagePressure } = status;
+
+  if (depth === 0 && failures.length === 0 && !lastError && !storagePressure) {
+    return null;
+  }
+
+  return (
+    <div className="offline-queue border rounded p-3 mb-4 bg-amber-50 text-sm" data-testid="offline-queue-status">
+      {depth > 0 && (
+        <div className="flex items-center justify-between" data-testid="offline-queue-depth">
+          <span>
+            {isReplaying
+              ? `Syncing ${depth} saved ${depth === 1 ? 'change' : 'changes'}…`
+              : `${depth} ${depth === 1 ? 'change' : 'changes'} saved on this device, waiting to sync`}
+          </span>
+          <button
+            type="button"
+            onClick={onReplay}
+            disabled={isReplaying}
+            className="px-2 py-0.5 text-xs bg-amber-600 text-white rounded disabled:bg-gray-300"
+            data-testid="offline-queue-replay"
+          >
+            Sync now
+          </button>
+        </div>
+      )}
+
+      {depth > 0 && storageType === 'memory' && (
+        <div className="mt-1 text-xs text-red-700" role="alert" data-testid="offline-queue-memory">
+          These changes are kept in this tab only and will be lost if it is closed before they sync.
+        </div>
+      )}
+
+      {storagePressure && storageType !== 'memory' && (
+        <div className="mt-1 text-xs text-amber-800" data-testid="offline-queue-pressure">
+          {describePressure(storagePressure)}
+        </div>
+      )}
+
+      {lastError && failures.length === 0 && (
+        <div className="mt-1 text-xs text-amber-800" data-testid="offline-queue-error">{lastError}</div>
+      )}
+
+      {failures.length > 0 && (
+        <div className="mt-2" role="alert" data-testid="offline-queue-failures">
+          <div className="font-medium text-red-700">
+            {failures.length} {failures.length === 1 ? 'change' : 'changes'} could not be synced
+          </div>
+          <ul className="mt-1 text-xs text-red-700">
+            {failures.map(failure => (
+              <li key={failure.entry.id}>
+                {OPERATION_LABELS[failure.entry.operation]}: {failure.error}
+              </li>
+            ))}
+          </ul>
+          <div className="mt-2 flex gap-2">
+            <button
+              type="button"
+              onClick={onRetryFailed}
+              className="px-2 py-0.5 text-xs bg-blue-600 text-white rounded"
+              data-testid="offline-queue-retry"
+            >
+              Retry
+            </button>
+            <button
+              type="button"
+              onClick={onDiscardFailed}
+              className="px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-100 rounded"
+              data-testid="offline-queue-discard"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
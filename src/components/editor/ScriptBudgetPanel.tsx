@@ -0,0 +1,125 @@
+/**
+ * Script Budget Panel
+ *
+ * Word count and runtime against the script's targets: a total bar, one bar
+ * per component_type and one per component, plus a warning when the script
+ * runs longer than its video's target duration. Without a duration target
+ * the bars show each part's share of the script instead.
+ */
+
+// Context7: consulted for react
+import React from 'react';
+import {
+  COMPONENT_TYPE_LABELS,
+  budgetProgress,
+  formatDuration,
+  getBudgetWarning,
+  type ScriptBudget
+} from '../../lib/content/scriptBudget';
+
+export interface ScriptBudgetPanelProps {
+  budget: ScriptBudget;
+}
+
+interface ProgressBarProps {
+  label: string;
+  detail: string;
+  fraction: number;
+  over?: boolean;
+  testId: string;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ label, detail, fraction, over = false, testId }) => {
+  const percent = Math.round(Math.min(Math.max(fraction, 0), 1) * 100);
+  return (
+    <div className="mb-2" data-testid={testId}>
+      <div className="flex justify-between text-xs text-gray-600 mb-0.5">
+        <span>{label}</span>
+        <span>{detail}</span>
+      </div>
+      <div
+        className="h-2 bg-gray-100 rounded"
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className={`h-2 rounded ${over ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const ScriptBudgetPanel: React.FC<ScriptBudgetPanelProps> = ({ budget }) => {
+  const { targetWordCount, targetDurationSeconds } = budget.targets;
+  const warning = getBudgetWarning(budget);
+  // Parts are drawn against the target, or against the whole script when there is none
+  const scale = targetDurationSeconds ?? budget.durationSeconds;
+  const share = (seconds: number) => budgetProgress(seconds, scale) ?? 0;
+
+  const totalDetail = targetDurationSeconds !== null
+    ? `${formatDuration(budget.durationSeconds)} / ${formatDuration(targetDurationSeconds)}`
+    : `${formatDuration(budget.durationSeconds)} (no target)`;
+  const wordDetail = targetWordCount !== null
+    ? `${budget.wordCount} / ${targetWordCount} words`
+    : `${budget.wordCount} words`;
+
+  return (
+    <div className="script-budget border rounded p-3 mb-4 bg-white" data-testid="script-budget">
+      {warning && (
+        <div className="mb-2 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded" role="alert">
+          {warning}
+        </div>
+      )}
+
+      <ProgressBar
+        label="Runtime"
+        detail={totalDetail}
+        fraction={budgetProgress(budget.durationSeconds, targetDurationSeconds) ?? 0}
+        over={budget.overDurationTarget}
+        testId="budget-total-duration"
+      />
+      {targetWordCount !== null ? (
+        <ProgressBar
+          label="Words"
+          detail={wordDetail}
+          fraction={budgetProgress(budget.wordCount, targetWordCount) ?? 0}
+          over={budget.overWordTarget}
+          testId="budget-total-words"
+        />
+      ) : (
+        <div className="text-xs text-gray-500 mb-2" data-testid="budget-total-words">{wordDetail}</div>
+      )}
+
+      <div className="mt-3 text-xs font-medium text-gray-700">By component type</div>
+      {budget.byType.filter(type => type.count > 0).map(type => (
+        <ProgressBar
+          key={type.type}
+          label={`${COMPONENT_TYPE_LABELS[type.type]} (${type.count})`}
+          detail={`${type.wordCount} words · ${formatDuration(type.durationSeconds)}`}
+          fraction={share(type.durationSeconds)}
+          testId={`budget-type-${type.type}`}
+        />
+      ))}
+
+      {budget.components.length > 0 && (
+        <>
+          <div className="mt-3 text-xs font-medium text-gray-700">By component</div>
+          {budget.components.map((component, index) => (
+            <ProgressBar
+              key={component.componentId}
+              label={`Component ${index + 1} · ${COMPONENT_TYPE_LABELS[component.type]}`}
+              detail={`${component.wordCount} words · ${formatDuration(component.durationSeconds)}`}
+              fraction={share(component.durationSeconds)}
+              testId={`budget-component-${component.componentId}`}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
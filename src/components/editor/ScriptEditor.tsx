@@ -25,6 +25,15 @@ import type { ScriptComponentUI } from '../../types/editor';
 import { AuthenticatedProviderFactory } from '../../lib/collaboration/AuthenticatedProviderFactory';
 import { CustomSupabaseProvider } from '../../lib/collaboration/custom-supabase-provider';
 import { processTipTapContent } from '../../lib/content/content-processor';
+import { ComponentHistoryPanel } from './ComponentHistoryPanel';
+import { ComponentMergeView } from './ComponentMergeView';
+import { ComponentApprovalControl } from './ComponentApprovalControl';
+import { ComponentTransferMenu } from './ComponentTransferMenu';
+import { ComponentsLoadNotice } from './ComponentsLoadNotice';
+import { isComponentLocked } from '../../lib/workflow/componentApprovalWorkflow';
+import { isTemporaryComponentId } from '../../lib/database/componentOutbox';
+import { MergeConflictError } from '../../types/scriptComponent';
+import type { ComponentVersion, ConflictResolutionStrategy, MergeConflict } from '../../types/scriptComponent';
 
 export const ScriptEditor: React.FC<ScriptEditorProps> = ({
   config,
@@ -38,6 +47,17 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
   onComponentUpdate,
   onComponentDelete,
   onComponentReorder,
+  onLoadComponentHistory,
+  onRestoreComponentVersion,
+  onResolveConflict,
+  onComponentStatusChange,
+  userRole = null,
+  focusComponentId = null,
+  onComponentFocused,
+  transferTargets = [],
+  onComponentTransfer,
+  componentsLoadState = { status: 'fresh' },
+  onRetryComponents,
   onSave,
   onError,
   className = ''
@@ -78,6 +98,8 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState<string>('');
   const [draggedComponentId, setDraggedComponentId] = useState<string | null>(null);
+  const [historyComponentId, setHistoryComponentId] = useState<string | null>(null);
+  const [mergeConflict, setMergeConflict] = useState<MergeConflict | null>(null);
 
   // Optimistic UI state for components (combines props + locally added components)
   const [optimisticComponents, setOptimisticComponents] = useState<ScriptComponentUI[]>([]);
@@ -515,7 +537,27 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
     setEditingContent(component.plainText || '');
   };
 
+  // Jump to a component requested from outside (e.g. a search hit) once it is loaded
+  useEffect(() => {
+    if (!focusComponentId) return;
+    const target = displayComponents.find(c => c.componentId === focusComponentId);
+    if (!target) return;
+
+    setEditingComponentId(target.componentId);
+    setEditingContent(target.plainText || '');
+    document
+      .querySelector(`[data-component="component-${target.componentId}"]`)
+      ?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+    onComponentFocused?.(target.componentId);
+  }, [focusComponentId, displayComponents, onComponentFocused]);
+
+  // Approved components are locked until unapproved (the database rejects the save too)
+  const editingLocked = isComponentLocked(
+    displayComponents.find(c => c.componentId === editingComponentId)?.status
+  );
+
   const handleComponentEdit = (newContent: string) => {
+    if (editingLocked) return;
     setEditingContent(newContent);
 
     // Auto-save after 1 second
@@ -531,14 +573,59 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
             content: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: newContent }] }] }
           });
         } catch (error) {
-          console.error('Failed to update component:', error);
-          onError?.(error as Error);
+          if (error instanceof MergeConflictError && onResolveConflict) {
+            setMergeConflict(error.conflict);
+          } else {
+            console.error('Failed to update component:', error);
+            onError?.(error as Error);
+          }
         }
       }
       autoSaveTimerRef.current = null;
     }, 1000);
   };
 
+  // Keep the textarea in step with saved content (e.g. after a concurrent edit
+  // was merged in) unless the user has an unsaved change pending
+  useEffect(() => {
+    if (!editingComponentId || autoSaveTimerRef.current) return;
+    const current = components.find(c => c.componentId === editingComponentId);
+    if (current) {
+      setEditingContent(current.plainText || '');
+    }
+  }, [components, editingComponentId]);
+
+  const handleResolveConflict = async (content: object, strategy: ConflictResolutionStrategy) => {
+    if (!mergeConflict || !onResolveConflict) return;
+
+    try {
+      await onResolveConflict(mergeConflict, content, strategy);
+      setMergeConflict(null);
+    } catch (error) {
+      // Another save landed while resolving - start over against the newest version
+      if (error instanceof MergeConflictError) {
+        setMergeConflict(error.conflict);
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const handleRestoreVersion = async (componentId: string, version: ComponentVersion) => {
+    if (!onRestoreComponentVersion) return;
+
+    // A pending auto-save would overwrite the restored wording
+    if (autoSaveTimerRef.current) {
+      clearTimeout(autoSaveTimerRef.current);
+      autoSaveTimerRef.current = null;
+    }
+
+    await onRestoreComponentVersion(componentId, version.version);
+    if (editingComponentId === componentId) {
+      setEditingContent(version.content_plain);
+    }
+  };
+
   const handleDeleteComponent = async (componentId: string) => {
     if (!onComponentDelete) return;
 
@@ -735,6 +822,8 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
         )}
       </div>
 
+      <ComponentsLoadNotice state={componentsLoadState} onRetry={onRetryComponents} />
+
       {/* Component List - BELOW the main editor */}
       {displayComponents.length > 0 && (
         <div className="component-list border-b bg-white" data-testid="component-list">
@@ -761,15 +850,36 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                 ⋮⋮
               </div>
               <div className="flex-1">
-                <div className="text-sm font-medium text-gray-700">Component {index + 1}</div>
-                <div className="text-xs text-gray-500 mt-1">{component.plainText?.substring(0, 50) || 'Empty component'}...</div>
-                {/* Component Status Display for Block-Based Editor Pattern */}
-                <div
-                  className="text-xs text-blue-600 mt-1 font-medium"
-                  data-testid={`component-status-${component.componentId}`}
-                >
-                  Status: {component.status || 'created'}
+                <div className="text-sm font-medium text-gray-700">
+                  Component {index + 1}
+                  {/* Created offline; the create is still in the offline queue */}
+                  {isTemporaryComponentId(component.componentId) && (
+                    <span
+                      className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-amber-100 text-amber-800 rounded"
+                      data-testid={`component-unsynced-${component.componentId}`}
+                    >
+                      Waiting to sync
+                    </span>
+                  )}
                 </div>
+                <div className="text-xs text-gray-500 mt-1">{component.plainText?.substring(0, 50) || 'Empty component'}...</div>
+                {/* Approval badge and actions for client sign-off */}
+                <ComponentApprovalControl
+                  componentId={component.componentId}
+                  status={component.status}
+                  role={userRole}
+                  onStatusChange={onComponentStatusChange}
+                  onError={onError}
+                />
+                {onComponentTransfer && (
+                  <ComponentTransferMenu
+                    componentId={component.componentId}
+                    targets={transferTargets}
+                    locked={isComponentLocked(component.status)}
+                    onTransfer={onComponentTransfer}
+                    onError={onError}
+                  />
+                )}
               </div>
               <button
                 type="button"
@@ -788,7 +898,9 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                   e.stopPropagation();
                   setDeleteConfirmId(component.componentId);
                 }}
-                className="delete-btn ml-2 px-3 py-1 text-red-600 hover:bg-red-50 rounded text-xs"
+                disabled={isComponentLocked(component.status)}
+                title={isComponentLocked(component.status) ? 'Approved components cannot be deleted' : undefined}
+                className="delete-btn ml-2 px-3 py-1 text-red-600 hover:bg-red-50 rounded text-xs disabled:text-gray-300 disabled:hover:bg-transparent"
                 data-testid={`delete-component-${component.componentId}`}
               >
                 Delete
@@ -804,10 +916,16 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
           <div className="mb-2 text-sm font-medium text-gray-700">
             Editing Component {components.findIndex(c => c.componentId === editingComponentId) + 1}
           </div>
+          {editingLocked && (
+            <div className="mb-2 text-xs text-green-700" data-testid={`component-locked-${editingComponentId}`}>
+              Approved - unapprove this component to edit it
+            </div>
+          )}
           <textarea
             value={editingContent}
             onChange={(e) => handleComponentEdit(e.target.value)}
-            className="w-full h-32 p-3 border rounded text-sm"
+            readOnly={editingLocked}
+            className={`w-full h-32 p-3 border rounded text-sm ${editingLocked ? 'bg-gray-50 text-gray-600' : ''}`}
             placeholder="Enter component content..."
           />
           <div className="flex gap-2 mt-3">
@@ -828,10 +946,32 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
             >
               Save & Close
             </button>
+            {onLoadComponentHistory && onRestoreComponentVersion && (
+              <button
+                type="button"
+                onClick={() => setHistoryComponentId(editingComponentId)}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                data-testid={`history-component-${editingComponentId}`}
+              >
+                History
+              </button>
+            )}
           </div>
         </div>
       )}
 
+      {/* Component Version History */}
+      {historyComponentId && onLoadComponentHistory && (
+        <ComponentHistoryPanel
+          componentId={historyComponentId}
+          currentVersion={displayComponents.find(c => c.componentId === historyComponentId)?.version ?? 0}
+          loadHistory={onLoadComponentHistory}
+          onRestore={handleRestoreVersion}
+          onClose={() => setHistoryComponentId(null)}
+          onError={onError}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       {deleteConfirmId && (
         <div className="delete-confirmation-overlay fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -867,9 +1007,17 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
         </div>
       )}
 
-      {/* Conflict Resolution UI (placeholder) */}
-      <div className="conflict-resolver hidden" data-testid="conflict-resolver">
-        {/* Conflict resolution UI would be rendered here when needed */}
+      {/* Conflict Resolution UI - shown when a concurrent edit could not be merged automatically */}
+      <div className={`conflict-resolver ${mergeConflict ? '' : 'hidden'}`} data-testid="conflict-resolver">
+        {mergeConflict && (
+          <ComponentMergeView
+            key={`${mergeConflict.componentId}-${mergeConflict.serverVersion}`}
+            conflict={mergeConflict}
+            strategy={config.conflictResolutionStrategy}
+            onResolve={handleResolveConflict}
+            onCancel={() => setMergeConflict(null)}
+          />
+        )}
       </div>
 
       {/* Content Processor (hidden utility) */}
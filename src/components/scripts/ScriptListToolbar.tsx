@@ -0,0 +1,67 @@
+/**
+ * Script List Toolbar
+ *
+ * Sort and status filter for the script sidebar. Changing either starts the
+ * paginated list again from the first page (cursors only hold for the sort
+ * they were issued for).
+ */
+
+// Context7: consulted for react
+import React from 'react';
+import type { ScriptListOptions, ScriptSortField } from '../../types/scriptComponent';
+import { SCRIPT_STATUSES, SCRIPT_STATUS_LABELS, isScriptStatus } from '../../lib/workflow/scriptStatusWorkflow';
+
+export type ScriptListView = Required<Pick<ScriptListOptions, 'sortBy' | 'sortDirection' | 'statuses'>>;
+
+export interface ScriptListToolbarProps {
+  view: ScriptListView;
+  onChange: (view: ScriptListView) => void;
+}
+
+const SORT_LABELS: Record<ScriptSortField, string> = {
+  updated_at: 'Last edited',
+  title: 'Title',
+  script_status: 'Status',
+  word_count: 'Word count'
+};
+
+export const ScriptListToolbar: React.FC<ScriptListToolbarProps> = ({ view, onChange }) => {
+  const selectedStatus = view.statuses[0] ?? '';
+
+  return (
+    <div className="flex gap-1 mb-4 text-xs" data-testid="script-list-toolbar">
+      <select
+        value={view.sortBy}
+        onChange={event => onChange({ ...view, sortBy: event.target.value as ScriptSortField })}
+        aria-label="Sort scripts by"
+        className="flex-1 px-1 py-1 border rounded"
+        data-testid="script-sort-field"
+      >
+        {(Object.keys(SORT_LABELS) as ScriptSortField[]).map(field => (
+          <option key={field} value={field}>{SORT_LABELS[field]}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => onChange({ ...view, sortDirection: view.sortDirection === 'asc' ? 'desc' : 'asc' })}
+        aria-label={view.sortDirection === 'asc' ? 'Sort ascending' : 'Sort descending'}
+        className="px-2 py-1 border rounded hover:bg-gray-50"
+        data-testid="script-sort-direction"
+      >
+        {view.sortDirection === 'asc' ? '↑' : '↓'}
+      </button>
+      <select
+        value={selectedStatus}
+        onChange={event => onChange({ ...view, statuses: isScriptStatus(event.target.value) ? [event.target.value] : [] })}
+        aria-label="Filter scripts by status"
+        className="flex-1 px-1 py-1 border rounded"
+        data-testid="script-status-filter"
+      >
+        <option value="">All statuses</option>
+        {SCRIPT_STATUSES.map(status => (
+          <option key={status} value={status}>{SCRIPT_STATUS_LABELS[status]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
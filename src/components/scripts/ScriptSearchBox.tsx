@@ -0,0 +1,116 @@
+/**
+ * Script Search Box
+ *
+ * Sidebar search over script titles and component text. Queries are
+ * debounced, responses that arrive after a newer query are dropped, and
+ * each hit shows its script, component number and highlighted snippet.
+ * Choosing a hit hands it to onSelect, which opens the script at that
+ * component.
+ */
+
+// Context7: consulted for react
+import React, { useEffect, useRef, useState } from 'react';
+import type { ScriptSearchHit } from '../../types/scriptComponent';
+import { parseHighlightedSnippet } from '../../lib/content/searchHighlight';
+
+export interface ScriptSearchBoxProps {
+  search: (query: string) => Promise<ScriptSearchHit[]>;
+  onSelect: (hit: ScriptSearchHit) => void;
+  debounceMs?: number;
+}
+
+export const ScriptSearchBox: React.FC<ScriptSearchBoxProps> = ({
+  search,
+  onSelect,
+  debounceMs = 300
+}) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<ScriptSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequestRef = useRef(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      latestRequestRef.current++;
+      setHits([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const requestId = ++latestRequestRef.current;
+      setIsSearching(true);
+      setError(null);
+      try {
+        const results = await search(trimmed);
+        if (requestId === latestRequestRef.current) setHits(results);
+      } catch (searchError) {
+        if (requestId === latestRequestRef.current) {
+          setHits([]);
+          setError(searchError instanceof Error ? searchError.message : 'Search failed');
+        }
+      } finally {
+        if (requestId === latestRequestRef.current) setIsSearching(false);
+      }
+    }, debounceMs);
+
+    return () => clearTimeout(timer);
+  }, [query, search, debounceMs]);
+
+  const handleSelect = (hit: ScriptSearchHit) => {
+    onSelect(hit);
+    setQuery('');
+  };
+
+  return (
+    <div className="script-search mb-4" data-testid="script-search">
+      <input
+        type="search"
+        value={query}
+        onChange={event => setQuery(event.target.value)}
+        placeholder="Search scripts..."
+        aria-label="Search scripts"
+        className="w-full px-3 py-2 border rounded text-sm"
+        data-testid="script-search-input"
+      />
+
+      {isSearching && <div className="mt-1 text-xs text-gray-500">Searching...</div>}
+
+      {error && <div className="mt-1 text-xs text-red-600" role="alert">{error}</div>}
+
+      {query.trim() && !isSearching && !error && hits.length === 0 && (
+        <div className="mt-1 text-xs text-gray-500" data-testid="script-search-empty">No matches</div>
+      )}
+
+      {hits.length > 0 && (
+        <ul className="mt-1 border rounded bg-white text-xs max-h-80 overflow-y-auto" data-testid="script-search-results">
+          {hits.map(hit => (
+            <li key={`${hit.script_id}-${hit.component_id ?? 'title'}`}>
+              <button
+                type="button"
+                onClick={() => handleSelect(hit)}
+                className="w-full text-left px-2 py-1 border-b last:border-b-0 hover:bg-gray-50"
+                data-testid={`script-search-hit-${hit.component_id ?? hit.script_id}`}
+              >
+                <div className="font-medium text-gray-700">
+                  {hit.script_title}
+                  {hit.component_index !== null && (
+                    <span className="ml-1 text-gray-500">· Component {hit.component_index}</span>
+                  )}
+                </div>
+                <div className="text-gray-600">
+                  {parseHighlightedSnippet(hit.snippet).map((segment, index) => segment.highlighted
+                    ? <mark key={index}>{segment.text}</mark>
+                    : <React.Fragment key={index}>{segment.text}</React.Fragment>)}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+/**
+ * Script Status Control
+ *
+ * Status badge for the script sidebar that doubles as the workflow control:
+ * it offers only the transitions the current user's role may make from the
+ * current status, and asks for a reason on backward moves. The change itself
+ * goes through onTransition (transition_script_status), which re-checks it.
+ */
+
+// Context7: consulted for react
+import React, { useState } from 'react';
+import type { ScriptStatus } from '../../types/scriptComponent';
+import type { UserRole } from '../../lib/supabase';
+import {
+  SCRIPT_STATUS_LABELS,
+  getAllowedTransitions,
+  type ScriptStatusTransition
+} from '../../lib/workflow/scriptStatusWorkflow';
+
+export interface ScriptStatusControlProps {
+  scriptId: string;
+  status: ScriptStatus;
+  role: UserRole | null;
+  onTransition: (scriptId: string, toStatus: ScriptStatus, reason?: string) => Promise<void>;
+}
+
+const STATUS_COLORS: Record<ScriptStatus, { background: string; color: string }> = {
+  draft: { background: '#dbeafe', color: '#1e40af' },
+  in_editing: { background: '#fef3c7', color: '#92400e' },
+  client_review: { background: '#fdf2f8', color: '#be185d' },
+  approved: { background: '#dcfce7', color: '#166534' },
+  published: { background: '#dcfce7', color: '#166534' }
+};
+
+export const ScriptStatusControl: React.FC<ScriptStatusControlProps> = ({
+  scriptId,
+  status,
+  role,
+  onTransition
+}) => {
+  const [pending, setPending] = useState<ScriptStatusTransition | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transitions = getAllowedTransitions(status, role);
+  const badgeStyle: React.CSSProperties = {
+    ...STATUS_COLORS[status],
+    padding: '2px 8px',
+    borderRadius: '12px',
+    fontSize: '12px',
+    fontWeight: '500',
+    border: 'none'
+  };
+
+  const apply = async (transition: ScriptStatusTransition, transitionReason?: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onTransition(scriptId, transition.to, transitionReason);
+      setPending(null);
+      setReason('');
+    } catch (transitionError) {
+      setError(transitionError instanceof Error ? transitionError.message : 'Failed to change status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = (to: string) => {
+    const transition = transitions.find(t => t.to === to);
+    if (!transition) return;
+    if (transition.requiresReason) {
+      setPending(transition);
+      return;
+    }
+    apply(transition);
+  };
+
+  // Clicks must not select the script card the control sits in
+  return (
+    <span onClick={event => event.stopPropagation()} data-testid={`script-status-${scriptId}`}>
+      {transitions.length === 0 ? (
+        <span style={badgeStyle}>{SCRIPT_STATUS_LABELS[status]}</span>
+      ) : (
+        <select
+          value={pending?.to ?? status}
+          onChange={event => handleSelect(event.target.value)}
+          disabled={isSaving}
+          aria-label="Script status"
+          style={{ ...badgeStyle, cursor: 'pointer' }}
+          data-testid={`script-status-select-${scriptId}`}
+        >
+          <option value={status}>{SCRIPT_STATUS_LABELS[status]}</option>
+          {transitions.map(transition => (
+            <option key={transition.to} value={transition.to}>
+              → {SCRIPT_STATUS_LABELS[transition.to]}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {pending && (
+        <span style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+          <input
+            type="text"
+            value={reason}
+            onChange={event => setReason(event.target.value)}
+            placeholder={`Why back to ${SCRIPT_STATUS_LABELS[pending.to].toLowerCase()}?`}
+            style={{ flex: 1, fontSize: '12px', padding: '2px 6px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            data-testid={`script-status-reason-${scriptId}`}
+          />
+          <button
+            type="button"
+            onClick={() => apply(pending, reason)}
+            disabled={isSaving || !reason.trim()}
+            style={{ fontSize: '12px', padding: '2px 8px' }}
+            data-testid={`script-status-confirm-${scriptId}`}
+          >
+            {isSaving ? 'Saving...' : 'Confirm'}
+          </button>
+          <button
+            type="button"
+            onClick={() => { setPending(null); setReason(''); }}
+            style={{ fontSize: '12px', padding: '2px 8px' }}
+          >
+            Cancel
+          </button>
+        </span>
+      )}
+
+      {error && (
+        <span role="alert" style={{ display: 'block', marginTop: '4px', fontSize: '12px', color: '#dc2626' }}>
+          {error}
+        </span>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * Script Template Picker
+ *
+ * Shown by "New Script": start from a blank script or from a template. When
+ * a template is chosen its {{placeholder}} tokens are listed as fields, and
+ * the values are passed to onCreate so the template copy can fill them in.
+ */
+
+// Context7: consulted for react
+import React, { useEffect, useState } from 'react';
+import type { ScriptTemplate, TemplateVariables } from '../../types/scriptComponent';
+import { formatPlaceholderLabel } from '../../lib/content/templatePlaceholders';
+
+export interface ScriptTemplatePickerProps {
+  loadTemplates: () => Promise<ScriptTemplate[]>;
+  loadPlaceholders: (templateId: string) => Promise<string[]>;
+  onCreate: (templateId: string | null, variables: TemplateVariables) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const ScriptTemplatePicker: React.FC<ScriptTemplatePickerProps> = ({
+  loadTemplates,
+  loadPlaceholders,
+  onCreate,
+  onCancel
+}) => {
+  const [templates, setTemplates] = useState<ScriptTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [variables, setVariables] = useState<TemplateVariables>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTemplates()
+      .then(result => { if (!cancelled) setTemplates(result); })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load templates');
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    setPlaceholders([]);
+    setVariables({});
+    if (!selectedTemplateId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadPlaceholders(selectedTemplateId)
+      .then(result => { if (!cancelled) setPlaceholders(result); })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load template');
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [selectedTemplateId, loadPlaceholders]);
+
+  const missingValues = placeholders.some(name => !variables[name]?.trim());
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const trimmed = Object.fromEntries(placeholders.map(name => [name, variables[name].trim()]));
+      await onCreate(selectedTemplateId, trimmed);
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create script');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="script-template-picker p-3 border rounded bg-white text-sm" data-testid="script-template-picker">
+      <div className="mb-2 font-medium text-gray-700">New Script</div>
+
+      <div role="radiogroup" aria-label="Start from" className="flex flex-col gap-1 mb-3">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="script-template"
+            checked={selectedTemplateId === null}
+            onChange={() => setSelectedTemplateId(null)}
+            data-testid="template-option-blank"
+          />
+          Blank script
+        </label>
+        {templates.map(template => (
+          <label key={template.script_id} className="flex items-center gap-2" title={template.description}>
+            <input
+              type="radio"
+              name="script-template"
+              checked={selectedTemplateId === template.script_id}
+              onChange={() => setSelectedTemplateId(template.script_id)}
+              data-testid={`template-option-${template.script_id}`}
+            />
+            {template.title}
+          </label>
+        ))}
+      </div>
+
+      {placeholders.map(name => (
+        <label key={name} className="block mb-2 text-xs text-gray-600">
+          {formatPlaceholderLabel(name)}
+          <input
+            type="text"
+            value={variables[name] ?? ''}
+            onChange={event => setVariables(prev => ({ ...prev, [name]: event.target.value }))}
+            className="block w-full mt-1 px-2 py-1 border rounded text-sm"
+            data-testid={`template-variable-${name}`}
+          />
+        </label>
+      ))}
+
+      {isLoading && <div className="mb-2 text-xs text-gray-500">Loading templates...</div>}
+
+      {error && (
+        <div className="mb-2 text-xs text-red-600" role="alert">{error}</div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isLoading || isCreating || missingValues}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:bg-gray-300"
+          data-testid="create-script-button"
+        >
+          {isCreating ? 'Creating...' : 'Create Script'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 bg-gray-500 text-white rounded text-xs hover:bg-gray-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+/**
+ * useOfflineQueue Hook
+ *
+ * React hook that follows a ResilientScriptComponentManager's offline queue:
+ * how many writes are waiting, which ones failed, and whether a replay is
+ * running, with actions to replay, retry failures or discard them.
+ */
+
+// Context7: consulted for react
+import { useState, useEffect, useCallback } from 'react';
+import type { ResilientScriptComponentManager } from '../lib/database/scriptComponentManagerWithResilience';
+import type { OutboxStatus } from '../lib/database/componentOutbox';
+
+export interface UseOfflineQueueReturn {
+  status: OutboxStatus;
+  replay: () => Promise<void>;
+  retryFailed: () => Promise<void>;
+  discardFailed: () => Promise<void>;
+}
+
+/**
+ * Hook for showing and acting on the offline write queue
+ */
+export function useOfflineQueue(manager: ResilientScriptComponentManager): UseOfflineQueueReturn {
+  const [status, setStatus] = useState<OutboxStatus>(() => manager.getOfflineQueueStatus());
+
+  // Subscribing also delivers the current status
+  useEffect(() => manager.subscribeToOfflineQueue(setStatus), [manager]);
+
+  const replay = useCallback(() => manager.replayOfflineQueue(), [manager]);
+  const retryFailed = useCallback(() => manager.retryFailedOperations(), [manager]);
+  const discardFailed = useCallback(() => manager.discardFailedOperations(), [manager]);
+
+  return {
+    status,
+    replay,
+    retryFailed,
+    discardFailed
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * useWorkspaceProject Hook
+ *
+ * Resolves the workspace's project code (e.g. EAV023) to the project's ID,
+ * which scopes the script list and its offline copy. The last ID resolved
+ * for a code is remembered, so the workspace still opens - and finds its
+ * offline copy - when the database cannot be reached.
+ */
+
+// Context7: consulted for react
+import { useState, useEffect, useCallback } from 'react';
+import type { ScriptComponentManager } from '../lib/database/scriptComponentManager';
+
+export type WorkspaceProject =
+  | { status: 'loading' }
+  | { status: 'ready'; projectId: string }
+  | { status: 'error'; error: string };
+
+export interface UseWorkspaceProjectReturn {
+  project: WorkspaceProject;
+  retry: () => void;
+}
+
+const STORAGE_PREFIX = 'eav-workspace-project:';
+
+function readRememberedProjectId(projectCode: string): string | null {
+  try {
+    return globalThis.localStorage?.getItem(`${STORAGE_PREFIX}${projectCode}`) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function rememberProjectId(projectCode: string, projectId: string): void {
+  try {
+    globalThis.localStorage?.setItem(`${STORAGE_PREFIX}${projectCode}`, projectId);
+  } catch {
+    // Storage unavailable (private mode): the next offline start cannot open the workspace
+  }
+}
+
+const ready = (projectId: string) => (prev: WorkspaceProject): WorkspaceProject =>
+  prev.status === 'ready' && prev.projectId === projectId ? prev : { status: 'ready', projectId };
+
+/**
+ * Hook for the project a workspace is scoped to; pass a null code until there is a signed-in user
+ */
+export function useWorkspaceProject(manager: ScriptComponentManager, projectCode: string | null): UseWorkspaceProjectReturn {
+  const [project, setProject] = useState<WorkspaceProject>(() => {
+    const remembered = projectCode ? readRememberedProjectId(projectCode) : null;
+    return remembered ? { status: 'ready', projectId: remembered } : { status: 'loading' };
+  });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!projectCode) {
+      return;
+    }
+
+    const remembered = readRememberedProjectId(projectCode);
+    if (remembered) {
+      setProject(ready(remembered));
+    }
+
+    let cancelled = false;
+    manager.getProjectIdByCode(projectCode).then(result => {
+      if (cancelled) return;
+      if (result.projectId) {
+        rememberProjectId(projectCode, result.projectId);
+        setProject(ready(result.projectId));
+      } else {
+        // A remembered ID keeps the workspace open while the database is unreachable
+        setProject(prev => prev.status === 'ready'
+          ? prev
+          : { status: 'error', error: result.error ?? `Project ${projectCode} not found` });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manager, projectCode, attempt]);
+
+  const retry = useCallback(() => {
+    setProject({ status: 'loading' });
+    setAttempt(count => count + 1);
+  }, []);
+
+  return {
+    project,
+    retry
+  };
+}
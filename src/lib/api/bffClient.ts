@@ -0,0 +1,316 @@
+/**
+ * BFF API Client
+ *
+ * GENERATED FILE - do not edit by hand. Source: EAV Orchestrator BFF OpenAPI
+ * 3.1.0 document (/api/openapi.json). Regenerate with
+ * `npm run generate:api-client` after changing a route contract in src/server.
+ */
+
+// Schemas
+
+export interface CircuitBreakerReport {
+  clientId: string;
+  samples: Array<{
+    source: 'script-component-manager' | 'custom-supabase-provider';
+    breaker: 'create' | 'update' | 'delete' | 'restore' | 'getComponents' | 'getComponent' | 'bulkDelete' | 'updatePositions' | 'batchUpdate' | 'restoreVersion' | 'transfer' | 'setStatus' | 'listScripts' | 'loadInitialState' | 'setupRealtime' | 'persistUpdate';
+    state: 'closed' | 'open' | 'half_open';
+    events: {
+      fire?: number;
+      success?: number;
+      failure?: number;
+      reject?: number;
+      timeout?: number;
+      fallback?: number;
+    };
+    latenciesMs?: number[];
+  }>;
+}
+
+export interface ErrorResponse {
+  error: string;
+  code?: string;
+  requestId?: string;
+}
+
+export interface Job {
+  id: string;
+  type: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  message?: string;
+  result?: unknown;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobEvent {
+  type: 'snapshot' | 'progress' | 'completed' | 'failed' | 'cancelled';
+  job: {
+    id: string;
+    type: string;
+    status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+    progress: number;
+    message?: string;
+    result?: unknown;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+  };
+}
+
+export interface JobList {
+  jobs: Array<{
+    id: string;
+    type: string;
+    status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+    progress: number;
+    message?: string;
+    result?: unknown;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+  }>;
+}
+
+export interface RateLimitResponse {
+  error: string;
+  policy: string;
+  limit: number;
+  /** Seconds until the window resets */
+  retryAfter: number;
+  retryAfterMs: number;
+  /** ISO timestamp when the window resets */
+  resetAt: string;
+  requestId?: string;
+}
+
+export interface SynthesizeRequest {
+  componentId: string;
+  voiceId: string;
+  modelId?: string;
+  voiceSettings?: {
+    stability: number;
+    similarityBoost: number;
+    style?: number;
+  };
+}
+
+export interface TtsQuotaExceeded {
+  error: string;
+  scope: 'user' | 'project';
+  used: number;
+  limit: number;
+  requested: number;
+  resetAt: string;
+  requestId?: string;
+}
+
+export interface ValidationErrorResponse {
+  error: 'Invalid request';
+  issues: Array<{
+    path: string;
+    message: string;
+  }>;
+  requestId?: string;
+}
+
+export interface VersionPayload {
+  /** Application version from the build manifest */
+  version: string;
+  /** Highest applied migration number */
+  schemaVersion: number;
+  /** Oldest client build the server still accepts */
+  minClientVersion?: string;
+  timestamp: string;
+  build: string;
+  builtAt?: string;
+}
+
+export interface VoiceList {
+  voices: Array<{
+    voiceId: string;
+    name: string;
+    category?: string;
+    previewUrl?: string;
+  }>;
+}
+
+// Client
+
+export interface BffClientOptions {
+  /** Origin of the BFF - defaults to same-origin */
+  baseUrl?: string;
+  /** Supabase access token for authenticated operations */
+  getAccessToken?: () => Promise<string | undefined>;
+}
+
+export interface MutationOptions {
+  /** Reuse the same key when retrying so the BFF replays instead of re-running */
+  idempotencyKey?: string;
+}
+
+/**
+ * Non-2xx response from the BFF; body is the parsed error payload when JSON
+ */
+export class BffApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(typeof body === 'object' && body !== null && 'error' in body
+      ? String(body.error)
+      : `BFF request failed with status ${status}`);
+    this.name = 'BffApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+interface RequestSpec {
+  method: string;
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  idempotencyKey?: string;
+  auth: boolean;
+  response: 'json' | 'blob' | 'text' | 'events' | 'empty';
+}
+
+/**
+ * Parse a text/event-stream body into the JSON data of each event. Breaking
+ * out of the loop cancels the underlying request.
+ */
+async function* readEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new globalThis.TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const data = buffer.slice(0, boundary).split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        buffer = buffer.slice(boundary + 2);
+        // Comment-only frames (heartbeats) and retry hints carry no data
+        if (data) yield JSON.parse(data) as T;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+export function createBffClient(options: BffClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? '').replace(/\/+$/, '');
+
+  async function request<T>(spec: RequestSpec): Promise<T> {
+    const search = new URLSearchParams();
+    Object.entries(spec.query ?? {}).forEach(([name, value]) => {
+      if (value !== undefined) search.set(name, String(value));
+    });
+    const queryString = search.toString();
+
+    const headers: Record<string, string> = {};
+    if (spec.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (spec.idempotencyKey) headers['Idempotency-Key'] = spec.idempotencyKey;
+    if (spec.auth) {
+      const token = await options.getAccessToken?.();
+      if (token) headers.Authorization = `Bearer ${token}`;
+    }
+
+    const response = await globalThis.fetch(`${baseUrl}${spec.path}${queryString ? `?${queryString}` : ''}`, {
+      method: spec.method,
+      headers,
+      body: spec.body === undefined ? undefined : JSON.stringify(spec.body),
+    });
+
+    if (!response.ok) {
+      throw new BffApiError(response.status, await response.json().catch(() => undefined));
+    }
+
+    switch (spec.response) {
+      case 'json':
+        return await response.json() as T;
+      case 'blob':
+        return await response.blob() as T;
+      case 'text':
+        return await response.text() as T;
+      case 'events':
+        return readEvents(response.body!) as T;
+      default:
+        return undefined as T;
+    }
+  }
+
+  return {
+    /** Deployed application and database schema version */
+    getVersion: (): Promise<VersionPayload> =>
+      request({ method: 'GET', path: '/api/version', auth: false, response: 'json' }),
+    /** Voices available to the ElevenLabs account */
+    listVoices: (): Promise<VoiceList> =>
+      request({ method: 'GET', path: '/api/elevenlabs/voices', auth: true, response: 'json' }),
+    /** Synthesize a script component and stream the audio */
+    synthesizeSpeech: (body: SynthesizeRequest, options?: MutationOptions): Promise<Blob> =>
+      request({ method: 'POST', path: '/api/elevenlabs/synthesize', body, idempotencyKey: options?.idempotencyKey, auth: true, response: 'blob' }),
+    /** Report client circuit-breaker deltas for /metrics */
+    reportCircuitBreakers: (body: CircuitBreakerReport, options?: MutationOptions): Promise<void> =>
+      request({ method: 'POST', path: '/api/telemetry/circuit-breakers', body, idempotencyKey: options?.idempotencyKey, auth: true, response: 'empty' }),
+    /** Recent jobs started by the current user */
+    listJobs: (query?: {
+      limit?: number;
+    }): Promise<JobList> =>
+      request({ method: 'GET', path: '/api/jobs', query, auth: true, response: 'json' }),
+    /** Current status of a job */
+    getJob: (params: {
+      jobId: string;
+    }): Promise<Job> =>
+      request({ method: 'GET', path: `/api/jobs/${encodeURIComponent(params.jobId)}`, auth: true, response: 'json' }),
+    /** Cancel a queued or running job */
+    cancelJob: (params: {
+      jobId: string;
+    }, options?: MutationOptions): Promise<Job> =>
+      request({ method: 'DELETE', path: `/api/jobs/${encodeURIComponent(params.jobId)}`, idempotencyKey: options?.idempotencyKey, auth: true, response: 'json' }),
+    /** Server-Sent Events stream of job progress, completion and failure */
+    streamJobEvents: (params: {
+      jobId: string;
+    }): Promise<AsyncIterable<JobEvent>> =>
+      request({ method: 'GET', path: `/api/jobs/${encodeURIComponent(params.jobId)}/events`, auth: true, response: 'events' }),
+    /** Export a script with its ordered components as DOCX, PDF or Markdown */
+    exportScript: (params: {
+      scriptId: string;
+    }, query: {
+      /** Output format */
+      format: 'docx' | 'pdf' | 'md';
+    }): Promise<Blob> =>
+      request({ method: 'GET', path: `/api/scripts/${encodeURIComponent(params.scriptId)}/export`, query, auth: true, response: 'blob' }),
+    /** Render a script export as a background job */
+    startScriptExport: (params: {
+      scriptId: string;
+    }, query: {
+      /** Output format */
+      format: 'docx' | 'pdf' | 'md';
+    }, options?: MutationOptions): Promise<Job> =>
+      request({ method: 'POST', path: `/api/scripts/${encodeURIComponent(params.scriptId)}/exports`, query, idempotencyKey: options?.idempotencyKey, auth: true, response: 'json' }),
+    /** Download the file rendered by a completed export job */
+    downloadScriptExport: (params: {
+      jobId: string;
+    }): Promise<Blob> =>
+      request({ method: 'GET', path: `/api/scripts/exports/${encodeURIComponent(params.jobId)}`, auth: true, response: 'blob' }),
+  };
+}
+
+export type BffClient = ReturnType<typeof createBffClient>;
@@ -29,6 +29,7 @@ import { withRetry } from '../resilience/retryWithBackoff';
 // Context7: consulted for opossum
 import CircuitBreaker from 'opossum';
 import { IndexedDBQueue } from '../database/indexedDBQueue';
+import { circuitBreakerTelemetry } from '../monitoring/circuitBreakerTelemetry';
 
 // Define CircuitBreakerOptions type based on opossum documentation
 interface CircuitBreakerOptions {
@@ -370,6 +371,10 @@ export class CustomSupabaseProvider {
   // Circuit Breaker Management Methods (required by tests)
   
   private setupCircuitBreakerEvents(): void {
+    circuitBreakerTelemetry.track('custom-supabase-provider', 'loadInitialState', this.loadInitialStateBreaker);
+    circuitBreakerTelemetry.track('custom-supabase-provider', 'setupRealtime', this.setupRealtimeBreaker);
+    circuitBreakerTelemetry.track('custom-supabase-provider', 'persistUpdate', this.persistUpdateBreaker);
+
     // Set up event handlers for all circuit breakers
     [this.loadInitialStateBreaker, this.setupRealtimeBreaker, this.persistUpdateBreaker].forEach(breaker => {
       breaker.on('open', () => {
@@ -0,0 +1,118 @@
+/**
+ * Script Budgeting
+ *
+ * Word count and runtime of a script measured against its targets
+ * (video_scripts.target_word_count and the video's target_duration_seconds),
+ * per component, per component_type and in total. Counts use the same
+ * calculateWordCount / estimateDuration as the editor and the exports.
+ *
+ * The script total duration is estimated from the total word count rather
+ * than by summing rounded per-component durations, so it matches what the
+ * export reports for the same script.
+ */
+
+import { calculateWordCount, estimateDuration } from './content-processor';
+import type { ScriptComponent } from '../../types/scriptComponent';
+
+export const COMPONENT_TYPES = ['intro', 'main', 'transition', 'conclusion'] as const;
+
+export type ComponentType = typeof COMPONENT_TYPES[number];
+
+export const COMPONENT_TYPE_LABELS: Record<ComponentType, string> = {
+  intro: 'Intro',
+  main: 'Main',
+  transition: 'Transition',
+  conclusion: 'Conclusion'
+};
+
+export interface ScriptBudgetTargets {
+  targetWordCount: number | null;
+  targetDurationSeconds: number | null;
+}
+
+export interface ComponentBudget {
+  componentId: string;
+  type: ComponentType;
+  wordCount: number;
+  durationSeconds: number;
+}
+
+export interface ComponentTypeBudget {
+  type: ComponentType;
+  count: number;
+  wordCount: number;
+  durationSeconds: number;
+}
+
+export interface ScriptBudget {
+  components: ComponentBudget[];
+  byType: ComponentTypeBudget[]; // Every type, in COMPONENT_TYPES order
+  wordCount: number;
+  durationSeconds: number;
+  targets: ScriptBudgetTargets;
+  overWordTarget: boolean;
+  overDurationTarget: boolean;
+}
+
+export function toComponentType(value: string | null | undefined): ComponentType {
+  return COMPONENT_TYPES.includes(value as ComponentType) ? value as ComponentType : 'main';
+}
+
+export function calculateScriptBudget(
+  components: ReadonlyArray<Pick<ScriptComponent, 'component_id' | 'component_type' | 'content_plain'>>,
+  targets: ScriptBudgetTargets = { targetWordCount: null, targetDurationSeconds: null }
+): ScriptBudget {
+  const componentBudgets = components.map((component): ComponentBudget => {
+    const wordCount = calculateWordCount(component.content_plain ?? '');
+    return {
+      componentId: component.component_id,
+      type: toComponentType(component.component_type),
+      wordCount,
+      durationSeconds: estimateDuration(wordCount)
+    };
+  });
+
+  const byType = COMPONENT_TYPES.map((type): ComponentTypeBudget => {
+    const ofType = componentBudgets.filter(component => component.type === type);
+    const wordCount = ofType.reduce((total, component) => total + component.wordCount, 0);
+    return { type, count: ofType.length, wordCount, durationSeconds: estimateDuration(wordCount) };
+  });
+
+  const wordCount = componentBudgets.reduce((total, component) => total + component.wordCount, 0);
+  const durationSeconds = estimateDuration(wordCount);
+
+  return {
+    components: componentBudgets,
+    byType,
+    wordCount,
+    durationSeconds,
+    targets,
+    overWordTarget: targets.targetWordCount !== null && wordCount > targets.targetWordCount,
+    overDurationTarget: targets.targetDurationSeconds !== null && durationSeconds > targets.targetDurationSeconds
+  };
+}
+
+/**
+ * Fraction of a target used (1 = on target, above 1 = over). Null without a target
+ */
+export function budgetProgress(value: number, target: number | null): number | null {
+  if (target === null || target <= 0) return null;
+  return value / target;
+}
+
+/**
+ * Seconds as m:ss
+ */
+export function formatDuration(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Warning shown when the script runs longer than its video allows
+ */
+export function getBudgetWarning(budget: ScriptBudget): string | null {
+  const target = budget.targets.targetDurationSeconds;
+  if (!budget.overDurationTarget || target === null) return null;
+  return `Script runs ${formatDuration(budget.durationSeconds)}, ${formatDuration(budget.durationSeconds - target)} over the video's ${formatDuration(target)} target`;
+}
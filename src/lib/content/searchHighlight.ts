@@ -0,0 +1,34 @@
+/**
+ * Search Snippet Highlighting
+ *
+ * search_scripts marks matched words in its snippets with <mark>…</mark>
+ * (ts_headline StartSel/StopSel). The snippet text is user content, so it is
+ * split into plain segments here and rendered as text nodes rather than
+ * injected as HTML.
+ */
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+const MARK_PATTERN = /<mark>([\s\S]*?)<\/mark>/g;
+
+export function parseHighlightedSnippet(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(MARK_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,53 @@
+/**
+ * Script Template Placeholders
+ *
+ * Templates mark product-specific wording with {{name}} tokens inside their
+ * TipTap content (e.g. "Welcome to {{product_name}}"). The substitution itself
+ * happens in the database (fill_template_placeholders) so a template copy is a
+ * single transaction; this module only finds the tokens, so the picker knows
+ * which variables to ask for.
+ */
+
+import type { JSONContent } from './content-processor';
+
+// Must match the literal '{{' || key || '}}' replacement in fill_template_placeholders
+export const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{([A-Za-z0-9_]+)\}\}/g;
+
+/**
+ * Placeholder names used in the given text or TipTap documents, in order of
+ * first appearance and without duplicates
+ */
+export function extractTemplatePlaceholders(...sources: Array<string | object | null | undefined>): string[] {
+  const names = new Set<string>();
+
+  const visit = (node: JSONContent) => {
+    if (typeof node.text === 'string') {
+      collect(node.text);
+    }
+    node.content?.forEach(visit);
+  };
+
+  const collect = (text: string) => {
+    for (const match of text.matchAll(TEMPLATE_PLACEHOLDER_PATTERN)) {
+      names.add(match[1]);
+    }
+  };
+
+  for (const source of sources) {
+    if (typeof source === 'string') {
+      collect(source);
+    } else if (source) {
+      visit(source as JSONContent);
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Human readable label for a placeholder name ("product_name" → "Product name")
+ */
+export function formatPlaceholderLabel(name: string): string {
+  const words = name.replace(/_+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
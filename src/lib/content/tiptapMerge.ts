@@ -0,0 +1,393 @@
+/**
+ * Three-way merge for TipTap documents
+ *
+ * Resolves OptimisticLockError conflicts on component content. Given the
+ * content both sides started from (base), the local edit (client) and what is
+ * now stored (server), top-level blocks are aligned with diff3. Where both
+ * sides touched the same block the merge descends into it: nested blocks
+ * (lists, quotes) are merged the same way, and inline content is merged word
+ * by word with marks preserved.
+ *
+ * Changes to different blocks - or different words of the same paragraph -
+ * merge cleanly. Anything else becomes a ConflictArea on the top-level block
+ * range; the merged document holds the server side there until resolved.
+ */
+
+import type { JSONContent } from './content-processor';
+import type { ConflictArea } from '../../types/scriptComponent';
+
+export interface TipTapMergeResult {
+  // Merged document; unresolved areas contain the server side
+  content: JSONContent;
+  conflictAreas: ConflictArea[];
+  clean: boolean;
+}
+
+export type ConflictChoice = 'client' | 'server' | 'both';
+
+// Payload of ConflictArea client/server/base values: the block range on that side
+export interface ConflictAreaValue extends Record<string, unknown> {
+  nodes: JSONContent[];
+}
+
+type Hunk<T> =
+  | { kind: 'stable'; value: T }
+  | { kind: 'unstable'; base: T[]; client: T[]; server: T[] };
+
+// Inline content is merged as a sequence of words, whitespace and inline nodes
+type InlineToken =
+  | { kind: 'text'; text: string; marks?: JSONContent['marks'] }
+  | { kind: 'node'; node: JSONContent };
+
+const CONFLICT_PATH = /^content\[(\d+)\]$/;
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Order-independent serialisation. Content read back from jsonb columns has
+ * its keys reordered, so plain JSON.stringify would see phantom changes
+ */
+function stableKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableKey).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key, entry]) => entry !== undefined && !(key === 'marks' && Array.isArray(entry) && entry.length === 0))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableKey(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameSequence<T>(a: T[], b: T[], key: (value: T) => string): boolean {
+  return a.length === b.length && a.every((value, index) => key(value) === key(b[index]));
+}
+
+// ============================================================================
+// DIFF3
+// ============================================================================
+
+/**
+ * Longest common subsequence between base and other, as base index -> other index
+ */
+function lcsMatches(base: string[], other: string[]): Map<number, number> {
+  const rows = base.length + 1;
+  const cols = other.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      table[i * cols + j] = base[i] === other[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      matches.set(i, j);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Split three sequences into stable runs (unchanged on both sides) and the
+ * unstable chunks between them
+ */
+function diff3<T>(base: T[], client: T[], server: T[], key: (value: T) => string): Hunk<T>[] {
+  const baseKeys = base.map(key);
+  const clientMatches = lcsMatches(baseKeys, client.map(key));
+  const serverMatches = lcsMatches(baseKeys, server.map(key));
+
+  const hunks: Hunk<T>[] = [];
+  let b = 0;
+  let c = 0;
+  let s = 0;
+
+  for (;;) {
+    let anchor = b;
+    while (anchor < base.length && !(clientMatches.has(anchor) && serverMatches.has(anchor))) {
+      anchor++;
+    }
+
+    const clientEnd = anchor < base.length ? clientMatches.get(anchor)! : client.length;
+    const serverEnd = anchor < base.length ? serverMatches.get(anchor)! : server.length;
+
+    if (anchor > b || clientEnd > c || serverEnd > s) {
+      hunks.push({
+        kind: 'unstable',
+        base: base.slice(b, anchor),
+        client: client.slice(c, clientEnd),
+        server: server.slice(s, serverEnd)
+      });
+    }
+
+    if (anchor === base.length) {
+      return hunks;
+    }
+
+    hunks.push({ kind: 'stable', value: client[clientEnd] });
+    b = anchor + 1;
+    c = clientEnd + 1;
+    s = serverEnd + 1;
+  }
+}
+
+/**
+ * Take whichever side changed; undefined when both changed differently
+ */
+function pickChangedSide<T>(base: T[], client: T[], server: T[], key: (value: T) => string): T[] | undefined {
+  if (sameSequence(client, base, key)) return server;
+  if (sameSequence(server, base, key)) return client;
+  if (sameSequence(client, server, key)) return client;
+  return undefined;
+}
+
+// ============================================================================
+// INLINE MERGE
+// ============================================================================
+
+function isInlineContainer(node: JSONContent): boolean {
+  return Array.isArray(node.content) && node.content.length > 0 && node.content.every(child =>
+    child.type === 'text' || child.type === 'hardBreak'
+  );
+}
+
+function tokenizeInline(nodes: JSONContent[]): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      for (const part of (node.text ?? '').split(/(\s+)/)) {
+        if (part) tokens.push({ kind: 'text', text: part, marks: node.marks });
+      }
+    } else {
+      tokens.push({ kind: 'node', node });
+    }
+  }
+  return tokens;
+}
+
+function joinInline(tokens: InlineToken[]): JSONContent[] {
+  const nodes: JSONContent[] = [];
+  for (const token of tokens) {
+    if (token.kind === 'node') {
+      nodes.push(token.node);
+      continue;
+    }
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text' && stableKey(previous.marks ?? []) === stableKey(token.marks ?? [])) {
+      previous.text += token.text;
+    } else {
+      nodes.push({ type: 'text', text: token.text, ...(token.marks?.length ? { marks: token.marks } : {}) });
+    }
+  }
+  return nodes;
+}
+
+function mergeInline(base: JSONContent[], client: JSONContent[], server: JSONContent[]): JSONContent[] | undefined {
+  const merged: InlineToken[] = [];
+  for (const hunk of diff3(tokenizeInline(base), tokenizeInline(client), tokenizeInline(server), stableKey)) {
+    if (hunk.kind === 'stable') {
+      merged.push(hunk.value);
+      continue;
+    }
+    const side = pickChangedSide(hunk.base, hunk.client, hunk.server, stableKey);
+    if (!side) return undefined;
+    merged.push(...side);
+  }
+  return joinInline(merged);
+}
+
+// ============================================================================
+// BLOCK MERGE
+// ============================================================================
+
+/**
+ * Merge one node edited on both sides; undefined when the edits collide
+ */
+function mergeNode(base: JSONContent, client: JSONContent, server: JSONContent): JSONContent | undefined {
+  if (base.type !== client.type || base.type !== server.type) return undefined;
+
+  // Node attributes (heading level, list start...) merge as a single value
+  const attrs = pickChangedSide([base.attrs ?? {}], [client.attrs ?? {}], [server.attrs ?? {}], stableKey);
+  if (!attrs) return undefined;
+  const marks = pickChangedSide([base.marks ?? []], [client.marks ?? []], [server.marks ?? []], stableKey);
+  if (!marks) return undefined;
+
+  const merged: JSONContent = { ...server };
+  if (Object.keys(attrs[0]).length > 0) merged.attrs = attrs[0]; else delete merged.attrs;
+  if (marks[0].length > 0) merged.marks = marks[0]; else delete merged.marks;
+
+  if (base.type === 'text') {
+    const text = pickChangedSide([base.text ?? ''], [client.text ?? ''], [server.text ?? ''], String);
+    if (!text) return undefined;
+    merged.text = text[0];
+    return merged;
+  }
+
+  const baseChildren = base.content ?? [];
+  const clientChildren = client.content ?? [];
+  const serverChildren = server.content ?? [];
+
+  const children = isInlineContainer(base) || isInlineContainer(client) || isInlineContainer(server)
+    ? mergeInline(baseChildren, clientChildren, serverChildren)
+    : mergeBlocks(baseChildren, clientChildren, serverChildren);
+  if (!children) return undefined;
+
+  if (children.length > 0) merged.content = children; else delete merged.content;
+  return merged;
+}
+
+/**
+ * Merge a chunk where both sides changed the same block range: pairwise when
+ * the block structure is unchanged, otherwise not at all
+ */
+function mergeChunk(base: JSONContent[], client: JSONContent[], server: JSONContent[]): JSONContent[] | undefined {
+  if (base.length === 0 || base.length !== client.length || base.length !== server.length) {
+    return undefined;
+  }
+  const merged: JSONContent[] = [];
+  for (let index = 0; index < base.length; index++) {
+    const node = mergeNode(base[index], client[index], server[index]);
+    if (!node) return undefined;
+    merged.push(node);
+  }
+  return merged;
+}
+
+function mergeBlocks(base: JSONContent[], client: JSONContent[], server: JSONContent[]): JSONContent[] | undefined {
+  const merged: JSONContent[] = [];
+  for (const hunk of diff3(base, client, server, stableKey)) {
+    if (hunk.kind === 'stable') {
+      merged.push(hunk.value);
+      continue;
+    }
+    const side = pickChangedSide(hunk.base, hunk.client, hunk.server, stableKey)
+      ?? mergeChunk(hunk.base, hunk.client, hunk.server);
+    if (!side) return undefined;
+    merged.push(...side);
+  }
+  return merged;
+}
+
+function classifyConflict(base: JSONContent[], client: JSONContent[], server: JSONContent[]): ConflictArea['conflictType'] {
+  if (client.length === 0 || server.length === 0) {
+    return 'deletion_conflict';
+  }
+  const sameShape = client.length === server.length && client.every((node, index) =>
+    node.type === server[index].type && (base[index] === undefined || base[index].type === node.type)
+  );
+  return sameShape ? 'text_conflict' : 'structural_conflict';
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Three-way merge of TipTap documents
+ */
+export function mergeTipTapContent(base: JSONContent, client: JSONContent, server: JSONContent): TipTapMergeResult {
+  const content: JSONContent[] = [];
+  const conflictAreas: ConflictArea[] = [];
+
+  for (const hunk of diff3(base.content ?? [], client.content ?? [], server.content ?? [], stableKey)) {
+    if (hunk.kind === 'stable') {
+      content.push(hunk.value);
+      continue;
+    }
+
+    const merged = pickChangedSide(hunk.base, hunk.client, hunk.server, stableKey);
+    if (merged) {
+      content.push(...merged);
+      continue;
+    }
+
+    const addConflict = (baseNodes: JSONContent[], clientNodes: JSONContent[], serverNodes: JSONContent[]) => {
+      conflictAreas.push({
+        path: `content[${content.length}]`,
+        clientValue: { nodes: clientNodes } satisfies ConflictAreaValue,
+        serverValue: { nodes: serverNodes } satisfies ConflictAreaValue,
+        baseValue: { nodes: baseNodes } satisfies ConflictAreaValue,
+        conflictType: classifyConflict(baseNodes, clientNodes, serverNodes)
+      });
+      content.push(...serverNodes);
+    };
+
+    // Same block structure on all sides: merge block by block so one
+    // colliding paragraph does not drag its cleanly merged neighbours along
+    const pairwise = hunk.base.length > 0 && hunk.base.length === hunk.client.length && hunk.base.length === hunk.server.length;
+    if (!pairwise) {
+      addConflict(hunk.base, hunk.client, hunk.server);
+      continue;
+    }
+    hunk.base.forEach((baseNode, index) => {
+      const node = mergeNode(baseNode, hunk.client[index], hunk.server[index]);
+      if (node) {
+        content.push(node);
+      } else {
+        addConflict([baseNode], [hunk.client[index]], [hunk.server[index]]);
+      }
+    });
+  }
+
+  return {
+    content: { ...server, type: server.type ?? 'doc', content },
+    conflictAreas,
+    clean: conflictAreas.length === 0
+  };
+}
+
+/**
+ * Structural equality that ignores key order (e.g. after a jsonb round trip)
+ */
+export function isSameContent(a: JSONContent, b: JSONContent): boolean {
+  return stableKey(a) === stableKey(b);
+}
+
+/**
+ * Apply a choice per conflict area (keyed by path) to a merged document.
+ * Areas without a choice keep the server side
+ */
+export function resolveConflictAreas(
+  merged: JSONContent,
+  conflictAreas: ConflictArea[],
+  choices: Record<string, ConflictChoice>
+): JSONContent {
+  const content = [...(merged.content ?? [])];
+
+  // Right to left so earlier paths stay valid while ranges change length
+  const ordered = [...conflictAreas].sort((a, b) => conflictIndex(b) - conflictIndex(a));
+  for (const area of ordered) {
+    const clientNodes = (area.clientValue as ConflictAreaValue).nodes;
+    const serverNodes = (area.serverValue as ConflictAreaValue).nodes;
+    const choice = choices[area.path] ?? 'server';
+    const replacement = choice === 'client'
+      ? clientNodes
+      : choice === 'both' ? [...clientNodes, ...serverNodes] : serverNodes;
+    content.splice(conflictIndex(area), serverNodes.length, ...replacement);
+  }
+
+  return { ...merged, content };
+}
+
+function conflictIndex(area: ConflictArea): number {
+  const match = CONFLICT_PATH.exec(area.path);
+  if (!match) {
+    throw new Error(`Unsupported conflict path: ${area.path}`);
+  }
+  return Number(match[1]);
+}
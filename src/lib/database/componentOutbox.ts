@@ -0,0 +1,472 @@
+/**
+ * Component Outbox
+ *
+ * Durable, ordered queue of component writes made while the database is
+ * unreachable. Entries are stored in an IndexedDBQueue (IndexedDB, then
+ * localStorage, then memory) so they survive a reload, and are replayed
+ * strictly in the order they were made: a create, the edits to it and its
+ * delete reach the server in that sequence.
+ *
+ * A queued create is given a temporary component ID (temp-<uuid>) that the
+ * UI and later entries can refer to. Once the create reaches the server the
+ * temporary ID is mapped to the real one, and later entries are sent with
+ * the real ID.
+ *
+ * Every enqueue compacts the queue (see outboxCompaction), so twenty
+ * offline edits to one component are stored and replayed as one update.
+ *
+ * Replay is at-least-once: an entry is removed only after the server has
+ * answered, so a reload in between sends it again.
+ */
+
+import { IndexedDBQueue, type StoragePressure, type StorageType } from './indexedDBQueue';
+import { compactOutbox } from './outboxCompaction';
+
+export type OutboxOperation =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'bulkDelete'
+  | 'updatePositions'
+  | 'batchUpdate'
+  | 'restoreVersion'
+  | 'transfer'
+  | 'setStatus';
+
+export const OUTBOX_OPERATIONS: readonly OutboxOperation[] = [
+  'create',
+  'update',
+  'delete',
+  'restore',
+  'bulkDelete',
+  'updatePositions',
+  'batchUpdate',
+  'restoreVersion',
+  'transfer',
+  'setStatus'
+];
+
+// Beyond this, writes are refused (and reported) rather than dropped
+export const MAX_OUTBOX_SIZE = 100;
+
+const TEMP_ID_PREFIX = 'temp-';
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  params: unknown; // The breaker parameters, JSON-serialisable
+  tempComponentId?: string; // Creates only
+  enqueuedAt: number;
+}
+
+/**
+ * An entry the server rejected (or that kept failing); kept until retried or discarded
+ */
+export interface OutboxFailure {
+  entry: OutboxEntry;
+  error: string;
+  failedAt: number;
+}
+
+export interface OutboxStatus {
+  depth: number;
+  failures: OutboxFailure[];
+  isReplaying: boolean;
+  lastError: string | null;
+  storageType: StorageType | null;
+  storagePressure: StoragePressure | null; // Offline storage near or at its limit, for any document
+}
+
+interface ResolvedId {
+  tempComponentId: string;
+  componentId: string;
+}
+
+type StatusListener = (status: OutboxStatus) => void;
+type ComponentIdListener = (tempComponentId: string, componentId: string) => void;
+
+export function isOutboxOperation(operation: string): operation is OutboxOperation {
+  return (OUTBOX_OPERATIONS as readonly string[]).includes(operation);
+}
+
+export function isTemporaryComponentId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+function encode(value: unknown): Uint8Array {
+  return new globalThis.TextEncoder().encode(JSON.stringify(value));
+}
+
+function decode<T>(data: Uint8Array): T {
+  return JSON.parse(new globalThis.TextDecoder().decode(data)) as T;
+}
+
+function findTemporaryIds(value: unknown, found: string[] = []): string[] {
+  if (typeof value === 'string') {
+    if (isTemporaryComponentId(value)) found.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => findTemporaryIds(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => findTemporaryIds(item, found));
+  }
+  return found;
+}
+
+export class ComponentOutbox {
+  private readonly pending: IndexedDBQueue;
+  private readonly failed: IndexedDBQueue;
+  private readonly resolved: IndexedDBQueue;
+  private readonly maxSize: number;
+  private entries: OutboxEntry[] = [];
+  private failures: OutboxFailure[] = [];
+  private resolvedIds: Map<string, string> = new Map();
+  private attempts: Map<string, number> = new Map();
+  private replaying = false;
+  private lastError: string | null = null;
+  private storagePressure: StoragePressure | null = null;
+  private stopWatchingPressure: (() => void) | null = null;
+  private ready: Promise<void> | null = null;
+  // Enqueues and retries rewrite the queue one after another, in call order
+  private writes: Promise<unknown> = Promise.resolve();
+  private statusListeners: Set<StatusListener> = new Set();
+  private componentIdListeners: Set<ComponentIdListener> = new Set();
+
+  constructor(name: string = 'script-components', maxSize: number = MAX_OUTBOX_SIZE) {
+    this.pending = new IndexedDBQueue(`outbox:${name}`);
+    this.failed = new IndexedDBQueue(`outbox:${name}:failed`);
+    this.resolved = new IndexedDBQueue(`outbox:${name}:ids`);
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * Open storage and load what an earlier session left behind. Safe to call repeatedly
+   */
+  initialize(): Promise<void> {
+    this.ready ??= this.load();
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    this.stopWatchingPressure ??= IndexedDBQueue.onPressure(pressure => {
+      this.storagePressure = pressure.level === 'normal' ? null : pressure;
+      this.notify();
+    });
+
+    // One at a time - they share a database
+    await this.pending.initialize();
+    await this.failed.initialize();
+    await this.resolved.initialize();
+
+    this.entries = (await this.pending.peekAll()).map(data => decode<OutboxEntry>(data));
+    this.failures = (await this.failed.peekAll()).map(data => decode<OutboxFailure>(data));
+    for (const data of await this.resolved.peekAll()) {
+      const { tempComponentId, componentId } = decode<ResolvedId>(data);
+      this.resolvedIds.set(tempComponentId, componentId);
+    }
+    this.notify();
+  }
+
+  get depth(): number {
+    return this.entries.length;
+  }
+
+  getStatus(): OutboxStatus {
+    return {
+      depth: this.entries.length,
+      failures: [...this.failures],
+      isReplaying: this.replaying,
+      lastError: this.lastError,
+      storageType: this.pending.isReady ? this.pending.storageType : null,
+      storagePressure: this.storagePressure
+    };
+  }
+
+  /**
+   * Append a write and compact the queue. Resolves to null when it could not
+   * be stored (outbox full or storage failed). The entry may have been merged
+   * into an earlier one or cancelled out; it still counts as queued
+   */
+  async enqueue(operation: OutboxOperation, params: unknown): Promise<OutboxEntry | null> {
+    await this.initialize();
+
+    return this.serialize(async () => {
+      const entry: OutboxEntry = {
+        id: globalThis.crypto.randomUUID(),
+        operation,
+        params: this.resolveIds(params),
+        enqueuedAt: Date.now()
+      };
+      if (operation === 'create') {
+        entry.tempComponentId = `${TEMP_ID_PREFIX}${globalThis.crypto.randomUUID()}`;
+      }
+
+      const previous = this.entries;
+      const compacted = this.compact([...previous, entry]);
+      if (compacted.length > this.maxSize) {
+        this.lastError = `Offline queue is full (${this.maxSize} changes waiting); this change was not saved`;
+        this.notify();
+        return null;
+      }
+
+      if (!await this.commit(previous, compacted)) {
+        this.lastError = 'Could not store the change for offline replay; this change was not saved';
+        this.notify();
+        return null;
+      }
+
+      this.notify();
+      return entry;
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Show the new queue at once and store it. If the write fails, the queue
+   * goes back to `previous`, less any head entries a replay finished meanwhile
+   */
+  private async commit(previous: OutboxEntry[], next: OutboxEntry[]): Promise<boolean> {
+    this.entries = next;
+    if (await this.persist(previous, next)) {
+      return true;
+    }
+
+    // clear() replaced the queue; there is nothing to put back
+    if (this.entries === next) {
+      this.entries = previous.slice(next.length - this.entries.length);
+    }
+    return false;
+  }
+
+  /**
+   * Compact everything but an entry a replay may have in flight
+   */
+  private compact(entries: OutboxEntry[]): OutboxEntry[] {
+    return compactOutbox(entries, this.replaying ? 1 : 0);
+  }
+
+  /**
+   * Store the new queue: a plain append when compaction changed nothing, else a rewrite
+   */
+  private persist(previous: OutboxEntry[], next: OutboxEntry[]): Promise<boolean> {
+    const appended = next.length === previous.length + 1 && previous.every((entry, index) => next[index] === entry);
+    return appended
+      ? this.pending.enqueue(encode(next[next.length - 1]))
+      : this.pending.replaceAll(next.map(entry => encode(entry)));
+  }
+
+  /**
+   * Oldest entry; replay must finish it before anything behind it
+   */
+  peek(): OutboxEntry | undefined {
+    return this.entries[0];
+  }
+
+  /**
+   * Remove the head entry after the server accepted it. A create passes the server's component ID
+   */
+  async complete(entry: OutboxEntry, componentId?: string): Promise<void> {
+    // Store the mapping first: entries behind this one cannot be sent without it
+    if (entry.tempComponentId && componentId) {
+      this.resolvedIds.set(entry.tempComponentId, componentId);
+      await this.resolved.enqueue(encode({ tempComponentId: entry.tempComponentId, componentId }));
+    }
+
+    await this.removeHead(entry);
+    this.lastError = null;
+
+    if (entry.tempComponentId && componentId) {
+      this.componentIdListeners.forEach(listener => listener(entry.tempComponentId!, componentId));
+    }
+
+    // Nothing stored refers to a temporary ID any more
+    if (this.entries.length === 0 && this.failures.length === 0) {
+      await this.resolved.clear();
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Move the head entry to the failures list
+   */
+  async fail(entry: OutboxEntry, error: string): Promise<void> {
+    await this.removeHead(entry);
+
+    const failure: OutboxFailure = { entry, error, failedAt: Date.now() };
+    this.failures.push(failure);
+    this.lastError = error;
+    await this.failed.enqueue(encode(failure));
+
+    this.notify();
+  }
+
+  /**
+   * Count a failed attempt at the head entry, which stays queued. Returns the attempts so far
+   */
+  recordAttempt(entry: OutboxEntry, error: string): number {
+    const attempts = (this.attempts.get(entry.id) ?? 0) + 1;
+    this.attempts.set(entry.id, attempts);
+    this.lastError = error;
+    this.notify();
+    return attempts;
+  }
+
+  private async removeHead(entry: OutboxEntry): Promise<void> {
+    if (this.entries[0]?.id !== entry.id) {
+      throw new Error(`Outbox entry ${entry.id} is not at the head of the queue`);
+    }
+    this.entries.shift();
+    this.attempts.delete(entry.id);
+    await this.pending.dequeue();
+  }
+
+  /**
+   * Replace temporary component IDs that have a server ID anywhere in the value
+   */
+  resolveIds<T>(value: T): T {
+    if (typeof value === 'string') {
+      return (this.resolvedIds.get(value) ?? value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolveIds(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.resolveIds(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * A temporary ID in the value with no server ID yet, if any
+   */
+  findUnresolvedId(value: unknown): string | null {
+    return findTemporaryIds(value).find(id => !this.resolvedIds.has(id)) ?? null;
+  }
+
+  /**
+   * Mark a replay as running; false if one already is
+   */
+  beginReplay(): boolean {
+    if (this.replaying) return false;
+    this.replaying = true;
+    this.notify();
+    return true;
+  }
+
+  endReplay(): void {
+    this.replaying = false;
+    this.notify();
+  }
+
+  /**
+   * Queue failed entries again, behind everything already waiting. Returns
+   * false, with the failures kept, when the queue could not be stored
+   */
+  async retryFailures(): Promise<boolean> {
+    await this.initialize();
+
+    return this.serialize(async () => {
+      const failures = this.failures;
+      const previous = this.entries;
+      const remaining: OutboxFailure[] = [];
+      this.failures = remaining;
+
+      if (!await this.commit(previous, this.compact([...previous, ...failures.map(failure => failure.entry)]))) {
+        // Unless clear() or discardFailures() dropped them meanwhile
+        if (this.failures === remaining) {
+          this.failures = [...failures, ...remaining];
+        }
+        this.lastError = 'Could not queue the failed changes again; they are still listed as failed';
+        this.notify();
+        return false;
+      }
+
+      await this.failed.clear();
+      this.lastError = null;
+      this.notify();
+      return true;
+    });
+  }
+
+  async discardFailures(): Promise<void> {
+    await this.initialize();
+    this.failures = [];
+    this.lastError = null;
+    await this.failed.clear();
+    if (this.entries.length === 0) {
+      await this.resolved.clear();
+    }
+    this.notify();
+  }
+
+  /**
+   * Drop everything queued and failed. The in-memory view empties immediately
+   */
+  async clear(): Promise<void> {
+    this.forget();
+    this.notify();
+
+    await this.initialize();
+    this.forget(); // Whatever a load still in flight brought back
+    await this.pending.clear();
+    await this.failed.clear();
+    await this.resolved.clear();
+  }
+
+  private forget(): void {
+    this.entries = [];
+    this.failures = [];
+    this.attempts.clear();
+    this.lastError = null;
+  }
+
+  /**
+   * Subscribe to status changes. Returns unsubscribe function
+   */
+  subscribe(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+
+    // Immediately notify new subscriber of current status
+    listener(this.getStatus());
+
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called when a queued create reaches the server, so holders of the temporary ID can swap it
+   */
+  onComponentIdResolved(listener: ComponentIdListener): () => void {
+    this.componentIdListeners.add(listener);
+    return () => {
+      this.componentIdListeners.delete(listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    // Let a load in progress finish, or it would reopen storage after this
+    await this.ready?.catch(() => undefined);
+    this.stopWatchingPressure?.();
+    this.stopWatchingPressure = null;
+    this.statusListeners.clear();
+    this.componentIdListeners.clear();
+    await this.pending.close();
+    await this.failed.close();
+    await this.resolved.close();
+    this.ready = null; // Reopens on next use
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
@@ -3,6 +3,14 @@
  *
  * Implementation-Lead: IndexedDB queue for offline operation persistence
  * with graceful fallbacks to localStorage and memory storage
+ *
+ * Every document's queue lives in one shared database. Operations are read
+ * through the documentId index only, and each document has a namespace row
+ * recording how many bytes it holds, so one quota covers all of them.
+ * Everything queued is unsynced, so nothing is evicted to make room: a write
+ * over the quota is refused and reported through onPressure. When the browser
+ * itself runs out of space (QuotaExceededError), the document's queue moves
+ * down the chain to localStorage, then memory, and that is reported too.
  */
 
 export type StorageType = 'indexeddb' | 'localstorage' | 'memory';
@@ -14,9 +22,60 @@ interface QueueItem {
   id?: number; // Auto-increment primary key
   documentId: string;
   data: Uint8Array;
+  bytes: number; // data.byteLength, counted against the quota
   timestamp: number;
 }
 
+/**
+ * A document's namespace in the shared database
+ */
+interface DocumentNamespace {
+  documentId: string;
+  bytes: number;
+  count: number;
+  updatedAt: number;
+}
+
+/**
+ * Limit shared by every document's queue in this browser profile
+ */
+export interface QueueQuota {
+  maxBytes: number;
+  warningRatio: number; // Share of maxBytes, or of the browser's own quota, that raises a warning
+}
+
+export const DEFAULT_QUEUE_QUOTA: QueueQuota = {
+  maxBytes: 50 * 1024 * 1024,
+  warningRatio: 0.8
+};
+
+export type StoragePressureLevel = 'normal' | 'warning' | 'exceeded';
+
+export interface StoragePressure {
+  level: StoragePressureLevel;
+  documentId: string; // The queue whose write raised it
+  storageType: StorageType; // Where that queue keeps its operations now
+  usedBytes: number; // Queued in IndexedDB across every document
+  quotaBytes: number;
+  rejectedBytes?: number; // Set when a write was refused
+}
+
+export interface QueueUsage {
+  documentBytes: number;
+  totalBytes: number;
+  quotaBytes: number;
+}
+
+type PressureListener = (pressure: StoragePressure) => void;
+
+function isQuotaExceededError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'QuotaExceededError';
+}
+
+function byteLength(items: Uint8Array[]): number {
+  return items.reduce((sum, item) => sum + item.byteLength, 0);
+}
+
 /**
  * Schema migration information
  */
@@ -49,13 +108,21 @@ export class IndexedDBQueue {
 
   // Database configuration
   private static readonly DB_NAME = 'offline-queue-db';
-  private static readonly DB_VERSION = 1;
+  private static readonly DB_VERSION = 2;
   private static readonly STORE_NAME = 'operations';
+  private static readonly DOCUMENTS_STORE = 'documents';
   private static readonly SCHEMA_VERSION_STORE = 'schema_versions';
 
   // Schema versioning configuration
-  private static readonly CURRENT_SCHEMA_VERSION = 1;
-  private static readonly SUPPORTED_VERSIONS = [1];
+  private static readonly CURRENT_SCHEMA_VERSION = 2;
+  private static readonly SUPPORTED_VERSIONS = [1, 2];
+
+  // Quota and pressure are shared by every queue
+  private static quota: QueueQuota = { ...DEFAULT_QUEUE_QUOTA };
+  private static pressure: StoragePressure | null = null;
+  private static pressureListeners: Set<PressureListener> = new Set();
+  private static usedBytes = 0; // Last total read from the documents store
+  private static browserUsageRatio = 0; // Last navigator.storage.estimate() usage / quota
 
   // Schema migration definitions
   private static readonly SCHEMA_VERSIONS: SchemaVersion[] = [
@@ -81,6 +148,42 @@ export class IndexedDBQueue {
           });
         }
       }
+    },
+    {
+      version: 2,
+      upgrade: (db: IDBDatabase, transaction: IDBTransaction) => {
+        // Version 2: a namespace row per document, with the bytes its queue holds
+        if (!db.objectStoreNames.contains(IndexedDBQueue.DOCUMENTS_STORE)) {
+          db.createObjectStore(IndexedDBQueue.DOCUMENTS_STORE, {
+            keyPath: 'documentId'
+          });
+        }
+
+        // Backfill sizes and namespaces for operations queued under version 1
+        const documents = transaction.objectStore(IndexedDBQueue.DOCUMENTS_STORE);
+        const namespaces = new Map<string, DocumentNamespace>();
+        const request = transaction.objectStore(IndexedDBQueue.STORE_NAME).openCursor();
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            namespaces.forEach(namespace => documents.put(namespace));
+            return;
+          }
+
+          const item: QueueItem = cursor.value;
+          item.bytes = item.data.byteLength;
+          cursor.update(item);
+
+          const namespace = namespaces.get(item.documentId)
+            ?? { documentId: item.documentId, bytes: 0, count: 0, updatedAt: item.timestamp };
+          namespace.bytes += item.bytes;
+          namespace.count++;
+          namespace.updatedAt = Math.max(namespace.updatedAt, item.timestamp);
+          namespaces.set(item.documentId, namespace);
+          cursor.continue();
+        };
+      }
     }
   ];
 
@@ -147,6 +250,7 @@ export class IndexedDBQueue {
       request.onsuccess = () => {
         clearTimeout(timeoutId);
         this.db = request.result;
+        this._schemaVersion = request.result.version;
         resolve();
       };
 
@@ -266,12 +370,16 @@ export class IndexedDBQueue {
       if (Array.isArray(parsedQueue) && parsedQueue.length > 0) {
         console.log(`Migrating ${parsedQueue.length} operations from localStorage to IndexedDB`);
 
-        // Migrate each operation
-        for (const item of parsedQueue) {
-          if (Array.isArray(item)) {
-            const data = new Uint8Array(item);
-            await this.enqueue(data);
-          }
+        // Migrate in one write, behind anything already in IndexedDB
+        const migrated = parsedQueue
+          .filter((item): item is number[] => Array.isArray(item))
+          .map(item => new Uint8Array(item));
+        const saved = await this.replaceAll([...await this.peekAllIndexedDB(), ...migrated]);
+
+        // A full database can refuse it or send the queue back to localStorage
+        if (!saved || this._storageType !== 'indexeddb') {
+          console.warn('Migration from localStorage deferred: IndexedDB has no room');
+          return;
         }
 
         // Clear localStorage after successful migration
@@ -295,9 +403,15 @@ export class IndexedDBQueue {
     try {
       switch (this._storageType) {
         case 'indexeddb':
-          return await this.enqueueIndexedDB(data);
+          return await this.withQuotaFallback(
+            () => this.enqueueIndexedDB(data),
+            async () => [...await this.peekAllIndexedDB(), data]
+          );
         case 'localstorage':
-          return this.enqueueLocalStorage(data);
+          return await this.withQuotaFallback(
+            () => this.enqueueLocalStorage(data),
+            () => [...this.getLocalStorageQueue(), data]
+          );
         case 'memory':
           return this.enqueueMemory(data);
         default:
@@ -349,6 +463,55 @@ export class IndexedDBQueue {
     }
   }
 
+  /**
+   * Replace every operation for this document in one step, keeping the given order
+   */
+  async replaceAll(items: Uint8Array[]): Promise<boolean> {
+    if (!this._isReady) {
+      throw new Error('Queue not initialized');
+    }
+
+    try {
+      switch (this._storageType) {
+        case 'indexeddb':
+          return await this.withQuotaFallback(() => this.replaceAllIndexedDB(items), () => items);
+        case 'localstorage':
+          return await this.withQuotaFallback(() => {
+            this.saveLocalStorageQueue(items);
+            return true;
+          }, () => items);
+        case 'memory':
+          this.memoryQueue = [...items];
+          return true;
+        default:
+          throw new Error(`Unknown storage type: ${this._storageType}`);
+      }
+    } catch (error) {
+      console.error('Replace operation failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read every operation in FIFO order without removing any
+   */
+  async peekAll(): Promise<Uint8Array[]> {
+    if (!this._isReady) {
+      throw new Error('Queue not initialized');
+    }
+
+    switch (this._storageType) {
+      case 'indexeddb':
+        return await this.peekAllIndexedDB();
+      case 'localstorage':
+        return this.getLocalStorageQueue();
+      case 'memory':
+        return [...this.memoryQueue];
+      default:
+        throw new Error(`Unknown storage type: ${this._storageType}`);
+    }
+  }
+
   /**
    * Get queue size
    */
@@ -389,6 +552,34 @@ export class IndexedDBQueue {
     }
   }
 
+  /**
+   * Bytes queued by this document and by every document in IndexedDB
+   */
+  async getUsage(): Promise<QueueUsage> {
+    if (!this._isReady) {
+      throw new Error('Queue not initialized');
+    }
+
+    const quotaBytes = IndexedDBQueue.quota.maxBytes;
+    if (this._storageType !== 'indexeddb') {
+      const documentBytes = byteLength(await this.peekAll());
+      return { documentBytes, totalBytes: documentBytes, quotaBytes };
+    }
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('IndexedDB not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction([IndexedDBQueue.DOCUMENTS_STORE], 'readonly');
+      this.readNamespaces(transaction, (totalBytes, namespace) => {
+        resolve({ documentBytes: namespace.bytes, totalBytes, quotaBytes });
+      });
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
   /**
    * Close the queue and clean up resources
    */
@@ -413,6 +604,156 @@ export class IndexedDBQueue {
     return this._schemaVersion;
   }
 
+  // Quota and storage pressure, shared by every queue
+
+  /**
+   * Change the byte quota or warning threshold for every queue
+   */
+  static configureQuota(quota: Partial<QueueQuota>): void {
+    IndexedDBQueue.quota = { ...IndexedDBQueue.quota, ...quota };
+  }
+
+  static getQuota(): QueueQuota {
+    return { ...IndexedDBQueue.quota };
+  }
+
+  /**
+   * Called when queued storage nears or hits its limit, and again when it
+   * recovers (level 'normal'). A current warning is delivered straight away.
+   * Returns unsubscribe function
+   */
+  static onPressure(listener: PressureListener): () => void {
+    IndexedDBQueue.pressureListeners.add(listener);
+
+    if (IndexedDBQueue.pressure) {
+      listener(IndexedDBQueue.pressure);
+    }
+
+    return () => {
+      IndexedDBQueue.pressureListeners.delete(listener);
+    };
+  }
+
+  private static emitPressure(pressure: StoragePressure): void {
+    IndexedDBQueue.pressure = pressure.level === 'normal' ? null : pressure;
+    IndexedDBQueue.pressureListeners.forEach(listener => listener(pressure));
+  }
+
+  /**
+   * Whether the browser has room for `bytes` more, by navigator.storage.estimate() where available
+   */
+  private static async hasBrowserSpace(bytes: number): Promise<boolean> {
+    const storage = globalThis.navigator?.storage;
+    if (!storage?.estimate) {
+      return true;
+    }
+
+    try {
+      const { usage = 0, quota } = await storage.estimate();
+      if (!quota) return true;
+
+      IndexedDBQueue.browserUsageRatio = usage / quota;
+      return usage + bytes <= quota;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Record the total after a write, reporting a change of pressure level
+   */
+  private reportUsage(usedBytes: number): void {
+    IndexedDBQueue.usedBytes = usedBytes;
+
+    const { maxBytes, warningRatio } = IndexedDBQueue.quota;
+    const level: StoragePressureLevel =
+      usedBytes >= maxBytes * warningRatio || IndexedDBQueue.browserUsageRatio >= warningRatio
+        ? 'warning'
+        : 'normal';
+    if (level === (IndexedDBQueue.pressure?.level ?? 'normal')) return;
+
+    IndexedDBQueue.emitPressure({
+      level,
+      documentId: this.documentId,
+      storageType: this._storageType,
+      usedBytes,
+      quotaBytes: maxBytes
+    });
+  }
+
+  /**
+   * Report a write refused for going over the quota
+   */
+  private reportRefused(rejectedBytes: number, usedBytes: number): void {
+    IndexedDBQueue.usedBytes = usedBytes;
+    console.warn(`Offline queue quota reached; refused ${rejectedBytes} bytes for ${this.documentId}`);
+
+    IndexedDBQueue.emitPressure({
+      level: 'exceeded',
+      documentId: this.documentId,
+      storageType: this._storageType,
+      usedBytes,
+      quotaBytes: IndexedDBQueue.quota.maxBytes,
+      rejectedBytes
+    });
+  }
+
+  /**
+   * Run a write; if the browser refuses it for lack of space, move the
+   * document's whole queue (as `queue` gives it, including the write) down the chain
+   */
+  private async withQuotaFallback(
+    write: () => Promise<boolean> | boolean,
+    queue: () => Promise<Uint8Array[]> | Uint8Array[]
+  ): Promise<boolean> {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error;
+      return this.fallBack(await queue());
+    }
+  }
+
+  /**
+   * Keep the queue one step down the chain. Memory does not survive a reload,
+   * which the pressure report's storageType tells the UI
+   */
+  private async fallBack(queue: Uint8Array[]): Promise<boolean> {
+    const from = this._storageType;
+    this.memoryQueue = [...queue];
+    this._storageType = 'memory';
+
+    if (from === 'indexeddb') {
+      try {
+        this.initializeLocalStorage();
+        this.saveLocalStorageQueue(queue);
+        this.memoryQueue = [];
+        this._storageType = 'localstorage';
+      } catch (error) {
+        console.warn('localStorage has no room either, keeping the offline queue in memory:', error);
+      }
+
+      // The queue lives below now; its old copy only takes space from other documents
+      try {
+        await this.clearIndexedDB();
+      } catch (error) {
+        console.warn('Could not remove the offline queue from IndexedDB:', error);
+      }
+    } else {
+      this.clearLocalStorage();
+    }
+
+    console.warn(`Storage quota exceeded; offline queue for ${this.documentId} moved to ${this._storageType}`);
+    IndexedDBQueue.emitPressure({
+      level: 'exceeded',
+      documentId: this.documentId,
+      storageType: this._storageType,
+      usedBytes: IndexedDBQueue.usedBytes,
+      quotaBytes: IndexedDBQueue.quota.maxBytes
+    });
+    return true;
+  }
+
   // Schema versioning methods
   async isSchemaCompatible(version: number): Promise<boolean> {
     return IndexedDBQueue.SUPPORTED_VERSIONS.includes(version);
@@ -471,26 +812,87 @@ export class IndexedDBQueue {
   }
 
   // IndexedDB implementation methods
+
+  /**
+   * Read every namespace in the transaction, then call back with the total
+   * queued and this document's namespace (a new one if it has none)
+   */
+  private readNamespaces(
+    transaction: IDBTransaction,
+    onRead: (usedBytes: number, namespace: DocumentNamespace) => void
+  ): void {
+    const request = transaction.objectStore(IndexedDBQueue.DOCUMENTS_STORE).getAll();
+
+    request.onsuccess = () => {
+      const namespaces = request.result as DocumentNamespace[];
+      const usedBytes = namespaces.reduce((sum, namespace) => sum + namespace.bytes, 0);
+      const namespace = namespaces.find(entry => entry.documentId === this.documentId)
+        ?? { documentId: this.documentId, bytes: 0, count: 0, updatedAt: Date.now() };
+      onRead(usedBytes, namespace);
+    };
+  }
+
+  /**
+   * Store this document's namespace with its new size; an empty one is removed
+   */
+  private writeNamespace(transaction: IDBTransaction, bytes: number, count: number): void {
+    const documents = transaction.objectStore(IndexedDBQueue.DOCUMENTS_STORE);
+    if (count <= 0) {
+      documents.delete(this.documentId);
+      return;
+    }
+    const namespace: DocumentNamespace = { documentId: this.documentId, bytes, count, updatedAt: Date.now() };
+    documents.put(namespace);
+  }
+
   private async enqueueIndexedDB(data: Uint8Array): Promise<boolean> {
+    if (!await IndexedDBQueue.hasBrowserSpace(data.byteLength)) {
+      throw new DOMException('Browser storage is full', 'QuotaExceededError');
+    }
+
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('IndexedDB not initialized'));
         return;
       }
 
-      const transaction = this.db.transaction([IndexedDBQueue.STORE_NAME], 'readwrite');
+      const transaction = this.db.transaction(
+        [IndexedDBQueue.STORE_NAME, IndexedDBQueue.DOCUMENTS_STORE],
+        'readwrite'
+      );
       const store = transaction.objectStore(IndexedDBQueue.STORE_NAME);
+      let usedBytes = 0;
+      let refused = false;
+
+      this.readNamespaces(transaction, (total, namespace) => {
+        usedBytes = total;
+        if (total + data.byteLength > IndexedDBQueue.quota.maxBytes) {
+          // Everything queued is unsynced, so nothing is evicted to make room
+          refused = true;
+          return;
+        }
 
-      const item: QueueItem = {
-        documentId: this.documentId,
-        data: data,
-        timestamp: Date.now()
-      };
-
-      const request = store.add(item);
+        const item: QueueItem = {
+          documentId: this.documentId,
+          data: data,
+          bytes: data.byteLength,
+          timestamp: Date.now()
+        };
+        store.add(item);
+        this.writeNamespace(transaction, namespace.bytes + item.bytes, namespace.count + 1);
+        usedBytes = total + item.bytes;
+      });
 
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => {
+        if (refused) {
+          this.reportRefused(data.byteLength, usedBytes);
+          resolve(false);
+          return;
+        }
+        this.reportUsage(usedBytes);
+        resolve(true);
+      };
+      transaction.onabort = () => reject(transaction.error);
     });
   }
 
@@ -501,25 +903,36 @@ export class IndexedDBQueue {
         return;
       }
 
-      const transaction = this.db.transaction([IndexedDBQueue.STORE_NAME], 'readwrite');
+      const transaction = this.db.transaction(
+        [IndexedDBQueue.STORE_NAME, IndexedDBQueue.DOCUMENTS_STORE],
+        'readwrite'
+      );
       const store = transaction.objectStore(IndexedDBQueue.STORE_NAME);
       const index = store.index('documentId');
+      let dequeued: QueueItem | null = null;
+      let usedBytes: number | null = null;
 
       // Get the first item for this document (oldest due to auto-increment key)
       const request = index.openCursor(IDBKeyRange.only(this.documentId));
 
       request.onsuccess = () => {
         const cursor = request.result;
-        if (cursor) {
-          const item: QueueItem = cursor.value;
-          cursor.delete(); // Remove from queue
-          resolve(item.data);
-        } else {
-          resolve(null); // Queue empty
-        }
+        if (!cursor) return; // Queue empty
+
+        const item: QueueItem = cursor.value;
+        dequeued = item;
+        cursor.delete(); // Remove from queue
+        this.readNamespaces(transaction, (total, namespace) => {
+          this.writeNamespace(transaction, namespace.bytes - item.bytes, namespace.count - 1);
+          usedBytes = total - item.bytes;
+        });
       };
 
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => {
+        if (usedBytes !== null) this.reportUsage(usedBytes);
+        resolve(dequeued?.data ?? null);
+      };
+      transaction.onabort = () => reject(transaction.error);
     });
   }
 
@@ -551,6 +964,82 @@ export class IndexedDBQueue {
     });
   }
 
+  private async replaceAllIndexedDB(items: Uint8Array[]): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('IndexedDB not initialized'));
+        return;
+      }
+
+      // One transaction, so a failure leaves the old operations in place
+      const transaction = this.db.transaction(
+        [IndexedDBQueue.STORE_NAME, IndexedDBQueue.DOCUMENTS_STORE],
+        'readwrite'
+      );
+      const store = transaction.objectStore(IndexedDBQueue.STORE_NAME);
+      const index = store.index('documentId');
+      const bytes = byteLength(items);
+      let usedBytes = 0;
+      let refused = false;
+
+      this.readNamespaces(transaction, (total, namespace) => {
+        usedBytes = total - namespace.bytes + bytes;
+        // A rewrite that shrinks the queue is always allowed
+        if (usedBytes > IndexedDBQueue.quota.maxBytes && bytes > namespace.bytes) {
+          refused = true;
+          usedBytes = total;
+          return;
+        }
+
+        const request = index.openCursor(IDBKeyRange.only(this.documentId));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+            return;
+          }
+          // New auto-increment keys keep the given order
+          items.forEach(data => {
+            const item: QueueItem = { documentId: this.documentId, data, bytes: data.byteLength, timestamp: Date.now() };
+            store.add(item);
+          });
+          this.writeNamespace(transaction, bytes, items.length);
+        };
+      });
+
+      transaction.oncomplete = () => {
+        if (refused) {
+          this.reportRefused(bytes, usedBytes);
+          resolve(false);
+          return;
+        }
+        this.reportUsage(usedBytes);
+        resolve(true);
+      };
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async peekAllIndexedDB(): Promise<Uint8Array[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('IndexedDB not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction([IndexedDBQueue.STORE_NAME], 'readonly');
+      const store = transaction.objectStore(IndexedDBQueue.STORE_NAME);
+      const index = store.index('documentId');
+
+      // Index order within one documentId follows the auto-increment key
+      const request = index.getAll(IDBKeyRange.only(this.documentId));
+
+      request.onsuccess = () => resolve((request.result as QueueItem[]).map(item => item.data));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   private async sizeIndexedDB(): Promise<number> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
@@ -576,33 +1065,33 @@ export class IndexedDBQueue {
         return;
       }
 
-      const transaction = this.db.transaction([IndexedDBQueue.STORE_NAME], 'readwrite');
+      const transaction = this.db.transaction(
+        [IndexedDBQueue.STORE_NAME, IndexedDBQueue.DOCUMENTS_STORE],
+        'readwrite'
+      );
       const store = transaction.objectStore(IndexedDBQueue.STORE_NAME);
       const index = store.index('documentId');
+      let usedBytes = 0;
 
-      const deletePromises: Promise<void>[] = [];
       const request = index.openCursor(IDBKeyRange.only(this.documentId));
-
       request.onsuccess = () => {
         const cursor = request.result;
         if (cursor) {
-          deletePromises.push(
-            new Promise<void>((deleteResolve, deleteReject) => {
-              const deleteRequest = cursor.delete();
-              deleteRequest.onsuccess = () => deleteResolve();
-              deleteRequest.onerror = () => deleteReject(deleteRequest.error);
-            })
-          );
+          cursor.delete();
           cursor.continue();
-        } else {
-          // All cursors processed, wait for all deletes to complete
-          Promise.all(deletePromises)
-            .then(() => resolve())
-            .catch(reject);
         }
       };
 
-      request.onerror = () => reject(request.error);
+      this.readNamespaces(transaction, (total, namespace) => {
+        this.writeNamespace(transaction, 0, 0);
+        usedBytes = total - namespace.bytes;
+      });
+
+      transaction.oncomplete = () => {
+        this.reportUsage(usedBytes);
+        resolve();
+      };
+      transaction.onabort = () => reject(transaction.error);
     });
   }
 
@@ -641,7 +1130,8 @@ export class IndexedDBQueue {
       queue.push(data);
       this.saveLocalStorageQueue(queue);
       return true;
-    } catch {
+    } catch (error) {
+      if (isQuotaExceededError(error)) throw error; // enqueue moves the queue to memory
       return false;
     }
   }
@@ -0,0 +1,432 @@
+/**
+ * Offline Script Cache
+ *
+ * A per-project mirror of video_scripts and script_components rows in
+ * IndexedDB, so scripts can still be read when the database cannot be
+ * reached - including after a reload. ResilientScriptComponentManager writes
+ * every answer it gets into the mirror and serves the mirror when a read
+ * fails or its breaker is open.
+ *
+ * - A script's component list is only served if that list was mirrored;
+ *   a script never read online has no offline copy, not an empty one
+ * - The newest updated_at the server has reported for each script and
+ *   component is kept as a watermark, also after the row is removed. A row
+ *   older than its watermark never replaces the cached one, so a slow read
+ *   can neither undo a realtime change that arrived before it nor bring back
+ *   a row removed since
+ * - Only live components are mirrored; a soft-deleted row is dropped
+ * - Realtime changes are only taken for scripts of videos already mirrored
+ *   and components of scripts already mirrored; rows from other projects
+ *   are ignored
+ *
+ * Rows are held in memory and written through to IndexedDB. Without
+ * IndexedDB the mirror lasts as long as the page.
+ */
+
+import { SCRIPT_STATUSES } from '../workflow/scriptStatusWorkflow';
+import type { CachedRead } from './readCache';
+import type { ScriptComponent, ScriptListItem, ScriptListOptions } from '../../types/scriptComponent';
+
+export type MirroredTable = 'script_components' | 'video_scripts';
+
+/**
+ * A row change from Supabase realtime
+ */
+export interface MirroredRowChange<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  row: Partial<T>;
+}
+
+interface CachedRow<T> {
+  key: string;
+  row: T;
+  fetchedAt: string;
+}
+
+interface Watermark {
+  key: string; // 'scripts' or 'components:<scriptId>'
+  fetchedAt: string;
+}
+
+interface RowWatermark {
+  key: string; // '<table>:<row id>'
+  updatedAt: string;
+  removed: boolean;
+}
+
+type StoreName = MirroredTable | typeof WATERMARKS | typeof ROW_WATERMARKS;
+
+const DB_VERSION = 2;
+const WATERMARKS = 'watermarks';
+const ROW_WATERMARKS = 'row_watermarks';
+const STORES: StoreName[] = ['script_components', 'video_scripts', WATERMARKS, ROW_WATERMARKS];
+const SCRIPTS_WATERMARK = 'scripts';
+
+const componentsWatermark = (scriptId: string) => `components:${scriptId}`;
+const rowWatermark = (table: MirroredTable, id: string) => `${table}:${id}`;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function compareScripts(a: ScriptListItem, b: ScriptListItem, sortBy: NonNullable<ScriptListOptions['sortBy']>): number {
+  switch (sortBy) {
+    case 'title':
+      return a.title.localeCompare(b.title);
+    case 'script_status':
+      return SCRIPT_STATUSES.indexOf(a.script_status) - SCRIPT_STATUSES.indexOf(b.script_status);
+    case 'word_count':
+      return (a.word_count ?? 0) - (b.word_count ?? 0);
+    default:
+      return Date.parse(a.updated_at) - Date.parse(b.updated_at);
+  }
+}
+
+export class OfflineScriptCache {
+  readonly projectId: string;
+  private db: IDBDatabase | null = null;
+  private ready: Promise<void> | null = null;
+  private components: Map<string, CachedRow<ScriptComponent>> = new Map();
+  private scripts: Map<string, CachedRow<ScriptListItem>> = new Map();
+  private watermarks: Map<string, string> = new Map();
+  private rowWatermarks: Map<string, RowWatermark> = new Map();
+
+  constructor(projectId: string = 'default') {
+    this.projectId = projectId;
+  }
+
+  get storageType(): 'indexeddb' | 'memory' {
+    return this.db ? 'indexeddb' : 'memory';
+  }
+
+  /**
+   * Open the project's database and load the mirror. Safe to call repeatedly
+   */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load();
+    }
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      this.db = await this.open();
+    } catch (error) {
+      console.warn('Offline script cache falling back to memory:', error);
+      return;
+    }
+
+    const transaction = this.db.transaction(STORES, 'readonly');
+    const [components, scripts, watermarks, rowWatermarks] = await Promise.all([
+      requestResult<CachedRow<ScriptComponent>[]>(transaction.objectStore('script_components').getAll()),
+      requestResult<CachedRow<ScriptListItem>[]>(transaction.objectStore('video_scripts').getAll()),
+      requestResult<Watermark[]>(transaction.objectStore(WATERMARKS).getAll()),
+      requestResult<RowWatermark[]>(transaction.objectStore(ROW_WATERMARKS).getAll())
+    ]);
+    this.components = new Map(components.map(entry => [entry.key, entry]));
+    this.scripts = new Map(scripts.map(entry => [entry.key, entry]));
+    this.watermarks = new Map(watermarks.map(watermark => [watermark.key, watermark.fetchedAt]));
+    this.rowWatermarks = new Map(rowWatermarks.map(watermark => [watermark.key, watermark]));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof window === 'undefined' || !window.indexedDB) {
+        reject(new Error('IndexedDB not supported'));
+        return;
+      }
+
+      const request = window.indexedDB.open(`script-cache:${this.projectId}`, DB_VERSION);
+      request.onerror = () => reject(new Error(`IndexedDB open failed: ${request.error?.message}`));
+      request.onblocked = () => reject(new Error('IndexedDB blocked - another connection preventing upgrade'));
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'key' });
+          }
+        }
+      };
+    });
+  }
+
+  /**
+   * Write changed rows through to IndexedDB in one transaction
+   */
+  private persist(
+    puts: Array<[StoreName, CachedRow<unknown> | Watermark | RowWatermark]>,
+    deletes: Array<[MirroredTable, string]> = []
+  ): Promise<void> {
+    if (!this.db || (puts.length === 0 && deletes.length === 0)) {
+      return Promise.resolve();
+    }
+
+    const transaction = this.db.transaction(STORES, 'readwrite');
+    for (const [store, value] of puts) {
+      transaction.objectStore(store).put(value);
+    }
+    for (const [store, key] of deletes) {
+      transaction.objectStore(store).delete(key);
+    }
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Offline script cache write aborted'));
+    });
+  }
+
+  private watermark(key: string, fetchedAt: string): [typeof WATERMARKS, Watermark] {
+    this.watermarks.set(key, fetchedAt);
+    return [WATERMARKS, { key, fetchedAt }];
+  }
+
+  /**
+   * Whether the server has already reported a newer version of the row, or
+   * removed it at or after this version
+   */
+  private isSuperseded(table: MirroredTable, id: string, row: { updated_at?: string }): boolean {
+    const watermark = this.rowWatermarks.get(rowWatermark(table, id));
+    if (!watermark || !row.updated_at) return false;
+    const incoming = Date.parse(row.updated_at);
+    const newest = Date.parse(watermark.updatedAt);
+    return watermark.removed ? incoming <= newest : incoming < newest;
+  }
+
+  /**
+   * Move a row's watermark up to `updatedAt`; a watermark never moves back
+   */
+  private advanceRowWatermark(
+    table: MirroredTable,
+    id: string,
+    updatedAt: string | undefined,
+    removed: boolean
+  ): Array<[typeof ROW_WATERMARKS, RowWatermark]> {
+    const key = rowWatermark(table, id);
+    const current = this.rowWatermarks.get(key);
+    if (!updatedAt || (current && Date.parse(current.updatedAt) > Date.parse(updatedAt))) {
+      return [];
+    }
+    const watermark = { key, updatedAt, removed };
+    this.rowWatermarks.set(key, watermark);
+    return [[ROW_WATERMARKS, watermark]];
+  }
+
+  /**
+   * Mirror a script's live component list, as read at `fetchedAt`
+   */
+  async putComponents(scriptId: string, components: ScriptComponent[], fetchedAt: string): Promise<void> {
+    await this.initialize();
+    const listed = new Set(components.map(component => component.component_id));
+    const puts: Array<[StoreName, CachedRow<unknown> | Watermark | RowWatermark]> = [];
+    const deletes: Array<[MirroredTable, string]> = [];
+
+    for (const [key, cached] of this.components) {
+      if (cached.row.script_id === scriptId && !listed.has(key)) {
+        this.components.delete(key);
+        deletes.push(['script_components', key]);
+        puts.push(...this.advanceRowWatermark('script_components', key, cached.row.updated_at, true));
+      }
+    }
+    for (const component of components) {
+      if (this.isSuperseded('script_components', component.component_id, component)) continue;
+      const entry = { key: component.component_id, row: component, fetchedAt };
+      this.components.set(entry.key, entry);
+      puts.push(['script_components', entry]);
+      puts.push(...this.advanceRowWatermark('script_components', entry.key, component.updated_at, false));
+    }
+    puts.push(this.watermark(componentsWatermark(scriptId), fetchedAt));
+
+    await this.persist(puts, deletes);
+  }
+
+  /**
+   * A script's mirrored live components in position order, or undefined if the list was never mirrored
+   */
+  async getComponents(scriptId: string): Promise<CachedRead<ScriptComponent[]> | undefined> {
+    await this.initialize();
+    const fetchedAt = this.watermarks.get(componentsWatermark(scriptId));
+    if (!fetchedAt) {
+      return undefined;
+    }
+
+    const data = [...this.components.values()]
+      .filter(cached => cached.row.script_id === scriptId)
+      .map(cached => cached.row)
+      .sort((a, b) => a.position - b.position);
+    return { data, fetchedAt };
+  }
+
+  /**
+   * Mirror one component as read at `fetchedAt`
+   */
+  async putComponent(component: ScriptComponent, fetchedAt: string): Promise<void> {
+    await this.applyChange('script_components', { eventType: 'UPDATE', row: component }, fetchedAt);
+  }
+
+  async getComponent(componentId: string): Promise<CachedRead<ScriptComponent> | undefined> {
+    await this.initialize();
+    const cached = this.components.get(componentId);
+    return cached && { data: cached.row, fetchedAt: cached.fetchedAt };
+  }
+
+  /**
+   * Mirror a page of scripts as read at `fetchedAt`. Pages are partial, so
+   * scripts missing from one are kept
+   */
+  async putScripts(scripts: ScriptListItem[], fetchedAt: string): Promise<void> {
+    await this.initialize();
+    const puts: Array<[StoreName, CachedRow<unknown> | Watermark | RowWatermark]> = [];
+
+    for (const script of scripts) {
+      if (this.isSuperseded('video_scripts', script.script_id, script)) continue;
+      const entry = { key: script.script_id, row: script, fetchedAt };
+      this.scripts.set(entry.key, entry);
+      puts.push(['video_scripts', entry]);
+      puts.push(...this.advanceRowWatermark('video_scripts', entry.key, script.updated_at, false));
+    }
+    puts.push(this.watermark(SCRIPTS_WATERMARK, fetchedAt));
+
+    await this.persist(puts);
+  }
+
+  /**
+   * Mirrored scripts matching the list filters, in the requested order, or
+   * undefined if no script list was ever mirrored
+   */
+  async getScripts(options: ScriptListOptions = {}): Promise<CachedRead<ScriptListItem[]> | undefined> {
+    await this.initialize();
+    const fetchedAt = this.watermarks.get(SCRIPTS_WATERMARK);
+    if (!fetchedAt) {
+      return undefined;
+    }
+
+    const sortBy = options.sortBy ?? 'updated_at';
+    const direction = options.sortDirection === 'asc' ? 1 : -1;
+    const from = options.updatedFrom ? Date.parse(options.updatedFrom) : -Infinity;
+    const to = options.updatedTo ? Date.parse(options.updatedTo) : Infinity;
+
+    const data = [...this.scripts.values()]
+      .map(cached => cached.row)
+      .filter(script => !options.videoId || script.video_id === options.videoId)
+      .filter(script => !options.projectId || script.project_id === options.projectId)
+      .filter(script => !options.statuses?.length || options.statuses.includes(script.script_status))
+      .filter(script => !options.lastEditedBy || script.last_edited_by === options.lastEditedBy)
+      .filter(script => Date.parse(script.updated_at) >= from && Date.parse(script.updated_at) <= to)
+      .sort((a, b) => direction * compareScripts(a, b, sortBy) || a.script_id.localeCompare(b.script_id));
+    return { data, fetchedAt };
+  }
+
+  /**
+   * Whether a script is mirrored, either as a list row or by its components
+   */
+  private hasScript(scriptId: string): boolean {
+    return this.scripts.has(scriptId) || this.watermarks.has(componentsWatermark(scriptId));
+  }
+
+  /**
+   * A mirrored script of the same video, whose project a new script shares
+   */
+  private findVideoScript(videoId: string): ScriptListItem | undefined {
+    for (const cached of this.scripts.values()) {
+      if (cached.row.video_id === videoId) return cached.row;
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply a realtime row change. Returns whether the mirror changed: false
+   * for a row no newer than the mirrored one (usually the echo of a read),
+   * and for a new row outside the mirrored scripts and videos
+   */
+  async applyChange(table: 'script_components', change: MirroredRowChange<ScriptComponent>, fetchedAt?: string): Promise<boolean>;
+  async applyChange(table: 'video_scripts', change: MirroredRowChange<ScriptListItem>, fetchedAt?: string): Promise<boolean>;
+  async applyChange(
+    table: MirroredTable,
+    change: MirroredRowChange<ScriptComponent> | MirroredRowChange<ScriptListItem>,
+    fetchedAt: string = new Date().toISOString()
+  ): Promise<boolean> {
+    await this.initialize();
+    // Realtime sends whole rows for inserts and updates, and at least the key for deletes
+    const rows: Map<string, CachedRow<Partial<ScriptComponent> | Partial<ScriptListItem>>> =
+      table === 'script_components' ? this.components : this.scripts;
+    const key = table === 'script_components'
+      ? (change.row as Partial<ScriptComponent>).component_id
+      : (change.row as Partial<ScriptListItem>).script_id;
+    if (!key) {
+      return false;
+    }
+
+    const existing = rows.get(key);
+    const removed = change.eventType === 'DELETE' || Boolean((change.row as Partial<ScriptComponent>).deleted_at);
+    if (removed) {
+      if (!existing) return false;
+      rows.delete(key);
+      // Deletes carry only the key; the removal is at least as new as the cached row
+      await this.persist(this.advanceRowWatermark(table, key, change.row.updated_at ?? existing.row.updated_at, true), [[table, key]]);
+      return true;
+    }
+
+    if (this.isSuperseded(table, key, change.row) || (existing && change.row.updated_at === existing.row.updated_at)) {
+      return false;
+    }
+
+    let row = change.row;
+    if (table === 'video_scripts') {
+      // Realtime rows carry no project; keep the one the list gave
+      const script = row as Partial<ScriptListItem>;
+      const sibling = (existing?.row as Partial<ScriptListItem> | undefined) ?? (script.video_id ? this.findVideoScript(script.video_id) : undefined);
+      if (!sibling) {
+        return false;
+      }
+      row = { ...script, project_id: script.project_id ?? sibling.project_id };
+    } else if (!existing) {
+      const scriptId = (row as Partial<ScriptComponent>).script_id;
+      if (!scriptId || !this.hasScript(scriptId)) {
+        return false;
+      }
+    }
+
+    const entry = { key, row, fetchedAt };
+    rows.set(key, entry);
+    await this.persist([[table, entry], ...this.advanceRowWatermark(table, key, row.updated_at, false)]);
+    return true;
+  }
+
+  /**
+   * Forget everything mirrored for the project
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    this.components.clear();
+    this.scripts.clear();
+    this.watermarks.clear();
+    this.rowWatermarks.clear();
+    if (!this.db) {
+      return;
+    }
+
+    const transaction = this.db.transaction(STORES, 'readwrite');
+    for (const store of STORES) {
+      transaction.objectStore(store).clear();
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Close the database; the next call opens and reloads it
+   */
+  async close(): Promise<void> {
+    await this.ready?.catch(() => undefined);
+    this.db?.close();
+    this.db = null;
+    this.ready = null;
+  }
+}
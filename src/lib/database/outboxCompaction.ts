@@ -0,0 +1,195 @@
+/**
+ * Outbox Compaction
+ *
+ * Shrinks the queued component writes before they are replayed, without
+ * changing what the server ends up with:
+ * - consecutive edits to one component become one update carrying the
+ *   newest content and the version (and merge base) the first edit was
+ *   based on, so the server sees one change against the version the user
+ *   started from
+ * - a component created and deleted while offline is never sent, together
+ *   with everything queued for it in between
+ * - a run of reorders becomes one updateComponentPositions call with the
+ *   last position of each component
+ *
+ * Reorders only set positions (they do not bump versions), so they do not
+ * stop edits from merging. Anything else that touches the component does.
+ */
+
+import type { OutboxEntry } from './componentOutbox';
+
+interface UpdateParams {
+  componentId: string;
+  content: object;
+  plainText: string;
+  currentVersion: number;
+  userId: string;
+  resolution?: object;
+}
+
+interface ComponentIdParams {
+  componentId: string;
+}
+
+interface BulkDeleteParams {
+  componentIds: string[];
+}
+
+interface PositionParams {
+  updates: Array<{ componentId: string; position: number }>;
+}
+
+interface BatchParams {
+  operations: Array<{ component_id: string }>;
+}
+
+/**
+ * Component IDs an entry writes to (a create's is its temporary ID)
+ */
+export function componentIdsOf(entry: OutboxEntry): string[] {
+  switch (entry.operation) {
+    case 'create':
+      return entry.tempComponentId ? [entry.tempComponentId] : [];
+    case 'update':
+    case 'delete':
+    case 'restore':
+    case 'restoreVersion':
+    case 'transfer':
+    case 'setStatus':
+      return [(entry.params as ComponentIdParams).componentId];
+    case 'bulkDelete':
+      return (entry.params as BulkDeleteParams).componentIds;
+    case 'updatePositions':
+      return (entry.params as PositionParams).updates.map(update => update.componentId);
+    case 'batchUpdate':
+      return (entry.params as BatchParams).operations.map(operation => operation.component_id);
+    default:
+      return [];
+  }
+}
+
+function deletes(entry: OutboxEntry, componentId: string): boolean {
+  return (entry.operation === 'delete' && (entry.params as ComponentIdParams).componentId === componentId)
+    || (entry.operation === 'bulkDelete' && (entry.params as BulkDeleteParams).componentIds.includes(componentId));
+}
+
+/**
+ * The entry with one component taken out, or null if nothing is left of it
+ */
+function withoutComponent(entry: OutboxEntry, componentId: string): OutboxEntry | null {
+  switch (entry.operation) {
+    case 'bulkDelete': {
+      const params = entry.params as BulkDeleteParams;
+      const componentIds = params.componentIds.filter(id => id !== componentId);
+      return componentIds.length > 0 ? { ...entry, params: { ...params, componentIds } } : null;
+    }
+    case 'updatePositions': {
+      const params = entry.params as PositionParams;
+      const updates = params.updates.filter(update => update.componentId !== componentId);
+      return updates.length > 0 ? { ...entry, params: { ...params, updates } } : null;
+    }
+    case 'batchUpdate': {
+      const params = entry.params as BatchParams;
+      const operations = params.operations.filter(operation => operation.component_id !== componentId);
+      return operations.length > 0 ? { ...entry, params: { ...params, operations } } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Drop creates whose component is deleted later in the queue, and everything for it in between
+ */
+function dropCreatedThenDeleted(entries: OutboxEntry[]): OutboxEntry[] {
+  let result = entries;
+
+  for (const create of entries) {
+    const tempId = create.tempComponentId;
+    if (create.operation !== 'create' || !tempId || !result.includes(create)) continue;
+
+    const start = result.indexOf(create);
+    const end = result.findIndex((entry, index) => index > start && deletes(entry, tempId));
+    if (end === -1) continue;
+
+    // Something after the delete (a restore) still needs the component
+    if (result.slice(end + 1).some(entry => componentIdsOf(entry).includes(tempId))) continue;
+
+    result = result.flatMap((entry, index) => {
+      if (index < start || index > end || !componentIdsOf(entry).includes(tempId)) return [entry];
+      const remaining = withoutComponent(entry, tempId);
+      return remaining ? [remaining] : [];
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Fold each edit into the previous edit of the same component, keeping the earlier base version
+ */
+function mergeUpdates(entries: OutboxEntry[]): OutboxEntry[] {
+  const result = [...entries];
+
+  for (let i = 0; i < result.length; i++) {
+    if (result[i].operation !== 'update') continue;
+    const componentId = (result[i].params as UpdateParams).componentId;
+
+    for (let j = i + 1; j < result.length; j++) {
+      const entry = result[j];
+      if (entry.operation === 'updatePositions' || !componentIdsOf(entry).includes(componentId)) continue;
+      if (entry.operation !== 'update') break;
+
+      const base = result[i].params as UpdateParams;
+      // How conflicts are resolved depends on the base, so it goes with the base version
+      result[i] = {
+        ...result[i],
+        params: { ...(entry.params as UpdateParams), currentVersion: base.currentVersion, resolution: base.resolution }
+      };
+      result.splice(j, 1);
+      j--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merge reorders separated only by edits into the first of them
+ */
+function collapseReorders(entries: OutboxEntry[]): OutboxEntry[] {
+  const result = [...entries];
+
+  for (let i = 0; i < result.length; i++) {
+    if (result[i].operation !== 'updatePositions') continue;
+
+    for (let j = i + 1; j < result.length; j++) {
+      const entry = result[j];
+      if (entry.operation === 'update') continue;
+      if (entry.operation !== 'updatePositions') break;
+
+      // Last position wins; components keep their first-seen order
+      const positions = new Map<string, number>();
+      for (const update of [...(result[i].params as PositionParams).updates, ...(entry.params as PositionParams).updates]) {
+        positions.set(update.componentId, update.position);
+      }
+      result[i] = {
+        ...result[i],
+        params: { updates: [...positions].map(([componentId, position]) => ({ componentId, position })) }
+      };
+      result.splice(j, 1);
+      j--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compact queued entries. The first `frozen` entries (one being replayed) are left exactly as they are
+ */
+export function compactOutbox(entries: OutboxEntry[], frozen: number = 0): OutboxEntry[] {
+  const fixed = entries.slice(0, frozen);
+  const open = collapseReorders(mergeUpdates(dropCreatedThenDeleted(entries.slice(frozen))));
+  return [...fixed, ...open];
+}
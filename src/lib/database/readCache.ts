@@ -0,0 +1,58 @@
+/**
+ * Read Cache
+ *
+ * The last answer the database gave for each read, kept in memory so
+ * ResilientScriptComponentManager can answer a read straight away (stale
+ * while it revalidates) or when the database cannot be reached.
+ *
+ * Keys are `<kind>:<arguments>`; invalidate(kind) drops every entry of a kind.
+ * A read that started before an invalidation does not get to store its answer.
+ */
+
+export interface CachedRead<T> {
+  data: T;
+  fetchedAt: string; // ISO time the database gave this answer
+}
+
+export class ReadCache {
+  private entries: Map<string, CachedRead<unknown>> = new Map();
+  private _generation: number = 0;
+
+  /**
+   * Bumped by every invalidation; read it before fetching and pass it to set()
+   */
+  get generation(): number {
+    return this._generation;
+  }
+
+  get<T>(key: string): CachedRead<T> | undefined {
+    return this.entries.get(key) as CachedRead<T> | undefined;
+  }
+
+  /**
+   * Store an answer, unless the cache was invalidated since `generation`
+   */
+  set<T>(key: string, data: T, generation: number = this._generation): boolean {
+    if (generation !== this._generation) {
+      return false;
+    }
+    this.entries.set(key, { data, fetchedAt: new Date().toISOString() });
+    return true;
+  }
+
+  /**
+   * Drop entries whose key starts with `prefix`, or everything without one
+   */
+  invalidate(prefix?: string): void {
+    this._generation++;
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
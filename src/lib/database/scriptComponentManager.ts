@@ -11,8 +11,88 @@ import {
   BatchUpdateResult,
   OptimisticLockMetrics,
   DatabaseUpdateResponse,
-  DatabaseBatchResponse
+  DatabaseBatchResponse,
+  ComponentHistoryResult,
+  MergeConflictError,
+  MergedUpdateResult,
+  OptimisticLockConfig,
+  ConflictResolutionOptions,
+  ConflictResolutionStrategy,
+  DuplicateScriptOptions,
+  ScriptCopyResult,
+  ScriptRecord,
+  ScriptTemplatesResult,
+  TemplatePlaceholdersResult,
+  TemplateVariables,
+  ScriptStatus,
+  ScriptStatusHistoryResult,
+  ScriptStatusTransitionResult,
+  ComponentStatus,
+  ComponentStatusChangeResult,
+  ComponentTransferResult,
+  ScriptSearchFilters,
+  ScriptSearchResult,
+  ScriptListOptions,
+  ScriptListPage,
+  ScriptListItem,
+  ScriptSortField
 } from '../../types/scriptComponent';
+import { extractPlainText, type JSONContent } from '../content/content-processor';
+import { isSameContent, mergeTipTapContent } from '../content/tiptapMerge';
+import { extractTemplatePlaceholders } from '../content/templatePlaceholders';
+import { assertTransitionAllowed, isScriptStatus } from '../workflow/scriptStatusWorkflow';
+import { findComponentTransition } from '../workflow/componentApprovalWorkflow';
+import type { UserRole } from '../supabase';
+import type { ScriptBudgetTargets } from '../content/scriptBudget';
+
+export const DEFAULT_OPTIMISTIC_LOCK_CONFIG: OptimisticLockConfig = {
+  maxRetryAttempts: 3, // Concurrent saves can keep landing while we resolve
+  retryDelayMs: 0,
+  enableAutoMerge: true,
+  conflictResolutionTimeout: 5000,
+  performanceTargetP95: 500
+};
+
+const SCRIPT_SORT_FIELDS: readonly ScriptSortField[] = ['updated_at', 'title', 'script_status', 'word_count'];
+
+/**
+ * listScripts cursor: the sort key and ID of the last row of a page, plus
+ * the sort it belongs to so it cannot be replayed against another order
+ */
+interface ScriptListCursor {
+  sortBy: ScriptSortField;
+  sortDirection: 'asc' | 'desc';
+  key: string;
+  id: string;
+}
+
+function encodeScriptListCursor(cursor: ScriptListCursor): string {
+  return JSON.stringify([cursor.sortBy, cursor.sortDirection, cursor.key, cursor.id]);
+}
+
+function decodeScriptListCursor(value: string): ScriptListCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed) || parsed.length !== 4 || !parsed.every(part => typeof part === 'string')) {
+      return null;
+    }
+    const [sortBy, sortDirection, key, id] = parsed as string[];
+    if (!SCRIPT_SORT_FIELDS.includes(sortBy as ScriptSortField) || (sortDirection !== 'asc' && sortDirection !== 'desc')) {
+      return null;
+    }
+    return { sortBy: sortBy as ScriptSortField, sortDirection, key, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a failed request went unanswered - no connection (status 0) or the
+ * server could not reach the database - so sending it again may succeed
+ */
+function isUnanswered(status: number | undefined): boolean {
+  return status === 0 || (status !== undefined && status >= 500);
+}
 
 /**
  * Database manager for script components with optimistic locking
@@ -22,9 +102,12 @@ export class ScriptComponentManager {
   private supabase: SupabaseClient;
   private metrics: OptimisticLockMetrics;
   private operationTimes: number[] = [];
+  private config: OptimisticLockConfig;
+  private conflictResolutions = new Map<ConflictResolutionStrategy, { count: number; totalTime: number }>();
 
-  constructor(supabaseClient: SupabaseClient) {
+  constructor(supabaseClient: SupabaseClient, config: Partial<OptimisticLockConfig> = {}) {
     this.supabase = supabaseClient;
+    this.config = { ...DEFAULT_OPTIMISTIC_LOCK_CONFIG, ...config };
     this.metrics = {
       totalOperations: 0,
       successfulOperations: 0,
@@ -37,13 +120,15 @@ export class ScriptComponentManager {
 
   /**
    * Update a single script component with optimistic locking
+   * Each successful update is recorded in script_component_versions
    */
   async updateComponent(
     componentId: string,
     content: object,
     plainText: string,
     currentVersion: number,
-    userId: string | null
+    userId: string | null,
+    restoredFromVersion?: number
   ): Promise<UpdateResult> {
     const startTime = Date.now();
 
@@ -69,7 +154,8 @@ export class ScriptComponentManager {
           p_content: content,
           p_plain_text: plainText,
           p_current_version: currentVersion,
-          p_user_id: userId
+          p_user_id: userId,
+          ...(restoredFromVersion !== undefined && { p_restored_from_version: restoredFromVersion })
         }
       );
 
@@ -191,14 +277,238 @@ export class ScriptComponentManager {
     return data || 0;
   }
 
+  /**
+   * Get the stored versions of a component, newest first
+   */
+  async getComponentHistory(componentId: string): Promise<ComponentHistoryResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      if (!componentId) {
+        throw new Error('Component ID is required');
+      }
+
+      const { data, error } = await this.supabase
+        .from('script_component_versions')
+        .select('version_id, component_id, script_id, version, content_tiptap, content_plain, edited_by, restored_from_version, created_at')
+        .eq('component_id', componentId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch component history: ${error.message}`);
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        versions: data || []
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        versions: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Restore the wording of an earlier version as a new version.
+   * Goes through the same optimistic lock as updateComponent: currentVersion
+   * is the version the caller is looking at, and an OptimisticLockError is
+   * thrown if someone else has saved since
+   */
+  async restoreComponentVersion(
+    componentId: string,
+    version: number,
+    currentVersion: number,
+    userId: string | null
+  ): Promise<UpdateResult> {
+    if (!componentId) {
+      throw new Error('Component ID is required');
+    }
+    if (version <= 0) {
+      throw new Error('Valid version number is required');
+    }
+    if (version === currentVersion) {
+      throw new Error(`Version ${version} is already the current version`);
+    }
+
+    const data = await this.getVersionContent(componentId, version);
+    if (!data) {
+      throw new Error(`Version ${version} not found for component ${componentId}`);
+    }
+
+    return this.updateComponent(
+      componentId,
+      data.content_tiptap,
+      data.content_plain,
+      currentVersion,
+      userId,
+      version
+    );
+  }
+
+  /**
+   * Update a component and resolve version conflicts with the given strategy
+   * (defaults to auto_merge, or manual_merge when enableAutoMerge is off):
+   *
+   * - client_wins: rewrite the local content on top of the server version
+   * - server_wins: keep the server content and discard the local edit
+   * - retry_with_latest: retry on the latest version when only the version
+   *   moved (server content still equals the base), otherwise manual
+   * - auto_merge: three-way merge, retried while clean, otherwise manual
+   * - manual_merge: throw MergeConflictError for the merge UI
+   *
+   * baseContent is the content the edit started from (the content of
+   * currentVersion); when omitted it is loaded from the version history.
+   * Retries give up after maxRetryAttempts rounds or conflictResolutionTimeout
+   * ms, rethrowing the last OptimisticLockError
+   */
+  async updateComponentWithResolution(
+    componentId: string,
+    content: object,
+    plainText: string,
+    currentVersion: number,
+    userId: string | null,
+    options: ConflictResolutionOptions = {}
+  ): Promise<MergedUpdateResult> {
+    const strategy = options.strategy ?? (this.config.enableAutoMerge ? 'auto_merge' : 'manual_merge');
+    let attemptContent = content;
+    let attemptPlainText = plainText;
+    let attemptVersion = currentVersion;
+    let base = options.baseContent;
+    let conflictStartedAt: number | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      let conflict: OptimisticLockError;
+      try {
+        const result = await this.updateComponent(componentId, attemptContent, attemptPlainText, attemptVersion, userId);
+        if (conflictStartedAt === undefined) {
+          return { ...result, content: attemptContent, plainText: attemptPlainText, merged: false };
+        }
+        this.recordConflictResolution(strategy, Date.now() - conflictStartedAt);
+        return {
+          ...result,
+          content: attemptContent,
+          plainText: attemptPlainText,
+          merged: strategy !== 'client_wins',
+          resolvedBy: strategy
+        };
+      } catch (error) {
+        if (!(error instanceof OptimisticLockError) || !error.isAutoMergeable()) {
+          throw error;
+        }
+        conflict = error;
+      }
+
+      conflictStartedAt ??= Date.now();
+      const serverContent = conflict.currentContent;
+
+      if (strategy === 'server_wins') {
+        this.recordConflictResolution(strategy, Date.now() - conflictStartedAt);
+        return {
+          success: true,
+          newVersion: conflict.currentVersion,
+          conflictDetected: true,
+          content: serverContent,
+          plainText: extractPlainText(serverContent as JSONContent),
+          merged: false,
+          resolvedBy: strategy
+        };
+      }
+
+      if (strategy !== 'client_wins') {
+        base ??= (await this.getVersionContent(componentId, attemptVersion))?.content_tiptap;
+        const merge = base
+          ? mergeTipTapContent(base as JSONContent, attemptContent as JSONContent, serverContent as JSONContent)
+          : undefined;
+        const onlyVersionMoved = base !== undefined && isSameContent(base as JSONContent, serverContent as JSONContent);
+        const canRetry = strategy === 'auto_merge'
+          ? merge?.clean === true
+          : strategy === 'retry_with_latest' && onlyVersionMoved;
+
+        if (!canRetry) {
+          throw new MergeConflictError({
+            componentId,
+            clientContent: attemptContent,
+            serverContent,
+            baseContent: base,
+            clientVersion: attemptVersion,
+            serverVersion: conflict.currentVersion,
+            // Without a base every difference is a conflict, so offer the whole document
+            conflictAreas: merge?.conflictAreas ?? [{
+              path: 'content[0]',
+              clientValue: { nodes: (attemptContent as JSONContent).content ?? [] },
+              serverValue: { nodes: (serverContent as JSONContent).content ?? [] },
+              conflictType: 'structural_conflict'
+            }],
+            mergedContent: merge?.content ?? serverContent
+          });
+        }
+
+        attemptContent = merge!.content;
+        attemptPlainText = extractPlainText(merge!.content);
+      }
+
+      // Only retries count against the limits; server_wins and a manual merge resolve without one
+      const outOfTime = Date.now() - conflictStartedAt > this.config.conflictResolutionTimeout;
+      if (attempt + 1 >= this.config.maxRetryAttempts || outOfTime) {
+        throw conflict;
+      }
+
+      // The retry is based on the server version, which is the base for the next round
+      base = serverContent;
+      attemptVersion = conflict.currentVersion;
+
+      if (this.config.retryDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.config.retryDelayMs));
+      }
+    }
+  }
+
+  /**
+   * Load the stored content of one component version
+   */
+  private async getVersionContent(
+    componentId: string,
+    version: number
+  ): Promise<{ version: number; content_tiptap: object; content_plain: string } | null> {
+    const { data, error } = await this.supabase
+      .from('script_component_versions')
+      .select('version, content_tiptap, content_plain')
+      .eq('component_id', componentId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load version ${version}: ${error.message}`);
+    }
+    return data;
+  }
+
   /**
    * Get performance metrics for optimistic locking operations
    */
   getMetrics(): OptimisticLockMetrics {
+    const conflictResolutionsByStrategy: OptimisticLockMetrics['conflictResolutionsByStrategy'] = {};
+    let resolvedCount = 0;
+    let resolvedTime = 0;
+    for (const [strategy, { count, totalTime }] of this.conflictResolutions) {
+      conflictResolutionsByStrategy[strategy] = { count, averageTime: Math.round(totalTime / count) };
+      resolvedCount += count;
+      resolvedTime += totalTime;
+    }
+
     return {
       ...this.metrics,
       averageLatency: this.calculateAverageLatency(),
-      p95Latency: this.calculateP95Latency()
+      p95Latency: this.calculateP95Latency(),
+      conflictResolutionTime: resolvedCount > 0 ? Math.round(resolvedTime / resolvedCount) : 0,
+      conflictResolutionsByStrategy
     };
   }
 
@@ -215,6 +525,17 @@ export class ScriptComponentManager {
       conflictResolutionTime: 0
     };
     this.operationTimes = [];
+    this.conflictResolutions.clear();
+  }
+
+  /**
+   * Record how long a conflict took to resolve and which strategy resolved it
+   */
+  private recordConflictResolution(strategy: ConflictResolutionStrategy, durationMs: number): void {
+    const entry = this.conflictResolutions.get(strategy) ?? { count: 0, totalTime: 0 };
+    entry.count++;
+    entry.totalTime += durationMs;
+    this.conflictResolutions.set(strategy, entry);
   }
 
   /**
@@ -751,6 +1072,7 @@ export class ScriptComponentManager {
 
   /**
    * Get all video scripts accessible to the current user
+   * Unbounded - prefer listScripts() for anything user-facing
    */
   async getAllScripts(): Promise<{
     scripts: Array<{
@@ -760,7 +1082,7 @@ export class ScriptComponentManager {
       description?: string;
       script_status: string;
       word_count?: number;
-      estimated_duration?: string;
+      estimated_duration?: number; // seconds
       created_at: string;
       updated_at: string;
       last_edited_by?: string;
@@ -787,6 +1109,7 @@ export class ScriptComponentManager {
           last_edited_by,
           last_edited_at
         `)
+        .eq('is_template', false)
         .order('updated_at', { ascending: false });
 
       if (error) {
@@ -809,6 +1132,79 @@ export class ScriptComponentManager {
     }
   }
 
+  /**
+   * List scripts one page at a time (keyset pagination via list_scripts).
+   * Pass the returned nextCursor back with the same filters and sort to get
+   * the following page
+   */
+  async listScripts(options: ScriptListOptions = {}): Promise<ScriptListPage> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const sortBy = options.sortBy ?? 'updated_at';
+      const sortDirection = options.sortDirection ?? 'desc';
+      const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+
+      if (!SCRIPT_SORT_FIELDS.includes(sortBy)) {
+        throw new Error(`Unsupported sort column: ${sortBy}`);
+      }
+
+      let cursor: ScriptListCursor | null = null;
+      if (options.cursor) {
+        cursor = decodeScriptListCursor(options.cursor);
+        if (!cursor || cursor.sortBy !== sortBy || cursor.sortDirection !== sortDirection) {
+          throw new Error('Invalid cursor for this sort order');
+        }
+      }
+
+      // One extra row tells us whether there is another page
+      const { data, error } = await this.supabase.rpc('list_scripts', {
+        p_sort_by: sortBy,
+        p_sort_direction: sortDirection,
+        p_cursor_key: cursor?.key ?? null,
+        p_cursor_id: cursor?.id ?? null,
+        p_limit: limit + 1,
+        p_video_id: options.videoId ?? null,
+        p_project_id: options.projectId ?? null,
+        p_statuses: options.statuses?.length ? options.statuses : null,
+        p_last_edited_by: options.lastEditedBy ?? null,
+        p_updated_from: options.updatedFrom ?? null,
+        p_updated_to: options.updatedTo ?? null
+      });
+
+      if (error) {
+        throw new Error(`Failed to list scripts: ${error.message}`);
+      }
+
+      const rows: Array<ScriptListItem & { sort_key: string }> = data || [];
+      const pageRows = rows.slice(0, limit);
+      const last = pageRows[pageRows.length - 1];
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        scripts: pageRows.map(row => {
+          const script: ScriptListItem & { sort_key?: string } = { ...row };
+          delete script.sort_key;
+          return script;
+        }),
+        nextCursor: rows.length > limit && last
+          ? encodeScriptListCursor({ sortBy, sortDirection, key: last.sort_key, id: last.script_id })
+          : null
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        scripts: [],
+        nextCursor: null,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Create a new video script
    */
@@ -884,7 +1280,7 @@ export class ScriptComponentManager {
       description?: string;
       script_status: string;
       word_count?: number;
-      estimated_duration?: string;
+      estimated_duration?: number; // seconds
       created_at: string;
       updated_at: string;
       last_edited_by?: string;
@@ -975,7 +1371,672 @@ export class ScriptComponentManager {
       };
     }
   }
+
+  /**
+   * Resolve a project code (e.g. EAV023) to its project ID
+   */
+  async getProjectIdByCode(projectCode: string): Promise<{
+    projectId?: string;
+    error?: string;
+  }> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('projects')
+        .select('project_id')
+        .eq('project_code', projectCode)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to find project ${projectCode}: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new Error(`Project ${projectCode} not found`);
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        projectId: data.project_id
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        error: error instanceof Error ? error.message : 'Failed to find project'
+      };
+    }
+  }
+
+  // ============================================================================
+  // SCRIPT DUPLICATION AND TEMPLATES
+  // ============================================================================
+
+  /**
+   * Copy a script and its live components to another video in one transaction.
+   * With asTemplate the copy is saved as a template instead (targetVideoId may
+   * then be null); variables fill {{placeholder}} tokens in the copy.
+   */
+  async duplicateScript(
+    scriptId: string,
+    targetVideoId: string | null,
+    options: DuplicateScriptOptions = {}
+  ): Promise<ScriptCopyResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      if (!scriptId) {
+        throw new Error('Script ID is required');
+      }
+      if (!targetVideoId && !options.asTemplate) {
+        throw new Error('Target video ID is required unless saving as a template');
+      }
+
+      const { data, error } = await this.supabase.rpc('duplicate_video_script', {
+        p_source_script_id: scriptId,
+        p_target_video_id: targetVideoId,
+        p_title: options.title?.trim() || null,
+        p_description: options.description?.trim() || null,
+        p_is_template: options.asTemplate ?? false,
+        p_variables: options.variables ?? {},
+        p_user_id: options.userId ?? null
+      });
+
+      if (error) {
+        throw new Error(`Failed to duplicate script: ${error.message}`);
+      }
+
+      const script = (Array.isArray(data) ? data[0] : data) as ScriptRecord | null;
+      if (!script) {
+        throw new Error('No data returned from script duplication');
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return { script };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get all script templates, sorted by title
+   */
+  async getScriptTemplates(): Promise<ScriptTemplatesResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('video_scripts')
+        .select('script_id, title, description, updated_at')
+        .eq('is_template', true)
+        .order('title', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch templates: ${error.message}`);
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        templates: data || []
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        templates: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Placeholder names a template's title and components expect values for
+   */
+  async getTemplatePlaceholders(templateId: string): Promise<TemplatePlaceholdersResult> {
+    const [{ script, error: scriptError }, { components, error }] = await Promise.all([
+      this.getScriptById(templateId),
+      this.getComponentsByScriptId(templateId)
+    ]);
+
+    if (scriptError || error) {
+      return { placeholders: [], error: scriptError || error };
+    }
+
+    return {
+      placeholders: extractTemplatePlaceholders(
+        script?.title,
+        script?.description,
+        ...components.map(component => component.content_tiptap)
+      )
+    };
+  }
+
+  /**
+   * Create a script for a video from a template: the video_scripts row and all
+   * template components (in order, placeholders filled) in one transaction
+   */
+  async createScriptFromTemplate(
+    templateId: string,
+    videoId: string,
+    variables: TemplateVariables = {},
+    options: { title?: string; userId?: string | null } = {}
+  ): Promise<ScriptCopyResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      if (!templateId || !videoId) {
+        throw new Error('Template ID and video ID are required');
+      }
+
+      const { data, error } = await this.supabase.rpc('create_script_from_template', {
+        p_template_id: templateId,
+        p_video_id: videoId,
+        p_variables: variables,
+        p_title: options.title?.trim() || null,
+        p_user_id: options.userId ?? null
+      });
+
+      if (error) {
+        throw new Error(`Failed to create script from template: ${error.message}`);
+      }
+
+      const script = (Array.isArray(data) ? data[0] : data) as ScriptRecord | null;
+      if (!script) {
+        throw new Error('No data returned from template instantiation');
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return { script };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // ============================================================================
+  // SCRIPT STATUS WORKFLOW
+  // ============================================================================
+
+  /**
+   * Move a script to another workflow status through transition_script_status,
+   * which checks the transition and the caller's role and writes the audit
+   * trail. When the current status and role are known the transition is
+   * validated locally first, so invalid moves fail without a round trip.
+   */
+  async transitionScriptStatus(
+    scriptId: string,
+    toStatus: ScriptStatus,
+    options: { reason?: string; currentStatus?: ScriptStatus; role?: UserRole | null } = {}
+  ): Promise<ScriptStatusTransitionResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      if (!scriptId) {
+        throw new Error('Script ID is required');
+      }
+      if (!isScriptStatus(toStatus)) {
+        throw new Error(`Unknown script status: ${toStatus}`);
+      }
+      if (options.currentStatus && options.role !== undefined) {
+        assertTransitionAllowed(options.currentStatus, toStatus, options.role, options.reason);
+      }
+
+      const { data, error } = await this.supabase.rpc('transition_script_status', {
+        p_script_id: scriptId,
+        p_to_status: toStatus,
+        p_reason: options.reason?.trim() || null
+      });
+
+      if (error) {
+        throw new Error(`Failed to change script status: ${error.message}`);
+      }
+
+      const result = (Array.isArray(data) ? data[0] : data) as {
+        success: boolean;
+        previous_status: ScriptStatus | null;
+        new_status: ScriptStatus | null;
+        error_message: string | null;
+      } | null;
+
+      if (!result) {
+        throw new Error('No data returned from status transition');
+      }
+
+      this.recordOperationTime(Date.now() - startTime);
+
+      if (!result.success) {
+        return {
+          success: false,
+          status: result.previous_status ?? undefined,
+          error: result.error_message ?? 'Status change rejected'
+        };
+      }
+
+      this.metrics.successfulOperations++;
+      return {
+        success: true,
+        status: result.new_status ?? toStatus
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        success: false,
+        status: options.currentStatus,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Status audit trail for a script, newest first
+   */
+  async getScriptStatusHistory(scriptId: string): Promise<ScriptStatusHistoryResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('script_status_history')
+        .select('history_id, script_id, from_status, to_status, changed_by, changed_by_role, reason, created_at')
+        .eq('script_id', scriptId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch status history: ${error.message}`);
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        history: data || []
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        history: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // ============================================================================
+  // COMPONENT APPROVAL
+  // ============================================================================
+
+  /**
+   * Change a component's approval status through set_component_status, which
+   * checks the caller's role, records the change and rolls the script status
+   * up (approved once every component is approved). Unapproving requires a
+   * reason. expectedVersion makes approval fail if the wording changed since
+   * the reviewer last saw it.
+   */
+  async setComponentStatus(
+    componentId: string,
+    status: ComponentStatus,
+    options: {
+      reason?: string;
+      expectedVersion?: number;
+      currentStatus?: ComponentStatus;
+      role?: UserRole | null;
+    } = {}
+  ): Promise<ComponentStatusChangeResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      if (!componentId) {
+        throw new Error('Component ID is required');
+      }
+      if (options.currentStatus && options.role !== undefined) {
+        const transition = findComponentTransition(options.currentStatus, status, options.role);
+        if (!transition) {
+          throw new Error(`Role ${options.role ?? 'unknown'} cannot change a component from ${options.currentStatus} to ${status}`);
+        }
+        if (transition.requiresReason && !options.reason?.trim()) {
+          throw new Error('A reason is required to unapprove a component');
+        }
+      }
+
+      const { data, error, status: httpStatus } = await this.supabase.rpc('set_component_status', {
+        p_component_id: componentId,
+        p_status: status,
+        p_reason: options.reason?.trim() || null,
+        p_expected_version: options.expectedVersion ?? null
+      });
+
+      if (error && isUnanswered(httpStatus)) {
+        this.recordOperationTime(Date.now() - startTime);
+        return {
+          success: false,
+          status: options.currentStatus,
+          error: `Failed to change component status: ${error.message}`,
+          retryable: true
+        };
+      }
+      if (error) {
+        throw new Error(`Failed to change component status: ${error.message}`);
+      }
+
+      const result = (Array.isArray(data) ? data[0] : data) as {
+        success: boolean;
+        component_status: ComponentStatus | null;
+        script_status: ScriptStatus | null;
+        error_message: string | null;
+      } | null;
+
+      if (!result) {
+        throw new Error('No data returned from component status change');
+      }
+
+      this.recordOperationTime(Date.now() - startTime);
+
+      if (!result.success) {
+        return {
+          success: false,
+          status: result.component_status ?? undefined,
+          scriptStatus: result.script_status ?? undefined,
+          error: result.error_message ?? 'Status change rejected'
+        };
+      }
+
+      this.metrics.successfulOperations++;
+      return {
+        success: true,
+        status: result.component_status ?? status,
+        scriptStatus: result.script_status ?? undefined
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        success: false,
+        status: options.currentStatus,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // ============================================================================
+  // MOVE / COPY BETWEEN SCRIPTS
+  // ============================================================================
+
+  /**
+   * Move a component to another script, after afterComponentId or at the end.
+   * The component keeps its ID and history; its version is bumped. Pass the
+   * version on screen as expectedVersion to refuse moving unseen edits
+   */
+  async moveComponentToScript(
+    componentId: string,
+    targetScriptId: string,
+    afterComponentId: string | null = null,
+    options: { expectedVersion?: number } = {}
+  ): Promise<ComponentTransferResult> {
+    return this.transferComponent('move', componentId, targetScriptId, afterComponentId, options.expectedVersion);
+  }
+
+  /**
+   * Copy a component into a script (the same one or another) as a new,
+   * unapproved component at version 1
+   */
+  async copyComponentToScript(
+    componentId: string,
+    targetScriptId: string,
+    afterComponentId: string | null = null,
+    options: { expectedVersion?: number } = {}
+  ): Promise<ComponentTransferResult> {
+    return this.transferComponent('copy', componentId, targetScriptId, afterComponentId, options.expectedVersion);
+  }
+
+  private async transferComponent(
+    mode: 'move' | 'copy',
+    componentId: string,
+    targetScriptId: string,
+    afterComponentId: string | null,
+    expectedVersion?: number
+  ): Promise<ComponentTransferResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      if (!componentId || !targetScriptId) {
+        throw new Error('Component ID and target script ID are required');
+      }
+
+      const { data, error, status } = await this.supabase.rpc('transfer_component', {
+        p_component_id: componentId,
+        p_target_script_id: targetScriptId,
+        p_mode: mode,
+        p_after_component_id: afterComponentId,
+        p_expected_version: expectedVersion ?? null
+      });
+
+      if (error && isUnanswered(status)) {
+        this.recordOperationTime(Date.now() - startTime);
+        return {
+          success: false,
+          conflictDetected: false,
+          error: `Failed to ${mode} component: ${error.message}`,
+          retryable: true
+        };
+      }
+      if (error) {
+        throw new Error(`Failed to ${mode} component: ${error.message}`);
+      }
+
+      const result = (Array.isArray(data) ? data[0] : data) as {
+        success: boolean;
+        component_id: string | null;
+        target_position: number | null;
+        new_version: number | null;
+        conflict_detected: boolean;
+        current_version: number | null;
+        error_message: string | null;
+      } | null;
+
+      if (!result) {
+        throw new Error(`No data returned from component ${mode}`);
+      }
+
+      this.recordOperationTime(Date.now() - startTime);
+
+      if (!result.success) {
+        if (result.conflict_detected) {
+          this.metrics.conflictCount++;
+        }
+        return {
+          success: false,
+          conflictDetected: result.conflict_detected,
+          currentVersion: result.current_version ?? undefined,
+          error: result.error_message ?? `Component ${mode} rejected`
+        };
+      }
+
+      this.metrics.successfulOperations++;
+      return {
+        success: true,
+        componentId: result.component_id ?? undefined,
+        position: result.target_position ?? undefined,
+        version: result.new_version ?? undefined,
+        conflictDetected: false
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        success: false,
+        conflictDetected: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // ============================================================================
+  // WORD COUNT AND DURATION BUDGET
+  // ============================================================================
+
+  /**
+   * Targets a script is budgeted against: its own target_word_count and its
+   * video's target_duration_seconds (either may be unset)
+   */
+  async getScriptBudgetTargets(scriptId: string): Promise<{ targets?: ScriptBudgetTargets; error?: string }> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('video_scripts')
+        .select('target_word_count, videos(target_duration_seconds)')
+        .eq('script_id', scriptId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new Error('Script not found');
+        }
+        throw new Error(`Failed to fetch script targets: ${error.message}`);
+      }
+
+      // Many-to-one embed: videos is a single row, not the array the inferred type suggests
+      const row = data as unknown as {
+        target_word_count: number | null;
+        videos: { target_duration_seconds: number | null } | null;
+      };
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        targets: {
+          targetWordCount: row.target_word_count ?? null,
+          targetDurationSeconds: row.videos?.target_duration_seconds ?? null
+        }
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Persist a script's computed totals (see calculateScriptBudget) so lists
+   * and exports can show them without loading every component
+   */
+  async saveScriptTotals(
+    scriptId: string,
+    totals: { wordCount: number; durationSeconds: number }
+  ): Promise<{ success: boolean; error?: string }> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const { error } = await this.supabase
+        .from('video_scripts')
+        .update({
+          word_count: totals.wordCount,
+          current_word_count: totals.wordCount,
+          estimated_duration: totals.durationSeconds
+        })
+        .eq('script_id', scriptId);
+
+      if (error) {
+        throw new Error(`Failed to save script totals: ${error.message}`);
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return { success: true };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // ============================================================================
+  // SEARCH
+  // ============================================================================
+
+  /**
+   * Full-text search over component text and script titles. Accepts web-style
+   * queries ("quoted phrase", or, -exclude) and returns ranked hits with
+   * highlighted snippets and the matching component's position in its script
+   */
+  async searchScripts(
+    query: string,
+    filters: ScriptSearchFilters = {}
+  ): Promise<ScriptSearchResult> {
+    const startTime = Date.now();
+    this.metrics.totalOperations++;
+
+    try {
+      const trimmed = query.trim();
+      if (!trimmed) {
+        this.metrics.successfulOperations++;
+        this.recordOperationTime(Date.now() - startTime);
+        return { hits: [] };
+      }
+
+      const { data, error } = await this.supabase.rpc('search_scripts', {
+        p_query: trimmed,
+        p_project_id: filters.projectId ?? null,
+        p_video_id: filters.videoId ?? null,
+        p_script_statuses: filters.scriptStatuses?.length ? filters.scriptStatuses : null,
+        p_include_templates: filters.includeTemplates ?? false,
+        p_limit: filters.limit ?? 20,
+        p_offset: filters.offset ?? 0
+      });
+
+      if (error) {
+        throw new Error(`Failed to search scripts: ${error.message}`);
+      }
+
+      this.metrics.successfulOperations++;
+      this.recordOperationTime(Date.now() - startTime);
+
+      return {
+        hits: data || []
+      };
+
+    } catch (error) {
+      this.recordOperationTime(Date.now() - startTime);
+      return {
+        hits: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 }
 
-// Re-export OptimisticLockError for convenience
-export { OptimisticLockError };
+// Re-export error classes for convenience
+export { OptimisticLockError, MergeConflictError };
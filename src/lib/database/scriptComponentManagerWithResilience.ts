@@ -4,26 +4,65 @@
  * Technical Architect: Implementing resilience patterns for CRUD operations
  * This wrapper adds circuit breaker protection to all database operations
  * to prevent cascade failures and provide graceful degradation
+ *
+ * Writes that cannot reach the database go to a durable ComponentOutbox and
+ * are replayed in order once a breaker closes. While anything is queued,
+ * later writes queue behind it, so the server sees them in the order they
+ * were made. Before a queued edit is sent its base version is checked
+ * against the server, so a stale edit fails as a conflict without a write;
+ * an edit that carries a conflict resolution is merged instead.
+ *
+ * Every method returns a ResilientResult, so callers can tell an answer from
+ * a queued write, an unreachable database and a version conflict. Reads keep
+ * the last answer in a ReadCache and serve it stale while they revalidate.
+ * Answers are also mirrored into the project's OfflineScriptCache, which is
+ * served, marked offline, when the database cannot be reached. Realtime row
+ * changes (watchForChanges) keep both caches current.
  */
 
 // Context7: consulted for @supabase/supabase-js
-import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseClient, type RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 // Context7: consulted for opossum
 import CircuitBreaker from 'opossum';
 import { ScriptComponentManager } from './scriptComponentManager';
+import { circuitBreakerTelemetry, type BreakerName } from '../monitoring/circuitBreakerTelemetry';
+import {
+  ComponentOutbox,
+  isOutboxOperation,
+  type OutboxEntry,
+  type OutboxOperation,
+  type OutboxStatus
+} from './componentOutbox';
+import { ReadCache, type CachedRead } from './readCache';
+import { OfflineScriptCache, type MirroredTable } from './offlineScriptCache';
 import {
   UpdateResult,
   BatchUpdateOperation,
   BatchUpdateResult,
   OptimisticLockMetrics,
+  OptimisticLockConfig,
   DeleteResult,
   RestoreResult,
   BulkDeleteResult,
   PositionUpdateResult,
   ScriptComponent,
   ComponentsListResult,
-  ComponentReadResult
+  ComponentReadResult,
+  ScriptListOptions,
+  ScriptListItem,
+  ScriptListPage,
+  ComponentCountResult,
+  ComponentStatus,
+  ComponentStatusChangeResult,
+  ComponentTransferMode,
+  ComponentTransferResult,
+  ConflictResolutionOptions,
+  MergedUpdateResult,
+  ResilientResult,
+  OptimisticLockError,
+  MergeConflictError
 } from '../../types/scriptComponent';
+import type { UserRole } from '../supabase';
 
 // Type definitions for circuit breaker operation parameters
 interface CreateParams {
@@ -41,6 +80,7 @@ interface UpdateParams {
   plainText: string;
   currentVersion: number;
   userId: string;
+  resolution?: ConflictResolutionOptions; // Resolve version conflicts instead of failing on them
 }
 
 interface DeleteParams {
@@ -78,9 +118,54 @@ interface BatchUpdateParams {
   operations: BatchUpdateOperation[];
 }
 
+interface ListScriptsParams {
+  options: ScriptListOptions;
+}
+
+interface RestoreVersionParams {
+  componentId: string;
+  version: number;
+  currentVersion: number;
+  userId: string;
+}
+
+interface TransferParams {
+  mode: ComponentTransferMode;
+  componentId: string;
+  targetScriptId: string;
+  afterComponentId: string | null;
+  expectedVersion?: number;
+}
+
+interface SetStatusParams {
+  componentId: string;
+  status: ComponentStatus;
+  reason?: string;
+  expectedVersion?: number;
+  currentStatus?: ComponentStatus;
+  role?: UserRole | null;
+}
+
+/**
+ * Options for reads served from the cache. onRevalidated gets what the
+ * background revalidation found: fresh data, or why there is none
+ */
+export interface RevalidateOptions<T> {
+  onRevalidated?: (result: ResilientResult<T>) => void;
+}
+
+/**
+ * How a read is written to, and served from, the offline script cache
+ */
+interface OfflineMirror<R> {
+  store: (data: R, fetchedAt: string) => Promise<unknown>;
+  load: () => Promise<CachedRead<R> | undefined>;
+}
+
 type CircuitBreakerParams = CreateParams | UpdateParams | DeleteParams | RestoreParams |
                            GetComponentsParams | GetComponentParams | BulkDeleteParams |
-                           UpdatePositionsParams | BatchUpdateParams;
+                           UpdatePositionsParams | BatchUpdateParams | ListScriptsParams |
+                           RestoreVersionParams | TransferParams | SetStatusParams;
 
 /**
  * Circuit breaker configuration for database operations
@@ -96,19 +181,78 @@ const CIRCUIT_BREAKER_CONFIG = {
   allowWarmUp: false // Disable warm-up for immediate testing
 };
 
+// A queued write that keeps failing with the breaker closed is set aside after this many tries
+const MAX_REPLAY_ATTEMPTS = 3;
+
+const QUEUED_MESSAGE = 'Service temporarily unavailable. Operation queued for retry.';
+
+const UNAVAILABLE_MESSAGE = 'Service temporarily unavailable';
+
+const NOT_INITIALIZED: ResilientResult<never> = { status: 'unavailable', error: 'Circuit breaker not initialized' };
+
+/**
+ * Why the server refused a replayed write, or null if it was accepted
+ */
+function getReplayRejection(operation: OutboxOperation, result: unknown): string | null {
+  switch (operation) {
+    case 'create': {
+      const created = result as Partial<ScriptComponent> | null;
+      return created?.component_id ? null : 'Create returned no component';
+    }
+    case 'update':
+    case 'restoreVersion': {
+      const update = result as UpdateResult;
+      if (update.success) return null;
+      return update.conflictDetected ? 'Version conflict detected' : update.errorMessage ?? 'Update failed';
+    }
+    case 'batchUpdate': {
+      const failed = (result as BatchUpdateResult[]).filter(item => !item.success);
+      return failed.length === 0 ? null : failed.map(item => `${item.component_id}: ${item.error_message ?? 'conflict'}`).join('; ');
+    }
+    default: {
+      const outcome = result as { success: boolean; error?: string };
+      return outcome.success ? null : outcome.error ?? `${operation} failed`;
+    }
+  }
+}
+
 /**
  * Enhanced ScriptComponentManager with circuit breaker protection
  */
 export class ResilientScriptComponentManager {
   private manager: ScriptComponentManager;
   private circuitBreakers: Map<string, CircuitBreaker>;
-  private offlineQueue: Array<{ operation: string; params: unknown; timestamp: number }> = [];
-  private readonly MAX_OFFLINE_QUEUE_SIZE = 100;
+  private outbox: ComponentOutbox;
+  // Parameters currently being replayed; their fallbacks must not queue them again
+  private replayingParams: WeakSet<object> = new WeakSet();
+  // Versions this replay moved components to: edits queued against `from` are now against `to`
+  private replayedVersions: Map<string, { from: number; to: number }> = new Map();
+  private readCache: ReadCache = new ReadCache();
+  // Background revalidations in flight, by cache key
+  private revalidations: Map<string, Promise<ResilientResult<unknown>>> = new Map();
+  private supabase: SupabaseClient;
+  private offlineCache: OfflineScriptCache;
+  // Offline cache writes run one after another, in the order they were made
+  private offlineCacheWrites: Promise<void> = Promise.resolve();
+  private disposed: boolean = false;
 
-  constructor(supabaseClient: SupabaseClient) {
-    this.manager = new ScriptComponentManager(supabaseClient);
+  constructor(
+    supabaseClient: SupabaseClient,
+    lockConfig?: Partial<OptimisticLockConfig>,
+    outbox: ComponentOutbox = new ComponentOutbox(),
+    offlineCache: OfflineScriptCache = new OfflineScriptCache()
+  ) {
+    this.supabase = supabaseClient;
+    this.manager = new ScriptComponentManager(supabaseClient, lockConfig);
     this.circuitBreakers = new Map();
+    this.outbox = outbox;
+    this.offlineCache = offlineCache;
     this.initializeCircuitBreakers();
+
+    // Send whatever an earlier session left queued
+    this.outbox.initialize()
+      .then(() => this.replayOfflineQueue())
+      .catch(error => console.error('Failed to load offline queue:', error));
   }
 
   /**
@@ -129,6 +273,16 @@ export class ResilientScriptComponentManager {
 
     // Update component circuit breaker
     this.createCircuitBreaker('update', async (params: UpdateParams) => {
+      if (params.resolution) {
+        return this.manager.updateComponentWithResolution(
+          params.componentId,
+          params.content,
+          params.plainText,
+          params.currentVersion,
+          params.userId,
+          params.resolution
+        );
+      }
       return this.manager.updateComponent(
         params.componentId,
         params.content,
@@ -170,10 +324,15 @@ export class ResilientScriptComponentManager {
 
     // Get single component circuit breaker
     this.createCircuitBreaker('getComponent', async (params: GetComponentParams) => {
-      return this.manager.getComponentById(
+      const result = await this.manager.getComponentById(
         params.componentId,
         params.includeDeleted
       );
+      // A missing component is an answer; any other error is a failed read
+      if (result.error && result.error !== 'Component not found') {
+        throw new Error(result.error);
+      }
+      return result;
     });
 
     // Bulk delete circuit breaker
@@ -197,22 +356,75 @@ export class ResilientScriptComponentManager {
     this.createCircuitBreaker('batchUpdate', async (params: BatchUpdateParams) => {
       return this.manager.updateMultipleComponents(params.operations);
     });
+
+    // Restore version circuit breaker
+    this.createCircuitBreaker('restoreVersion', async (params: RestoreVersionParams) => {
+      return this.manager.restoreComponentVersion(
+        params.componentId,
+        params.version,
+        params.currentVersion,
+        params.userId
+      );
+    });
+
+    // Move / copy circuit breaker
+    this.createCircuitBreaker('transfer', async (params: TransferParams) => {
+      const transfer = params.mode === 'move'
+        ? this.manager.moveComponentToScript.bind(this.manager)
+        : this.manager.copyComponentToScript.bind(this.manager);
+      const result = await transfer(params.componentId, params.targetScriptId, params.afterComponentId, {
+        expectedVersion: params.expectedVersion
+      });
+      // A refusal is an answer; an unanswered request is a failure the breaker must see
+      if (result.retryable) {
+        throw new Error(result.error);
+      }
+      return result;
+    });
+
+    // Component status circuit breaker
+    this.createCircuitBreaker('setStatus', async (params: SetStatusParams) => {
+      const result = await this.manager.setComponentStatus(params.componentId, params.status, {
+        reason: params.reason,
+        expectedVersion: params.expectedVersion,
+        currentStatus: params.currentStatus,
+        role: params.role
+      });
+      if (result.retryable) {
+        throw new Error(result.error);
+      }
+      return result;
+    });
+
+    // List scripts circuit breaker
+    this.createCircuitBreaker('listScripts', async (params: ListScriptsParams) => {
+      const result = await this.manager.listScripts(params.options);
+      // Throw so the circuit breaker counts failed pages
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return result;
+    });
   }
 
   /**
-   * Create a circuit breaker with fallback and monitoring
+   * Create a circuit breaker with fallback and monitoring. The operation's
+   * answer resolves as ok; the fallback supplies every other outcome
    */
   private createCircuitBreaker<T extends CircuitBreakerParams, R>(
-    name: string,
+    name: BreakerName,
     operation: (params: T) => Promise<R>
   ): void {
-    const breaker = new CircuitBreaker(operation, {
+    const answer = async (params: T): Promise<ResilientResult<R>> => ({ status: 'ok', data: await operation(params) });
+    const breaker = new CircuitBreaker(answer, {
       ...CIRCUIT_BREAKER_CONFIG,
-      name
+      name,
+      // An edit that needs merging by hand is an answer, not a failure
+      errorFilter: (error: Error) => error instanceof MergeConflictError
     });
 
     // Set up fallback
-    breaker.fallback((params: T) => this.handleFallback(name, params));
+    breaker.fallback((params: T, error?: Error) => this.handleFallback(name, params, error));
 
     // Monitor circuit breaker events
     breaker.on('open', () => {
@@ -225,106 +437,401 @@ export class ResilientScriptComponentManager {
 
     breaker.on('close', () => {
       console.info(`Circuit breaker ${name} closed, normal operation resumed`);
-      this.processOfflineQueue(name);
+      void this.replayOfflineQueue();
     });
 
     breaker.on('fallback', (data: unknown) => {
       console.warn(`Circuit breaker ${name} fallback triggered`, data);
     });
 
+    circuitBreakerTelemetry.track('script-component-manager', name, breaker);
     this.circuitBreakers.set(name, breaker);
   }
 
   /**
-   * Handle fallback when circuit is open
+   * Handle fallback when circuit is open or the operation failed
    */
-  private handleFallback(
+  private async handleFallback(
     operation: string,
-    params: CircuitBreakerParams
-  ): UpdateResult | DeleteResult | RestoreResult | ComponentsListResult | ComponentReadResult | BulkDeleteResult | PositionUpdateResult | BatchUpdateResult[] | { success: false; error: string; queued?: boolean } {
-    // Queue operation for retry when circuit closes
-    if (this.offlineQueue.length < this.MAX_OFFLINE_QUEUE_SIZE) {
-      this.offlineQueue.push({
-        operation,
-        params,
-        timestamp: Date.now()
-      });
+    params: CircuitBreakerParams,
+    error?: Error
+  ): Promise<ResilientResult<never>> {
+    // A replayed write is already queued; let the replay see the failure
+    if (this.replayingParams.has(params)) {
+      throw error ?? new Error(UNAVAILABLE_MESSAGE);
+    }
+
+    // The fallback still runs for filtered errors; the merge goes back to the caller
+    if (error instanceof MergeConflictError) {
+      throw error;
+    }
+
+    // A version conflict needs the user, not a retry
+    if (error instanceof OptimisticLockError) {
+      return {
+        status: 'conflict',
+        error: error.message,
+        componentId: error.componentId,
+        currentVersion: error.currentVersion
+      };
+    }
+
+    if (!isOutboxOperation(operation)) {
+      return { status: 'unavailable', error: UNAVAILABLE_MESSAGE };
+    }
+
+    // Queue writes for replay when a circuit closes; a refused write says why
+    const entry = await this.outbox.enqueue(operation, params);
+    if (!entry) {
+      return { status: 'unavailable', error: this.outbox.getStatus().lastError ?? UNAVAILABLE_MESSAGE };
+    }
+    return { status: 'queued', message: QUEUED_MESSAGE, tempComponentId: entry.tempComponentId };
+  }
+
+  /**
+   * Fire an operation's circuit breaker
+   */
+  private fire<R>(operation: string, params: CircuitBreakerParams): Promise<ResilientResult<R>> {
+    const breaker = this.circuitBreakers.get(operation);
+    if (!breaker) {
+      return Promise.resolve(NOT_INITIALIZED);
+    }
+    // Breakers are stored untyped; createCircuitBreaker makes every one resolve to a ResilientResult
+    return breaker.fire(params) as Promise<ResilientResult<R>>;
+  }
+
+  /**
+   * Fire a write, or queue it behind writes that are already waiting
+   */
+  private async fireWrite<R>(operation: OutboxOperation, params: CircuitBreakerParams): Promise<ResilientResult<R>> {
+    if (!this.circuitBreakers.has(operation)) {
+      return NOT_INITIALIZED;
+    }
+
+    await this.outbox.initialize();
+    if (this.outbox.depth > 0 || this.outbox.findUnresolvedId(params)) {
+      const result = await this.handleFallback(operation, params);
+      void this.replayOfflineQueue();
+      return result;
+    }
+
+    const result = await this.fire<R>(operation, this.outbox.resolveIds(params));
+    if (result.status === 'ok') {
+      // The server changed; cached reads may no longer match it
+      this.readCache.invalidate();
+    }
+    return result;
+  }
+
+  /**
+   * Answer a read from the cache while revalidating it in the background, or
+   * from the database when nothing is cached, or from the offline copy when
+   * the database cannot answer
+   */
+  private async read<R>(
+    operation: string,
+    key: string,
+    params: CircuitBreakerParams,
+    options: RevalidateOptions<R>,
+    mirror: OfflineMirror<R> | null
+  ): Promise<ResilientResult<R>> {
+    const cached = this.readCache.get<R>(key);
+    if (!cached) {
+      return this.fetchAndCache<R>(operation, key, params, mirror);
+    }
+
+    // With the breaker open the revalidation could only fail; keep serving the copy
+    const offline = Boolean(this.circuitBreakers.get(operation)?.opened);
+    if (!offline) {
+      void this.revalidate<R>(operation, key, params, mirror).then(result => options.onRevalidated?.(result));
     }
+    return { status: 'ok', data: cached.data, stale: true, ...(offline && { offline }), fetchedAt: cached.fetchedAt };
+  }
 
-    // Return appropriate fallback response
-    switch (operation) {
-      case 'create':
-        return {
-          success: false,
-          error: 'Service temporarily unavailable. Operation queued for retry.',
-          queued: true
-        };
-
-      case 'update':
-        return {
-          success: false,
-          conflictDetected: false,
-          errorMessage: 'Service temporarily unavailable. Operation queued for retry.'
-        } as UpdateResult;
-
-      case 'delete':
-        return {
-          success: false,
-          error: 'Service temporarily unavailable. Operation queued for retry.',
-          queued: true
-        } as DeleteResult;
-
-      case 'restore':
-        return {
-          success: false,
-          error: 'Service temporarily unavailable. Operation queued for retry.'
-        } as RestoreResult;
-
-      case 'getComponents':
-        return {
-          components: [],
-          error: 'Service temporarily unavailable'
-        } as ComponentsListResult;
-
-      case 'getComponent':
-        return {
-          component: undefined,
-          error: 'Unable to fetch component. Service temporarily unavailable.'
-        } as ComponentReadResult;
-
-      default:
-        return {
-          success: false,
-          error: 'Service temporarily unavailable'
-        };
+  private async fetchAndCache<R>(
+    operation: string,
+    key: string,
+    params: CircuitBreakerParams,
+    mirror: OfflineMirror<R> | null
+  ): Promise<ResilientResult<R>> {
+    const generation = this.readCache.generation;
+    const result = await this.fire<R>(operation, params);
+    if (result.status === 'ok') {
+      this.readCache.set(key, result.data, generation);
+      if (mirror) {
+        const fetchedAt = new Date().toISOString();
+        void this.updateOfflineCache(() => mirror.store(result.data, fetchedAt));
+      }
+      return result;
     }
+
+    const copy = mirror && await this.loadOfflineCopy(mirror);
+    return copy ? { status: 'ok', data: copy.data, stale: true, offline: true, fetchedAt: copy.fetchedAt } : result;
   }
 
   /**
-   * Process queued operations when circuit closes
+   * Refetch a cached read, sharing a revalidation already in flight for the key
    */
-  private async processOfflineQueue(operation: string): Promise<void> {
-    const relevantOps = this.offlineQueue.filter(op => op.operation === operation);
+  private revalidate<R>(
+    operation: string,
+    key: string,
+    params: CircuitBreakerParams,
+    mirror: OfflineMirror<R> | null
+  ): Promise<ResilientResult<R>> {
+    let pending = this.revalidations.get(key) as Promise<ResilientResult<R>> | undefined;
+    if (!pending) {
+      pending = this.fetchAndCache<R>(operation, key, params, mirror).finally(() => this.revalidations.delete(key));
+      this.revalidations.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Queue a write to the offline cache behind earlier ones. A failed write is
+   * logged; the offline copy is only ever a fallback
+   */
+  private updateOfflineCache(write: () => Promise<unknown>): Promise<void> {
+    this.offlineCacheWrites = this.offlineCacheWrites
+      .then(write)
+      .then(() => undefined, error => console.error('Failed to update offline script cache:', error));
+    return this.offlineCacheWrites;
+  }
+
+  private async loadOfflineCopy<R>(mirror: OfflineMirror<R>): Promise<CachedRead<R> | undefined> {
+    try {
+      await this.offlineCacheWrites;
+      return await mirror.load();
+    } catch (error) {
+      console.error('Failed to read offline script cache:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply a realtime row change to the offline copy, and drop cached answers
+   * it makes out of date. Changes no newer than the mirrored row are ignored
+   */
+  private applyRealtimeChange(table: MirroredTable, payload: RealtimePostgresChangesPayload<Record<string, unknown>>): void {
+    const eventType = payload.eventType;
+    const row = eventType === 'DELETE' ? payload.old : payload.new;
+
+    void this.updateOfflineCache(async () => {
+      if (table === 'video_scripts') {
+        if (await this.offlineCache.applyChange(table, { eventType, row: row as Partial<ScriptListItem> })) {
+          this.readCache.invalidate('scripts:');
+        }
+        return;
+      }
+
+      const component = row as Partial<ScriptComponent>;
+      if (await this.offlineCache.applyChange(table, { eventType, row: component })) {
+        // A delete may only carry the component ID
+        this.readCache.invalidate(component.script_id ? `components:${component.script_id}:` : 'components:');
+        this.readCache.invalidate(`component:${component.component_id}:`);
+      }
+    });
+  }
+
+  /**
+   * Listen for script and component changes made elsewhere, keeping the
+   * offline copy and cached reads current. Postgres changes cannot be
+   * filtered by project, so the offline copy drops rows outside the scripts
+   * and videos it mirrors. Returns a function that stops listening
+   */
+  watchForChanges(): () => void {
+    const channel = this.supabase
+      .channel(`script_cache_${this.offlineCache.projectId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'script_components' }, payload => {
+        this.applyRealtimeChange('script_components', payload);
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'video_scripts' }, payload => {
+        this.applyRealtimeChange('video_scripts', payload);
+      });
+    channel.subscribe(status => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn(`Script cache realtime channel ${status}; cached reads rely on revalidation`);
+      }
+    });
+
+    return () => {
+      void channel.unsubscribe();
+    };
+  }
 
-    for (const op of relevantOps) {
-      try {
-        const breaker = this.circuitBreakers.get(op.operation);
-        if (breaker && !breaker.opened) {
-          await breaker.fire(op.params);
-          // Remove from queue on success
-          const index = this.offlineQueue.indexOf(op);
-          if (index > -1) {
-            this.offlineQueue.splice(index, 1);
+  /**
+   * Send queued writes oldest first. Stops at the first one whose breaker is
+   * open or that fails transiently, so nothing overtakes it. Writes the server
+   * rejects - and their dependants - move to the failures list
+   */
+  async replayOfflineQueue(): Promise<void> {
+    // A disposed manager must not reopen the storage it closed
+    if (this.disposed) {
+      return;
+    }
+    await this.outbox.initialize();
+    if (!this.outbox.beginReplay()) {
+      return;
+    }
+
+    try {
+      for (let entry = this.outbox.peek(); entry; entry = this.outbox.peek()) {
+        const breaker = this.circuitBreakers.get(entry.operation);
+        if (!breaker || breaker.opened) {
+          break;
+        }
+
+        const unresolvedId = this.outbox.findUnresolvedId(entry.params);
+        if (unresolvedId) {
+          await this.outbox.fail(entry, `Depends on component ${unresolvedId}, which was never created`);
+          continue;
+        }
+
+        const params = this.rebaseVersions(entry.operation, this.outbox.resolveIds(entry.params) as CircuitBreakerParams);
+        this.replayingParams.add(params);
+        let result: ResilientResult<unknown>;
+        try {
+          const staleVersion = await this.findStaleVersion(entry.operation, params);
+          if (staleVersion) {
+            await this.outbox.fail(entry, staleVersion);
+            continue;
           }
+          result = await this.fire<unknown>(entry.operation, params);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (error instanceof OptimisticLockError || error instanceof MergeConflictError) {
+            await this.outbox.fail(entry, message);
+            continue;
+          }
+          // An open breaker just means "not yet"; repeated failures while closed are set aside
+          if (breaker.opened || this.circuitBreakers.get('getComponent')?.opened
+            || this.outbox.recordAttempt(entry, message) < MAX_REPLAY_ATTEMPTS) {
+            break;
+          }
+          await this.outbox.fail(entry, message);
+          continue;
+        } finally {
+          this.replayingParams.delete(params);
+        }
+
+        // Fallbacks throw while replaying, so this only guards against a missing breaker
+        if (result.status !== 'ok') {
+          break;
         }
-      } catch (error) {
-        console.error(`Failed to process queued operation ${op.operation}:`, error);
+
+        const rejection = getReplayRejection(entry.operation, result.data);
+        if (rejection) {
+          await this.outbox.fail(entry, rejection);
+        } else {
+          this.recordReplayedVersions(entry, result.data);
+          this.readCache.invalidate();
+          await this.outbox.complete(
+            entry,
+            entry.operation === 'create' ? (result.data as ScriptComponent).component_id : undefined
+          );
+        }
+      }
+    } catch (error) {
+      console.error('Failed to replay offline queue:', error);
+    } finally {
+      this.outbox.endReplay();
+    }
+  }
+
+  /**
+   * Move a queued edit's base version past versions this replay already wrote
+   */
+  private rebaseVersions(operation: OutboxOperation, params: CircuitBreakerParams): CircuitBreakerParams {
+    const rebase = (componentId: string, version: number) => {
+      const replayed = this.replayedVersions.get(componentId);
+      return replayed && replayed.from === version ? replayed.to : version;
+    };
+
+    if (operation === 'update' || operation === 'restoreVersion') {
+      const edit = params as UpdateParams | RestoreVersionParams;
+      return { ...edit, currentVersion: rebase(edit.componentId, edit.currentVersion) };
+    }
+    if (operation === 'batchUpdate') {
+      const batch = params as BatchUpdateParams;
+      return { operations: batch.operations.map(op => ({ ...op, version: rebase(op.component_id, op.version) })) };
+    }
+    if (operation === 'transfer' || operation === 'setStatus') {
+      const change = params as TransferParams | SetStatusParams;
+      return change.expectedVersion === undefined
+        ? change
+        : { ...change, expectedVersion: rebase(change.componentId, change.expectedVersion) };
+    }
+    return params;
+  }
+
+  /**
+   * Remember the versions a replayed edit produced, keyed by the version the client queued it against
+   */
+  private recordReplayedVersions(entry: OutboxEntry, result: unknown): void {
+    if (entry.operation === 'update' || entry.operation === 'restoreVersion') {
+      const update = this.outbox.resolveIds(entry.params) as UpdateParams | RestoreVersionParams;
+      const newVersion = (result as UpdateResult).newVersion;
+      if (newVersion !== undefined) {
+        this.replayedVersions.set(update.componentId, { from: update.currentVersion, to: newVersion });
+      }
+    } else if (entry.operation === 'transfer') {
+      // A move bumps the component's version; a copy leaves it alone
+      const transfer = this.outbox.resolveIds(entry.params) as TransferParams;
+      const newVersion = (result as ComponentTransferResult).version;
+      if (transfer.mode === 'move' && transfer.expectedVersion !== undefined && newVersion !== undefined) {
+        this.replayedVersions.set(transfer.componentId, { from: transfer.expectedVersion, to: newVersion });
+      }
+    } else if (entry.operation === 'batchUpdate') {
+      const batch = this.outbox.resolveIds(entry.params) as BatchUpdateParams;
+      for (const item of result as BatchUpdateResult[]) {
+        const queued = batch.operations.find(op => op.component_id === item.component_id);
+        if (queued && item.new_version !== undefined) {
+          this.replayedVersions.set(item.component_id, { from: queued.version, to: item.new_version });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check the versions a queued edit was based on against the server before
+   * sending it. Returns why it cannot be sent, or null; throws if the server
+   * cannot be read
+   */
+  private async findStaleVersion(operation: OutboxOperation, params: CircuitBreakerParams): Promise<string | null> {
+    let expected: Array<{ componentId: string; version: number }>;
+    // An update with a resolution merges a conflict itself; moves and status changes are checked by the server
+    if ((operation === 'update' && !(params as UpdateParams).resolution) || operation === 'restoreVersion') {
+      const edit = params as UpdateParams | RestoreVersionParams;
+      expected = [{ componentId: edit.componentId, version: edit.currentVersion }];
+    } else if (operation === 'batchUpdate') {
+      expected = (params as BatchUpdateParams).operations.map(op => ({ componentId: op.component_id, version: op.version }));
+    } else {
+      return null;
+    }
+
+    for (const { componentId, version } of expected) {
+      // Straight from the server: a cached copy cannot vouch for the version
+      const read = await this.fire<ComponentReadResult>('getComponent', { componentId, includeDeleted: false });
+      if (read.status !== 'ok') {
+        throw new Error('Unable to check component version');
+      }
+      if (read.data.error === 'Component not found') {
+        return `Component ${componentId} no longer exists`;
+      }
+      const current = read.data.component;
+      if (!current) {
+        throw new Error(read.data.error ?? 'Unable to check component version');
+      }
+      if (current.version !== version) {
+        return `Version conflict detected: change was made to version ${version}, server has version ${current.version}`;
       }
     }
+    return null;
   }
 
   /**
-   * Create a new script component with circuit breaker protection
+   * Create a new script component with circuit breaker protection. A queued
+   * create carries a tempComponentId that stands in for the component until
+   * the create reaches the server
    */
   async createComponent(
     scriptId: string,
@@ -333,16 +840,15 @@ export class ResilientScriptComponentManager {
     userId: string,
     position?: number,
     status: string = 'created'
-  ): Promise<ScriptComponent | { success: false; error: string; queued?: boolean } | null> {
-    const breaker = this.circuitBreakers.get('create');
-    return (breaker?.fire({
+  ): Promise<ResilientResult<ScriptComponent>> {
+    return this.fireWrite<ScriptComponent>('create', {
       scriptId,
       content,
       plainText,
       position,
       status,
       userId
-    }) as Promise<ScriptComponent | { success: false; error: string; queued?: boolean }>) || Promise.resolve(null);
+    });
   }
 
   /**
@@ -354,15 +860,102 @@ export class ResilientScriptComponentManager {
     plainText: string,
     currentVersion: number,
     userId: string
-  ): Promise<UpdateResult> {
-    const breaker = this.circuitBreakers.get('update');
-    return (breaker?.fire({
+  ): Promise<ResilientResult<UpdateResult>> {
+    return this.fireWrite<UpdateResult>('update', {
       componentId,
       content,
       plainText,
       currentVersion,
       userId
-    }) as Promise<UpdateResult>) || Promise.resolve({ success: false, conflictDetected: false, errorMessage: 'Circuit breaker not initialized' });
+    });
+  }
+
+  /**
+   * Update a component and resolve version conflicts as
+   * ScriptComponentManager.updateComponentWithResolution does, also when a
+   * queued edit is replayed. Throws MergeConflictError when the edit needs
+   * merging by hand; a replayed edit that does is set aside as failed
+   */
+  async updateComponentWithResolution(
+    componentId: string,
+    content: object,
+    plainText: string,
+    currentVersion: number,
+    userId: string,
+    options: ConflictResolutionOptions = {}
+  ): Promise<ResilientResult<MergedUpdateResult>> {
+    return this.fireWrite<MergedUpdateResult>('update', {
+      componentId,
+      content,
+      plainText,
+      currentVersion,
+      userId,
+      resolution: options
+    });
+  }
+
+  /**
+   * Restore the wording of an earlier version with circuit breaker protection
+   */
+  async restoreComponentVersion(
+    componentId: string,
+    version: number,
+    currentVersion: number,
+    userId: string
+  ): Promise<ResilientResult<UpdateResult>> {
+    return this.fireWrite<UpdateResult>('restoreVersion', {
+      componentId,
+      version,
+      currentVersion,
+      userId
+    });
+  }
+
+  /**
+   * Move a component to another script with circuit breaker protection
+   */
+  async moveComponentToScript(
+    componentId: string,
+    targetScriptId: string,
+    afterComponentId: string | null = null,
+    options: { expectedVersion?: number } = {}
+  ): Promise<ResilientResult<ComponentTransferResult>> {
+    return this.fireWrite<ComponentTransferResult>('transfer', {
+      mode: 'move',
+      componentId,
+      targetScriptId,
+      afterComponentId,
+      expectedVersion: options.expectedVersion
+    });
+  }
+
+  /**
+   * Copy a component into a script with circuit breaker protection
+   */
+  async copyComponentToScript(
+    componentId: string,
+    targetScriptId: string,
+    afterComponentId: string | null = null,
+    options: { expectedVersion?: number } = {}
+  ): Promise<ResilientResult<ComponentTransferResult>> {
+    return this.fireWrite<ComponentTransferResult>('transfer', {
+      mode: 'copy',
+      componentId,
+      targetScriptId,
+      afterComponentId,
+      expectedVersion: options.expectedVersion
+    });
+  }
+
+  /**
+   * Change a component's approval status with circuit breaker protection
+   */
+  async setComponentStatus(
+    componentId: string,
+    status: ComponentStatus,
+    options: Omit<SetStatusParams, 'componentId' | 'status'> = {}
+  ): Promise<ResilientResult<ComponentStatusChangeResult>> {
+    return this.fireWrite<ComponentStatusChangeResult>('setStatus', { componentId, status, ...options });
   }
 
   /**
@@ -372,13 +965,12 @@ export class ResilientScriptComponentManager {
     componentId: string,
     userId: string,
     reason?: string
-  ): Promise<DeleteResult> {
-    const breaker = this.circuitBreakers.get('delete');
-    return (breaker?.fire({
+  ): Promise<ResilientResult<DeleteResult>> {
+    return this.fireWrite<DeleteResult>('delete', {
       componentId,
       userId,
       reason
-    }) as Promise<DeleteResult>) || Promise.resolve({ success: false, error: 'Circuit breaker not initialized' } as DeleteResult);
+    });
   }
 
   /**
@@ -387,40 +979,83 @@ export class ResilientScriptComponentManager {
   async restoreComponent(
     componentId: string,
     userId: string
-  ): Promise<RestoreResult> {
-    const breaker = this.circuitBreakers.get('restore');
-    return (breaker?.fire({
+  ): Promise<ResilientResult<RestoreResult>> {
+    return this.fireWrite<RestoreResult>('restore', {
       componentId,
       userId
-    }) as Promise<RestoreResult>) || Promise.resolve({ success: false, error: 'Circuit breaker not initialized' } as RestoreResult);
+    });
   }
 
   /**
-   * Get all components for a script with circuit breaker protection
+   * Get all components for a script with circuit breaker protection. A cached
+   * list is served stale while it revalidates
    */
   async getComponentsByScriptId(
     scriptId: string,
-    includeDeleted: boolean = false
-  ): Promise<ComponentsListResult> {
-    const breaker = this.circuitBreakers.get('getComponents');
-    return (breaker?.fire({
-      scriptId,
-      includeDeleted
-    }) as Promise<ComponentsListResult>) || Promise.resolve({ components: [], error: 'Circuit breaker not initialized' });
+    includeDeleted: boolean = false,
+    options: RevalidateOptions<ComponentsListResult> = {}
+  ): Promise<ResilientResult<ComponentsListResult>> {
+    // Only live components are kept offline
+    const mirror: OfflineMirror<ComponentsListResult> | null = includeDeleted ? null : {
+      store: (data, fetchedAt) => this.offlineCache.putComponents(scriptId, data.components, fetchedAt),
+      load: async () => {
+        const copy = await this.offlineCache.getComponents(scriptId);
+        return copy && { data: { components: copy.data }, fetchedAt: copy.fetchedAt };
+      }
+    };
+    return this.read<ComponentsListResult>(
+      'getComponents',
+      `components:${scriptId}:${includeDeleted}`,
+      { scriptId, includeDeleted },
+      options,
+      mirror
+    );
   }
 
   /**
-   * Get a single component by ID with circuit breaker protection
+   * Get a single component by ID with circuit breaker protection. A cached
+   * component is served stale while it revalidates
    */
   async getComponentById(
     componentId: string,
-    includeDeleted: boolean = false
-  ): Promise<ComponentReadResult | null> {
-    const breaker = this.circuitBreakers.get('getComponent');
-    return (breaker?.fire({
-      componentId,
-      includeDeleted
-    }) as Promise<ComponentReadResult>) || Promise.resolve(null);
+    includeDeleted: boolean = false,
+    options: RevalidateOptions<ComponentReadResult> = {}
+  ): Promise<ResilientResult<ComponentReadResult>> {
+    const mirror: OfflineMirror<ComponentReadResult> = {
+      store: (data, fetchedAt) => data.component
+        ? this.offlineCache.putComponent(data.component, fetchedAt)
+        : this.offlineCache.applyChange('script_components', { eventType: 'DELETE', row: { component_id: componentId } }),
+      load: async () => {
+        const copy = await this.offlineCache.getComponent(componentId);
+        return copy && { data: { component: copy.data }, fetchedAt: copy.fetchedAt };
+      }
+    };
+    return this.read<ComponentReadResult>(
+      'getComponent',
+      `component:${componentId}:${includeDeleted}`,
+      { componentId, includeDeleted },
+      options,
+      mirror
+    );
+  }
+
+  /**
+   * List one page of scripts with circuit breaker protection. A cached page
+   * is served stale while it revalidates. Offline, the first page is every
+   * mirrored script that matches, and there is no next page
+   */
+  async listScripts(
+    options: ScriptListOptions = {},
+    readOptions: RevalidateOptions<ScriptListPage> = {}
+  ): Promise<ResilientResult<ScriptListPage>> {
+    const mirror: OfflineMirror<ScriptListPage> = {
+      store: (data, fetchedAt) => this.offlineCache.putScripts(data.scripts, fetchedAt),
+      load: async () => {
+        const copy = options.cursor ? undefined : await this.offlineCache.getScripts(options);
+        return copy && { data: { scripts: copy.data, nextCursor: null }, fetchedAt: copy.fetchedAt };
+      }
+    };
+    return this.read<ScriptListPage>('listScripts', `scripts:${JSON.stringify(options)}`, { options }, readOptions, mirror);
   }
 
   /**
@@ -430,13 +1065,12 @@ export class ResilientScriptComponentManager {
     componentIds: string[],
     userId: string,
     reason?: string
-  ): Promise<BulkDeleteResult> {
-    const breaker = this.circuitBreakers.get('bulkDelete');
-    return (breaker?.fire({
+  ): Promise<ResilientResult<BulkDeleteResult>> {
+    return this.fireWrite<BulkDeleteResult>('bulkDelete', {
       componentIds,
       userId,
       reason
-    }) as Promise<BulkDeleteResult>) || Promise.resolve({ success: false, deletedCount: 0, failedIds: componentIds, error: 'Circuit breaker not initialized' } as BulkDeleteResult);
+    });
   }
 
   /**
@@ -444,13 +1078,8 @@ export class ResilientScriptComponentManager {
    */
   async updateComponentPositions(
     updates: Array<{ componentId: string; position: number }>
-  ): Promise<PositionUpdateResult> {
-    const breaker = this.circuitBreakers.get('updatePositions');
-    return (breaker?.fire({ updates }) as Promise<PositionUpdateResult>) || Promise.resolve({
-      success: false,
-      updatedCount: 0,
-      error: 'Circuit breaker not initialized'
-    } as PositionUpdateResult);
+  ): Promise<ResilientResult<PositionUpdateResult>> {
+    return this.fireWrite<PositionUpdateResult>('updatePositions', { updates });
   }
 
   /**
@@ -458,21 +1087,21 @@ export class ResilientScriptComponentManager {
    */
   async updateMultipleComponents(
     operations: BatchUpdateOperation[]
-  ): Promise<BatchUpdateResult[]> {
-    const breaker = this.circuitBreakers.get('batchUpdate');
-    return (breaker?.fire({ operations }) as Promise<BatchUpdateResult[]>) || Promise.resolve([]);
+  ): Promise<ResilientResult<BatchUpdateResult[]>> {
+    return this.fireWrite<BatchUpdateResult[]>('batchUpdate', { operations });
   }
 
   /**
-   * Get component count with circuit breaker protection
+   * Get component count
    */
   async getComponentsCount(
     scriptId: string,
     includeDeleted: boolean = false
-  ): Promise<{ count: number; error?: string }> {
+  ): Promise<ResilientResult<ComponentCountResult>> {
     // Use the base manager directly for simple count operations
     // These are less critical and don't need circuit breaker protection
-    return this.manager.getComponentsCount(scriptId, includeDeleted);
+    const result = await this.manager.getComponentsCount(scriptId, includeDeleted);
+    return result.error ? { status: 'unavailable', error: result.error } : { status: 'ok', data: result };
   }
 
   /**
@@ -507,14 +1136,69 @@ export class ResilientScriptComponentManager {
    * Get offline queue size
    */
   getOfflineQueueSize(): number {
-    return this.offlineQueue.length;
+    return this.outbox.depth;
+  }
+
+  /**
+   * Clear offline queue, including failed writes
+   */
+  clearOfflineQueue(): Promise<void> {
+    return this.outbox.clear();
+  }
+
+  /**
+   * Queue depth, failures and replay state for the UI
+   */
+  getOfflineQueueStatus(): OutboxStatus {
+    return this.outbox.getStatus();
+  }
+
+  /**
+   * Subscribe to offline queue changes. Returns unsubscribe function
+   */
+  subscribeToOfflineQueue(listener: (status: OutboxStatus) => void): () => void {
+    return this.outbox.subscribe(listener);
+  }
+
+  /**
+   * Called with (temporary ID, server ID) when a queued create reaches the server
+   */
+  onComponentIdResolved(listener: (tempComponentId: string, componentId: string) => void): () => void {
+    return this.outbox.onComponentIdResolved(listener);
+  }
+
+  /**
+   * Queue failed writes again and replay
+   */
+  async retryFailedOperations(): Promise<void> {
+    await this.outbox.retryFailures();
+    await this.replayOfflineQueue();
+  }
+
+  /**
+   * Give up on failed writes
+   */
+  discardFailedOperations(): Promise<void> {
+    return this.outbox.discardFailures();
+  }
+
+  /**
+   * Forget cached reads and the offline copy of the project's scripts
+   */
+  async clearOfflineCache(): Promise<void> {
+    this.readCache.invalidate();
+    await this.updateOfflineCache(() => this.offlineCache.clear());
   }
 
   /**
-   * Clear offline queue
+   * Stop the circuit breakers and close offline queue and cache storage
    */
-  clearOfflineQueue(): void {
-    this.offlineQueue = [];
+  async dispose(): Promise<void> {
+    this.disposed = true;
+    this.circuitBreakers.forEach(breaker => breaker.shutdown());
+    await this.outbox.close();
+    await this.offlineCacheWrites;
+    await this.offlineCache.close();
   }
 
   /**
@@ -22,11 +22,17 @@ export type ClientLifecycleState =
 export interface VersionInfo {
   version: string;
   schemaVersion: number;
+  minClientVersion?: string; // Oldest client build the server still accepts
 }
 
+// Must match the highest migration number in supabase/migrations
+// (the BFF reports the highest migration applied to the database)
+export const CLIENT_SCHEMA_VERSION = 10;
+
 export interface ClientLifecycleConfig {
   currentVersion: string;
   versionEndpoint: string;
+  schemaVersion?: number; // Defaults to CLIENT_SCHEMA_VERSION
   retryIntervals?: number[]; // Exponential backoff intervals
   maxRetries?: number;
 }
@@ -147,6 +153,12 @@ export class ClientLifecycleManager {
     const serverSemVer = this.parseVersion(serverVersion.version);
     const clientSemVer = this.parseVersion(clientVersion);
 
+    // Server explicitly no longer supports this client build
+    if (serverVersion.minClientVersion &&
+        this.compareVersions(clientSemVer, this.parseVersion(serverVersion.minClientVersion)) < 0) {
+      return true;
+    }
+
     // Major or minor version changes require update
     // Patch version differences are compatible
     return (
@@ -202,9 +214,7 @@ export class ClientLifecycleManager {
   }
 
   private getCurrentSchemaVersion(): number {
-    // This should be incremented whenever schema changes
-    // Could be loaded from package.json or environment
-    return 1;
+    return this.config.schemaVersion ?? CLIENT_SCHEMA_VERSION;
   }
 
   private parseVersion(version: string): { major: number; minor: number; patch: number } {
@@ -216,6 +226,13 @@ export class ClientLifecycleManager {
     };
   }
 
+  private compareVersions(
+    a: { major: number; minor: number; patch: number },
+    b: { major: number; minor: number; patch: number }
+  ): number {
+    return (a.major - b.major) || (a.minor - b.minor) || (a.patch - b.patch);
+  }
+
   private notifyListeners(state: ClientLifecycleState): void {
     this.listeners.forEach(listener => {
       try {
@@ -0,0 +1,176 @@
+/**
+ * CIRCUIT BREAKER TELEMETRY
+ *
+ * The opossum breakers in ResilientScriptComponentManager and
+ * CustomSupabaseProvider live in the browser. This reporter listens to their
+ * events, accumulates deltas and periodically posts them to the BFF
+ * (/api/telemetry/circuit-breakers), which exposes them on /metrics.
+ */
+
+// Context7: consulted for opossum
+import type CircuitBreaker from 'opossum';
+import type { CircuitBreakerReport } from '../api/bffClient';
+
+// Report shape comes from the generated BFF client so it cannot drift from the server schema
+type ReportSample = CircuitBreakerReport['samples'][number];
+
+export type BreakerSource = ReportSample['source'];
+export type BreakerName = ReportSample['breaker'];
+export type BreakerState = ReportSample['state'];
+export type BreakerEvent = keyof ReportSample['events'];
+
+export interface BreakerTelemetrySample extends ReportSample {
+  latenciesMs: number[];
+}
+
+export interface BreakerTelemetryReport extends CircuitBreakerReport {
+  samples: BreakerTelemetrySample[];
+}
+
+export interface CircuitBreakerTelemetryOptions {
+  endpoint?: string;
+  intervalMs?: number;
+  getAccessToken?: () => Promise<string | undefined>;
+}
+
+// Server accepts at most this many latency observations per breaker per report
+const MAX_LATENCIES_PER_SAMPLE = 500;
+
+export class CircuitBreakerTelemetry {
+  private readonly clientId = globalThis.crypto.randomUUID();
+  private samples = new Map<string, BreakerTelemetrySample>();
+  private options: Required<Omit<CircuitBreakerTelemetryOptions, 'getAccessToken'>> & CircuitBreakerTelemetryOptions;
+  private timer?: ReturnType<typeof globalThis.setInterval>;
+  private handlePageHide = () => {
+    void this.flush();
+  };
+
+  constructor(options: CircuitBreakerTelemetryOptions = {}) {
+    this.options = {
+      endpoint: '/api/telemetry/circuit-breakers',
+      intervalMs: 60000,
+      ...options,
+    };
+  }
+
+  /**
+   * Subscribe to a breaker's events. Breakers sharing a source and name
+   * (e.g. one provider per open document) are aggregated into one sample.
+   */
+  track(source: BreakerSource, name: BreakerName, breaker: CircuitBreaker): void {
+    const sample = this.getSample(source, name);
+    sample.state = breaker.opened ? 'open' : breaker.halfOpen ? 'half_open' : 'closed';
+
+    breaker.on('fire', () => this.count(source, name, 'fire'));
+    breaker.on('reject', () => this.count(source, name, 'reject'));
+    breaker.on('timeout', () => this.count(source, name, 'timeout'));
+    breaker.on('fallback', () => this.count(source, name, 'fallback'));
+    breaker.on('success', (_result: unknown, latencyMs: number) => {
+      this.count(source, name, 'success', latencyMs);
+    });
+    breaker.on('failure', (_error: unknown, latencyMs: number) => {
+      this.count(source, name, 'failure', latencyMs);
+    });
+    breaker.on('open', () => this.setState(source, name, 'open'));
+    breaker.on('halfOpen', () => this.setState(source, name, 'half_open'));
+    breaker.on('close', () => this.setState(source, name, 'closed'));
+  }
+
+  /**
+   * Take the deltas accumulated since the last report and reset the counters.
+   * Returns null when nothing has been tracked yet.
+   */
+  takeReport(): BreakerTelemetryReport | null {
+    if (this.samples.size === 0) return null;
+
+    const samples = Array.from(this.samples.values()).map(sample => ({
+      ...sample,
+      events: { ...sample.events },
+      latenciesMs: [...sample.latenciesMs],
+    }));
+    this.samples.forEach(sample => {
+      sample.events = {};
+      sample.latenciesMs = [];
+    });
+
+    return { clientId: this.clientId, samples };
+  }
+
+  async flush(): Promise<void> {
+    if (this.samples.size === 0) return;
+
+    let token: string | undefined;
+    try {
+      token = await this.options.getAccessToken?.();
+    } catch (error) {
+      console.debug('Circuit breaker telemetry could not get an access token:', error);
+    }
+    // Anonymous reports are rejected by the BFF - keep counting until signed in
+    if (!token) return;
+
+    const report = this.takeReport();
+    if (!report) return;
+
+    try {
+      await globalThis.fetch(this.options.endpoint, {
+        method: 'POST',
+        keepalive: true,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(report),
+      });
+    } catch (error) {
+      // Telemetry must never disturb editing - drop this report
+      console.debug('Circuit breaker telemetry report failed:', error);
+    }
+  }
+
+  start(options: CircuitBreakerTelemetryOptions = {}): void {
+    this.options = { ...this.options, ...options };
+    if (this.timer) return;
+
+    this.timer = globalThis.setInterval(() => {
+      void this.flush();
+    }, this.options.intervalMs);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      globalThis.clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  private getSample(source: BreakerSource, name: BreakerName): BreakerTelemetrySample {
+    const key = `${source}:${name}`;
+    let sample = this.samples.get(key);
+    if (!sample) {
+      sample = { source, breaker: name, state: 'closed', events: {}, latenciesMs: [] };
+      this.samples.set(key, sample);
+    }
+    return sample;
+  }
+
+  private count(source: BreakerSource, name: BreakerName, event: BreakerEvent, latencyMs?: number): void {
+    const sample = this.getSample(source, name);
+    sample.events[event] = (sample.events[event] ?? 0) + 1;
+    if (typeof latencyMs === 'number' && sample.latenciesMs.length < MAX_LATENCIES_PER_SAMPLE) {
+      sample.latenciesMs.push(latencyMs);
+    }
+  }
+
+  private setState(source: BreakerSource, name: BreakerName, state: BreakerState): void {
+    this.getSample(source, name).state = state;
+  }
+}
+
+// Shared reporter - breakers register themselves, main.tsx starts the flush loop
+export const circuitBreakerTelemetry = new CircuitBreakerTelemetry();
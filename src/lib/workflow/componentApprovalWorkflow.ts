@@ -0,0 +1,58 @@
+/**
+ * Component Approval Workflow
+ *
+ * Client sign-off happens per component: created → in_edit → approved, and an
+ * approved component is locked until someone unapproves it with a reason.
+ * The database enforces the same rules in set_component_status (and the lock
+ * in enforce_component_approval_lock); this module drives the editor UI.
+ */
+
+import type { UserRole } from '../supabase';
+import type { ComponentStatus } from '../../types/scriptComponent';
+
+export const COMPONENT_STATUS_LABELS: Record<ComponentStatus, string> = {
+  created: 'Not started',
+  in_edit: 'In edit',
+  approved: 'Approved'
+};
+
+export interface ComponentStatusTransition {
+  from: ComponentStatus;
+  to: ComponentStatus;
+  roles: readonly UserRole[];
+  requiresReason?: boolean;
+}
+
+// Must match the CASE in set_component_status (migration 005)
+export const COMPONENT_STATUS_TRANSITIONS: readonly ComponentStatusTransition[] = [
+  { from: 'created', to: 'in_edit', roles: ['admin', 'internal', 'freelancer'] },
+  { from: 'created', to: 'approved', roles: ['admin', 'client'] },
+  { from: 'in_edit', to: 'approved', roles: ['admin', 'client'] },
+  { from: 'approved', to: 'in_edit', roles: ['admin', 'internal', 'client'], requiresReason: true }
+];
+
+/**
+ * Normalise a component_status column value; unknown values count as created
+ */
+export function toComponentStatus(value: string | null | undefined): ComponentStatus {
+  return value === 'in_edit' || value === 'approved' ? value : 'created';
+}
+
+/**
+ * Approved components reject edits, deletes and moves until unapproved
+ */
+export function isComponentLocked(status: string | null | undefined): boolean {
+  return status === 'approved';
+}
+
+/**
+ * The rule for a status change if the role may make it, otherwise undefined
+ */
+export function findComponentTransition(
+  from: ComponentStatus,
+  to: ComponentStatus,
+  role: UserRole | null
+): ComponentStatusTransition | undefined {
+  if (!role) return undefined;
+  return COMPONENT_STATUS_TRANSITIONS.find(t => t.from === from && t.to === to && t.roles.includes(role));
+}
@@ -0,0 +1,82 @@
+/**
+ * Script Status Workflow
+ *
+ * State machine for video_scripts.script_status:
+ *
+ *   draft → in_editing → client_review → approved → published
+ *
+ * with the backward moves a production actually needs (changes requested by
+ * the client, reopening an approved script). Each transition lists the roles
+ * allowed to make it. The database enforces the same rules in
+ * transition_script_status, so this module is used to offer only valid moves
+ * in the UI and to fail fast before a round trip.
+ */
+
+import type { UserRole } from '../supabase';
+import { ScriptStatusTransitionError, type ScriptStatus } from '../../types/scriptComponent';
+
+export const SCRIPT_STATUSES: readonly ScriptStatus[] = ['draft', 'in_editing', 'client_review', 'approved', 'published'];
+
+export const SCRIPT_STATUS_LABELS: Record<ScriptStatus, string> = {
+  draft: 'Draft',
+  in_editing: 'In editing',
+  client_review: 'Client review',
+  approved: 'Approved',
+  published: 'Published'
+};
+
+export interface ScriptStatusTransition {
+  from: ScriptStatus;
+  to: ScriptStatus;
+  roles: readonly UserRole[];
+  requiresReason?: boolean; // Backward moves must say why
+}
+
+// Must match the rows seeded into script_status_transitions (migration 004)
+export const SCRIPT_STATUS_TRANSITIONS: readonly ScriptStatusTransition[] = [
+  { from: 'draft', to: 'in_editing', roles: ['admin', 'internal', 'freelancer'] },
+  { from: 'in_editing', to: 'draft', roles: ['admin', 'internal', 'freelancer'] },
+  { from: 'in_editing', to: 'client_review', roles: ['admin', 'internal'] },
+  { from: 'client_review', to: 'in_editing', roles: ['admin', 'internal', 'client'], requiresReason: true },
+  { from: 'client_review', to: 'approved', roles: ['admin', 'client'] },
+  { from: 'approved', to: 'in_editing', roles: ['admin', 'internal'], requiresReason: true },
+  { from: 'approved', to: 'published', roles: ['admin', 'internal'] },
+  { from: 'published', to: 'in_editing', roles: ['admin'], requiresReason: true }
+];
+
+export function isScriptStatus(value: unknown): value is ScriptStatus {
+  return typeof value === 'string' && (SCRIPT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Transitions out of a status that the given role may make
+ */
+export function getAllowedTransitions(from: ScriptStatus, role: UserRole | null): ScriptStatusTransition[] {
+  if (!role) return [];
+  return SCRIPT_STATUS_TRANSITIONS.filter(transition => transition.from === from && transition.roles.includes(role));
+}
+
+/**
+ * Validate a transition, returning the rule that allows it.
+ * Throws ScriptStatusTransitionError when the move or the role is not allowed
+ */
+export function assertTransitionAllowed(
+  from: ScriptStatus,
+  to: ScriptStatus,
+  role: UserRole | null,
+  reason?: string
+): ScriptStatusTransition {
+  const transition = SCRIPT_STATUS_TRANSITIONS.find(t => t.from === from && t.to === to);
+
+  if (!transition) {
+    throw new ScriptStatusTransitionError(from, to, role, `Cannot move a script from ${from} to ${to}`);
+  }
+  if (!role || !transition.roles.includes(role)) {
+    throw new ScriptStatusTransitionError(from, to, role, `Role ${role ?? 'unknown'} cannot move a script from ${from} to ${to}`);
+  }
+  if (transition.requiresReason && !reason?.trim()) {
+    throw new ScriptStatusTransitionError(from, to, role, `A reason is required to move a script from ${from} to ${to}`);
+  }
+
+  return transition;
+}
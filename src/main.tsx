@@ -8,10 +8,17 @@ import './index.css'
 
 // Initialize Sentry for error monitoring
 import { initSentry } from './lib/monitoring/sentry'
+import { circuitBreakerTelemetry } from './lib/monitoring/circuitBreakerTelemetry'
+import { getSupabase } from './lib/supabase'
 
 // Initialize Sentry before React app
 initSentry();
 
+// Report circuit-breaker telemetry to the BFF /metrics endpoint
+circuitBreakerTelemetry.start({
+  getAccessToken: async () => (await getSupabase()?.auth.getSession())?.data.session?.access_token,
+});
+
 // Toggle StrictMode for testing - in production, always use StrictMode
 const USE_STRICT_MODE = true; // Set to false to test without StrictMode
 
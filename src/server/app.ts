@@ -3,6 +3,7 @@
 // Context7: consulted for helmet
 // Context7: consulted for cors
 // Context7: consulted for express-rate-limit
+// Context7: consulted for ioredis
 // Context7: consulted for pino
 // Context7: consulted for zod
 // Context7: consulted for crypto
@@ -11,12 +12,38 @@
 import express from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
-import { rateLimit } from 'express-rate-limit';
+import { Redis } from 'ioredis';
 import pino from 'pino';
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
 import type { Request, Response, NextFunction } from 'express';
 import type { Server } from 'http';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createVersionRouter } from './routes/version';
+import { createElevenLabsRouter } from './routes/elevenlabs';
+import { createMetricsRouter } from './routes/metrics';
+import { createTelemetryRouter } from './routes/telemetry';
+import { createOpenApiRouter } from './routes/openapi';
+import { createJobsRouter } from './routes/jobs';
+import { createScriptsRouter } from './routes/scripts';
+import { apiContracts, BFF_API_INFO } from './openapi/routes';
+import { BffMetrics } from './services/metrics';
+import { requestMetrics } from './middleware/requestMetrics';
+import { ReadinessProbe, supabaseCheck, ttsProviderCheck, storeCheck } from './services/readiness';
+import { createServiceClient } from './services/supabaseAdmin';
+import { TtsQuotaTracker } from './services/ttsQuota';
+import { JobQueue, MemoryJobStore, RedisJobStore, type JobRedisClient } from './services/jobs';
+import { createAuthMiddleware, PROJECT_HEADER } from './middleware/auth';
+import { createRateLimiter, type RateLimitStoreKind, type RateLimitRedisClient } from './middleware/rateLimit';
+import {
+  idempotency,
+  MemoryIdempotencyStore,
+  RedisIdempotencyStore,
+  IDEMPOTENCY_HEADER,
+  type IdempotencyRedisClient,
+} from './middleware/idempotency';
+import type { UserRole } from '../lib/supabase';
+import type { JWTVerifyGetKey } from 'jose';
 
 // Types
 export interface SecurityConfig {
@@ -24,15 +51,53 @@ export interface SecurityConfig {
   nodeEnv: string;
   corsOrigins: string[];
   rateLimitMax: number;
+  ipRateLimitMax: number;
   rateLimitWindowMs: number;
+  rateLimitStore: RateLimitStoreKind;
+  redisUrl?: string;
+  idempotencyStore: 'memory' | 'redis';
+  idempotencyTtlMs: number;
+  idempotencyLockTtlMs: number;
+  jobStore: 'memory' | 'redis';
+  jobConcurrency: number;
+  jobTtlMs: number;
+  ttsRateLimitMax: number;
+  ttsRateLimitWindowMs: number;
   elevenlabsApiKey: string;
+  elevenlabsBaseUrl: string;
+  elevenlabsModelId: string;
+  ttsMaxCharactersPerRequest: number;
+  ttsUserCharacterQuota: number;
+  ttsProjectCharacterQuota: number;
+  ttsQuotaWindowMs: number;
   supabaseServiceRoleKey: string;
   supabaseUrl: string;
+  supabaseJwtSecret?: string;
+  supabaseJwksUrl: string;
+  versionManifestPath: string;
+  migrationsDir: string;
+  minClientVersion?: string;
+  metricsToken?: string;
+  readinessTimeoutMs: number;
+  readinessCacheMs: number;
+  shutdownDrainMs: number;
+}
+
+// Injectable collaborators (tests substitute fakes)
+export interface AppDependencies {
+  supabase?: SupabaseClient;
+  ttsQuota?: TtsQuotaTracker;
+  jwtKeySet?: JWTVerifyGetKey;
+  redis?: RateLimitRedisClient & IdempotencyRedisClient & JobRedisClient;
+  metrics?: BffMetrics;
 }
 
 export interface RequestContext {
   requestId: string;
   userId?: string;
+  role?: UserRole;
+  projectId?: string;
+  projectRole?: UserRole;
   startTime: number;
 }
 
@@ -52,10 +117,39 @@ const configSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   CORS_ORIGINS: z.string().default('http://localhost:5173'),
   RATE_LIMIT_MAX: z.string().default('100'),
+  RATE_LIMIT_IP_MAX: z.string().default('1000'), // per IP, before auth; shared by users behind one NAT
   RATE_LIMIT_WINDOW_MS: z.string().default('900000'), // 15 minutes
+  RATE_LIMIT_STORE: z.enum(['memory', 'redis']).default('memory'),
+  RATE_LIMIT_TTS_MAX: z.string().default('10'), // synthesis requests per user per window
+  RATE_LIMIT_TTS_WINDOW_MS: z.string().default('60000'), // 1 minute
+  REDIS_URL: z.string().url('Valid Redis URL required').optional(),
+  IDEMPOTENCY_STORE: z.enum(['memory', 'redis']).default('memory'),
+  IDEMPOTENCY_TTL_MS: z.string().default('86400000'), // stored responses kept 24 hours
+  IDEMPOTENCY_LOCK_TTL_MS: z.string().default('120000'), // in-flight claim expiry
+  JOBS_STORE: z.enum(['memory', 'redis']).default('memory'),
+  JOBS_CONCURRENCY: z.string().default('2'), // jobs running at once per instance
+  JOBS_TTL_MS: z.string().default('86400000'), // job records kept 24 hours
   ELEVENLABS_API_KEY: z.string().min(1, 'ElevenLabs API key required'),
+  ELEVENLABS_BASE_URL: z.string().url('Valid ElevenLabs base URL required').default('https://api.elevenlabs.io'),
+  ELEVENLABS_MODEL_ID: z.string().default('eleven_multilingual_v2'),
+  TTS_MAX_CHARACTERS_PER_REQUEST: z.string().default('5000'),
+  TTS_USER_CHARACTER_QUOTA: z.string().default('100000'), // per user per window
+  TTS_PROJECT_CHARACTER_QUOTA: z.string().default('500000'), // per project per window
+  TTS_QUOTA_WINDOW_MS: z.string().default('86400000'), // 24 hours
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1, 'Supabase service role key required'),
   SUPABASE_URL: z.string().url('Valid Supabase URL required'),
+  SUPABASE_JWT_SECRET: z.string().min(32, 'Supabase JWT secret must be at least 32 characters').optional(),
+  SUPABASE_JWKS_URL: z.string().url('Valid JWKS URL required').optional(),
+  VERSION_MANIFEST_PATH: z.string().default('public/version.json'),
+  MIGRATIONS_DIR: z.string().default('supabase/migrations'),
+  READINESS_TIMEOUT_MS: z.string().default('2000'), // per dependency check
+  READINESS_CACHE_MS: z.string().default('5000'), // how long /readyz reuses check results
+  SHUTDOWN_DRAIN_MS: z.string().default('10000'), // not-ready window before server.close()
+  METRICS_TOKEN: z.string().min(16, 'Metrics scrape token must be at least 16 characters').optional(),
+  MIN_CLIENT_VERSION: z.string().regex(/^\d+\.\d+\.\d+$/, 'MIN_CLIENT_VERSION must be a semantic version').optional(),
+}).refine(env => ![env.RATE_LIMIT_STORE, env.IDEMPOTENCY_STORE, env.JOBS_STORE].includes('redis') || env.REDIS_URL, {
+  message: 'REDIS_URL required when RATE_LIMIT_STORE, IDEMPOTENCY_STORE or JOBS_STORE is redis',
+  path: ['REDIS_URL'],
 });
 
 export function getConfig(): SecurityConfig {
@@ -66,10 +160,36 @@ export function getConfig(): SecurityConfig {
     nodeEnv: envVars.NODE_ENV,
     corsOrigins: envVars.CORS_ORIGINS.split(',').map(origin => origin.trim()),
     rateLimitMax: parseInt(envVars.RATE_LIMIT_MAX, 10),
+    ipRateLimitMax: parseInt(envVars.RATE_LIMIT_IP_MAX, 10),
     rateLimitWindowMs: parseInt(envVars.RATE_LIMIT_WINDOW_MS, 10),
+    rateLimitStore: envVars.RATE_LIMIT_STORE,
+    redisUrl: envVars.REDIS_URL,
+    idempotencyStore: envVars.IDEMPOTENCY_STORE,
+    idempotencyTtlMs: parseInt(envVars.IDEMPOTENCY_TTL_MS, 10),
+    idempotencyLockTtlMs: parseInt(envVars.IDEMPOTENCY_LOCK_TTL_MS, 10),
+    jobStore: envVars.JOBS_STORE,
+    jobConcurrency: parseInt(envVars.JOBS_CONCURRENCY, 10),
+    jobTtlMs: parseInt(envVars.JOBS_TTL_MS, 10),
+    ttsRateLimitMax: parseInt(envVars.RATE_LIMIT_TTS_MAX, 10),
+    ttsRateLimitWindowMs: parseInt(envVars.RATE_LIMIT_TTS_WINDOW_MS, 10),
     elevenlabsApiKey: envVars.ELEVENLABS_API_KEY,
+    elevenlabsBaseUrl: envVars.ELEVENLABS_BASE_URL,
+    elevenlabsModelId: envVars.ELEVENLABS_MODEL_ID,
+    ttsMaxCharactersPerRequest: parseInt(envVars.TTS_MAX_CHARACTERS_PER_REQUEST, 10),
+    ttsUserCharacterQuota: parseInt(envVars.TTS_USER_CHARACTER_QUOTA, 10),
+    ttsProjectCharacterQuota: parseInt(envVars.TTS_PROJECT_CHARACTER_QUOTA, 10),
+    ttsQuotaWindowMs: parseInt(envVars.TTS_QUOTA_WINDOW_MS, 10),
     supabaseServiceRoleKey: envVars.SUPABASE_SERVICE_ROLE_KEY,
     supabaseUrl: envVars.SUPABASE_URL,
+    supabaseJwtSecret: envVars.SUPABASE_JWT_SECRET,
+    supabaseJwksUrl: envVars.SUPABASE_JWKS_URL ?? `${envVars.SUPABASE_URL}/auth/v1/.well-known/jwks.json`,
+    versionManifestPath: envVars.VERSION_MANIFEST_PATH,
+    migrationsDir: envVars.MIGRATIONS_DIR,
+    minClientVersion: envVars.MIN_CLIENT_VERSION,
+    metricsToken: envVars.METRICS_TOKEN,
+    readinessTimeoutMs: parseInt(envVars.READINESS_TIMEOUT_MS, 10),
+    readinessCacheMs: parseInt(envVars.READINESS_CACHE_MS, 10),
+    shutdownDrainMs: parseInt(envVars.SHUTDOWN_DRAIN_MS, 10),
   };
 }
 
@@ -146,9 +266,55 @@ export function healthCheck(_req: Request, res: Response) {
   });
 }
 
+// Readiness check - upstream dependencies, 503 when critical ones fail or while draining
+export function readinessCheck(probe: ReadinessProbe) {
+  return async (_req: Request, res: Response) => {
+    const report = await probe.run();
+    const ready = report.status === 'ready' || report.status === 'degraded';
+
+    res.set('Cache-Control', 'no-store');
+    res.status(ready ? 200 : 503).json(report);
+  };
+}
+
+export function getReadinessProbe(app: express.Application): ReadinessProbe | undefined {
+  return app.locals.readiness as ReadinessProbe | undefined;
+}
+
+// Feature routes enqueue background work here
+export function getJobQueue(app: express.Application): JobQueue | undefined {
+  return app.locals.jobs as JobQueue | undefined;
+}
+
 // Create Express app
-export function createApp(config: SecurityConfig): express.Application {
+export function createApp(config: SecurityConfig, dependencies: AppDependencies = {}): express.Application {
   const app = express();
+  const supabase = dependencies.supabase ?? createServiceClient(config.supabaseUrl, config.supabaseServiceRoleKey);
+  const ttsQuota = dependencies.ttsQuota ?? new TtsQuotaTracker({
+    userCharacters: config.ttsUserCharacterQuota,
+    projectCharacters: config.ttsProjectCharacterQuota,
+    windowMs: config.ttsQuotaWindowMs,
+  });
+  const metrics = dependencies.metrics ?? new BffMetrics();
+  const redis = dependencies.redis
+    ?? ([config.rateLimitStore, config.idempotencyStore, config.jobStore].includes('redis')
+      ? new Redis(config.redisUrl as string, { maxRetriesPerRequest: 1 })
+      : undefined);
+  const readiness = new ReadinessProbe([
+    supabaseCheck(supabase, config.readinessTimeoutMs),
+    ttsProviderCheck(config.elevenlabsBaseUrl, config.elevenlabsApiKey, config.readinessTimeoutMs),
+    storeCheck('rate_limit_store', config.rateLimitStore, redis, config.readinessTimeoutMs),
+    storeCheck('idempotency_store', config.idempotencyStore, redis, config.readinessTimeoutMs),
+    storeCheck('job_store', config.jobStore, redis, config.readinessTimeoutMs),
+  ], { cacheMs: config.readinessCacheMs, logger });
+  app.locals.readiness = readiness;
+  const jobs = new JobQueue({
+    store: config.jobStore === 'redis' && redis ? new RedisJobStore(redis) : new MemoryJobStore(),
+    concurrency: config.jobConcurrency,
+    ttlMs: config.jobTtlMs,
+    logger,
+  });
+  app.locals.jobs = jobs;
   
   // Trust proxy for rate limiting (if behind reverse proxy)
   app.set('trust proxy', 1);
@@ -171,56 +337,110 @@ export function createApp(config: SecurityConfig): express.Application {
     crossOriginEmbedderPolicy: false, // Allow for external API calls
   }));
   
-  // CORS configuration
+  // CORS configuration - the browser app runs on another origin, so every request
+  // header the client sends must pass preflight and every response header it reads must be exposed
   app.use(cors({
     origin: config.corsOrigins,
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', IDEMPOTENCY_HEADER, PROJECT_HEADER],
+    exposedHeaders: [
+      'Idempotent-Replayed',
+      'Retry-After',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'RateLimit-Policy',
+    ],
   }));
   
-  // Rate limiting with memory store (upgrade to Redis for production clustering)
-  const limiter = rateLimit({
-    windowMs: config.rateLimitWindowMs,
-    max: config.rateLimitMax,
-    message: {
-      error: 'Too many requests, please try again later',
-      retryAfter: Math.ceil(config.rateLimitWindowMs / 1000),
-    },
-    standardHeaders: true,
-    legacyHeaders: false,
-    handler: (req, res) => {
-      const context = req.context as RequestContext;
-      logger.warn({
-        requestId: context?.requestId,
-        ip: req.ip,
-        path: req.path,
-      }, 'Rate limit exceeded');
-      
-      res.status(429).json({
-        error: 'Too many requests, please try again later',
-        requestId: context?.requestId,
-        retryAfter: Math.ceil(config.rateLimitWindowMs / 1000),
-      });
-    },
-  });
-  
   // Apply middleware stack
-  app.use(limiter);
   app.use(express.json({ limit: '1mb' }));
   app.use(express.urlencoded({ extended: true, limit: '1mb' }));
   app.use(requestContext);
   app.use(requestLogger);
+  app.use(requestMetrics(metrics));
   
-  // Health check (no rate limiting)
+  const rateLimiterOptions = {
+    storeKind: config.rateLimitStore,
+    redis,
+    logger,
+    metrics,
+  };
+
+  // Liveness probe (no auth, no rate limiting - it touches nothing)
   app.get('/healthz', healthCheck);
+
+  // Per-IP budget before auth, so forged tokens, /readyz and /metrics floods are throttled
+  app.use(createRateLimiter({
+    name: 'ip',
+    max: config.ipRateLimitMax,
+    windowMs: config.rateLimitWindowMs,
+    keyBy: 'ip',
+  }, rateLimiterOptions));
+
+  // Readiness probe and metrics scrape (no auth)
+  app.get('/readyz', readinessCheck(readiness));
+  app.use('/metrics', createMetricsRouter({ metrics, scrapeToken: config.metricsToken }));
   
-  // Mount API routes (will be added)
-  // app.use('/api/elevenlabs', elevenlabsRouter);
+  app.use(createAuthMiddleware({
+    supabase,
+    logger,
+    issuer: `${config.supabaseUrl}/auth/v1`,
+    jwtSecret: config.supabaseJwtSecret,
+    jwksUrl: config.supabaseJwksUrl,
+    keySet: dependencies.jwtKeySet,
+  }));
+  
+  // Per-user rate limiting runs after auth so authenticated users are keyed by user ID
+  app.use('/api', createRateLimiter({
+    name: 'api',
+    max: config.rateLimitMax,
+    windowMs: config.rateLimitWindowMs,
+  }, rateLimiterOptions));
+  // Synthesis spends provider credits - stricter budget on top of the API-wide limit
+  app.use('/api/elevenlabs/synthesize', createRateLimiter({
+    name: 'tts',
+    max: config.ttsRateLimitMax,
+    windowMs: config.ttsRateLimitWindowMs,
+  }, rateLimiterOptions));
+  
+  // Replay-safe retries for mutating routes (Idempotency-Key header)
+  app.use('/api', idempotency({
+    store: config.idempotencyStore === 'redis' && redis
+      ? new RedisIdempotencyStore(redis)
+      : new MemoryIdempotencyStore(),
+    ttlMs: config.idempotencyTtlMs,
+    lockTtlMs: config.idempotencyLockTtlMs,
+    logger,
+  }));
+  
+  // Mount API routes
+  app.use('/api/openapi.json', createOpenApiRouter({ contracts: apiContracts, info: BFF_API_INFO }));
+  app.use('/api/version', createVersionRouter({
+    manifestPath: config.versionManifestPath,
+    migrationsDir: config.migrationsDir,
+    minClientVersion: config.minClientVersion,
+    supabase,
+    logger,
+  }));
+  app.use('/api/elevenlabs', createElevenLabsRouter({
+    apiKey: config.elevenlabsApiKey,
+    baseUrl: config.elevenlabsBaseUrl,
+    defaultModelId: config.elevenlabsModelId,
+    maxCharactersPerRequest: config.ttsMaxCharactersPerRequest,
+    supabase,
+    quota: ttsQuota,
+    logger,
+    metrics,
+  }));
+  app.use('/api/telemetry', createTelemetryRouter({ metrics }));
+  app.use('/api/jobs', createJobsRouter({ jobs }));
+  app.use('/api/scripts', createScriptsRouter({ supabase, logger, jobs }));
   // app.use('/api/supabase', supabaseRouter);
   
-  // 404 handler
-  app.use('*', (req, res) => {
+  // 404 handler (Express 5 path syntax no longer accepts a bare '*')
+  app.use((req: Request, res: Response) => {
     const context = req.context as RequestContext;
     res.status(404).json({
       error: 'Endpoint not found',
@@ -235,24 +455,38 @@ export function createApp(config: SecurityConfig): express.Application {
 }
 
 // Graceful shutdown handler
-export function gracefulShutdown(server: Server, signal: string) {
-  logger.info({ signal }, 'Received shutdown signal, starting graceful shutdown');
+export interface ShutdownOptions {
+  readiness?: ReadinessProbe;
+  jobs?: JobQueue;
+  drainMs?: number;
+}
+
+export function gracefulShutdown(server: Server, signal: string, options: ShutdownOptions = {}) {
+  const drainMs = options.drainMs ?? 0;
+  logger.info({ signal, drainMs }, 'Received shutdown signal, starting graceful shutdown');
   
-  server.close((err?: Error) => {
-    if (err) {
-      logger.error({ error: err }, 'Error during server shutdown');
-      process.exit(1);
-    }
-    
-    logger.info('Server closed successfully');
-    process.exit(0);
-  });
+  // Fail /readyz first so load balancers stop routing new traffic here
+  options.readiness?.markDraining();
   
-  // Force shutdown after 30 seconds
+  setTimeout(() => {
+    // Ends open SSE streams, which would otherwise keep server.close() waiting
+    void options.jobs?.stop();
+    server.close((err?: Error) => {
+      if (err) {
+        logger.error({ error: err }, 'Error during server shutdown');
+        process.exit(1);
+      }
+      
+      logger.info('Server closed successfully');
+      process.exit(0);
+    });
+  }, drainMs);
+  
+  // Force shutdown 30 seconds after draining ends
   setTimeout(() => {
     logger.error('Forced shutdown due to timeout');
     process.exit(1);
-  }, 30000);
+  }, drainMs + 30000);
 }
 
 // Start server
@@ -269,8 +503,13 @@ export function startServer() {
   });
   
   // Graceful shutdown handlers
-  process.on('SIGTERM', () => gracefulShutdown(server, 'SIGTERM'));
-  process.on('SIGINT', () => gracefulShutdown(server, 'SIGINT'));
+  const shutdownOptions: ShutdownOptions = {
+    readiness: getReadinessProbe(app),
+    jobs: getJobQueue(app),
+    drainMs: config.shutdownDrainMs,
+  };
+  process.once('SIGTERM', () => gracefulShutdown(server, 'SIGTERM', shutdownOptions));
+  process.once('SIGINT', () => gracefulShutdown(server, 'SIGINT', shutdownOptions));
   
   return server;
 }
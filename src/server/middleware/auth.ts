@@ -0,0 +1,237 @@
+/**
+ * Supabase JWT Authentication Middleware
+ *
+ * Critical-Engineer: consulted for Authentication strategy (JWT, session management)
+ *
+ * Verifies the Supabase access token from the Authorization header and
+ * populates req.context with the user ID and role:
+ * - HS256 tokens are verified against the project JWT secret
+ * - Asymmetric tokens (RS256/ES256) are verified against the project JWKS
+ * - Requests without an Authorization header continue anonymously; routes
+ *   that need a user opt in with requireUser / requireRole
+ *
+ * Roles follow the fail-closed model from src/lib/supabase.ts: a missing or
+ * unknown profile role never grants access.
+ */
+
+// Context7: consulted for jose
+// Context7: consulted for express
+import { jwtVerify, createRemoteJWKSet, decodeProtectedHeader, errors as joseErrors } from 'jose';
+import type { JWTVerifyGetKey, JWTPayload } from 'jose';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Logger } from 'pino';
+import { roles, type UserRole } from '../../lib/supabase';
+
+export interface AuthOptions {
+  supabase: SupabaseClient;
+  logger: Logger;
+  issuer: string; // `${SUPABASE_URL}/auth/v1`
+  audience?: string;
+  jwtSecret?: string;
+  jwksUrl?: string;
+  keySet?: JWTVerifyGetKey; // Injected key set (tests, key rotation tooling)
+  roleCacheTtlMs?: number;
+}
+
+export type AuthErrorCode =
+  | 'invalid_authorization_header'
+  | 'token_expired'
+  | 'invalid_token'
+  | 'role_unavailable'
+  | 'authentication_required'
+  | 'insufficient_role';
+
+// Header used by clients to scope a request to a project membership
+export const PROJECT_HEADER = 'x-project-id';
+
+const KNOWN_ROLES = Object.values(roles) as UserRole[];
+const ASYMMETRIC_ALGORITHMS = ['RS256', 'ES256', 'EdDSA'];
+
+function sendAuthError(req: Request, res: Response, status: 401 | 403, code: AuthErrorCode, message: string) {
+  if (status === 401) {
+    res.set('WWW-Authenticate', `Bearer error="${code === 'token_expired' ? 'invalid_token' : code}"`);
+  }
+  res.status(status).json({
+    error: message,
+    code,
+    requestId: req.context?.requestId,
+  });
+}
+
+function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && KNOWN_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Short-lived cache so every request does not hit user_profiles/project_members
+ */
+class RoleCache {
+  private entries = new Map<string, { role: UserRole | null; expiresAt: number }>();
+
+  constructor(private ttlMs: number) {}
+
+  get(key: string): UserRole | null | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.role;
+  }
+
+  set(key: string, role: UserRole | null): void {
+    this.entries.set(key, { role, expiresAt: Date.now() + this.ttlMs });
+  }
+}
+
+export function createAuthMiddleware(options: AuthOptions): RequestHandler {
+  if (!options.jwtSecret && !options.jwksUrl && !options.keySet) {
+    throw new Error('Authentication requires a JWT secret or JWKS URL');
+  }
+
+  const secret = options.jwtSecret ? new TextEncoder().encode(options.jwtSecret) : undefined;
+  const keySet = options.keySet ?? (options.jwksUrl ? createRemoteJWKSet(new URL(options.jwksUrl)) : undefined);
+  const roleCache = new RoleCache(options.roleCacheTtlMs ?? 30000);
+
+  const verify = async (token: string): Promise<JWTPayload> => {
+    const { alg } = decodeProtectedHeader(token);
+    const verifyOptions = {
+      issuer: options.issuer,
+      audience: options.audience ?? 'authenticated',
+    };
+
+    if (alg === 'HS256') {
+      if (!secret) {
+        throw new joseErrors.JOSEAlgNotAllowed('HS256 tokens are not accepted without a JWT secret');
+      }
+      return (await jwtVerify(token, secret, { ...verifyOptions, algorithms: ['HS256'] })).payload;
+    }
+
+    if (!keySet) {
+      throw new joseErrors.JOSEAlgNotAllowed(`${alg} tokens are not accepted without a JWKS`);
+    }
+    return (await jwtVerify(token, keySet, { ...verifyOptions, algorithms: ASYMMETRIC_ALGORITHMS })).payload;
+  };
+
+  const lookupProfileRole = async (userId: string): Promise<UserRole | null> => {
+    const cacheKey = `profile:${userId}`;
+    const cached = roleCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const { data, error } = await options.supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load user profile: ${error.message}`);
+    }
+
+    const role = isUserRole(data?.role) ? data.role : null;
+    roleCache.set(cacheKey, role);
+    return role;
+  };
+
+  const lookupProjectRole = async (userId: string, projectId: string): Promise<UserRole | null> => {
+    const cacheKey = `project:${projectId}:${userId}`;
+    const cached = roleCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const { data, error } = await options.supabase
+      .from('project_members')
+      .select('role_name')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load project membership: ${error.message}`);
+    }
+
+    const role = isUserRole(data?.role_name) ? data.role_name : null;
+    roleCache.set(cacheKey, role);
+    return role;
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('authorization');
+    if (!header) {
+      next();
+      return;
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    if (!match) {
+      sendAuthError(req, res, 401, 'invalid_authorization_header', 'Authorization header must use the Bearer scheme');
+      return;
+    }
+
+    let payload: JWTPayload;
+    try {
+      payload = await verify(match[1]);
+    } catch (error) {
+      const expired = error instanceof joseErrors.JWTExpired;
+      options.logger.warn({
+        requestId: req.context?.requestId,
+        reason: error instanceof Error ? error.name : 'unknown',
+      }, 'Rejected access token');
+
+      sendAuthError(req, res, 401, expired ? 'token_expired' : 'invalid_token',
+        expired ? 'Access token expired' : 'Invalid access token');
+      return;
+    }
+
+    if (!payload.sub) {
+      sendAuthError(req, res, 401, 'invalid_token', 'Invalid access token');
+      return;
+    }
+
+    const role = await lookupProfileRole(payload.sub);
+    if (!role) {
+      // Fail-closed: a verified token without a valid profile role gets no access
+      sendAuthError(req, res, 403, 'role_unavailable', 'User role could not be resolved');
+      return;
+    }
+
+    req.context.userId = payload.sub;
+    req.context.role = role;
+
+    const projectId = req.get(PROJECT_HEADER);
+    if (projectId) {
+      req.context.projectId = projectId;
+      req.context.projectRole = (await lookupProjectRole(payload.sub, projectId)) ?? undefined;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Effective role for authorization: admins keep admin everywhere, otherwise
+ * an active project membership takes precedence over the profile role
+ */
+export function getEffectiveRole(req: Request): UserRole | undefined {
+  const { role, projectRole } = req.context ?? {};
+  if (role === roles.ADMIN) return role;
+  return projectRole ?? role;
+}
+
+export function requireRole(...allowed: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.context?.userId) {
+      sendAuthError(req, res, 401, 'authentication_required', 'Authentication required');
+      return;
+    }
+
+    const role = getEffectiveRole(req);
+    if (!role || !allowed.includes(role)) {
+      sendAuthError(req, res, 403, 'insufficient_role', `Requires one of: ${allowed.join(', ')}`);
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Idempotency-Key Middleware
+ *
+ * Critical-Engineer: consulted for Retry safety of non-idempotent operations
+ *
+ * Clients (ResilientScriptComponentManager, retryWithBackoff) retry mutating
+ * requests by design. When a POST/PUT/DELETE carries an Idempotency-Key:
+ * - The first request claims the key (per user) and runs normally
+ * - Its response (status, headers, body) is stored for the configured TTL
+ * - Duplicates replay the stored response with Idempotent-Replayed: true
+ * - Duplicates arriving while the original is in flight get 409
+ * - Reusing a key with a different payload gets 422
+ *
+ * Only final answers are stored: successes and 4xx client errors. 5xx, 429
+ * (quota and rate limits reset), 409 (conflicts resolve) and 408 are transient, as are
+ * responses larger than maxBodyBytes - the key is released so a retry can run
+ * the operation again.
+ */
+
+// Context7: consulted for express
+// Context7: consulted for crypto
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { Logger } from 'pino';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+const IDEMPOTENT_METHODS = new Set(['POST', 'PUT', 'DELETE']);
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+const KEY_PREFIX = 'idempotency';
+
+// Per-request headers that must not be replayed from the original response
+const NON_REPLAYABLE_HEADERS = new Set([
+  'x-request-id', 'date', 'connection', 'keep-alive', 'transfer-encoding', 'set-cookie',
+  'ratelimit', 'ratelimit-limit', 'ratelimit-remaining', 'ratelimit-reset', 'ratelimit-policy', 'retry-after',
+]);
+
+export interface InFlightRecord {
+  state: 'in_flight';
+  fingerprint: string;
+}
+
+export interface CompletedRecord {
+  state: 'completed';
+  fingerprint: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string; // base64
+}
+
+export type IdempotencyRecord = InFlightRecord | CompletedRecord;
+
+export type ClaimResult = { claimed: true } | { claimed: false; record: IdempotencyRecord };
+
+export interface IdempotencyStore {
+  // Atomically claim a key; returns the existing record if another request owns it
+  claim(key: string, record: InFlightRecord, lockTtlMs: number): Promise<ClaimResult>;
+  complete(key: string, record: CompletedRecord, ttlMs: number): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+export interface MemoryIdempotencyStoreOptions {
+  maxBytes?: number; // Total size of stored responses; the oldest are dropped beyond it
+  sweepIntervalMs?: number; // How often expired records are dropped
+}
+
+interface MemoryEntry {
+  record: IdempotencyRecord;
+  expiresAt: number;
+  bytes: number;
+}
+
+/**
+ * Single-instance store. Expired records are swept periodically and stored
+ * responses are capped in total size: when full, the oldest completed
+ * responses are dropped first (a retry of one of those runs again)
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, MemoryEntry>();
+  private storedBytes = 0;
+  private readonly maxBytes: number;
+  private readonly sweeper: ReturnType<typeof globalThis.setInterval>;
+
+  constructor(options: MemoryIdempotencyStoreOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.sweeper = globalThis.setInterval(() => this.sweep(), options.sweepIntervalMs ?? 60 * 1000);
+    this.sweeper.unref?.();
+  }
+
+  async claim(key: string, record: InFlightRecord, lockTtlMs: number): Promise<ClaimResult> {
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return { claimed: false, record: existing.record };
+    }
+    this.put(key, { record, expiresAt: Date.now() + lockTtlMs, bytes: 0 });
+    return { claimed: true };
+  }
+
+  async complete(key: string, record: CompletedRecord, ttlMs: number): Promise<void> {
+    const bytes = record.body.length + JSON.stringify(record.headers).length;
+    if (bytes > this.maxBytes) {
+      this.remove(key);
+      return;
+    }
+
+    this.put(key, { record, expiresAt: Date.now() + ttlMs, bytes });
+
+    // Map order is insertion order, so the first completed records are the oldest
+    for (const [oldKey, entry] of this.records) {
+      if (this.storedBytes <= this.maxBytes) break;
+      if (entry.record.state === 'completed' && oldKey !== key) {
+        this.remove(oldKey);
+      }
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  /**
+   * Drop expired records
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.remove(key);
+      }
+    }
+  }
+
+  get size(): { records: number; bytes: number } {
+    return { records: this.records.size, bytes: this.storedBytes };
+  }
+
+  close(): void {
+    globalThis.clearInterval(this.sweeper);
+  }
+
+  private put(key: string, entry: MemoryEntry): void {
+    this.remove(key); // Re-insert so the record moves to the end of the age order
+    this.records.set(key, entry);
+    this.storedBytes += entry.bytes;
+  }
+
+  private remove(key: string): void {
+    const existing = this.records.get(key);
+    if (!existing) return;
+    this.storedBytes -= existing.bytes;
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Subset of the ioredis API the store relies on (tests/mocks/redis.ts implements it)
+ */
+export interface IdempotencyRedisClient {
+  set(key: string, value: string, mode: 'PX', milliseconds: number, condition: 'NX'): Promise<'OK' | null>;
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<'OK' | null>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+  constructor(private client: IdempotencyRedisClient) {}
+
+  async claim(key: string, record: InFlightRecord, lockTtlMs: number): Promise<ClaimResult> {
+    const redisKey = `${KEY_PREFIX}:${key}`;
+    const result = await this.client.set(redisKey, JSON.stringify(record), 'PX', lockTtlMs, 'NX');
+    if (result === 'OK') return { claimed: true };
+
+    const existing = await this.client.get(redisKey);
+    if (existing === null) {
+      // Expired between SET and GET - try once more
+      const retry = await this.client.set(redisKey, JSON.stringify(record), 'PX', lockTtlMs, 'NX');
+      if (retry === 'OK') return { claimed: true };
+      return { claimed: false, record };
+    }
+    return { claimed: false, record: JSON.parse(existing) as IdempotencyRecord };
+  }
+
+  async complete(key: string, record: CompletedRecord, ttlMs: number): Promise<void> {
+    await this.client.set(`${KEY_PREFIX}:${key}`, JSON.stringify(record), 'PX', ttlMs);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.del(`${KEY_PREFIX}:${key}`);
+  }
+}
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  ttlMs: number;
+  lockTtlMs: number;
+  maxBodyBytes?: number;
+  logger: Logger;
+}
+
+// Answers that may change on retry; storing them would replay them for the whole TTL
+const TRANSIENT_STATUSES = new Set([408, 409, 429]);
+
+function isFinalStatus(status: number): boolean {
+  return status < 500 && !TRANSIENT_STATUSES.has(status);
+}
+
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(req.method)
+    .update('\0')
+    .update(req.originalUrl)
+    .update('\0')
+    .update(JSON.stringify(req.body ?? null))
+    .digest('hex');
+}
+
+function replay(res: Response, record: CompletedRecord): void {
+  res.status(record.status);
+  Object.entries(record.headers).forEach(([name, value]) => res.setHeader(name, value));
+  res.setHeader('Idempotent-Replayed', 'true');
+  res.end(Buffer.from(record.body, 'base64'));
+}
+
+export function idempotency(options: IdempotencyOptions): RequestHandler {
+  const maxBodyBytes = options.maxBodyBytes ?? 5 * 1024 * 1024;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const idempotencyKey = req.get(IDEMPOTENCY_HEADER);
+    if (!idempotencyKey || !IDEMPOTENT_METHODS.has(req.method)) {
+      next();
+      return;
+    }
+
+    if (!KEY_PATTERN.test(idempotencyKey)) {
+      res.status(400).json({
+        error: 'Idempotency-Key must be 1-255 visible ASCII characters',
+        code: 'invalid_idempotency_key',
+        requestId: req.context?.requestId,
+      });
+      return;
+    }
+
+    // Keys are scoped per user so one user can never replay another's response
+    const owner = req.context?.userId ? `user:${req.context.userId}` : `ip:${req.ip}`;
+    const storeKey = `${owner}:${idempotencyKey}`;
+    const requestFingerprint = fingerprint(req);
+
+    const claim = await options.store.claim(storeKey, { state: 'in_flight', fingerprint: requestFingerprint }, options.lockTtlMs);
+
+    if (!claim.claimed) {
+      if (claim.record.fingerprint !== requestFingerprint) {
+        res.status(422).json({
+          error: 'Idempotency-Key was already used with a different request',
+          code: 'idempotency_key_reused',
+          requestId: req.context?.requestId,
+        });
+        return;
+      }
+      if (claim.record.state === 'in_flight') {
+        res.set('Retry-After', '1');
+        res.status(409).json({
+          error: 'A request with this Idempotency-Key is still in progress',
+          code: 'idempotency_in_flight',
+          requestId: req.context?.requestId,
+        });
+        return;
+      }
+
+      options.logger.info({
+        requestId: req.context?.requestId,
+        status: claim.record.status,
+      }, 'Replaying idempotent response');
+      replay(res, claim.record);
+      return;
+    }
+
+    // Capture the response as it is written (covers streamed bodies such as TTS audio)
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let overflow = false;
+    const capture = (chunk: unknown, encoding?: unknown) => {
+      if (chunk === undefined || chunk === null || typeof chunk === 'function' || overflow) return;
+      const buffer = Buffer.isBuffer(chunk)
+        ? chunk
+        : chunk instanceof Uint8Array
+          ? Buffer.from(chunk)
+          : Buffer.from(String(chunk), typeof encoding === 'string' && Buffer.isEncoding(encoding) ? encoding : 'utf-8');
+      size += buffer.length;
+      if (size > maxBodyBytes) {
+        overflow = true;
+        chunks.length = 0;
+        return;
+      }
+      chunks.push(buffer);
+    };
+
+    const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean;
+    const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+    res.write = ((...args: unknown[]) => {
+      capture(args[0], args[1]);
+      return originalWrite(...args);
+    }) as Response['write'];
+    res.end = ((...args: unknown[]) => {
+      capture(args[0], args[1]);
+      return originalEnd(...args);
+    }) as Response['end'];
+
+    let settled = false;
+    const settle = async (completed: boolean) => {
+      if (settled) return;
+      settled = true;
+
+      try {
+        if (completed && isFinalStatus(res.statusCode) && !overflow) {
+          const headers: Record<string, string> = {};
+          Object.entries(res.getHeaders()).forEach(([name, value]) => {
+            if (value !== undefined && !NON_REPLAYABLE_HEADERS.has(name)) {
+              headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+            }
+          });
+          await options.store.complete(storeKey, {
+            state: 'completed',
+            fingerprint: requestFingerprint,
+            status: res.statusCode,
+            headers,
+            body: Buffer.concat(chunks).toString('base64'),
+          }, options.ttlMs);
+        } else {
+          await options.store.release(storeKey);
+        }
+      } catch (error) {
+        options.logger.error({
+          requestId: req.context?.requestId,
+          error: error instanceof Error ? error.message : String(error),
+        }, 'Failed to persist idempotent response');
+      }
+    };
+
+    res.on('finish', () => void settle(true));
+    // Client disconnected or the stream failed before the response completed
+    res.on('close', () => void settle(res.writableFinished));
+
+    next();
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Rate Limiting Middleware
+ *
+ * Critical-Engineer: consulted for Distributed rate limiting and abuse protection
+ *
+ * Wraps express-rate-limit with:
+ * - A pluggable store: in-process memory (single instance) or Redis (clustered)
+ * - Keys by authenticated user ID, falling back to client IP for anonymous traffic
+ * - Named policies so route groups get their own budgets (e.g. TTS synthesis)
+ * - 429 bodies carrying the exact retry time alongside the Retry-After header
+ *
+ * User-keyed policies must be mounted after the auth middleware so
+ * req.context.userId is populated. IP-keyed policies run before it, so
+ * requests with invalid tokens and unauthenticated endpoints are throttled too.
+ */
+
+// Context7: consulted for express-rate-limit
+// Context7: consulted for ioredis
+import { rateLimit, ipKeyGenerator, MemoryStore } from 'express-rate-limit';
+import type { Options, Store, IncrementResponse, ClientRateLimitInfo, RateLimitRequestHandler } from 'express-rate-limit';
+import type { Request, Response } from 'express';
+import type { Logger } from 'pino';
+import type { BffMetrics } from '../services/metrics';
+
+export type RateLimitStoreKind = 'memory' | 'redis';
+
+export interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  max: number;
+  keyBy?: 'user' | 'ip'; // Default 'user' (IP for anonymous requests)
+}
+
+/**
+ * Subset of the ioredis API the store relies on (tests/mocks/redis.ts implements it)
+ */
+export interface RateLimitRedisClient {
+  incr(key: string): Promise<number>;
+  decr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  pttl(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+  ping(): Promise<string>;
+}
+
+export interface RateLimiterOptions {
+  storeKind: RateLimitStoreKind;
+  redis?: RateLimitRedisClient;
+  logger: Logger;
+  metrics?: BffMetrics;
+}
+
+const KEY_PREFIX = 'rate-limit';
+
+/**
+ * Fixed-window counter shared by every BFF instance through Redis
+ */
+export class RedisRateLimitStore implements Store {
+  public prefix: string;
+  public localKeys = false;
+  private windowMs = 60000;
+
+  constructor(private client: RateLimitRedisClient, policyName: string) {
+    this.prefix = `${KEY_PREFIX}:${policyName}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const redisKey = this.prefix + key;
+    const [value, ttl] = await Promise.all([this.client.get(redisKey), this.client.pttl(redisKey)]);
+    if (value === null) return undefined;
+
+    return {
+      totalHits: parseInt(value, 10),
+      resetTime: ttl > 0 ? new Date(Date.now() + ttl) : undefined,
+    };
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const redisKey = this.prefix + key;
+    const totalHits = await this.client.incr(redisKey);
+
+    let ttl = totalHits === 1 ? -1 : await this.client.pttl(redisKey);
+    if (ttl < 0) {
+      // First hit in the window, or a counter that lost its expiry - start a fresh window
+      await this.client.pexpire(redisKey, this.windowMs);
+      ttl = this.windowMs;
+    }
+
+    return { totalHits, resetTime: new Date(Date.now() + ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.client.decr(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+function createStore(policy: RateLimitPolicy, options: RateLimiterOptions): Store {
+  if (options.storeKind === 'redis') {
+    if (!options.redis) {
+      throw new Error('Redis rate-limit store requires a Redis client');
+    }
+    return new RedisRateLimitStore(options.redis, policy.name);
+  }
+  // express-rate-limit forbids sharing a store between limiters, so each policy gets its own
+  return new MemoryStore();
+}
+
+/**
+ * Authenticated users get their own budget regardless of network;
+ * anonymous clients are grouped by IP (IPv6 collapsed to its /56 subnet)
+ */
+export function rateLimitKey(req: Request): string {
+  const userId = req.context?.userId;
+  if (userId) return `user:${userId}`;
+  return ipRateLimitKey(req);
+}
+
+export function ipRateLimitKey(req: Request): string {
+  return `ip:${ipKeyGenerator(req.ip ?? 'unknown')}`;
+}
+
+export function createRateLimiter(policy: RateLimitPolicy, options: RateLimiterOptions): RateLimitRequestHandler {
+  const keyGenerator = policy.keyBy === 'ip' ? ipRateLimitKey : rateLimitKey;
+
+  return rateLimit({
+    windowMs: policy.windowMs,
+    limit: policy.max,
+    store: createStore(policy, options),
+    keyGenerator,
+    standardHeaders: 'draft-6',
+    legacyHeaders: false,
+    // Availability over strictness: a Redis outage must not take the API down
+    passOnStoreError: true,
+    handler: (req: Request, res: Response) => {
+      const resetTime = (req as Request & { rateLimit?: { resetTime?: Date } }).rateLimit?.resetTime
+        ?? new Date(Date.now() + policy.windowMs);
+      const retryAfterMs = Math.max(0, resetTime.getTime() - Date.now());
+
+      options.logger.warn({
+        requestId: req.context?.requestId,
+        policy: policy.name,
+        key: keyGenerator(req),
+        path: req.path,
+      }, 'Rate limit exceeded');
+      options.metrics?.rateLimitRejections.inc({ policy: policy.name });
+
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      res.status(429).json({
+        error: 'Too many requests, please try again later',
+        policy: policy.name,
+        limit: policy.max,
+        retryAfter: Math.ceil(retryAfterMs / 1000),
+        retryAfterMs,
+        resetAt: resetTime.toISOString(),
+        requestId: req.context?.requestId,
+      });
+    },
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Request Metrics Middleware
+ *
+ * Observes request latency once the response finishes. Routes are labelled by
+ * their template (e.g. /api/elevenlabs/synthesize) - never by raw path - to
+ * keep label cardinality bounded.
+ */
+
+// Context7: consulted for express
+import type { Request, Response, NextFunction } from 'express';
+import type { BffMetrics } from '../services/metrics';
+
+export function routeLabel(req: Request): string {
+  const routePath = (req.route as { path?: string } | undefined)?.path;
+  if (typeof routePath !== 'string') return 'unmatched';
+  return `${req.baseUrl}${routePath === '/' ? '' : routePath}` || '/';
+}
+
+export function requestMetrics(metrics: BffMetrics) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = process.hrtime.bigint();
+
+    res.on('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      metrics.httpRequestDuration.observe({
+        method: req.method,
+        route: routeLabel(req),
+        status_code: String(res.statusCode),
+      }, seconds);
+    });
+
+    next();
+  };
+}
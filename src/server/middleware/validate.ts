@@ -0,0 +1,46 @@
+/**
+ * Request validation middleware
+ *
+ * Parses req.body / req.query with a zod schema and answers 400 with the
+ * issue list instead of letting ZodError reach the generic error handler.
+ */
+
+// Context7: consulted for zod
+// Context7: consulted for express
+import { z } from 'zod';
+import type { Request, Response, NextFunction } from 'express';
+
+type RequestPart = 'body' | 'query' | 'params';
+
+export function validate<T extends z.ZodType>(schema: T, part: RequestPart = 'body') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req[part]);
+
+    if (!result.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        issues: result.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+        requestId: req.context?.requestId,
+      });
+      return;
+    }
+
+    // Express 5 exposes req.query as a getter - keep parsed values on res.locals
+    res.locals[part] = result.data;
+    next();
+  };
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.context?.userId) {
+    res.status(401).json({
+      error: 'Authentication required',
+      requestId: req.context?.requestId,
+    });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,330 @@
+/**
+ * Typed Fetch Client Generator
+ *
+ * Emits src/lib/api/bffClient.ts from the OpenAPI document: one TypeScript
+ * type per component schema and one method per /api operation. Run through
+ * `npm run generate:api-client`; tests/unit/server/openapi.test.ts fails when
+ * the committed client is out of date.
+ */
+
+import type { JsonSchema, OpenApiDocument } from './document';
+
+interface Operation {
+  operationId: string;
+  summary?: string;
+  security?: unknown[];
+  parameters?: Array<{ name: string; in: 'path' | 'query' | 'header'; required: boolean; description?: string; schema: JsonSchema }>;
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const pad = (depth: number) => '  '.repeat(depth);
+
+// Single-quoted literals to match the repo style
+const literal = (value: unknown) =>
+  typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+
+const propertyKey = (name: string) => (IDENTIFIER.test(name) ? name : literal(name));
+
+function docComment(text: string | undefined, depth: number): string {
+  return text ? `${pad(depth)}/** ${text} */\n` : '';
+}
+
+/**
+ * Map a JSON Schema (draft 2020-12 subset emitted by zod) to a TypeScript type
+ */
+export function schemaToType(schema: JsonSchema | undefined, depth = 0): string {
+  if (!schema || Object.keys(schema).length === 0) return 'unknown';
+
+  if (typeof schema.$ref === 'string') {
+    return schema.$ref.replace('#/components/schemas/', '');
+  }
+  if ('const' in schema) {
+    return literal(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(literal).join(' | ');
+  }
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (variants) {
+    return variants.map(variant => schemaToType(variant, depth)).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => schemaToType({ ...schema, type }, depth)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schemaToType(schema.items as JsonSchema | undefined, depth);
+      return /^[\w$]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      return objectType(schema, depth);
+    default:
+      return 'unknown';
+  }
+}
+
+function objectType(schema: JsonSchema, depth: number): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const entries = Object.entries(properties);
+  const additional = schema.additionalProperties;
+
+  if (entries.length === 0) {
+    return additional && typeof additional === 'object'
+      ? `Record<string, ${schemaToType(additional as JsonSchema, depth)}>`
+      : 'Record<string, unknown>';
+  }
+
+  const lines = entries.map(([name, property]) =>
+    `${docComment(property.description as string | undefined, depth + 1)}${pad(depth + 1)}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${schemaToType(property, depth + 1)};`
+  );
+  return `{\n${lines.join('\n')}\n${pad(depth)}}`;
+}
+
+function declareSchema(name: string, schema: JsonSchema): string {
+  const type = schemaToType(schema);
+  const comment = docComment(schema.description as string | undefined, 0);
+  return type.startsWith('{')
+    ? `${comment}export interface ${name} ${type}\n`
+    : `${comment}export type ${name} = ${type};\n`;
+}
+
+function successResponse(operation: Operation): { kind: 'json' | 'blob' | 'text' | 'events' | 'empty'; type: string } {
+  const status = Object.keys(operation.responses).filter(code => code.startsWith('2')).sort()[0];
+  const content = status ? operation.responses[status].content : undefined;
+  if (!content) return { kind: 'empty', type: 'void' };
+
+  const [contentType, media] = Object.entries(content)[0];
+  if (contentType === 'application/json') return { kind: 'json', type: schemaToType(media.schema, 1) };
+  // Server-Sent Events: the schema describes the JSON data of each event
+  if (contentType === 'text/event-stream') return { kind: 'events', type: `AsyncIterable<${schemaToType(media.schema, 1)}>` };
+  if (contentType.startsWith('text/')) return { kind: 'text', type: 'string' };
+  return { kind: 'blob', type: 'Blob' };
+}
+
+function parametersType(parameters: NonNullable<Operation['parameters']>, depth: number): string {
+  const lines = parameters.map(parameter =>
+    `${docComment(parameter.description, depth + 1)}${pad(depth + 1)}${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${schemaToType(parameter.schema, depth + 1)};`
+  );
+  return `{\n${lines.join('\n')}\n${pad(depth)}}`;
+}
+
+function generateMethod(path: string, method: string, operation: Operation): string {
+  const pathParams = (operation.parameters ?? []).filter(parameter => parameter.in === 'path');
+  const queryParams = (operation.parameters ?? []).filter(parameter => parameter.in === 'query');
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+  const response = successResponse(operation);
+
+  const args: string[] = [];
+  if (pathParams.length > 0) args.push(`params: ${parametersType(pathParams, 2)}`);
+  if (queryParams.length > 0) {
+    const optional = queryParams.every(parameter => !parameter.required);
+    args.push(`query${optional ? '?' : ''}: ${parametersType(queryParams, 2)}`);
+  }
+  if (bodySchema) args.push(`body: ${schemaToType(bodySchema, 2)}`);
+  const idempotent = (operation.parameters ?? []).some(parameter => parameter.in === 'header' && parameter.name === 'Idempotency-Key');
+  if (idempotent) args.push('options?: MutationOptions');
+
+  const urlPath = pathParams.length > 0
+    ? `\`${path.replace(/\{(\w+)\}/g, (_match, name: string) => `\${encodeURIComponent(params.${name})}`)}\``
+    : `'${path}'`;
+
+  const spec = [
+    `method: '${method.toUpperCase()}'`,
+    `path: ${urlPath}`,
+    queryParams.length > 0 ? 'query' : undefined,
+    bodySchema ? 'body' : undefined,
+    idempotent ? 'idempotencyKey: options?.idempotencyKey' : undefined,
+    `auth: ${Boolean(operation.security?.length)}`,
+    `response: '${response.kind}'`,
+  ].filter(Boolean).join(', ');
+
+  return `${docComment(operation.summary, 2)}${pad(2)}${operation.operationId}: (${args.join(', ')}): Promise<${response.type}> =>\n${pad(3)}request({ ${spec} }),`;
+}
+
+const RUNTIME = `export interface BffClientOptions {
+  /** Origin of the BFF - defaults to same-origin */
+  baseUrl?: string;
+  /** Supabase access token for authenticated operations */
+  getAccessToken?: () => Promise<string | undefined>;
+}
+
+export interface MutationOptions {
+  /** Reuse the same key when retrying so the BFF replays instead of re-running */
+  idempotencyKey?: string;
+}
+
+/**
+ * Non-2xx response from the BFF; body is the parsed error payload when JSON
+ */
+export class BffApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(typeof body === 'object' && body !== null && 'error' in body
+      ? String(body.error)
+      : \`BFF request failed with status \${status}\`);
+    this.name = 'BffApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+interface RequestSpec {
+  method: string;
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  idempotencyKey?: string;
+  auth: boolean;
+  response: 'json' | 'blob' | 'text' | 'events' | 'empty';
+}
+
+/**
+ * Parse a text/event-stream body into the JSON data of each event. Breaking
+ * out of the loop cancels the underlying request.
+ */
+async function* readEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new globalThis.TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true }).replace(/\\r\\n/g, '\\n');
+
+      let boundary = buffer.indexOf('\\n\\n');
+      while (boundary !== -1) {
+        const data = buffer.slice(0, boundary).split('\\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\\n');
+        buffer = buffer.slice(boundary + 2);
+        // Comment-only frames (heartbeats) and retry hints carry no data
+        if (data) yield JSON.parse(data) as T;
+        boundary = buffer.indexOf('\\n\\n');
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+export function createBffClient(options: BffClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? '').replace(/\\/+$/, '');
+
+  async function request<T>(spec: RequestSpec): Promise<T> {
+    const search = new URLSearchParams();
+    Object.entries(spec.query ?? {}).forEach(([name, value]) => {
+      if (value !== undefined) search.set(name, String(value));
+    });
+    const queryString = search.toString();
+
+    const headers: Record<string, string> = {};
+    if (spec.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (spec.idempotencyKey) headers['Idempotency-Key'] = spec.idempotencyKey;
+    if (spec.auth) {
+      const token = await options.getAccessToken?.();
+      if (token) headers.Authorization = \`Bearer \${token}\`;
+    }
+
+    const response = await globalThis.fetch(\`\${baseUrl}\${spec.path}\${queryString ? \`?\${queryString}\` : ''}\`, {
+      method: spec.method,
+      headers,
+      body: spec.body === undefined ? undefined : JSON.stringify(spec.body),
+    });
+
+    if (!response.ok) {
+      throw new BffApiError(response.status, await response.json().catch(() => undefined));
+    }
+
+    switch (spec.response) {
+      case 'json':
+        return await response.json() as T;
+      case 'blob':
+        return await response.blob() as T;
+      case 'text':
+        return await response.text() as T;
+      case 'events':
+        return readEvents(response.body!) as T;
+      default:
+        return undefined as T;
+    }
+  }
+`;
+
+export function generateClientSource(document: OpenApiDocument): string {
+  const operations: Array<{ path: string; method: string; operation: Operation }> = [];
+  Object.entries(document.paths)
+    .filter(([path]) => path.startsWith('/api/') && path !== '/api/openapi.json')
+    .forEach(([path, methods]) => {
+      Object.entries(methods).forEach(([method, operation]) => {
+        operations.push({ path, method, operation: operation as Operation });
+      });
+    });
+
+  // Only emit schemas the client actually references
+  const used = new Set<string>();
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, nested]) => {
+        if (key === '$ref' && typeof nested === 'string') {
+          const name = nested.replace('#/components/schemas/', '');
+          if (!used.has(name)) {
+            used.add(name);
+            collect(document.components.schemas[name]);
+          }
+        } else {
+          collect(nested);
+        }
+      });
+    }
+  };
+  operations.forEach(({ operation }) => collect(operation));
+
+  const schemas = Object.keys(document.components.schemas)
+    .filter(name => used.has(name))
+    .sort()
+    .map(name => declareSchema(name, document.components.schemas[name]));
+
+  const methods = operations.map(({ path, method, operation }) => generateMethod(path, method, operation));
+
+  return `/**
+ * BFF API Client
+ *
+ * GENERATED FILE - do not edit by hand. Source: ${document.info.title} OpenAPI
+ * ${document.openapi} document (/api/openapi.json). Regenerate with
+ * \`npm run generate:api-client\` after changing a route contract in src/server.
+ */
+
+// Schemas
+
+${schemas.join('\n')}
+// Client
+
+${RUNTIME}
+  return {
+${methods.join('\n')}
+  };
+}
+
+export type BffClient = ReturnType<typeof createBffClient>;
+`;
+}
@@ -0,0 +1,88 @@
+/**
+ * BFF Route Contracts
+ *
+ * Every route mounted by createApp() is declared with defineRoute() and zod
+ * request/response schemas. The same schemas drive request validation, the
+ * OpenAPI document served at /api/openapi.json, and the generated React
+ * client (src/lib/api/bffClient.ts) - so the three cannot drift apart.
+ */
+
+// Context7: consulted for zod
+import { z } from 'zod';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * A schema published under components.schemas - the name becomes the
+ * TypeScript type name in the generated client
+ */
+export interface NamedSchema {
+  name: string;
+  schema: z.ZodType;
+}
+
+export interface ResponseContract {
+  description: string;
+  // Omitted for empty responses (204)
+  body?: NamedSchema;
+  // Defaults to application/json; binary types are exposed as Blob in the client.
+  // A list declares alternatives chosen by the request (e.g. export formats)
+  contentType?: string | string[];
+  headers?: Record<string, string>;
+}
+
+export interface RouteContract {
+  method: HttpMethod;
+  // OpenAPI path template, e.g. /api/scripts/{scriptId}/export
+  path: string;
+  operationId: string;
+  summary: string;
+  tags: string[];
+  // Requires a Supabase access token (Authorization: Bearer)
+  auth: boolean;
+  request?: {
+    params?: z.ZodObject;
+    query?: z.ZodObject;
+    body?: NamedSchema;
+  };
+  responses: Record<number, ResponseContract>;
+}
+
+export function defineRoute<T extends RouteContract>(contract: T): T {
+  return contract;
+}
+
+export function named(name: string, schema: z.ZodType): NamedSchema {
+  return { name, schema };
+}
+
+// Shared response bodies
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  requestId: z.string().optional(),
+});
+
+export const validationErrorResponseSchema = z.object({
+  error: z.literal('Invalid request'),
+  issues: z.array(z.object({
+    path: z.string(),
+    message: z.string(),
+  })),
+  requestId: z.string().optional(),
+});
+
+export const rateLimitResponseSchema = z.object({
+  error: z.string(),
+  policy: z.string(),
+  limit: z.number().int(),
+  retryAfter: z.number().int().describe('Seconds until the window resets'),
+  retryAfterMs: z.number().int(),
+  resetAt: z.string().describe('ISO timestamp when the window resets'),
+  requestId: z.string().optional(),
+});
+
+export const ErrorResponse = named('ErrorResponse', errorResponseSchema);
+export const ValidationErrorResponse = named('ValidationErrorResponse', validationErrorResponseSchema);
+export const RateLimitResponse = named('RateLimitResponse', rateLimitResponseSchema);
@@ -0,0 +1,166 @@
+/**
+ * OpenAPI 3.1 Document Builder
+ *
+ * Converts route contracts into an OpenAPI document. zod emits JSON Schema
+ * draft 2020-12, which is the native schema dialect of OpenAPI 3.1, so
+ * schemas are embedded without translation.
+ */
+
+// Context7: consulted for zod
+import { z } from 'zod';
+import {
+  ErrorResponse,
+  RateLimitResponse,
+  ValidationErrorResponse,
+  type NamedSchema,
+  type RouteContract,
+  type ResponseContract,
+} from './contract';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, unknown>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, unknown>;
+  };
+}
+
+export interface DocumentInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+type SchemaIo = 'input' | 'output';
+
+function toJsonSchema(schema: z.ZodType, io: SchemaIo): JsonSchema {
+  const jsonSchema = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+  // The dialect is implied by openapi: 3.1.0
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+// Honoured by the idempotency middleware on every mutating /api route
+const IDEMPOTENCY_KEY_PARAMETER = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  required: false,
+  description: 'Replays the stored response for retries with the same key (per user)',
+  schema: { type: 'string', minLength: 1, maxLength: 255 },
+};
+
+export function buildOpenApiDocument(contracts: RouteContract[], info: DocumentInfo): OpenApiDocument {
+  const schemas: Record<string, JsonSchema> = {};
+  const registered = new Map<string, z.ZodType>();
+
+  const ref = (named: NamedSchema, io: SchemaIo) => {
+    const existing = registered.get(named.name);
+    if (existing && existing !== named.schema) {
+      throw new Error(`Schema name "${named.name}" is used for two different schemas`);
+    }
+    registered.set(named.name, named.schema);
+    schemas[named.name] = toJsonSchema(named.schema, io);
+    return { $ref: `#/components/schemas/${named.name}` };
+  };
+
+  const response = (contract: ResponseContract) => {
+    const headers = contract.headers && Object.fromEntries(
+      Object.entries(contract.headers).map(([name, description]) => [name, { description, schema: { type: 'string' } }])
+    );
+    if (!contract.body && !contract.contentType) {
+      return { description: contract.description, headers };
+    }
+
+    const contentTypes = [contract.contentType ?? 'application/json'].flat();
+    const content = Object.fromEntries(contentTypes.map(contentType => {
+      const schema = contract.body
+        ? ref(contract.body, 'output')
+        : contentType.startsWith('text/') ? { type: 'string' } : { type: 'string', contentMediaType: contentType };
+      return [contentType, { schema }];
+    }));
+    return { description: contract.description, headers, content };
+  };
+
+  const parameters = (location: 'path' | 'query', schema?: z.ZodObject) => {
+    if (!schema) return [];
+    const jsonSchema = toJsonSchema(schema, 'input');
+    const properties = (jsonSchema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = new Set((jsonSchema.required ?? []) as string[]);
+
+    return Object.entries(properties).map(([name, propertySchema]) => ({
+      name,
+      in: location,
+      required: location === 'path' || required.has(name),
+      description: propertySchema.description,
+      schema: propertySchema,
+    }));
+  };
+
+  const paths: OpenApiDocument['paths'] = {};
+  for (const contract of contracts) {
+    const responses: Record<string, unknown> = {};
+    Object.entries(contract.responses).forEach(([status, responseContract]) => {
+      responses[status] = response(responseContract);
+    });
+
+    // Responses produced by shared middleware rather than the route itself
+    if (contract.request?.body || contract.request?.query || contract.request?.params) {
+      responses['400'] ??= response({ description: 'Request failed validation', body: ValidationErrorResponse });
+    }
+    if (contract.auth) {
+      responses['401'] ??= response({ description: 'Missing, expired or invalid access token', body: ErrorResponse });
+    }
+    const mutating = contract.method !== 'get' && contract.path.startsWith('/api/');
+    if (mutating) {
+      responses['409'] ??= response({ description: 'A request with this Idempotency-Key is still in progress', body: ErrorResponse });
+      responses['422'] ??= response({ description: 'Idempotency-Key was already used with a different request', body: ErrorResponse });
+    }
+    if (contract.path.startsWith('/api/')) {
+      responses['429'] ??= response({
+        description: 'Rate limit exceeded',
+        body: RateLimitResponse,
+        headers: { 'Retry-After': 'Seconds until the rate-limit window resets' },
+      });
+    }
+
+    paths[contract.path] ??= {};
+    paths[contract.path][contract.method] = {
+      operationId: contract.operationId,
+      summary: contract.summary,
+      tags: contract.tags,
+      security: contract.auth ? [{ bearerAuth: [] }] : undefined,
+      parameters: [
+        ...parameters('path', contract.request?.params),
+        ...parameters('query', contract.request?.query),
+        ...(mutating ? [IDEMPOTENCY_KEY_PARAMETER] : []),
+      ],
+      requestBody: contract.request?.body && {
+        required: true,
+        content: { 'application/json': { schema: ref(contract.request.body, 'input') } },
+      },
+      responses,
+    };
+  }
+
+  // Round-trip through JSON to drop undefined members
+  return JSON.parse(JSON.stringify({
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Supabase access token',
+        },
+      },
+    },
+  })) as OpenApiDocument;
+}
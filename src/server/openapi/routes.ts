@@ -0,0 +1,79 @@
+/**
+ * Route Contract Registry
+ *
+ * Single list of every route contract mounted by createApp(). Both the
+ * /api/openapi.json router and scripts/generate-api-client.ts read from here.
+ */
+
+// Context7: consulted for zod
+import { z } from 'zod';
+import { defineRoute, named, type RouteContract } from './contract';
+import type { DocumentInfo } from './document';
+import { versionContracts } from '../routes/version';
+import { elevenLabsContracts } from '../routes/elevenlabs';
+import { telemetryContracts } from '../routes/telemetry';
+import { metricsContracts } from '../routes/metrics';
+import { jobsContracts } from '../routes/jobs';
+import { scriptsContracts } from '../routes/scripts';
+
+export const BFF_API_INFO: DocumentInfo = {
+  title: 'EAV Orchestrator BFF',
+  version: '1.0.0',
+  description: 'Backend-for-frontend for the EAV Orchestrator editor. Authenticated routes take a Supabase access token.',
+};
+
+const healthSchema = z.object({
+  status: z.literal('healthy'),
+  timestamp: z.string(),
+  uptime: z.number(),
+  version: z.string(),
+});
+
+const readinessReportSchema = z.object({
+  status: z.enum(['ready', 'degraded', 'not_ready', 'draining']),
+  checks: z.array(z.object({
+    name: z.string(),
+    status: z.enum(['up', 'down']),
+    critical: z.boolean(),
+  })),
+  timestamp: z.string().describe('When the checks ran; results are reused for a few seconds'),
+});
+
+const ReadinessReport = named('ReadinessReport', readinessReportSchema);
+
+// healthCheck and readinessCheck handlers live in app.ts
+export const systemContracts = [
+  defineRoute({
+    method: 'get',
+    path: '/healthz',
+    operationId: 'getHealth',
+    summary: 'Liveness probe',
+    tags: ['operations'],
+    auth: false,
+    responses: {
+      200: { description: 'Process is alive', body: named('Health', healthSchema) },
+    },
+  }),
+  defineRoute({
+    method: 'get',
+    path: '/readyz',
+    operationId: 'getReadiness',
+    summary: 'Readiness probe with per-dependency status',
+    tags: ['operations'],
+    auth: false,
+    responses: {
+      200: { description: 'Ready, or degraded with only non-critical dependencies down', body: ReadinessReport },
+      503: { description: 'A critical dependency is down or the server is draining', body: ReadinessReport },
+    },
+  }),
+];
+
+export const apiContracts: RouteContract[] = [
+  ...systemContracts,
+  ...metricsContracts,
+  ...versionContracts,
+  ...elevenLabsContracts,
+  ...telemetryContracts,
+  ...jobsContracts,
+  ...scriptsContracts,
+];
@@ -0,0 +1,351 @@
+/**
+ * ElevenLabs Text-to-Speech Proxy Router
+ *
+ * Critical-Engineer: consulted for security wrapper architecture (credential proxy, rate limiting)
+ *
+ * SECURITY MODEL:
+ * - The ElevenLabs API key lives only in BFF config and is attached upstream;
+ *   it is never echoed in responses, logs or error bodies
+ * - Synthesis text is loaded server-side from script_components.content_plain,
+ *   clients only send the component ID
+ * - The component's project must be accessible to the caller (admin or active
+ *   member); others get 404 so IDs and quota cannot be probed
+ * - Per-user and per-project character quotas are reserved before the upstream
+ *   call and released if the provider fails, including part-way through the
+ *   audio stream
+ * - A client that disconnects aborts the upstream request, so abandoned
+ *   synthesis stops instead of running (and billing) to the end. Its
+ *   reservation is kept: the provider has already charged for the request
+ */
+
+// Context7: consulted for express
+// Context7: consulted for zod
+// Context7: consulted for stream
+import { Router } from 'express';
+import { z } from 'zod';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Request, Response } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Logger } from 'pino';
+import { validate, requireUser } from '../middleware/validate';
+import { QuotaExceededError, type TtsQuotaTracker, type QuotaReservation } from '../services/ttsQuota';
+import type { BffMetrics } from '../services/metrics';
+import { canAccessProject } from '../services/projectAccess';
+import { defineRoute, named, ErrorResponse } from '../openapi/contract';
+
+export interface ElevenLabsRouterOptions {
+  apiKey: string;
+  baseUrl: string;
+  defaultModelId: string;
+  maxCharactersPerRequest: number;
+  supabase: SupabaseClient;
+  quota: TtsQuotaTracker;
+  logger: Logger;
+  metrics?: BffMetrics;
+}
+
+export const synthesizeRequestSchema = z.object({
+  componentId: z.string().uuid('componentId must be a UUID'),
+  voiceId: z.string().regex(/^[A-Za-z0-9]{1,64}$/, 'voiceId must be alphanumeric'),
+  modelId: z.string().min(1).max(64).optional(),
+  voiceSettings: z.object({
+    stability: z.number().min(0).max(1),
+    similarityBoost: z.number().min(0).max(1),
+    style: z.number().min(0).max(1).optional(),
+  }).optional(),
+});
+
+export type SynthesizeRequest = z.infer<typeof synthesizeRequestSchema>;
+
+export const voiceSummarySchema = z.object({
+  voiceId: z.string(),
+  name: z.string(),
+  category: z.string().optional(),
+  previewUrl: z.string().optional(),
+});
+
+export const voiceListSchema = z.object({
+  voices: z.array(voiceSummarySchema),
+});
+
+export type VoiceSummary = z.infer<typeof voiceSummarySchema>;
+
+export const ttsQuotaExceededSchema = z.object({
+  error: z.string(),
+  scope: z.enum(['user', 'project']),
+  used: z.number().int(),
+  limit: z.number().int(),
+  requested: z.number().int(),
+  resetAt: z.string(),
+  requestId: z.string().optional(),
+});
+
+export const elevenLabsContracts = [
+  defineRoute({
+    method: 'get',
+    path: '/api/elevenlabs/voices',
+    operationId: 'listVoices',
+    summary: 'Voices available to the ElevenLabs account',
+    tags: ['tts'],
+    auth: true,
+    responses: {
+      200: { description: 'Available voices', body: named('VoiceList', voiceListSchema) },
+      502: { description: 'TTS provider unavailable', body: ErrorResponse },
+    },
+  }),
+  defineRoute({
+    method: 'post',
+    path: '/api/elevenlabs/synthesize',
+    operationId: 'synthesizeSpeech',
+    summary: 'Synthesize a script component and stream the audio',
+    tags: ['tts'],
+    auth: true,
+    request: { body: named('SynthesizeRequest', synthesizeRequestSchema) },
+    responses: {
+      200: {
+        description: 'Streamed audio',
+        contentType: 'audio/mpeg',
+        headers: {
+          'X-TTS-Characters': 'Characters charged for this request',
+          'X-TTS-User-Quota-Remaining': 'Characters left in the user quota window',
+          'X-TTS-Project-Quota-Remaining': 'Characters left in the project quota window',
+        },
+      },
+      404: { description: 'Component not found', body: ErrorResponse },
+      422: { description: 'Component has no text or exceeds the per-request limit', body: ErrorResponse },
+      429: {
+        description: 'Character quota exceeded (rate-limit rejections return RateLimitResponse)',
+        body: named('TtsQuotaExceeded', ttsQuotaExceededSchema),
+        headers: { 'Retry-After': 'Seconds until the quota window resets' },
+      },
+      502: { description: 'TTS provider unavailable', body: ErrorResponse },
+    },
+  }),
+];
+
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  preview_url?: string;
+}
+
+interface ComponentSource {
+  component_id: string;
+  content_plain: string;
+  video_scripts: { videos: { project_id: string } | null } | null;
+}
+
+/**
+ * Upstream provider failure - mapped to 502 without leaking provider details
+ */
+export class TtsProviderError extends Error {
+  readonly upstreamStatus: number;
+
+  constructor(upstreamStatus: number, message: string) {
+    super(message);
+    this.name = 'TtsProviderError';
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+export function createElevenLabsRouter(options: ElevenLabsRouterOptions): Router {
+  const router = Router();
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit): Promise<globalThis.Response> => {
+    const response = await globalThis.fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'xi-api-key': options.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      // Drain body for logging only - never forwarded to the client
+      const detail = await response.text().catch(() => '');
+      throw new TtsProviderError(response.status, `ElevenLabs responded ${response.status}: ${detail.slice(0, 200)}`);
+    }
+
+    return response;
+  };
+
+  const upstream = (operation: string, path: string, init: RequestInit = {}): Promise<globalThis.Response> =>
+    options.metrics
+      ? options.metrics.timeUpstream('elevenlabs', operation, () => request(path, init))
+      : request(path, init);
+
+  const providerFailure = (req: Request, res: Response, error: unknown) => {
+    options.logger.error({
+      requestId: req.context.requestId,
+      upstreamStatus: error instanceof TtsProviderError ? error.upstreamStatus : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    }, 'TTS provider request failed');
+
+    res.status(502).json({
+      error: 'Text-to-speech provider unavailable',
+      requestId: req.context.requestId,
+    });
+  };
+
+  router.use(requireUser);
+
+  // List voices available to the account
+  router.get('/voices', async (req: Request, res: Response) => {
+    let voices: ElevenLabsVoice[];
+    try {
+      const response = await upstream('voices', '/v1/voices', { headers: { Accept: 'application/json' } });
+      const body = await response.json() as { voices?: ElevenLabsVoice[] };
+      voices = body.voices ?? [];
+    } catch (error) {
+      providerFailure(req, res, error);
+      return;
+    }
+
+    const result: VoiceSummary[] = voices.map(voice => ({
+      voiceId: voice.voice_id,
+      name: voice.name,
+      category: voice.category,
+      previewUrl: voice.preview_url,
+    }));
+
+    res.set('Cache-Control', 'private, max-age=300');
+    res.json({ voices: result });
+  });
+
+  // Synthesize a script component and stream the audio back
+  router.post('/synthesize', validate(synthesizeRequestSchema), async (req: Request, res: Response) => {
+    const body = res.locals.body as SynthesizeRequest;
+    const userId = req.context.userId!;
+
+    const { data, error } = await options.supabase
+      .from('script_components')
+      .select('component_id, content_plain, video_scripts(videos(project_id))')
+      .eq('component_id', body.componentId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load component: ${error.message}`);
+    }
+
+    const component = data as ComponentSource | null;
+    const projectId = component?.video_scripts?.videos?.project_id;
+
+    if (!component || !projectId || !(await canAccessProject(options.supabase, req, projectId))) {
+      res.status(404).json({ error: 'Component not found', requestId: req.context.requestId });
+      return;
+    }
+
+    const text = component.content_plain.trim();
+    if (text.length === 0) {
+      res.status(422).json({ error: 'Component has no text to synthesize', requestId: req.context.requestId });
+      return;
+    }
+    if (text.length > options.maxCharactersPerRequest) {
+      res.status(422).json({
+        error: `Component text exceeds ${options.maxCharactersPerRequest} characters`,
+        requestId: req.context.requestId,
+      });
+      return;
+    }
+
+    let reservation: QuotaReservation;
+    try {
+      reservation = await options.quota.reserve(userId, projectId, text.length);
+    } catch (quotaError) {
+      if (quotaError instanceof QuotaExceededError) {
+        const retryAfter = Math.max(1, Math.ceil((quotaError.usage.resetAt - Date.now()) / 1000));
+        res.set('Retry-After', String(retryAfter));
+        res.status(429).json({
+          error: 'Text-to-speech character quota exceeded',
+          scope: quotaError.scope,
+          used: quotaError.usage.used,
+          limit: quotaError.usage.limit,
+          requested: quotaError.requested,
+          resetAt: new Date(quotaError.usage.resetAt).toISOString(),
+          requestId: req.context.requestId,
+        });
+        return;
+      }
+      throw quotaError;
+    }
+
+    // Abort the provider request if the client goes away before the audio is sent
+    const upstreamController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) upstreamController.abort();
+    });
+    const clientGone = () => upstreamController.signal.aborted;
+
+    let audio: globalThis.Response;
+    try {
+      audio = await upstream('synthesize', `/v1/text-to-speech/${body.voiceId}/stream`, {
+        method: 'POST',
+        signal: upstreamController.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'audio/mpeg',
+        },
+        body: JSON.stringify({
+          text,
+          model_id: body.modelId ?? options.defaultModelId,
+          voice_settings: body.voiceSettings && {
+            stability: body.voiceSettings.stability,
+            similarity_boost: body.voiceSettings.similarityBoost,
+            style: body.voiceSettings.style,
+          },
+        }),
+      });
+    } catch (upstreamError) {
+      if (clientGone()) {
+        options.logger.info({ requestId: req.context.requestId }, 'TTS synthesis abandoned by client');
+        return;
+      }
+      await options.quota.release(reservation);
+      providerFailure(req, res, upstreamError);
+      return;
+    }
+
+    options.logger.info({
+      requestId: req.context.requestId,
+      userId,
+      projectId,
+      componentId: body.componentId,
+      characters: text.length,
+    }, 'TTS synthesis started');
+
+    res.status(200).set({
+      'Content-Type': audio.headers.get('content-type') ?? 'audio/mpeg',
+      'Cache-Control': 'no-store',
+      'X-TTS-Characters': String(text.length),
+      'X-TTS-User-Quota-Remaining': String(reservation.user.limit - reservation.user.used),
+      'X-TTS-Project-Quota-Remaining': String(reservation.project.limit - reservation.project.used),
+    });
+
+    if (!audio.body) {
+      res.end();
+      return;
+    }
+
+    // pipeline tears down both sides when either fails
+    const stream = Readable.fromWeb(audio.body as import('stream/web').ReadableStream<Uint8Array>);
+    try {
+      await pipeline(stream, res);
+    } catch (streamError) {
+      if (clientGone()) {
+        options.logger.info({ requestId: req.context.requestId }, 'TTS synthesis abandoned by client');
+        return;
+      }
+      await options.quota.release(reservation);
+      options.logger.error({
+        requestId: req.context.requestId,
+        error: streamError instanceof Error ? streamError.message : String(streamError),
+      }, 'TTS audio stream interrupted');
+    }
+  });
+
+  return router;
+}
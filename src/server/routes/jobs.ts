@@ -0,0 +1,211 @@
+/**
+ * /api/jobs Router
+ *
+ * Status polling, cancellation and a Server-Sent Events stream for background
+ * jobs. Jobs are enqueued by the feature routes that own them (currently
+ * script export, POST /api/scripts/:scriptId/exports) and are only visible to
+ * the user who started them - other users get 404 rather than 403 so job IDs
+ * do not leak.
+ */
+
+// Context7: consulted for express
+// Context7: consulted for zod
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import { validate, requireUser } from '../middleware/validate';
+import { isTerminal, type JobEvent, type JobQueue, type JobRecord } from '../services/jobs';
+import { defineRoute, named, ErrorResponse } from '../openapi/contract';
+
+export interface JobsRouterOptions {
+  jobs: JobQueue;
+  // Comment frames keep idle proxies from closing the stream
+  heartbeatMs?: number;
+}
+
+export const jobSchema = z.object({
+  id: z.string().uuid(),
+  type: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']),
+  progress: z.number().min(0).max(1),
+  message: z.string().optional(),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+});
+
+export const jobEventSchema = z.object({
+  type: z.enum(['snapshot', 'progress', 'completed', 'failed', 'cancelled']),
+  job: jobSchema,
+});
+
+export const jobListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const jobParamsSchema = z.object({
+  jobId: z.string().uuid('jobId must be a UUID'),
+});
+
+export const Job = named('Job', jobSchema);
+
+export const jobsContracts = [
+  defineRoute({
+    method: 'get',
+    path: '/api/jobs',
+    operationId: 'listJobs',
+    summary: 'Recent jobs started by the current user',
+    tags: ['jobs'],
+    auth: true,
+    request: { query: jobListQuerySchema },
+    responses: {
+      200: { description: 'Jobs, newest first', body: named('JobList', z.object({ jobs: z.array(jobSchema) })) },
+    },
+  }),
+  defineRoute({
+    method: 'get',
+    path: '/api/jobs/{jobId}',
+    operationId: 'getJob',
+    summary: 'Current status of a job',
+    tags: ['jobs'],
+    auth: true,
+    request: { params: jobParamsSchema },
+    responses: {
+      200: { description: 'Job status', body: Job },
+      404: { description: 'Job not found', body: ErrorResponse },
+    },
+  }),
+  defineRoute({
+    method: 'delete',
+    path: '/api/jobs/{jobId}',
+    operationId: 'cancelJob',
+    summary: 'Cancel a queued or running job',
+    tags: ['jobs'],
+    auth: true,
+    request: { params: jobParamsSchema },
+    responses: {
+      200: { description: 'Job cancelled', body: Job },
+      404: { description: 'Job not found', body: ErrorResponse },
+      409: { description: 'Job already finished or is running on another instance', body: ErrorResponse },
+    },
+  }),
+  defineRoute({
+    method: 'get',
+    path: '/api/jobs/{jobId}/events',
+    operationId: 'streamJobEvents',
+    summary: 'Server-Sent Events stream of job progress, completion and failure',
+    tags: ['jobs'],
+    auth: true,
+    request: { params: jobParamsSchema },
+    responses: {
+      200: {
+        description: 'A snapshot event followed by progress events; the stream ends after the terminal event',
+        contentType: 'text/event-stream',
+        body: named('JobEvent', jobEventSchema),
+      },
+      404: { description: 'Job not found', body: ErrorResponse },
+    },
+  }),
+];
+
+// userId is implied by the caller and never echoed
+export function toPublicJob(job: JobRecord): z.infer<typeof jobSchema> {
+  const publicJob: Partial<JobRecord> = { ...job };
+  delete publicJob.userId;
+  return publicJob as z.infer<typeof jobSchema>;
+}
+
+export function createJobsRouter(options: JobsRouterOptions): Router {
+  const router = Router();
+  const heartbeatMs = options.heartbeatMs ?? 15000;
+
+  const notFound = (req: Request, res: Response) => {
+    res.status(404).json({ error: 'Job not found', requestId: req.context.requestId });
+  };
+
+  router.use(requireUser);
+
+  router.get('/', validate(jobListQuerySchema, 'query'), async (req: Request, res: Response) => {
+    const { limit } = res.locals.query as z.infer<typeof jobListQuerySchema>;
+    const jobs = await options.jobs.list(req.context.userId!, limit);
+    res.set('Cache-Control', 'no-store');
+    res.json({ jobs: jobs.map(toPublicJob) });
+  });
+
+  router.get('/:jobId', validate(jobParamsSchema, 'params'), async (req: Request, res: Response) => {
+    const { jobId } = res.locals.params as z.infer<typeof jobParamsSchema>;
+    const job = await options.jobs.get(jobId, req.context.userId!);
+    if (!job) {
+      notFound(req, res);
+      return;
+    }
+    res.set('Cache-Control', 'no-store');
+    res.json(toPublicJob(job));
+  });
+
+  router.delete('/:jobId', validate(jobParamsSchema, 'params'), async (req: Request, res: Response) => {
+    const { jobId } = res.locals.params as z.infer<typeof jobParamsSchema>;
+    const job = await options.jobs.cancel(jobId, req.context.userId!);
+    if (!job) {
+      notFound(req, res);
+      return;
+    }
+    if (job.status !== 'cancelled') {
+      res.status(409).json({
+        error: isTerminal(job.status) ? `Job already ${job.status}` : 'Job is running on another server instance',
+        code: 'job_not_cancellable',
+        requestId: req.context.requestId,
+      });
+      return;
+    }
+    res.json(toPublicJob(job));
+  });
+
+  router.get('/:jobId/events', validate(jobParamsSchema, 'params'), async (req: Request, res: Response) => {
+    const { jobId } = res.locals.params as z.infer<typeof jobParamsSchema>;
+    const job = await options.jobs.get(jobId, req.context.userId!);
+    if (!job) {
+      notFound(req, res);
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive',
+      // Disable proxy buffering (nginx) so events are delivered immediately
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let sequence = 0;
+    const send = (event: JobEvent) => {
+      sequence += 1;
+      const payload = { type: event.type, job: toPublicJob(event.job) };
+      res.write(`id: ${sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+    };
+
+    res.write('retry: 3000\n\n');
+    send({ type: 'snapshot', job });
+    if (isTerminal(job.status)) {
+      res.end();
+      return;
+    }
+
+    const heartbeat = globalThis.setInterval(() => res.write(': keep-alive\n\n'), heartbeatMs);
+    const unsubscribe = options.jobs.watch(jobId, {
+      onEvent: send,
+      onClose: () => res.end(),
+    });
+
+    res.on('close', () => {
+      globalThis.clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+}
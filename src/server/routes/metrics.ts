@@ -0,0 +1,58 @@
+/**
+ * /metrics Router
+ *
+ * Prometheus text-format scrape endpoint. When a scrape token is configured
+ * the scraper must send it as a Bearer token; otherwise the endpoint is open
+ * and should only be reachable from the internal network.
+ */
+
+// Context7: consulted for express
+// Context7: consulted for crypto
+import { Router } from 'express';
+import { timingSafeEqual } from 'crypto';
+import type { Request, Response } from 'express';
+import type { BffMetrics } from '../services/metrics';
+import { defineRoute, ErrorResponse } from '../openapi/contract';
+
+export interface MetricsRouterOptions {
+  metrics: BffMetrics;
+  scrapeToken?: string;
+}
+
+export const metricsContracts = [
+  defineRoute({
+    method: 'get',
+    path: '/metrics',
+    operationId: 'getMetrics',
+    summary: 'Prometheus scrape endpoint',
+    tags: ['operations'],
+    auth: false,
+    responses: {
+      200: { description: 'Prometheus text exposition format', contentType: 'text/plain' },
+      401: { description: 'Scrape token missing or invalid', body: ErrorResponse },
+    },
+  }),
+];
+
+function tokenMatches(header: string | undefined, expected: string): boolean {
+  const provided = Buffer.from(header?.replace(/^Bearer\s+/i, '') ?? '');
+  const target = Buffer.from(expected);
+  return provided.length === target.length && timingSafeEqual(provided, target);
+}
+
+export function createMetricsRouter(options: MetricsRouterOptions): Router {
+  const router = Router();
+
+  router.get('/', async (req: Request, res: Response) => {
+    if (options.scrapeToken && !tokenMatches(req.get('authorization'), options.scrapeToken)) {
+      res.status(401).json({ error: 'Invalid metrics scrape token', requestId: req.context?.requestId });
+      return;
+    }
+
+    res.set('Content-Type', options.metrics.registry.contentType);
+    res.set('Cache-Control', 'no-store');
+    res.send(await options.metrics.registry.metrics());
+  });
+
+  return router;
+}
@@ -0,0 +1,29 @@
+/**
+ * /api/openapi.json Router
+ *
+ * Serves the OpenAPI 3.1 document built from the route contracts. The
+ * document is built once - contracts are static for the process lifetime.
+ */
+
+// Context7: consulted for express
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { buildOpenApiDocument, type DocumentInfo } from '../openapi/document';
+import type { RouteContract } from '../openapi/contract';
+
+export interface OpenApiRouterOptions {
+  contracts: RouteContract[];
+  info: DocumentInfo;
+}
+
+export function createOpenApiRouter(options: OpenApiRouterOptions): Router {
+  const router = Router();
+  const document = buildOpenApiDocument(options.contracts, options.info);
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.set('Cache-Control', 'no-cache');
+    res.json(document);
+  });
+
+  return router;
+}
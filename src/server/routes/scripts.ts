@@ -0,0 +1,224 @@
+/**
+ * /api/scripts Router
+ *
+ * Server-side script exports. Components are loaded with the service client,
+ * which bypasses RLS, so access is checked explicitly: admins may export any
+ * script, everyone else needs an active membership of the script's project.
+ * Scripts the caller cannot see answer 404 so IDs do not leak.
+ *
+ * Exports can also run as background jobs: POST /:scriptId/exports checks
+ * access, enqueues the render and answers 202 with the job, whose progress is
+ * followed through /api/jobs. The rendered file is kept base64-encoded in the
+ * job result so any instance can serve it from GET /exports/:jobId until the
+ * job expires.
+ */
+
+// Context7: consulted for express
+// Context7: consulted for zod
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Logger } from 'pino';
+import { validate, requireUser } from '../middleware/validate';
+import {
+  EXPORT_CONTENT_TYPES,
+  loadScriptForExport,
+  renderExport,
+  type ExportFormat,
+} from '../services/scriptExport';
+import { canAccessProject } from '../services/projectAccess';
+import type { JobQueue } from '../services/jobs';
+import { Job, jobParamsSchema, toPublicJob } from './jobs';
+import { defineRoute, ErrorResponse } from '../openapi/contract';
+
+export interface ScriptsRouterOptions {
+  supabase: SupabaseClient;
+  logger: Logger;
+  jobs: JobQueue;
+}
+
+export const EXPORT_JOB_TYPE = 'script-export';
+
+// Stored as the job result of a completed export
+export interface ExportJobResult {
+  scriptId: string;
+  title: string;
+  format: ExportFormat;
+  bytes: number;
+  content: string; // base64
+}
+
+export const scriptParamsSchema = z.object({
+  scriptId: z.string().uuid('scriptId must be a UUID'),
+});
+
+export const scriptExportQuerySchema = z.object({
+  format: z.enum(['docx', 'pdf', 'md']).describe('Output format'),
+});
+
+export const scriptsContracts = [
+  defineRoute({
+    method: 'get',
+    path: '/api/scripts/{scriptId}/export',
+    operationId: 'exportScript',
+    summary: 'Export a script with its ordered components as DOCX, PDF or Markdown',
+    tags: ['scripts'],
+    auth: true,
+    request: { params: scriptParamsSchema, query: scriptExportQuerySchema },
+    responses: {
+      200: {
+        description: 'Rendered script file (attachment)',
+        contentType: [EXPORT_CONTENT_TYPES.docx, EXPORT_CONTENT_TYPES.pdf, 'text/markdown'],
+        headers: { 'Content-Disposition': 'attachment; filename of the rendered script' },
+      },
+      404: { description: 'Script not found', body: ErrorResponse },
+    },
+  }),
+  defineRoute({
+    method: 'post',
+    path: '/api/scripts/{scriptId}/exports',
+    operationId: 'startScriptExport',
+    summary: 'Render a script export as a background job',
+    tags: ['scripts'],
+    auth: true,
+    request: { params: scriptParamsSchema, query: scriptExportQuerySchema },
+    responses: {
+      202: { description: 'Export job queued; follow it through /api/jobs', body: Job },
+      404: { description: 'Script not found', body: ErrorResponse },
+    },
+  }),
+  defineRoute({
+    method: 'get',
+    path: '/api/scripts/exports/{jobId}',
+    operationId: 'downloadScriptExport',
+    summary: 'Download the file rendered by a completed export job',
+    tags: ['scripts'],
+    auth: true,
+    request: { params: jobParamsSchema },
+    responses: {
+      200: {
+        description: 'Rendered script file (attachment)',
+        contentType: [EXPORT_CONTENT_TYPES.docx, EXPORT_CONTENT_TYPES.pdf, 'text/markdown'],
+        headers: { 'Content-Disposition': 'attachment; filename of the rendered script' },
+      },
+      404: { description: 'Export job not found', body: ErrorResponse },
+      409: { description: 'Export job has not completed', body: ErrorResponse },
+    },
+  }),
+];
+
+// ASCII-only fallback filename plus the RFC 5987 UTF-8 form
+function contentDisposition(title: string, format: ExportFormat): string {
+  const base = title.normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'script';
+  return `attachment; filename="${base}.${format}"; filename*=UTF-8''${encodeURIComponent(`${title}.${format}`)}`;
+}
+
+function sendExport(res: Response, title: string, format: ExportFormat, file: Buffer): void {
+  res.status(200).set({
+    'Content-Type': EXPORT_CONTENT_TYPES[format],
+    'Content-Disposition': contentDisposition(title, format),
+    'Cache-Control': 'private, no-store',
+  });
+  res.end(file);
+}
+
+export function createScriptsRouter(options: ScriptsRouterOptions): Router {
+  const router = Router();
+
+  router.use(requireUser);
+
+  router.get('/exports/:jobId', validate(jobParamsSchema, 'params'), async (req: Request, res: Response) => {
+    const { jobId } = res.locals.params as z.infer<typeof jobParamsSchema>;
+    const job = await options.jobs.get(jobId, req.context.userId!);
+    if (!job || job.type !== EXPORT_JOB_TYPE) {
+      res.status(404).json({ error: 'Export job not found', requestId: req.context.requestId });
+      return;
+    }
+    if (job.status !== 'completed') {
+      res.status(409).json({
+        error: `Export job is ${job.status}`,
+        code: 'job_not_completed',
+        requestId: req.context.requestId,
+      });
+      return;
+    }
+
+    const result = job.result as ExportJobResult;
+    sendExport(res, result.title, result.format, Buffer.from(result.content, 'base64'));
+  });
+
+  router.get(
+    '/:scriptId/export',
+    validate(scriptParamsSchema, 'params'),
+    validate(scriptExportQuerySchema, 'query'),
+    async (req: Request, res: Response) => {
+      const { scriptId } = res.locals.params as z.infer<typeof scriptParamsSchema>;
+      const { format } = res.locals.query as z.infer<typeof scriptExportQuerySchema>;
+
+      const script = await loadScriptForExport(options.supabase, scriptId);
+      if (!script || !(await canAccessProject(options.supabase, req, script.projectId))) {
+        res.status(404).json({ error: 'Script not found', requestId: req.context.requestId });
+        return;
+      }
+
+      const file = await renderExport(script, format);
+
+      options.logger.info({
+        requestId: req.context.requestId,
+        userId: req.context.userId,
+        scriptId,
+        format,
+        components: script.components.length,
+        bytes: file.length,
+      }, 'Script exported');
+
+      sendExport(res, script.title, format, file);
+    },
+  );
+
+  router.post(
+    '/:scriptId/exports',
+    validate(scriptParamsSchema, 'params'),
+    validate(scriptExportQuerySchema, 'query'),
+    async (req: Request, res: Response) => {
+      const { scriptId } = res.locals.params as z.infer<typeof scriptParamsSchema>;
+      const { format } = res.locals.query as z.infer<typeof scriptExportQuerySchema>;
+
+      const script = await loadScriptForExport(options.supabase, scriptId);
+      if (!script || !(await canAccessProject(options.supabase, req, script.projectId))) {
+        res.status(404).json({ error: 'Script not found', requestId: req.context.requestId });
+        return;
+      }
+
+      const { requestId, userId } = req.context;
+      const job = await options.jobs.enqueue(EXPORT_JOB_TYPE, userId!, async context => {
+        await context.progress(0.1, `Rendering ${format.toUpperCase()}`);
+        const file = await renderExport(script, format);
+
+        options.logger.info({
+          requestId,
+          userId,
+          jobId: context.jobId,
+          scriptId,
+          format,
+          components: script.components.length,
+          bytes: file.length,
+        }, 'Script exported');
+
+        const result: ExportJobResult = {
+          scriptId,
+          title: script.title,
+          format,
+          bytes: file.length,
+          content: file.toString('base64'),
+        };
+        return result;
+      });
+
+      res.status(202).set('Location', `/api/jobs/${job.id}`).json(toPublicJob(job));
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,94 @@
+/**
+ * /api/telemetry Router
+ *
+ * Browser clients own the circuit breakers (ResilientScriptComponentManager,
+ * CustomSupabaseProvider), so they periodically report breaker deltas here and
+ * the BFF folds them into its Prometheus registry.
+ */
+
+// Context7: consulted for express
+// Context7: consulted for zod
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import { validate, requireUser } from '../middleware/validate';
+import type { BffMetrics } from '../services/metrics';
+import { defineRoute, named } from '../openapi/contract';
+
+export interface TelemetryRouterOptions {
+  metrics: BffMetrics;
+}
+
+const eventCount = z.number().int().min(0).max(100000).optional();
+
+// Breakers the browser clients create; a closed set keeps /metrics label values bounded
+export const BREAKER_NAMES = [
+  // ResilientScriptComponentManager
+  'create',
+  'update',
+  'delete',
+  'restore',
+  'getComponents',
+  'getComponent',
+  'bulkDelete',
+  'updatePositions',
+  'batchUpdate',
+  'restoreVersion',
+  'transfer',
+  'setStatus',
+  'listScripts',
+  // CustomSupabaseProvider
+  'loadInitialState',
+  'setupRealtime',
+  'persistUpdate',
+] as const;
+
+export const breakerReportSchema = z.object({
+  clientId: z.string().uuid('clientId must be a UUID'),
+  samples: z.array(z.object({
+    source: z.enum(['script-component-manager', 'custom-supabase-provider']),
+    breaker: z.enum(BREAKER_NAMES),
+    state: z.enum(['closed', 'open', 'half_open']),
+    events: z.object({
+      fire: eventCount,
+      success: eventCount,
+      failure: eventCount,
+      reject: eventCount,
+      timeout: eventCount,
+      fallback: eventCount,
+    }),
+    latenciesMs: z.array(z.number().min(0).max(600000)).max(500).default([]),
+  })).max(20),
+});
+
+export type BreakerReport = z.infer<typeof breakerReportSchema>;
+
+export const telemetryContracts = [
+  defineRoute({
+    method: 'post',
+    path: '/api/telemetry/circuit-breakers',
+    operationId: 'reportCircuitBreakers',
+    summary: 'Report client circuit-breaker deltas for /metrics',
+    tags: ['telemetry'],
+    auth: true,
+    request: { body: named('CircuitBreakerReport', breakerReportSchema) },
+    responses: {
+      204: { description: 'Report recorded' },
+    },
+  }),
+];
+
+export function createTelemetryRouter(options: TelemetryRouterOptions): Router {
+  const router = Router();
+
+  // Only signed-in editors report, so anonymous traffic cannot skew the dashboards
+  router.use(requireUser);
+
+  router.post('/circuit-breakers', validate(breakerReportSchema), (_req: Request, res: Response) => {
+    const report = res.locals.body as BreakerReport;
+    options.metrics.recordBreakerSamples(report.clientId, report.samples);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,208 @@
+/**
+ * /api/version Router
+ *
+ * Serves the version coordination contract consumed by ClientLifecycleManager:
+ * - version: application version from the build manifest (public/version.json)
+ * - schemaVersion: highest migration applied to the database
+ * - minClientVersion: oldest client build the server still accepts (optional)
+ *
+ * Build metadata is resolved once when the router is created - it is immutable
+ * for the lifetime of a deployed server process. The schema can be migrated
+ * under a running server, so the applied version is read from the database
+ * and cached briefly. When the database cannot answer, the highest migration
+ * file shipped with the server is reported instead.
+ */
+
+// Context7: consulted for express
+// Context7: consulted for fs
+// Context7: consulted for path
+// Context7: consulted for zod
+// Context7: consulted for @supabase/supabase-js
+// Context7: consulted for pino
+import { Router } from 'express';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Logger } from 'pino';
+import { defineRoute, named } from '../openapi/contract';
+
+export interface BuildManifest {
+  version: string;
+  build: string;
+  builtAt?: string;
+}
+
+export const versionPayloadSchema = z.object({
+  version: z.string().describe('Application version from the build manifest'),
+  schemaVersion: z.number().int().describe('Highest applied migration number'),
+  minClientVersion: z.string().optional().describe('Oldest client build the server still accepts'),
+  timestamp: z.string(),
+  build: z.string(),
+  builtAt: z.string().optional(),
+});
+
+export type VersionPayload = z.infer<typeof versionPayloadSchema>;
+
+export interface VersionRouterOptions {
+  manifestPath: string;
+  migrationsDir: string;
+  minClientVersion?: string;
+  supabase: SupabaseClient;
+  logger: Logger;
+  // How long an applied schema version is reused (default 30s)
+  schemaCacheMs?: number;
+}
+
+export const versionContracts = [
+  defineRoute({
+    method: 'get',
+    path: '/api/version',
+    operationId: 'getVersion',
+    summary: 'Deployed application and database schema version',
+    tags: ['version'],
+    auth: false,
+    responses: {
+      200: { description: 'Version coordination payload', body: named('VersionPayload', versionPayloadSchema) },
+    },
+  }),
+];
+
+// Migration files follow the NNN_description.sql convention
+const MIGRATION_FILE_PATTERN = /^(\d+)_[\w-]+\.sql$/;
+
+const DEFAULT_VERSION = process.env.npm_package_version || '1.0.0';
+const DEFAULT_BUILD = 'development';
+
+const DEFAULT_SCHEMA_CACHE_MS = 30_000;
+// /api/version is polled by every client - never hold it on a slow database
+const SCHEMA_LOOKUP_TIMEOUT_MS = 2_000;
+
+/**
+ * Read the build manifest written alongside the frontend bundle.
+ * Falls back to the package version when no manifest is present (local dev).
+ */
+export function readBuildManifest(manifestPath: string): BuildManifest {
+  if (!existsSync(manifestPath)) {
+    return { version: DEFAULT_VERSION, build: DEFAULT_BUILD };
+  }
+
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as Partial<BuildManifest> & { timestamp?: string };
+
+  return {
+    version: typeof manifest.version === 'string' ? manifest.version : DEFAULT_VERSION,
+    build: typeof manifest.build === 'string' ? manifest.build : DEFAULT_BUILD,
+    builtAt: typeof manifest.timestamp === 'string' ? manifest.timestamp : undefined,
+  };
+}
+
+/**
+ * Derive the schema version from the highest numbered migration file.
+ * The production baseline is 001, so a fresh deployment reports schemaVersion 1.
+ * Used when the applied migrations cannot be read from the database.
+ */
+export function readSchemaVersion(migrationsDir: string): number {
+  if (!existsSync(migrationsDir)) {
+    throw new Error(`Migrations directory not found: ${migrationsDir}`);
+  }
+
+  const versions = readdirSync(migrationsDir)
+    .map(file => MIGRATION_FILE_PATTERN.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => parseInt(match[1], 10));
+
+  if (versions.length === 0) {
+    throw new Error(`No migrations found in ${migrationsDir}`);
+  }
+
+  return Math.max(...versions);
+}
+
+/**
+ * Read the highest migration applied to the database.
+ * supabase_migrations is not exposed by the API, so this goes through
+ * get_applied_schema_version (service role only).
+ */
+export async function readAppliedSchemaVersion(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .rpc('get_applied_schema_version')
+    .abortSignal(AbortSignal.timeout(SCHEMA_LOOKUP_TIMEOUT_MS));
+
+  if (error) {
+    throw new Error(`Applied migrations unavailable: ${error.message}`);
+  }
+  if (typeof data !== 'number') {
+    throw new Error('No applied migrations recorded');
+  }
+
+  return data;
+}
+
+/**
+ * Resolve the static part of the version payload
+ */
+export function loadVersionInfo(options: Pick<VersionRouterOptions, 'manifestPath' | 'minClientVersion'>): Omit<VersionPayload, 'timestamp' | 'schemaVersion'> {
+  const manifest = readBuildManifest(options.manifestPath);
+
+  return {
+    version: manifest.version,
+    minClientVersion: options.minClientVersion,
+    build: manifest.build,
+    builtAt: manifest.builtAt,
+  };
+}
+
+export function createVersionRouter(options: VersionRouterOptions): Router {
+  const router = Router();
+  const versionInfo = loadVersionInfo(options);
+  // Read up front so a server shipped without migrations fails at startup
+  const shippedSchemaVersion = readSchemaVersion(options.migrationsDir);
+  const cacheMs = options.schemaCacheMs ?? DEFAULT_SCHEMA_CACHE_MS;
+
+  let applied: { version: number; expiresAt: number } | null = null;
+  let lookup: Promise<number> | null = null;
+
+  // Concurrent requests share one database lookup
+  const schemaVersion = (): Promise<number> => {
+    if (applied && applied.expiresAt > Date.now()) {
+      return Promise.resolve(applied.version);
+    }
+
+    lookup ??= readAppliedSchemaVersion(options.supabase)
+      .then(version => {
+        applied = { version, expiresAt: Date.now() + cacheMs };
+        return version;
+      })
+      .catch((error: unknown) => {
+        options.logger.warn({
+          error: error instanceof Error ? error.message : String(error),
+          schemaVersion: shippedSchemaVersion,
+        }, 'Applied schema version unavailable, reporting migration files');
+        return shippedSchemaVersion;
+      })
+      .finally(() => {
+        lookup = null;
+      });
+
+    return lookup;
+  };
+
+  router.get('/', async (_req: Request, res: Response) => {
+    // Clients must always see the live deployment - never serve a cached version
+    res.set({
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      Pragma: 'no-cache',
+      Expires: '0',
+    });
+
+    const payload: VersionPayload = {
+      ...versionInfo,
+      schemaVersion: await schemaVersion(),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(payload);
+  });
+
+  return router;
+}
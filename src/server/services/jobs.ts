@@ -0,0 +1,389 @@
+/**
+ * Background job queue
+ *
+ * Long-running work (voice synthesis, bulk export, offline compaction) runs
+ * outside the request that started it. Jobs execute in-process with bounded
+ * concurrency and every state change is persisted to a JobStore, so status
+ * polling works from any BFF instance. Live progress is pushed to subscribers
+ * on the instance running the job; other instances fall back to polling the
+ * store.
+ */
+
+// Context7: consulted for crypto
+import { randomUUID } from 'crypto';
+import type { Logger } from 'pino';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRecord {
+  id: string;
+  type: string;
+  userId: string;
+  status: JobStatus;
+  progress: number; // 0..1
+  message?: string;
+  result?: unknown;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type JobEventType = 'snapshot' | 'progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  type: JobEventType;
+  job: JobRecord;
+}
+
+export interface JobSubscriber {
+  onEvent(event: JobEvent): void;
+  // Called once after the terminal event, or when the queue stops
+  onClose(): void;
+}
+
+export interface JobContext {
+  jobId: string;
+  userId: string;
+  // Aborted when the job is cancelled or the server shuts down
+  signal: AbortSignal;
+  progress(fraction: number, message?: string): Promise<void>;
+}
+
+export type JobHandler = (context: JobContext) => Promise<unknown>;
+
+export function isTerminal(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Persistence for job records
+ */
+export interface JobStore {
+  create(job: JobRecord, ttlMs: number): Promise<void>;
+  update(job: JobRecord, ttlMs: number): Promise<void>;
+  get(id: string): Promise<JobRecord | undefined>;
+  // Newest first
+  listByUser(userId: string, limit: number): Promise<JobRecord[]>;
+}
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, { job: JobRecord; expiresAt: number }>();
+
+  async create(job: JobRecord, ttlMs: number): Promise<void> {
+    this.jobs.set(job.id, { job, expiresAt: Date.now() + ttlMs });
+  }
+
+  async update(job: JobRecord, ttlMs: number): Promise<void> {
+    this.jobs.set(job.id, { job, expiresAt: Date.now() + ttlMs });
+  }
+
+  async get(id: string): Promise<JobRecord | undefined> {
+    const entry = this.jobs.get(id);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.jobs.delete(id);
+      return undefined;
+    }
+    return entry?.job;
+  }
+
+  async listByUser(userId: string, limit: number): Promise<JobRecord[]> {
+    const now = Date.now();
+    return [...this.jobs.values()]
+      .filter(entry => entry.expiresAt > now && entry.job.userId === userId)
+      .map(entry => entry.job)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Subset of ioredis used by the Redis job store
+ */
+export interface JobRedisClient {
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+  lpush(key: string, ...values: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<unknown>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+}
+
+const KEY_PREFIX = 'jobs';
+const MAX_JOBS_PER_USER = 100;
+
+export class RedisJobStore implements JobStore {
+  constructor(private client: JobRedisClient) {}
+
+  async create(job: JobRecord, ttlMs: number): Promise<void> {
+    const indexKey = `${KEY_PREFIX}:user:${job.userId}`;
+    await this.client.set(`${KEY_PREFIX}:${job.id}`, JSON.stringify(job), 'PX', ttlMs);
+    await this.client.lpush(indexKey, job.id);
+    await this.client.ltrim(indexKey, 0, MAX_JOBS_PER_USER - 1);
+    await this.client.pexpire(indexKey, ttlMs);
+  }
+
+  async update(job: JobRecord, ttlMs: number): Promise<void> {
+    await this.client.set(`${KEY_PREFIX}:${job.id}`, JSON.stringify(job), 'PX', ttlMs);
+  }
+
+  async get(id: string): Promise<JobRecord | undefined> {
+    const raw = await this.client.get(`${KEY_PREFIX}:${id}`);
+    return raw ? JSON.parse(raw) as JobRecord : undefined;
+  }
+
+  async listByUser(userId: string, limit: number): Promise<JobRecord[]> {
+    const ids = await this.client.lrange(`${KEY_PREFIX}:user:${userId}`, 0, limit - 1);
+    const jobs = await Promise.all(ids.map(id => this.get(id)));
+    // Index entries outlive expired records - skip them
+    return jobs.filter((job): job is JobRecord => job !== undefined);
+  }
+}
+
+export interface JobQueueOptions {
+  store: JobStore;
+  concurrency: number;
+  ttlMs: number;
+  logger: Logger;
+  // How often subscribers poll the store for jobs running on another instance
+  pollIntervalMs?: number;
+}
+
+interface LocalJob {
+  job: JobRecord;
+  handler: JobHandler;
+  controller: AbortController;
+}
+
+export class JobQueue {
+  private options: JobQueueOptions;
+  private pending: LocalJob[] = [];
+  private running = new Map<string, LocalJob>();
+  private subscribers = new Map<string, Set<JobSubscriber>>();
+  private pollers = new Set<() => void>();
+  private stopped = false;
+
+  constructor(options: JobQueueOptions) {
+    this.options = options;
+  }
+
+  async enqueue(type: string, userId: string, handler: JobHandler): Promise<JobRecord> {
+    if (this.stopped) {
+      throw new Error('Job queue is shutting down');
+    }
+
+    const now = new Date().toISOString();
+    const job: JobRecord = {
+      id: randomUUID(),
+      type,
+      userId,
+      status: 'queued',
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.options.store.create(job, this.options.ttlMs);
+    this.pending.push({ job, handler, controller: new AbortController() });
+    this.options.logger.info({ jobId: job.id, type, userId }, 'Job queued');
+    this.drain();
+    return { ...job };
+  }
+
+  /**
+   * Jobs are only visible to the user who created them
+   */
+  async get(id: string, userId: string): Promise<JobRecord | undefined> {
+    const local = this.findLocal(id);
+    const job = local ? local.job : await this.options.store.get(id);
+    return job && job.userId === userId ? { ...job } : undefined;
+  }
+
+  async list(userId: string, limit: number): Promise<JobRecord[]> {
+    const jobs = await this.options.store.listByUser(userId, limit);
+    // Local copies carry progress that may not have been persisted yet
+    return jobs.map(job => ({ ...(this.findLocal(job.id)?.job ?? job) }));
+  }
+
+  /**
+   * Cancel a queued or running job. Returns undefined when the job does not
+   * exist for this user; terminal jobs and jobs owned by another instance are
+   * returned unchanged.
+   */
+  async cancel(id: string, userId: string): Promise<JobRecord | undefined> {
+    const local = this.findLocal(id);
+    if (!local) {
+      return this.get(id, userId);
+    }
+    if (local.job.userId !== userId) {
+      return undefined;
+    }
+
+    this.pending = this.pending.filter(entry => entry !== local);
+    local.controller.abort();
+    await this.finish(local, 'cancelled', { message: 'Cancelled by user' });
+    return { ...local.job };
+  }
+
+  /**
+   * Stream events for a job until it reaches a terminal state. Returns an
+   * unsubscribe function.
+   */
+  watch(id: string, subscriber: JobSubscriber): () => void {
+    if (this.findLocal(id)) {
+      const subscribers = this.subscribers.get(id) ?? new Set<JobSubscriber>();
+      subscribers.add(subscriber);
+      this.subscribers.set(id, subscribers);
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0) this.subscribers.delete(id);
+      };
+    }
+    return this.poll(id, subscriber);
+  }
+
+  /**
+   * Fail queued and running jobs and close every subscriber so open SSE
+   * streams do not hold up server.close()
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    const interrupted = [...this.pending, ...this.running.values()];
+    this.pending = [];
+    interrupted.forEach(local => local.controller.abort());
+    await Promise.all(interrupted.map(local => this.finish(local, 'failed', { error: 'Server shutting down' })));
+
+    this.pollers.forEach(stop => stop());
+    this.subscribers.forEach(subscribers => subscribers.forEach(subscriber => subscriber.onClose()));
+    this.subscribers.clear();
+  }
+
+  private findLocal(id: string): LocalJob | undefined {
+    return this.running.get(id) ?? this.pending.find(entry => entry.job.id === id);
+  }
+
+  private drain(): void {
+    while (!this.stopped && this.running.size < this.options.concurrency && this.pending.length > 0) {
+      const local = this.pending.shift()!;
+      this.running.set(local.job.id, local);
+      void this.run(local);
+    }
+  }
+
+  private async run(local: LocalJob): Promise<void> {
+    const { job, controller } = local;
+    const startedAt = new Date().toISOString();
+    Object.assign(job, { status: 'running', startedAt, updatedAt: startedAt });
+
+    const context: JobContext = {
+      jobId: job.id,
+      userId: job.userId,
+      signal: controller.signal,
+      progress: async (fraction, message) => {
+        if (isTerminal(job.status)) return;
+        Object.assign(job, {
+          progress: Math.min(1, Math.max(0, fraction)),
+          message,
+          updatedAt: new Date().toISOString(),
+        });
+        await this.persist(job);
+        this.emit({ type: 'progress', job: { ...job } });
+      },
+    };
+
+    try {
+      await this.persist(job);
+      this.emit({ type: 'progress', job: { ...job } });
+      const result = await local.handler(context);
+      await this.finish(local, 'completed', { result, progress: 1 });
+    } catch (error) {
+      this.options.logger.error({
+        jobId: job.id,
+        type: job.type,
+        error: error instanceof Error ? error.message : String(error),
+      }, 'Job failed');
+      await this.finish(local, 'failed', { error: error instanceof Error ? error.message : 'Job failed' });
+    } finally {
+      this.running.delete(job.id);
+      this.drain();
+    }
+  }
+
+  private async finish(local: LocalJob, status: JobStatus, changes: Partial<JobRecord>): Promise<void> {
+    const { job } = local;
+    // A cancelled job's handler may still settle afterwards - first outcome wins
+    if (isTerminal(job.status)) return;
+
+    const finishedAt = new Date().toISOString();
+    Object.assign(job, changes, { status, finishedAt, updatedAt: finishedAt });
+    this.options.logger.info({ jobId: job.id, type: job.type, status }, 'Job finished');
+
+    await this.persist(job);
+    this.emit({ type: status as JobEventType, job: { ...job } });
+
+    this.subscribers.get(job.id)?.forEach(subscriber => subscriber.onClose());
+    this.subscribers.delete(job.id);
+  }
+
+  private async persist(job: JobRecord): Promise<void> {
+    try {
+      await this.options.store.update(job, this.options.ttlMs);
+    } catch (error) {
+      // Local subscribers still see the change; pollers catch up on the next write
+      this.options.logger.warn({
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error),
+      }, 'Failed to persist job state');
+    }
+  }
+
+  private emit(event: JobEvent): void {
+    this.subscribers.get(event.job.id)?.forEach(subscriber => subscriber.onEvent(event));
+  }
+
+  private poll(id: string, subscriber: JobSubscriber): () => void {
+    let lastUpdate: string | undefined;
+    let polling = false;
+
+    const stop = () => {
+      globalThis.clearInterval(timer);
+      this.pollers.delete(stop);
+    };
+
+    const check = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const job = await this.options.store.get(id);
+        if (!job) {
+          stop();
+          subscriber.onClose();
+          return;
+        }
+        if (job.updatedAt === lastUpdate) return;
+        lastUpdate = job.updatedAt;
+
+        if (isTerminal(job.status)) {
+          stop();
+          subscriber.onEvent({ type: job.status as JobEventType, job });
+          subscriber.onClose();
+        } else {
+          subscriber.onEvent({ type: 'progress', job });
+        }
+      } catch (error) {
+        this.options.logger.warn({
+          jobId: id,
+          error: error instanceof Error ? error.message : String(error),
+        }, 'Failed to poll job state');
+      } finally {
+        polling = false;
+      }
+    };
+
+    const timer = globalThis.setInterval(() => void check(), this.options.pollIntervalMs ?? 1000);
+    timer.unref?.();
+    this.pollers.add(stop);
+    return stop;
+  }
+}
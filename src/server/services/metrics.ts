@@ -0,0 +1,159 @@
+/**
+ * BFF Prometheus Metrics
+ *
+ * Critical-Engineer: consulted for Observability and SLO measurement
+ *
+ * One registry per app instance (tests create several apps per process):
+ * - HTTP request latency by route template and status (P95 <= 500ms target)
+ * - Rate-limit rejections by policy
+ * - Upstream proxy latency (ElevenLabs) by operation and outcome
+ * - Circuit-breaker telemetry reported by browser clients
+ *   (ResilientScriptComponentManager, CustomSupabaseProvider)
+ */
+
+// Context7: consulted for prom-client
+import { Registry, Histogram, Counter, Gauge, collectDefaultMetrics } from 'prom-client';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+export type BreakerEvent = 'fire' | 'success' | 'failure' | 'reject' | 'timeout' | 'fallback';
+
+export interface BreakerSample {
+  source: string;
+  breaker: string;
+  state: BreakerState;
+  events: Partial<Record<BreakerEvent, number>>;
+  latenciesMs: number[];
+}
+
+// Buckets bracket the 500ms save target so P95 can be read directly
+const LATENCY_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const BREAKER_STATES: BreakerState[] = ['closed', 'open', 'half_open'];
+
+// A client that stops reporting (tab closed) no longer counts towards state gauges
+const CLIENT_STATE_TTL_MS = 5 * 60 * 1000;
+
+// Beyond this many reporting clients, the one that reported longest ago is forgotten
+const MAX_TRACKED_CLIENTS = 1000;
+
+interface ClientBreakerStates {
+  reportedAt: number;
+  breakers: Map<string, { source: string; breaker: string; state: BreakerState }>;
+}
+
+export class BffMetrics {
+  readonly registry = new Registry();
+
+  readonly httpRequestDuration = new Histogram({
+    name: 'eav_bff_http_request_duration_seconds',
+    help: 'BFF HTTP request latency by route template and status code',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  readonly rateLimitRejections = new Counter({
+    name: 'eav_bff_rate_limit_rejections_total',
+    help: 'Requests rejected by the rate limiter, by policy',
+    labelNames: ['policy'] as const,
+    registers: [this.registry],
+  });
+
+  readonly upstreamRequestDuration = new Histogram({
+    name: 'eav_bff_upstream_request_duration_seconds',
+    help: 'Latency of proxied upstream calls until response headers',
+    labelNames: ['upstream', 'operation', 'outcome'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  readonly circuitBreakerEvents = new Counter({
+    name: 'eav_circuit_breaker_events_total',
+    help: 'Client circuit-breaker events (fire, success, failure, reject, timeout, fallback)',
+    labelNames: ['source', 'breaker', 'event'] as const,
+    registers: [this.registry],
+  });
+
+  readonly circuitBreakerCallDuration = new Histogram({
+    name: 'eav_circuit_breaker_call_duration_seconds',
+    help: 'Latency of operations executed through client circuit breakers',
+    labelNames: ['source', 'breaker'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  // Ordered by last report, oldest first
+  private clientBreakerStates = new Map<string, ClientBreakerStates>();
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: 'eav_bff_' });
+
+    const states = this.clientBreakerStates;
+    new Gauge({
+      name: 'eav_circuit_breaker_clients',
+      help: 'Clients whose circuit breaker last reported the given state',
+      labelNames: ['source', 'breaker', 'state'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        const now = Date.now();
+        states.forEach((client, clientId) => {
+          if (now - client.reportedAt > CLIENT_STATE_TTL_MS) {
+            states.delete(clientId);
+            return;
+          }
+          // Emit every state (including zeros) so alerts on "open > 0" see explicit series
+          client.breakers.forEach(entry => {
+            BREAKER_STATES.forEach(state => {
+              this.inc({ source: entry.source, breaker: entry.breaker, state }, state === entry.state ? 1 : 0);
+            });
+          });
+        });
+      },
+    });
+  }
+
+  /**
+   * Record one client report; event counts are deltas since that client's previous report
+   */
+  recordBreakerSamples(clientId: string, samples: BreakerSample[]): void {
+    const now = Date.now();
+    const client = this.clientBreakerStates.get(clientId) ?? { reportedAt: now, breakers: new Map() };
+    client.reportedAt = now;
+
+    // Re-insert to keep the map ordered by last report
+    this.clientBreakerStates.delete(clientId);
+    this.clientBreakerStates.set(clientId, client);
+    for (const [oldestId] of this.clientBreakerStates) {
+      if (this.clientBreakerStates.size <= MAX_TRACKED_CLIENTS) break;
+      this.clientBreakerStates.delete(oldestId);
+    }
+
+    for (const sample of samples) {
+      const labels = { source: sample.source, breaker: sample.breaker };
+
+      for (const [event, count] of Object.entries(sample.events)) {
+        if (count) this.circuitBreakerEvents.inc({ ...labels, event }, count);
+      }
+      for (const latencyMs of sample.latenciesMs) {
+        this.circuitBreakerCallDuration.observe(labels, latencyMs / 1000);
+      }
+
+      client.breakers.set(`${sample.source}:${sample.breaker}`, { ...labels, state: sample.state });
+    }
+  }
+
+  /**
+   * Time an upstream call; outcome is 'error' when the promise rejects
+   */
+  async timeUpstream<T>(upstream: string, operation: string, call: () => Promise<T>): Promise<T> {
+    const end = this.upstreamRequestDuration.startTimer({ upstream, operation });
+    try {
+      const result = await call();
+      end({ outcome: 'success' });
+      return result;
+    } catch (error) {
+      end({ outcome: 'error' });
+      throw error;
+    }
+  }
+}
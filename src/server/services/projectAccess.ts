@@ -0,0 +1,32 @@
+/**
+ * Project access checks for routes using the service-role client
+ *
+ * The service client bypasses RLS, so routes that load project data with it
+ * check access themselves: admins may reach any project, everyone else needs
+ * an active project_members row.
+ */
+
+// Context7: consulted for @supabase/supabase-js
+import type { Request } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export async function canAccessProject(
+  supabase: SupabaseClient,
+  req: Request,
+  projectId: string,
+): Promise<boolean> {
+  if (req.context.role === 'admin') return true;
+
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('user_id')
+    .eq('project_id', projectId)
+    .eq('user_id', req.context.userId!)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project membership: ${error.message}`);
+  }
+  return data !== null;
+}
@@ -0,0 +1,211 @@
+/**
+ * Readiness Probe
+ *
+ * Critical-Engineer: consulted for Health checks and graceful shutdown
+ *
+ * /healthz answers "is the process alive"; /readyz answers "should the load
+ * balancer route traffic here". Each dependency check runs with its own
+ * timeout so one hung upstream cannot stall the probe.
+ *
+ * - Critical dependency down -> 503 (not_ready)
+ * - Only non-critical dependencies down -> 200 (degraded)
+ * - Draining during graceful shutdown -> 503 regardless of dependencies
+ *
+ * The probe is unauthenticated, so results are cached for a few seconds
+ * (concurrent hits share one run) rather than querying Supabase and
+ * ElevenLabs on every request, and the response carries only the status of
+ * each check. Failure details go to the log.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Logger } from 'pino';
+import type { RateLimitRedisClient } from '../middleware/rateLimit';
+
+export interface DependencyCheck {
+  name: string;
+  critical: boolean;
+  timeoutMs: number;
+  check: () => Promise<void>;
+}
+
+export interface DependencyStatus {
+  name: string;
+  status: 'up' | 'down';
+  critical: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export type ReadinessState = 'ready' | 'degraded' | 'not_ready' | 'draining';
+
+export interface ReadinessReport {
+  status: ReadinessState;
+  checks: Array<Pick<DependencyStatus, 'name' | 'status' | 'critical'>>;
+  timestamp: string; // When the checks ran
+}
+
+export interface ReadinessProbeOptions {
+  // How long a run's results answer later probes
+  cacheMs?: number;
+  logger?: Logger;
+}
+
+export class DependencyTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`${name} check timed out after ${timeoutMs}ms`);
+    this.name = 'DependencyTimeoutError';
+  }
+}
+
+async function withTimeout(check: DependencyCheck): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new DependencyTimeoutError(check.name, check.timeoutMs)), check.timeoutMs);
+  });
+
+  try {
+    await Promise.race([check.check(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class ReadinessProbe {
+  private draining = false;
+  private cached: { checks: DependencyStatus[]; ranAt: number } | null = null;
+  private running: Promise<{ checks: DependencyStatus[]; ranAt: number }> | null = null;
+
+  constructor(private checks: DependencyCheck[], private options: ReadinessProbeOptions = {}) {}
+
+  /**
+   * Flip to not-ready so load balancers stop routing before the server closes
+   */
+  markDraining(): void {
+    this.draining = true;
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
+  async run(): Promise<ReadinessReport> {
+    const { checks, ranAt } = await this.results();
+
+    let status: ReadinessState = 'ready';
+    if (this.draining) {
+      status = 'draining';
+    } else if (checks.some(check => check.status === 'down' && check.critical)) {
+      status = 'not_ready';
+    } else if (checks.some(check => check.status === 'down')) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      checks: checks.map(({ name, status, critical }) => ({ name, status, critical })),
+      timestamp: new Date(ranAt).toISOString(),
+    };
+  }
+
+  private results(): Promise<{ checks: DependencyStatus[]; ranAt: number }> {
+    const cacheMs = this.options.cacheMs ?? 0;
+    if (this.cached && Date.now() - this.cached.ranAt < cacheMs) {
+      return Promise.resolve(this.cached);
+    }
+    this.running ??= this.runChecks()
+      .then(results => {
+        this.cached = results;
+        return results;
+      })
+      .finally(() => {
+        this.running = null;
+      });
+    return this.running;
+  }
+
+  private async runChecks(): Promise<{ checks: DependencyStatus[]; ranAt: number }> {
+    const ranAt = Date.now();
+    const checks = await Promise.all(this.checks.map(async (check): Promise<DependencyStatus> => {
+      const start = Date.now();
+      try {
+        await withTimeout(check);
+        return { name: check.name, status: 'up', critical: check.critical, latencyMs: Date.now() - start };
+      } catch (error) {
+        return {
+          name: check.name,
+          status: 'down',
+          critical: check.critical,
+          latencyMs: Date.now() - start,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }));
+
+    for (const check of checks) {
+      if (check.status === 'down') {
+        this.options.logger?.warn({ dependency: check.name, critical: check.critical, latencyMs: check.latencyMs, error: check.error }, 'Readiness check failed');
+      }
+    }
+    return { checks, ranAt };
+  }
+}
+
+// Dependency checks
+
+/**
+ * Supabase through the service role client - every editing route depends on it
+ */
+export function supabaseCheck(supabase: SupabaseClient, timeoutMs: number): DependencyCheck {
+  return {
+    name: 'supabase',
+    critical: true,
+    timeoutMs,
+    check: async () => {
+      const { error } = await supabase.from('user_profiles').select('user_id', { head: true }).limit(1);
+      if (error) throw new Error(`Supabase query failed: ${error.message}`);
+    },
+  };
+}
+
+/**
+ * ElevenLabs - only voice generation depends on it, so the BFF stays in rotation
+ */
+export function ttsProviderCheck(baseUrl: string, apiKey: string, timeoutMs: number): DependencyCheck {
+  return {
+    name: 'tts',
+    critical: false,
+    timeoutMs,
+    check: async () => {
+      const response = await globalThis.fetch(`${baseUrl.replace(/\/+$/, '')}/v1/models`, {
+        headers: { 'xi-api-key': apiKey, Accept: 'application/json' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      // Drain the body so the socket can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      if (!response.ok) throw new Error(`TTS provider responded ${response.status}`);
+    },
+  };
+}
+
+/**
+ * Shared store (rate limits, idempotency keys) - an outage degrades abuse and
+ * retry protection rather than availability
+ */
+export function storeCheck(
+  name: string,
+  storeKind: 'memory' | 'redis',
+  redis: Pick<RateLimitRedisClient, 'ping'> | undefined,
+  timeoutMs: number
+): DependencyCheck {
+  return {
+    name,
+    critical: false,
+    timeoutMs,
+    check: async () => {
+      if (storeKind === 'memory') return;
+      if (!redis) throw new Error('Redis client not configured');
+      const reply = await redis.ping();
+      if (reply !== 'PONG') throw new Error(`Unexpected Redis PING reply: ${reply}`);
+    },
+  };
+}
@@ -0,0 +1,557 @@
+/**
+ * Script export rendering
+ *
+ * Loads a script and its ordered components with the service client and
+ * renders them as Markdown, DOCX or PDF. TipTap JSON is first flattened into
+ * a small block/run model (headings, paragraphs, list items, quotes, code,
+ * rules; bold/italic/underline/strike/code/link marks) so the three renderers
+ * share one interpretation of the document. Word counts and durations come
+ * from the same content-processor functions the editor uses.
+ */
+
+// Context7: consulted for docx
+// Context7: consulted for pdfkit
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  TextRun,
+  type ParagraphChild,
+} from 'docx';
+import PDFDocument from 'pdfkit';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateWordCount,
+  canonicalizeText,
+  estimateDuration,
+  extractPlainText,
+  type JSONContent,
+} from '../../lib/content/content-processor';
+
+export type ExportFormat = 'md' | 'docx' | 'pdf';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+};
+
+export interface ExportComponent {
+  number: number;
+  componentId: string;
+  type: string;
+  title?: string;
+  content: JSONContent;
+  wordCount: number;
+  estimatedDuration: number; // seconds
+}
+
+export interface ExportScript {
+  scriptId: string;
+  projectId: string;
+  title: string;
+  components: ExportComponent[];
+  wordCount: number;
+  estimatedDuration: number; // seconds
+}
+
+interface ScriptRow {
+  script_id: string;
+  title: string;
+  videos: { project_id: string } | null;
+}
+
+interface ComponentRow {
+  component_id: string;
+  title: string | null;
+  component_type: string | null;
+  content_tiptap: JSONContent;
+}
+
+/**
+ * Load a script with its live components in position order. Returns
+ * undefined when the script does not exist.
+ */
+export async function loadScriptForExport(supabase: SupabaseClient, scriptId: string): Promise<ExportScript | undefined> {
+  const { data: script, error: scriptError } = await supabase
+    .from('video_scripts')
+    .select('script_id, title, videos(project_id)')
+    .eq('script_id', scriptId)
+    .maybeSingle();
+
+  if (scriptError) {
+    throw new Error(`Failed to load script: ${scriptError.message}`);
+  }
+  const row = script as ScriptRow | null;
+  if (!row?.videos) {
+    return undefined;
+  }
+
+  const { data: components, error: componentsError } = await supabase
+    .from('script_components')
+    .select('component_id, title, component_type, content_tiptap')
+    .eq('script_id', scriptId)
+    .is('deleted_at', null)
+    .order('position', { ascending: true });
+
+  if (componentsError) {
+    throw new Error(`Failed to load script components: ${componentsError.message}`);
+  }
+
+  const exported = ((components ?? []) as ComponentRow[]).map((component, index): ExportComponent => {
+    const wordCount = calculateWordCount(canonicalizeText(extractPlainText(component.content_tiptap)));
+    return {
+      number: index + 1,
+      componentId: component.component_id,
+      type: component.component_type ?? 'main',
+      title: component.title ?? undefined,
+      content: component.content_tiptap,
+      wordCount,
+      estimatedDuration: estimateDuration(wordCount),
+    };
+  });
+
+  const wordCount = exported.reduce((total, component) => total + component.wordCount, 0);
+  return {
+    scriptId: row.script_id,
+    projectId: row.videos.project_id,
+    title: row.title,
+    components: exported,
+    wordCount,
+    estimatedDuration: estimateDuration(wordCount),
+  };
+}
+
+// ============================================================================
+// TIPTAP FLATTENING
+// ============================================================================
+
+export interface TextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export type Run = TextSpan | { break: true };
+
+export interface Block {
+  kind: 'heading' | 'paragraph' | 'code' | 'rule';
+  runs: Run[];
+  level?: number; // headings, 1-6
+  list?: { ordered: boolean; depth: number; number?: number; start: number; instance: number };
+  // Continuation paragraphs inside a list item have no marker
+  marker?: boolean;
+  quoteDepth: number;
+}
+
+interface FlattenContext {
+  quoteDepth: number;
+  list?: { ordered: boolean; depth: number; start: number; instance: number };
+  listIndex?: number;
+  firstInItem?: boolean;
+  nextListInstance: { value: number };
+}
+
+function toRuns(nodes: JSONContent[] | undefined): Run[] {
+  const runs: Run[] = [];
+  (nodes ?? []).forEach(node => {
+    if (node.type === 'hardBreak') {
+      runs.push({ break: true });
+      return;
+    }
+    if (node.type !== 'text' || !node.text) return;
+
+    const span: TextSpan = { text: node.text };
+    (node.marks ?? []).forEach(mark => {
+      switch (mark.type) {
+        case 'bold': span.bold = true; break;
+        case 'italic': span.italic = true; break;
+        case 'underline': span.underline = true; break;
+        case 'strike': span.strike = true; break;
+        case 'code': span.code = true; break;
+        case 'link':
+          if (typeof mark.attrs?.href === 'string') span.href = mark.attrs.href;
+          break;
+      }
+    });
+    runs.push(span);
+  });
+  return runs;
+}
+
+function collectBlocks(node: JSONContent, context: FlattenContext, blocks: Block[]): void {
+  const block = (kind: Block['kind'], runs: Run[], level?: number) => {
+    const list = context.list && {
+      ...context.list,
+      number: context.list.ordered && context.firstInItem ? context.listIndex : undefined,
+    };
+    blocks.push({ kind, runs, level, list, marker: list ? context.firstInItem : undefined, quoteDepth: context.quoteDepth });
+    context.firstInItem = false;
+  };
+
+  switch (node.type) {
+    case 'heading':
+      block('heading', toRuns(node.content), Math.min(6, Math.max(1, Number(node.attrs?.level ?? 1))));
+      return;
+    case 'paragraph':
+      block('paragraph', toRuns(node.content));
+      return;
+    case 'codeBlock':
+      block('code', [{ text: extractPlainText(node).replace(/\n$/, ''), code: true }]);
+      return;
+    case 'horizontalRule':
+      block('rule', []);
+      return;
+    case 'blockquote':
+      (node.content ?? []).forEach(child => collectBlocks(child, { ...context, quoteDepth: context.quoteDepth + 1 }, blocks));
+      return;
+    case 'bulletList':
+    case 'orderedList': {
+      const ordered = node.type === 'orderedList';
+      const start = ordered ? Number(node.attrs?.start ?? 1) : 1;
+      const list = {
+        ordered,
+        depth: context.list ? context.list.depth + 1 : 0,
+        start,
+        instance: context.nextListInstance.value++,
+      };
+      (node.content ?? []).forEach((item, index) => {
+        const itemContext: FlattenContext = { ...context, list, listIndex: start + index, firstInItem: true };
+        (item.content ?? []).forEach(child => collectBlocks(child, itemContext, blocks));
+      });
+      return;
+    }
+    default:
+      (node.content ?? []).forEach(child => collectBlocks(child, context, blocks));
+  }
+}
+
+export function flattenTipTap(content: JSONContent): Block[] {
+  const blocks: Block[] = [];
+  collectBlocks(content, { quoteDepth: 0, nextListInstance: { value: 1 } }, blocks);
+  return blocks;
+}
+
+const isSpan = (run: Run): run is TextSpan => !('break' in run);
+
+// ============================================================================
+// SHARED FORMATTING
+// ============================================================================
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+const typeLabel = (type: string) => type.charAt(0).toUpperCase() + type.slice(1);
+
+function componentHeading(component: ExportComponent): string {
+  return `${component.number}. ${component.title || typeLabel(component.type)}`;
+}
+
+function componentSummary(component: ExportComponent): string {
+  return `Type: ${typeLabel(component.type)} · ${component.wordCount} words · ${formatDuration(component.estimatedDuration)} estimated`;
+}
+
+function scriptSummary(script: ExportScript): string {
+  return `${script.components.length} components · ${script.wordCount} words · ${formatDuration(script.estimatedDuration)} estimated`;
+}
+
+// Script title is level 1 and components level 2, so content headings shift down two levels
+const contentHeadingLevel = (level = 1) => Math.min(6, level + 2);
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>#])/g, '\\$1');
+
+function markdownSpan(span: TextSpan): string {
+  if (span.code) {
+    const fence = span.text.includes('`') ? '``' : '`';
+    return `${fence}${span.text}${fence}`;
+  }
+
+  // Emphasis markers must hug the text, so keep surrounding spaces outside them
+  const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(span.text)!;
+  if (!core) return span.text;
+
+  let text = escapeMarkdown(core);
+  if (span.underline) text = `<u>${text}</u>`;
+  if (span.strike) text = `~~${text}~~`;
+  if (span.italic) text = `_${text}_`;
+  if (span.bold) text = `**${text}**`;
+  if (span.href) text = `[${text}](${span.href.replace(/[()\s]/g, encodeURIComponent)})`;
+  return `${leading}${text}${trailing}`;
+}
+
+const markdownRuns = (runs: Run[]) => runs.map(run => (isSpan(run) ? markdownSpan(run) : '\\\n')).join('');
+
+function markdownBlock(block: Block): string {
+  let text: string;
+  switch (block.kind) {
+    case 'heading':
+      text = `${'#'.repeat(contentHeadingLevel(block.level))} ${markdownRuns(block.runs)}`;
+      break;
+    case 'code':
+      text = `\`\`\`\n${(block.runs[0] as TextSpan | undefined)?.text ?? ''}\n\`\`\``;
+      break;
+    case 'rule':
+      text = '---';
+      break;
+    default:
+      text = markdownRuns(block.runs);
+  }
+
+  if (block.list) {
+    const indent = '   '.repeat(block.list.depth);
+    const marker = block.list.ordered ? `${block.list.number}. ` : '- ';
+    text = block.marker
+      ? `${indent}${marker}${text}`
+      : `${indent}${' '.repeat(marker.length)}${text}`;
+    text = text.replace(/\n/g, `\n${indent}${' '.repeat(marker.length)}`);
+  }
+  if (block.quoteDepth > 0) {
+    const prefix = '> '.repeat(block.quoteDepth);
+    text = text.split('\n').map(line => `${prefix}${line}`.trimEnd()).join('\n');
+  }
+  return text;
+}
+
+export function renderMarkdown(script: ExportScript): string {
+  const sections = [`# ${escapeMarkdown(script.title)}`, `_${scriptSummary(script)}_`];
+
+  script.components.forEach(component => {
+    sections.push(`## ${escapeMarkdown(componentHeading(component))}`, `_${componentSummary(component)}_`);
+
+    // Consecutive items of the same list are separated by single newlines
+    let previous: Block | undefined;
+    let chunk = '';
+    flattenTipTap(component.content).forEach(block => {
+      const rendered = markdownBlock(block);
+      if (previous && block.list && previous.list) {
+        chunk += `\n${rendered}`;
+      } else {
+        if (chunk) sections.push(chunk);
+        chunk = rendered;
+      }
+      previous = block;
+    });
+    if (chunk) sections.push(chunk);
+  });
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+function docxRuns(runs: Run[]): ParagraphChild[] {
+  return runs.map(run => {
+    if (!isSpan(run)) {
+      return new TextRun({ break: 1 });
+    }
+    const textRun = new TextRun({
+      text: run.text,
+      bold: run.bold,
+      italics: run.italic,
+      strike: run.strike,
+      underline: run.underline || run.href ? {} : undefined,
+      font: run.code ? 'Courier New' : undefined,
+      style: run.href ? 'Hyperlink' : undefined,
+    });
+    return run.href ? new ExternalHyperlink({ link: run.href, children: [textRun] }) : textRun;
+  });
+}
+
+function docxBlock(block: Block): Paragraph {
+  const listIndent = block.list ? 720 * (block.list.depth + 1) : 0;
+  const indent = listIndent + 567 * block.quoteDepth;
+
+  const numbering = block.list && block.marker
+    ? block.list.ordered
+      ? { reference: `ordered-${block.list.start}`, level: Math.min(block.list.depth, 8), instance: block.list.instance }
+      : { reference: 'bullets', level: Math.min(block.list.depth, 8) }
+    : undefined;
+
+  return new Paragraph({
+    children: docxRuns(block.runs),
+    heading: block.kind === 'heading' ? DOCX_HEADINGS[contentHeadingLevel(block.level) - 1] : undefined,
+    thematicBreak: block.kind === 'rule' ? true : undefined,
+    numbering,
+    indent: !numbering && indent > 0 ? { left: indent } : undefined,
+    shading: block.kind === 'code' ? { type: 'clear', fill: 'F3F4F6', color: 'auto' } : undefined,
+    border: block.quoteDepth > 0
+      ? { left: { style: 'single', size: 12, color: 'BFBFBF', space: 8 } }
+      : undefined,
+  });
+}
+
+export async function renderDocx(script: ExportScript): Promise<Buffer> {
+  const children: Paragraph[] = [
+    new Paragraph({ text: script.title, heading: HeadingLevel.TITLE }),
+    new Paragraph({ children: [new TextRun({ text: scriptSummary(script), italics: true, color: '595959' })] }),
+  ];
+
+  const orderedStarts = new Set<number>();
+  script.components.forEach(component => {
+    children.push(
+      new Paragraph({ text: componentHeading(component), heading: HeadingLevel.HEADING_2 }),
+      new Paragraph({ children: [new TextRun({ text: componentSummary(component), italics: true, color: '595959' })] }),
+    );
+    flattenTipTap(component.content).forEach(block => {
+      if (block.list?.ordered) orderedStarts.add(block.list.start);
+      children.push(docxBlock(block));
+    });
+  });
+
+  const levels = (format: (typeof LevelFormat)[keyof typeof LevelFormat], text: (level: number) => string, start = 1) =>
+    Array.from({ length: 9 }, (_unused, level) => ({
+      level,
+      format,
+      text: text(level),
+      start,
+      alignment: AlignmentType.LEFT,
+      style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+    }));
+
+  const document = new Document({
+    title: script.title,
+    numbering: {
+      config: [
+        { reference: 'bullets', levels: levels(LevelFormat.BULLET, level => (level % 2 === 0 ? '•' : '◦')) },
+        ...[...orderedStarts].map(start => ({
+          reference: `ordered-${start}`,
+          levels: levels(LevelFormat.DECIMAL, level => `%${level + 1}.`, start),
+        })),
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(document);
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PDF_FONT_SIZE = 11;
+const PDF_HEADING_SIZES = [20, 17, 15, 13, 12, 11];
+
+function pdfFont(span: TextSpan): string {
+  if (span.code) return 'Courier';
+  if (span.bold && span.italic) return 'Helvetica-BoldOblique';
+  if (span.bold) return 'Helvetica-Bold';
+  if (span.italic) return 'Helvetica-Oblique';
+  return 'Helvetica';
+}
+
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+function pdfBlock(pdf: PdfDocument, block: Block, left: number, width: number): void {
+  if (block.kind === 'rule') {
+    const y = pdf.y + 4;
+    pdf.moveTo(left, y).lineTo(left + width, y).lineWidth(0.5).strokeColor('#BFBFBF').stroke();
+    pdf.moveDown(1);
+    return;
+  }
+
+  const listIndent = block.list ? 18 * (block.list.depth + 1) : 0;
+  const x = left + listIndent + 16 * block.quoteDepth;
+  const heading = block.kind === 'heading';
+  const size = heading ? PDF_HEADING_SIZES[contentHeadingLevel(block.level) - 1] : block.kind === 'code' ? 10 : PDF_FONT_SIZE;
+
+  const spans: TextSpan[] = [];
+  block.runs.forEach(run => {
+    if (isSpan(run)) {
+      spans.push({ ...run, bold: run.bold || heading });
+    } else if (spans.length > 0) {
+      spans[spans.length - 1] = { ...spans[spans.length - 1], text: `${spans[spans.length - 1].text}\n` };
+    } else {
+      spans.push({ text: '\n' });
+    }
+  });
+  if (block.list && block.marker) {
+    spans.unshift({ text: block.list.ordered ? `${block.list.number}. ` : '• ' });
+  }
+  if (spans.length === 0) {
+    pdf.moveDown(0.5);
+    return;
+  }
+
+  pdf.fillColor(block.quoteDepth > 0 ? '#404040' : '#000000');
+  spans.forEach((span, index) => {
+    const options = {
+      continued: index < spans.length - 1,
+      underline: Boolean(span.underline || span.href),
+      strike: Boolean(span.strike),
+      link: span.href ?? null,
+    };
+    pdf.font(pdfFont(span)).fontSize(size);
+    if (index === 0) {
+      pdf.text(span.text, x, pdf.y, { ...options, width: width - (x - left) });
+    } else {
+      pdf.text(span.text, options);
+    }
+  });
+  pdf.moveDown(heading ? 0.4 : 0.6);
+}
+
+export function renderPdf(script: ExportScript): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 56, info: { Title: script.title } });
+    const chunks: Buffer[] = [];
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    const left = pdf.page.margins.left;
+    const width = pdf.page.width - left - pdf.page.margins.right;
+    const summary = (text: string) => {
+      pdf.font('Helvetica-Oblique').fontSize(9).fillColor('#595959').text(text, left, pdf.y, { width });
+      pdf.moveDown(0.8);
+    };
+
+    pdf.font('Helvetica-Bold').fontSize(24).fillColor('#000000').text(script.title, { width });
+    summary(scriptSummary(script));
+
+    script.components.forEach(component => {
+      pdf.font('Helvetica-Bold').fontSize(17).fillColor('#000000').text(componentHeading(component), left, pdf.y, { width });
+      summary(componentSummary(component));
+      flattenTipTap(component.content).forEach(block => pdfBlock(pdf, block, left, width));
+      pdf.moveDown(0.5);
+    });
+
+    pdf.end();
+  });
+}
+
+export function renderExport(script: ExportScript, format: ExportFormat): Promise<Buffer> {
+  switch (format) {
+    case 'docx':
+      return renderDocx(script);
+    case 'pdf':
+      return renderPdf(script);
+    default:
+      return Promise.resolve(Buffer.from(renderMarkdown(script), 'utf8'));
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Service-role Supabase client for the BFF
+ *
+ * SECURITY: The service role key bypasses RLS. This client must only be used
+ * server-side, and every route using it is responsible for its own
+ * authorization checks before reading or writing on behalf of a user.
+ */
+
+// Context7: consulted for @supabase/supabase-js
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+export function createServiceClient(supabaseUrl: string, serviceRoleKey: string): SupabaseClient {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      // Stateless server usage - no session storage or token refresh
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
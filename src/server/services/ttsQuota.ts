@@ -0,0 +1,175 @@
+/**
+ * Text-to-speech character quotas
+ *
+ * Tracks synthesized characters per user and per project over a fixed window.
+ * Characters are reserved before the upstream call and released if the
+ * provider fails. Check-and-increment runs under a per-key lock (user key,
+ * then project key), so concurrent requests in this process cannot overspend
+ * a budget. The lock is per process: a store shared between BFF instances
+ * would need an atomic increment of its own.
+ */
+
+export interface QuotaLimits {
+  userCharacters: number;
+  projectCharacters: number;
+  windowMs: number;
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  resetAt: number; // epoch ms
+}
+
+export type QuotaScope = 'user' | 'project';
+
+export interface QuotaReservation {
+  userId: string;
+  projectId: string;
+  characters: number;
+  user: QuotaUsage;
+  project: QuotaUsage;
+}
+
+/**
+ * Thrown when a reservation would exceed a quota
+ */
+export class QuotaExceededError extends Error {
+  readonly scope: QuotaScope;
+  readonly usage: QuotaUsage;
+  readonly requested: number;
+
+  constructor(scope: QuotaScope, usage: QuotaUsage, requested: number) {
+    super(`TTS ${scope} quota exceeded: ${usage.used}/${usage.limit} characters used, ${requested} requested`);
+    this.name = 'QuotaExceededError';
+    this.scope = scope;
+    this.usage = usage;
+    this.requested = requested;
+  }
+}
+
+interface QuotaWindow {
+  used: number;
+  resetAt: number;
+}
+
+/**
+ * Storage for quota counters
+ */
+export interface QuotaStore {
+  get(key: string): Promise<QuotaWindow | undefined>;
+  set(key: string, window: QuotaWindow): Promise<void>;
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+  private windows = new Map<string, QuotaWindow>();
+
+  async get(key: string): Promise<QuotaWindow | undefined> {
+    const window = this.windows.get(key);
+    if (window && window.resetAt <= Date.now()) {
+      this.windows.delete(key);
+      return undefined;
+    }
+    return window;
+  }
+
+  async set(key: string, window: QuotaWindow): Promise<void> {
+    this.windows.set(key, window);
+  }
+}
+
+export class TtsQuotaTracker {
+  private limits: QuotaLimits;
+  private store: QuotaStore;
+  private locks = new Map<string, Promise<void>>();
+
+  constructor(limits: QuotaLimits, store: QuotaStore = new MemoryQuotaStore()) {
+    this.limits = limits;
+    this.store = store;
+  }
+
+  /**
+   * Reserve characters against both the user and project budgets
+   * @throws QuotaExceededError if either budget would be exceeded
+   */
+  async reserve(userId: string, projectId: string, characters: number): Promise<QuotaReservation> {
+    const userKey = this.key('user', userId);
+    const projectKey = this.key('project', projectId);
+
+    return this.withLock(userKey, () => this.withLock(projectKey, async () => {
+      const user = await this.currentWindow(userKey);
+      const project = await this.currentWindow(projectKey);
+
+      if (user.used + characters > this.limits.userCharacters) {
+        throw new QuotaExceededError('user', this.toUsage(user, this.limits.userCharacters), characters);
+      }
+      if (project.used + characters > this.limits.projectCharacters) {
+        throw new QuotaExceededError('project', this.toUsage(project, this.limits.projectCharacters), characters);
+      }
+
+      user.used += characters;
+      project.used += characters;
+      await this.store.set(userKey, user);
+      await this.store.set(projectKey, project);
+
+      return {
+        userId,
+        projectId,
+        characters,
+        user: this.toUsage(user, this.limits.userCharacters),
+        project: this.toUsage(project, this.limits.projectCharacters),
+      };
+    }));
+  }
+
+  /**
+   * Return reserved characters after a failed synthesis
+   */
+  async release(reservation: QuotaReservation): Promise<void> {
+    for (const [scope, id] of [['user', reservation.userId], ['project', reservation.projectId]] as const) {
+      const key = this.key(scope, id);
+      await this.withLock(key, async () => {
+        const window = await this.store.get(key);
+        if (window) {
+          await this.store.set(key, { ...window, used: Math.max(0, window.used - reservation.characters) });
+        }
+      });
+    }
+  }
+
+  async getUsage(scope: QuotaScope, id: string): Promise<QuotaUsage> {
+    const limit = scope === 'user' ? this.limits.userCharacters : this.limits.projectCharacters;
+    return this.toUsage(await this.currentWindow(this.key(scope, id)), limit);
+  }
+
+  private async currentWindow(key: string): Promise<QuotaWindow> {
+    const existing = await this.store.get(key);
+    return existing ? { ...existing } : { used: 0, resetAt: Date.now() + this.limits.windowMs };
+  }
+
+  /**
+   * Run task once every earlier task holding `key` has finished
+   */
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    let unlock!: () => void;
+    const held = previous.then(() => new Promise<void>(resolve => { unlock = resolve; }));
+    this.locks.set(key, held);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      unlock();
+      if (this.locks.get(key) === held) this.locks.delete(key);
+    }
+  }
+
+  private toUsage(window: QuotaWindow, limit: number): QuotaUsage {
+    return { used: window.used, limit, resetAt: window.resetAt };
+  }
+
+  private key(scope: QuotaScope, id: string): string {
+    return `tts-quota:${scope}:${id}`;
+  }
+}
@@ -8,7 +8,8 @@
 // Context7: consulted for yjs
 import * as Y from 'yjs';
 import { CustomSupabaseProvider } from '../lib/collaboration/custom-supabase-provider';
-import type { ScriptComponent } from './scriptComponent';
+import type { ScriptComponent, ComponentVersion, ConflictResolutionStrategy, MergeConflict, ScriptStatus, ComponentStatus, ComponentTransferMode } from './scriptComponent';
+import type { UserRole } from '../lib/supabase';
 
 // TipTap JSON Content Type (matches TipTap's JSONContent)
 export interface EditorJSONContent {
@@ -29,8 +30,8 @@ export interface VideoScript {
   title: string;
   description?: string;
   wordCount?: number;
-  duration?: string;
-  status: 'draft' | 'in_editing' | 'client_review' | 'approved' | 'published';
+  duration?: number; // Estimated seconds
+  status: ScriptStatus;
   lastEdited: string;
   createdAt: string;
   updatedAt: string;
@@ -137,8 +138,16 @@ export interface ScriptEditorConfig {
   enableComments?: boolean;
   enablePresence?: boolean;
   readOnly?: boolean;
+  conflictResolutionStrategy?: ConflictResolutionStrategy; // Preselected in the merge view
 }
 
+// Where the component list on screen came from: the database, a cached copy, or nowhere
+export type ComponentsLoadState =
+  | { status: 'fresh' }
+  | { status: 'stale'; fetchedAt: string }
+  | { status: 'offline'; fetchedAt: string }
+  | { status: 'unavailable'; error: string };
+
 // Script Editor Component Props
 export interface ScriptEditorProps {
   config: ScriptEditorConfig;
@@ -152,6 +161,17 @@ export interface ScriptEditorProps {
   onComponentUpdate?: (componentId: string, updates: Partial<ScriptComponentUI>) => Promise<void>;
   onComponentDelete?: (componentId: string) => Promise<void>;
   onComponentReorder?: (componentIds: string[]) => Promise<void>;
+  onLoadComponentHistory?: (componentId: string) => Promise<ComponentVersion[]>;
+  onRestoreComponentVersion?: (componentId: string, version: number) => Promise<void>;
+  onResolveConflict?: (conflict: MergeConflict, content: object, strategy: ConflictResolutionStrategy) => Promise<void>;
+  onComponentStatusChange?: (componentId: string, status: ComponentStatus, reason?: string) => Promise<void>;
+  userRole?: UserRole | null; // Decides which approval actions are offered
+  focusComponentId?: string | null; // Open and scroll to this component once loaded
+  onComponentFocused?: (componentId: string) => void;
+  transferTargets?: Array<{ scriptId: string; title: string }>; // Scripts offered by "Move to…"
+  onComponentTransfer?: (componentId: string, targetScriptId: string, mode: ComponentTransferMode) => Promise<void>;
+  componentsLoadState?: ComponentsLoadState; // Stale or unavailable lists are flagged above the component list
+  onRetryComponents?: () => void;
   onSave?: (content: EditorJSONContent) => Promise<void>;
   onError?: (error: Error) => void;
   className?: string;
@@ -87,6 +87,48 @@ export interface UpdateResult {
   errorMessage?: string;
 }
 
+/**
+ * A stored version of a component (script_component_versions row).
+ * Written for the initial insert and every successful locked update
+ */
+export interface ComponentVersion {
+  version_id: string;
+  component_id: string;
+  script_id: string;
+  version: number;
+  content_tiptap: object;
+  content_plain: string;
+  edited_by: string | null;
+  restored_from_version: number | null; // Set when this version was created by a restore
+  created_at: string;
+}
+
+/**
+ * Component history result (newest version first)
+ */
+export interface ComponentHistoryResult {
+  versions: ComponentVersion[];
+  error?: string;
+}
+
+/**
+ * Result of an update that may have been merged with a concurrent edit
+ */
+export interface MergedUpdateResult extends UpdateResult {
+  content: object; // Content actually saved
+  plainText: string;
+  merged: boolean; // True when a concurrent edit was merged in
+  resolvedBy?: ConflictResolutionStrategy; // Set when a conflict was resolved
+}
+
+/**
+ * Per-call conflict handling for updateComponentWithResolution
+ */
+export interface ConflictResolutionOptions {
+  strategy?: ConflictResolutionStrategy;
+  baseContent?: object; // Content of currentVersion, used as the merge base
+}
+
 /**
  * Batch update operation for component reordering
  */
@@ -156,6 +198,20 @@ export interface MergeConflict {
   clientVersion: number;
   serverVersion: number;
   conflictAreas: ConflictArea[];
+  mergedContent?: object; // Clean parts merged; conflict areas hold the server side
+}
+
+/**
+ * Thrown when a version conflict could not be merged automatically
+ */
+export class MergeConflictError extends Error {
+  readonly conflict: MergeConflict;
+
+  constructor(conflict: MergeConflict) {
+    super(`Merge conflict for component ${conflict.componentId}: ${conflict.conflictAreas.length} conflicting area(s)`);
+    this.name = 'MergeConflictError';
+    this.conflict = conflict;
+  }
 }
 
 /**
@@ -178,7 +234,11 @@ export interface OptimisticLockMetrics {
   conflictCount: number;
   averageLatency: number;
   p95Latency: number;
-  conflictResolutionTime: number;
+  conflictResolutionTime: number; // Average ms from first conflict to resolution
+  conflictResolutionsByStrategy?: Partial<Record<ConflictResolutionStrategy, {
+    count: number;
+    averageTime: number;
+  }>>;
 }
 
 /**
@@ -261,3 +321,258 @@ export interface PositionUpdateResult {
   updatedCount: number;
   error?: string;
 }
+
+/**
+ * Outcome of a call through ResilientScriptComponentManager
+ * - ok: the database answered; `data` is its answer, which can itself be a
+ *   refusal (success: false). `stale` marks an earlier answer served from the
+ *   local cache, fetched at `fetchedAt`; `offline` marks one served because
+ *   the database cannot be reached
+ * - queued: the write is saved on this device and will be sent later
+ * - unavailable: the database could not be reached and nothing was saved or cached
+ * - conflict: the write was based on a version the server no longer has
+ */
+export type ResilientResult<T> =
+  | { status: 'ok'; data: T; stale?: boolean; offline?: boolean; fetchedAt?: string }
+  | { status: 'queued'; message: string; tempComponentId?: string }
+  | { status: 'unavailable'; error: string }
+  | { status: 'conflict'; error: string; componentId?: string; currentVersion?: number };
+
+/**
+ * Values for {{placeholder}} tokens in a script template, keyed by name
+ */
+export type TemplateVariables = Record<string, string>;
+
+/**
+ * Video script row as returned by duplication and template creation
+ */
+export interface ScriptRecord {
+  script_id: string;
+  video_id: string | null; // null only for templates
+  title: string;
+  description?: string;
+  script_status: string;
+  is_template: boolean;
+  source_script_id?: string | null;
+  created_at: string;
+  updated_at: string;
+  last_edited_by?: string;
+}
+
+/**
+ * Options for copying a script with duplicateScript()
+ */
+export interface DuplicateScriptOptions {
+  title?: string;           // Defaults to the source title with placeholders filled
+  description?: string;
+  asTemplate?: boolean;     // Save the copy as a template (no target video)
+  variables?: TemplateVariables;
+  userId?: string | null;
+}
+
+/**
+ * Script duplication / template instantiation result
+ */
+export interface ScriptCopyResult {
+  script?: ScriptRecord;
+  error?: string;
+}
+
+/**
+ * Template summary for the template picker
+ */
+export interface ScriptTemplate {
+  script_id: string;
+  title: string;
+  description?: string;
+  updated_at: string;
+}
+
+/**
+ * Template list result
+ */
+export interface ScriptTemplatesResult {
+  templates: ScriptTemplate[];
+  error?: string;
+}
+
+/**
+ * Placeholders used by a template's components
+ */
+export interface TemplatePlaceholdersResult {
+  placeholders: string[];
+  error?: string;
+}
+
+/**
+ * Script workflow status (video_scripts.script_status)
+ */
+export type ScriptStatus = 'draft' | 'in_editing' | 'client_review' | 'approved' | 'published';
+
+/**
+ * Audit trail entry for a script status transition (script_status_history row)
+ */
+export interface ScriptStatusChange {
+  history_id: string;
+  script_id: string;
+  from_status: ScriptStatus;
+  to_status: ScriptStatus;
+  changed_by: string | null;
+  changed_by_role: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Result of transitionScriptStatus()
+ */
+export interface ScriptStatusTransitionResult {
+  success: boolean;
+  status?: ScriptStatus; // Status after the call (unchanged on failure when known)
+  error?: string;
+}
+
+/**
+ * Script status history result (newest first)
+ */
+export interface ScriptStatusHistoryResult {
+  history: ScriptStatusChange[];
+  error?: string;
+}
+
+/**
+ * Raised when a status change is not allowed from the current status or for the user's role
+ */
+export class ScriptStatusTransitionError extends Error {
+  readonly fromStatus: ScriptStatus;
+  readonly toStatus: ScriptStatus;
+  readonly role: string | null;
+
+  constructor(fromStatus: ScriptStatus, toStatus: ScriptStatus, role: string | null, message: string) {
+    super(message);
+    this.name = 'ScriptStatusTransitionError';
+    this.fromStatus = fromStatus;
+    this.toStatus = toStatus;
+    this.role = role;
+  }
+}
+
+/**
+ * Result of setComponentStatus(); scriptStatus reflects any roll-up.
+ * retryable marks a change the database never answered, as opposed to one
+ * it refused
+ */
+export interface ComponentStatusChangeResult {
+  success: boolean;
+  status?: ComponentStatus;
+  scriptStatus?: ScriptStatus;
+  error?: string;
+  retryable?: boolean;
+}
+
+/**
+ * How a component is sent to another script
+ */
+export type ComponentTransferMode = 'move' | 'copy';
+
+/**
+ * Result of moveComponentToScript() / copyComponentToScript(). componentId is
+ * the moved component or the new copy; on a version conflict currentVersion
+ * is the version now in the database. retryable is set as for
+ * ComponentStatusChangeResult
+ */
+export interface ComponentTransferResult {
+  success: boolean;
+  componentId?: string;
+  position?: number;
+  version?: number;
+  conflictDetected: boolean;
+  currentVersion?: number;
+  error?: string;
+  retryable?: boolean;
+}
+
+/**
+ * Filters for searchScripts()
+ */
+export interface ScriptSearchFilters {
+  projectId?: string;
+  videoId?: string;
+  scriptStatuses?: ScriptStatus[];
+  includeTemplates?: boolean; // Templates are excluded by default
+  limit?: number;             // 1-100, default 20
+  offset?: number;
+}
+
+/**
+ * A ranked search hit: a matching component, or a matching script title
+ * (component fields null). snippet marks matches with <mark>…</mark>
+ */
+export interface ScriptSearchHit {
+  script_id: string;
+  script_title: string;
+  script_status: ScriptStatus;
+  match_type: 'component' | 'title';
+  component_id: string | null;
+  component_position: number | null;
+  component_index: number | null; // 1-based order among live components
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * Search result (best match first)
+ */
+export interface ScriptSearchResult {
+  hits: ScriptSearchHit[];
+  error?: string;
+}
+
+/**
+ * Sort columns for listScripts(); script_status sorts in workflow order
+ */
+export type ScriptSortField = 'updated_at' | 'title' | 'script_status' | 'word_count';
+
+/**
+ * Filters and paging for listScripts()
+ */
+export interface ScriptListOptions {
+  videoId?: string;
+  projectId?: string;
+  statuses?: ScriptStatus[];
+  lastEditedBy?: string;
+  updatedFrom?: string;       // ISO timestamp, inclusive
+  updatedTo?: string;         // ISO timestamp, inclusive
+  sortBy?: ScriptSortField;   // Default updated_at
+  sortDirection?: 'asc' | 'desc'; // Default desc
+  limit?: number;             // 1-200, default 50
+  cursor?: string | null;     // nextCursor of the previous page
+}
+
+/**
+ * A script row in a listScripts() page
+ */
+export interface ScriptListItem {
+  script_id: string;
+  video_id: string;
+  project_id?: string;         // Absent from realtime rows and older offline copies
+  title: string;
+  description?: string;
+  script_status: ScriptStatus;
+  word_count?: number;
+  estimated_duration?: number; // seconds
+  created_at: string;
+  updated_at: string;
+  last_edited_by?: string;
+  last_edited_at?: string;
+}
+
+/**
+ * One page of scripts. nextCursor is null on the last page and is only
+ * valid with the same sort it was issued for
+ */
+export interface ScriptListPage {
+  scripts: ScriptListItem[];
+  nextCursor: string | null;
+  error?: string;
+}
@@ -0,0 +1,195 @@
+-- Component version history
+--
+-- update_script_component_with_lock overwrites content_tiptap in place, so
+-- every previous wording was lost (component_deletion_audit only snapshots
+-- on delete). script_component_versions keeps one row per component version:
+-- the initial insert, every successful locked update, and restores (which are
+-- ordinary locked updates that remember the version they copied).
+--
+-- Rows are only written by SECURITY DEFINER code paths; clients can read the
+-- history of any component they can see, but never write it directly.
+
+CREATE TABLE IF NOT EXISTS "public"."script_component_versions" (
+    "version_id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "component_id" "uuid" NOT NULL,
+    "script_id" "uuid" NOT NULL,
+    "version" integer NOT NULL,
+    "content_tiptap" "jsonb" NOT NULL,
+    "content_plain" "text" NOT NULL,
+    "edited_by" "uuid",
+    "restored_from_version" integer,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "script_component_versions_version_positive" CHECK (("version" > 0))
+);
+
+
+ALTER TABLE "public"."script_component_versions" OWNER TO "postgres";
+
+
+ALTER TABLE ONLY "public"."script_component_versions"
+    ADD CONSTRAINT "script_component_versions_pkey" PRIMARY KEY ("version_id");
+
+
+ALTER TABLE ONLY "public"."script_component_versions"
+    ADD CONSTRAINT "script_component_versions_component_version_key" UNIQUE ("component_id", "version");
+
+
+ALTER TABLE ONLY "public"."script_component_versions"
+    ADD CONSTRAINT "script_component_versions_component_id_fkey" FOREIGN KEY ("component_id") REFERENCES "public"."script_components"("component_id") ON DELETE CASCADE;
+
+
+ALTER TABLE ONLY "public"."script_component_versions"
+    ADD CONSTRAINT "script_component_versions_edited_by_fkey" FOREIGN KEY ("edited_by") REFERENCES "auth"."users"("id");
+
+
+CREATE INDEX "idx_script_component_versions_component" ON "public"."script_component_versions" USING "btree" ("component_id", "version" DESC);
+
+
+-- Seed history with the current version of every existing component
+INSERT INTO "public"."script_component_versions" ("component_id", "script_id", "version", "content_tiptap", "content_plain", "edited_by", "created_at")
+SELECT "component_id", "script_id", "version", "content_tiptap", "content_plain", "last_edited_by", COALESCE("last_edited_at", "updated_at", NOW())
+FROM "public"."script_components"
+ON CONFLICT ("component_id", "version") DO NOTHING;
+
+
+-- Record version 1 of newly created components
+CREATE OR REPLACE FUNCTION "public"."record_initial_component_version"() RETURNS "trigger"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    AS $$
+BEGIN
+    INSERT INTO script_component_versions (
+        component_id,
+        script_id,
+        version,
+        content_tiptap,
+        content_plain,
+        edited_by
+    ) VALUES (
+        NEW.component_id,
+        NEW.script_id,
+        NEW.version,
+        NEW.content_tiptap,
+        NEW.content_plain,
+        NEW.last_edited_by
+    )
+    ON CONFLICT (component_id, version) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."record_initial_component_version"() OWNER TO "postgres";
+
+
+CREATE OR REPLACE TRIGGER "record_initial_component_version_trigger" AFTER INSERT ON "public"."script_components" FOR EACH ROW EXECUTE FUNCTION "public"."record_initial_component_version"();
+
+
+-- The locked update gains an optional p_restored_from_version, so the old
+-- five-argument signature is replaced rather than overloaded
+DROP FUNCTION IF EXISTS "public"."update_script_component_with_lock"("p_component_id" "uuid", "p_content" "jsonb", "p_plain_text" "text", "p_current_version" integer, "p_user_id" "uuid");
+
+
+CREATE OR REPLACE FUNCTION "public"."update_script_component_with_lock"("p_component_id" "uuid", "p_content" "jsonb", "p_plain_text" "text", "p_current_version" integer, "p_user_id" "uuid", "p_restored_from_version" integer DEFAULT NULL) RETURNS TABLE("success" boolean, "new_version" integer, "conflict_detected" boolean, "current_content" "jsonb", "current_version" integer, "error_message" "text")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    AS $$
+DECLARE
+    v_current_version INTEGER;
+    v_current_content JSONB;
+    v_new_version INTEGER;
+    v_script_id UUID;
+    v_plain_text TEXT;
+BEGIN
+    -- Input validation
+    IF p_component_id IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::INTEGER, FALSE, NULL::JSONB, NULL::INTEGER, 'Component ID is required'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_current_version IS NULL OR p_current_version < 1 THEN
+        RETURN QUERY SELECT FALSE, NULL::INTEGER, FALSE, NULL::JSONB, NULL::INTEGER, 'Valid version number is required'::TEXT;
+        RETURN;
+    END IF;
+
+    -- ATOMIC UPDATE: Critical section - check version and update in single statement
+    -- This prevents race conditions between concurrent edits
+    UPDATE script_components
+    SET
+        content_tiptap = p_content,
+        content_plain = p_plain_text,
+        version = version + 1,
+        last_edited_by = p_user_id,
+        last_edited_at = NOW(),
+        updated_at = NOW()
+    WHERE
+        component_id = p_component_id
+        AND version = p_current_version
+    RETURNING version, script_id, content_plain
+    INTO v_new_version, v_script_id, v_plain_text;
+
+    IF v_new_version IS NULL THEN
+        -- No rows updated - either component doesn't exist or version conflict
+        -- CRITICAL ENGINEER REQUIREMENT: Return full current state for merge resolution
+        SELECT version, content_tiptap
+        INTO v_current_version, v_current_content
+        FROM script_components
+        WHERE component_id = p_component_id;
+
+        IF v_current_version IS NULL THEN
+            -- Component not found
+            RETURN QUERY SELECT FALSE, NULL::INTEGER, FALSE, NULL::JSONB, NULL::INTEGER, 'Component not found'::TEXT;
+        ELSE
+            -- Version conflict detected - return current state for merge resolution
+            RETURN QUERY SELECT FALSE, NULL::INTEGER, TRUE, v_current_content, v_current_version, 'Version conflict detected'::TEXT;
+        END IF;
+    ELSE
+        -- Success - record the new version in the same transaction as the update.
+        -- content_plain comes from RETURNING so it reflects sync_content_plain
+        INSERT INTO script_component_versions (
+            component_id,
+            script_id,
+            version,
+            content_tiptap,
+            content_plain,
+            edited_by,
+            restored_from_version
+        ) VALUES (
+            p_component_id,
+            v_script_id,
+            v_new_version,
+            p_content,
+            v_plain_text,
+            p_user_id,
+            p_restored_from_version
+        )
+        ON CONFLICT (component_id, version) DO NOTHING;
+
+        RETURN QUERY SELECT TRUE, v_new_version, FALSE, NULL::JSONB, NULL::INTEGER, NULL::TEXT;
+    END IF;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."update_script_component_with_lock"("p_component_id" "uuid", "p_content" "jsonb", "p_plain_text" "text", "p_current_version" integer, "p_user_id" "uuid", "p_restored_from_version" integer) OWNER TO "postgres";
+
+
+ALTER TABLE "public"."script_component_versions" ENABLE ROW LEVEL SECURITY;
+
+
+-- History is visible exactly when the component itself is visible
+CREATE POLICY "Users can view history of visible components" ON "public"."script_component_versions" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "public"."script_components" "sc"
+  WHERE ("sc"."component_id" = "script_component_versions"."component_id"))));
+
+
+GRANT SELECT ON TABLE "public"."script_component_versions" TO "anon";
+GRANT SELECT ON TABLE "public"."script_component_versions" TO "authenticated";
+GRANT ALL ON TABLE "public"."script_component_versions" TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."record_initial_component_version"() TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."update_script_component_with_lock"("p_component_id" "uuid", "p_content" "jsonb", "p_plain_text" "text", "p_current_version" integer, "p_user_id" "uuid", "p_restored_from_version" integer) TO "anon";
+GRANT ALL ON FUNCTION "public"."update_script_component_with_lock"("p_component_id" "uuid", "p_content" "jsonb", "p_plain_text" "text", "p_current_version" integer, "p_user_id" "uuid", "p_restored_from_version" integer) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."update_script_component_with_lock"("p_component_id" "uuid", "p_content" "jsonb", "p_plain_text" "text", "p_current_version" integer, "p_user_id" "uuid", "p_restored_from_version" integer) TO "service_role";
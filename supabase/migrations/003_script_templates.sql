@@ -0,0 +1,186 @@
+-- Script duplication and templates
+--
+-- Product walkthrough scripts reuse the same component skeleton. A template
+-- is an ordinary video_scripts row flagged is_template; it is not attached to
+-- a video (video_id is only required for real scripts) and its components may
+-- contain {{placeholder}} tokens such as {{product_name}}.
+--
+-- duplicate_video_script copies a script and its live components in one
+-- transaction, filling placeholders from a jsonb object of variables.
+-- create_script_from_template is the same copy restricted to templates.
+
+ALTER TABLE "public"."video_scripts"
+    ADD COLUMN IF NOT EXISTS "is_template" boolean DEFAULT false NOT NULL,
+    ADD COLUMN IF NOT EXISTS "source_script_id" "uuid";
+
+
+ALTER TABLE "public"."video_scripts"
+    ALTER COLUMN "video_id" DROP NOT NULL;
+
+
+ALTER TABLE ONLY "public"."video_scripts"
+    ADD CONSTRAINT "video_scripts_video_required_unless_template" CHECK (("is_template" OR ("video_id" IS NOT NULL)));
+
+
+ALTER TABLE ONLY "public"."video_scripts"
+    ADD CONSTRAINT "video_scripts_source_script_id_fkey" FOREIGN KEY ("source_script_id") REFERENCES "public"."video_scripts"("script_id") ON DELETE SET NULL;
+
+
+CREATE INDEX "idx_video_scripts_templates" ON "public"."video_scripts" USING "btree" ("title") WHERE ("is_template" = true);
+
+
+-- Template components have no video/project to derive visibility from
+CREATE POLICY "Users can view template components" ON "public"."script_components" FOR SELECT USING ((("deleted_at" IS NULL) AND (EXISTS ( SELECT 1
+   FROM "public"."video_scripts" "vs"
+  WHERE (("vs"."script_id" = "script_components"."script_id") AND ("vs"."is_template" = true))))));
+
+
+-- Replace {{name}} tokens with p_variables->>'name'. With p_escape_json the
+-- value is JSON-escaped first, so it can be substituted inside serialized
+-- jsonb without breaking the document. Unknown tokens are left as-is.
+CREATE OR REPLACE FUNCTION "public"."fill_template_placeholders"("p_text" "text", "p_variables" "jsonb", "p_escape_json" boolean DEFAULT false) RETURNS "text"
+    LANGUAGE "plpgsql" IMMUTABLE
+    AS $$
+DECLARE
+    v_result TEXT := p_text;
+    v_key TEXT;
+    v_value TEXT;
+    v_escaped TEXT;
+BEGIN
+    IF p_text IS NULL OR p_variables IS NULL OR jsonb_typeof(p_variables) <> 'object' THEN
+        RETURN p_text;
+    END IF;
+
+    FOR v_key, v_value IN SELECT key, value FROM jsonb_each_text(p_variables) LOOP
+        IF p_escape_json THEN
+            -- to_jsonb(text)::text is the quoted JSON string; drop the quotes
+            v_escaped := to_jsonb(COALESCE(v_value, ''))::text;
+            v_value := substr(v_escaped, 2, length(v_escaped) - 2);
+        END IF;
+
+        v_result := replace(v_result, '{{' || v_key || '}}', COALESCE(v_value, ''));
+    END LOOP;
+
+    RETURN v_result;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."fill_template_placeholders"("p_text" "text", "p_variables" "jsonb", "p_escape_json" boolean) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."duplicate_video_script"("p_source_script_id" "uuid", "p_target_video_id" "uuid", "p_title" "text" DEFAULT NULL, "p_description" "text" DEFAULT NULL, "p_is_template" boolean DEFAULT false, "p_variables" "jsonb" DEFAULT '{}'::"jsonb", "p_user_id" "uuid" DEFAULT NULL) RETURNS SETOF "public"."video_scripts"
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+    v_source video_scripts%ROWTYPE;
+    v_script video_scripts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_source
+    FROM video_scripts
+    WHERE script_id = p_source_script_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Script not found: %', p_source_script_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_target_video_id IS NULL AND NOT p_is_template THEN
+        RAISE EXCEPTION 'Target video ID is required unless creating a template' USING ERRCODE = '22004';
+    END IF;
+
+    BEGIN
+        INSERT INTO video_scripts (
+            video_id,
+            title,
+            description,
+            target_word_count,
+            script_status,
+            is_template,
+            source_script_id,
+            last_edited_by,
+            last_edited_at
+        ) VALUES (
+            p_target_video_id,
+            COALESCE(NULLIF(btrim(p_title), ''), fill_template_placeholders(v_source.title, p_variables)),
+            COALESCE(NULLIF(btrim(p_description), ''), fill_template_placeholders(v_source.description, p_variables)),
+            v_source.target_word_count,
+            'draft',
+            p_is_template,
+            v_source.script_id,
+            p_user_id,
+            NOW()
+        )
+        RETURNING * INTO v_script;
+    EXCEPTION WHEN unique_violation THEN
+        RAISE EXCEPTION 'Video % already has a script', p_target_video_id USING ERRCODE = '23505';
+    END;
+
+    -- Live components only, renumbered with even gaps in their original order.
+    -- content_plain is recomputed by sync_content_plain; version starts at 1
+    INSERT INTO script_components (
+        script_id,
+        position,
+        title,
+        content_tiptap,
+        content_plain,
+        component_type,
+        component_status,
+        last_edited_by,
+        last_edited_at
+    )
+    SELECT
+        v_script.script_id,
+        ROW_NUMBER() OVER (ORDER BY sc.position) * 1000.0,
+        fill_template_placeholders(sc.title, p_variables),
+        fill_template_placeholders(sc.content_tiptap::text, p_variables, true)::jsonb,
+        fill_template_placeholders(sc.content_plain, p_variables),
+        sc.component_type,
+        'created',
+        p_user_id,
+        NOW()
+    FROM script_components sc
+    WHERE sc.script_id = p_source_script_id
+      AND sc.deleted_at IS NULL;
+
+    RETURN NEXT v_script;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."duplicate_video_script"("p_source_script_id" "uuid", "p_target_video_id" "uuid", "p_title" "text", "p_description" "text", "p_is_template" boolean, "p_variables" "jsonb", "p_user_id" "uuid") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."create_script_from_template"("p_template_id" "uuid", "p_video_id" "uuid", "p_variables" "jsonb" DEFAULT '{}'::"jsonb", "p_title" "text" DEFAULT NULL, "p_user_id" "uuid" DEFAULT NULL) RETURNS SETOF "public"."video_scripts"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM video_scripts WHERE script_id = p_template_id AND is_template = true) THEN
+        RAISE EXCEPTION 'Template not found: %', p_template_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_video_id IS NULL THEN
+        RAISE EXCEPTION 'Video ID is required' USING ERRCODE = '22004';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM duplicate_video_script(p_template_id, p_video_id, p_title, NULL, false, p_variables, p_user_id);
+END;
+$$;
+
+
+ALTER FUNCTION "public"."create_script_from_template"("p_template_id" "uuid", "p_video_id" "uuid", "p_variables" "jsonb", "p_title" "text", "p_user_id" "uuid") OWNER TO "postgres";
+
+
+GRANT ALL ON FUNCTION "public"."fill_template_placeholders"("p_text" "text", "p_variables" "jsonb", "p_escape_json" boolean) TO "anon";
+GRANT ALL ON FUNCTION "public"."fill_template_placeholders"("p_text" "text", "p_variables" "jsonb", "p_escape_json" boolean) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."fill_template_placeholders"("p_text" "text", "p_variables" "jsonb", "p_escape_json" boolean) TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."duplicate_video_script"("p_source_script_id" "uuid", "p_target_video_id" "uuid", "p_title" "text", "p_description" "text", "p_is_template" boolean, "p_variables" "jsonb", "p_user_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."duplicate_video_script"("p_source_script_id" "uuid", "p_target_video_id" "uuid", "p_title" "text", "p_description" "text", "p_is_template" boolean, "p_variables" "jsonb", "p_user_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."duplicate_video_script"("p_source_script_id" "uuid", "p_target_video_id" "uuid", "p_title" "text", "p_description" "text", "p_is_template" boolean, "p_variables" "jsonb", "p_user_id" "uuid") TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."create_script_from_template"("p_template_id" "uuid", "p_video_id" "uuid", "p_variables" "jsonb", "p_title" "text", "p_user_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."create_script_from_template"("p_template_id" "uuid", "p_video_id" "uuid", "p_variables" "jsonb", "p_title" "text", "p_user_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."create_script_from_template"("p_template_id" "uuid", "p_video_id" "uuid", "p_variables" "jsonb", "p_title" "text", "p_user_id" "uuid") TO "service_role";
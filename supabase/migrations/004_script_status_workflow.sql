@@ -0,0 +1,302 @@
+-- Script status workflow
+--
+-- video_scripts.script_status was free text. It is now a state machine:
+--
+--   draft → in_editing → client_review → approved → published
+--
+-- plus the backward moves listed in script_status_transitions (which must
+-- match SCRIPT_STATUS_TRANSITIONS in src/lib/workflow/scriptStatusWorkflow.ts).
+-- transition_script_status is the only way to change the status: it checks
+-- the rule and the caller's role, updates the script and appends to
+-- script_status_history in one transaction. A trigger rejects any other
+-- change to script_status, and new scripts always start as draft.
+
+-- Normalise legacy free-text values before constraining the column
+UPDATE "public"."video_scripts"
+SET "script_status" = 'draft'
+WHERE "script_status" IS NULL
+   OR "script_status" NOT IN ('draft', 'in_editing', 'client_review', 'approved', 'published');
+
+
+ALTER TABLE "public"."video_scripts"
+    ALTER COLUMN "script_status" SET NOT NULL;
+
+
+ALTER TABLE ONLY "public"."video_scripts"
+    ADD CONSTRAINT "video_scripts_status_valid" CHECK (("script_status" = ANY (ARRAY['draft'::"text", 'in_editing'::"text", 'client_review'::"text", 'approved'::"text", 'published'::"text"])));
+
+
+CREATE TABLE IF NOT EXISTS "public"."script_status_transitions" (
+    "from_status" "text" NOT NULL,
+    "to_status" "text" NOT NULL,
+    "allowed_roles" "text"[] NOT NULL,
+    "requires_reason" boolean DEFAULT false NOT NULL
+);
+
+
+ALTER TABLE "public"."script_status_transitions" OWNER TO "postgres";
+
+
+ALTER TABLE ONLY "public"."script_status_transitions"
+    ADD CONSTRAINT "script_status_transitions_pkey" PRIMARY KEY ("from_status", "to_status");
+
+
+INSERT INTO "public"."script_status_transitions" ("from_status", "to_status", "allowed_roles", "requires_reason") VALUES
+    ('draft', 'in_editing', ARRAY['admin', 'internal', 'freelancer'], false),
+    ('in_editing', 'draft', ARRAY['admin', 'internal', 'freelancer'], false),
+    ('in_editing', 'client_review', ARRAY['admin', 'internal'], false),
+    ('client_review', 'in_editing', ARRAY['admin', 'internal', 'client'], true),
+    ('client_review', 'approved', ARRAY['admin', 'client'], false),
+    ('approved', 'in_editing', ARRAY['admin', 'internal'], true),
+    ('approved', 'published', ARRAY['admin', 'internal'], false),
+    ('published', 'in_editing', ARRAY['admin'], true)
+ON CONFLICT ("from_status", "to_status") DO NOTHING;
+
+
+CREATE TABLE IF NOT EXISTS "public"."script_status_history" (
+    "history_id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "script_id" "uuid" NOT NULL,
+    "from_status" "text" NOT NULL,
+    "to_status" "text" NOT NULL,
+    "changed_by" "uuid",
+    "changed_by_role" "text",
+    "reason" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+
+ALTER TABLE "public"."script_status_history" OWNER TO "postgres";
+
+
+ALTER TABLE ONLY "public"."script_status_history"
+    ADD CONSTRAINT "script_status_history_pkey" PRIMARY KEY ("history_id");
+
+
+ALTER TABLE ONLY "public"."script_status_history"
+    ADD CONSTRAINT "script_status_history_script_id_fkey" FOREIGN KEY ("script_id") REFERENCES "public"."video_scripts"("script_id") ON DELETE CASCADE;
+
+
+ALTER TABLE ONLY "public"."script_status_history"
+    ADD CONSTRAINT "script_status_history_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "auth"."users"("id");
+
+
+CREATE INDEX "idx_script_status_history_script" ON "public"."script_status_history" USING "btree" ("script_id", "created_at" DESC);
+
+
+-- Role the calling user acts with in a project, resolved like the BFF's
+-- getEffectiveRole: a global admin is admin everywhere, everyone else has the
+-- role of their active project membership. Non-members get NULL. Always
+-- resolved for auth.uid(), so nobody can look up another user's role.
+CREATE OR REPLACE FUNCTION "public"."get_effective_user_role"("p_project_id" "uuid") RETURNS "text"
+    LANGUAGE "plpgsql" STABLE SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_role TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Global role: highest-privilege active grant, falling back to the profile
+    SELECT role_type::TEXT INTO v_role
+    FROM user_roles
+    WHERE user_id = v_user_id
+      AND is_active = true
+      AND (expires_at IS NULL OR expires_at > NOW())
+    ORDER BY
+        CASE role_type
+            WHEN 'admin' THEN 1
+            WHEN 'internal' THEN 2
+            WHEN 'freelancer' THEN 3
+            WHEN 'client' THEN 4
+            ELSE 5
+        END
+    LIMIT 1;
+
+    IF v_role IS NULL THEN
+        SELECT role INTO v_role
+        FROM user_profiles
+        WHERE user_id = v_user_id;
+    END IF;
+
+    IF v_role = 'admin' THEN
+        RETURN v_role;
+    END IF;
+
+    SELECT pm.role_name INTO v_role
+    FROM project_members pm
+    WHERE pm.project_id = p_project_id
+      AND pm.user_id = v_user_id
+      AND pm.status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN v_role;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."get_effective_user_role"("p_project_id" "uuid") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."enforce_script_status_workflow"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+    -- transition_script_status sets this flag for the duration of its own update
+    IF COALESCE(current_setting('app.script_status_transition', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.script_status IS DISTINCT FROM 'draft' THEN
+            RAISE EXCEPTION 'New scripts must start as draft' USING ERRCODE = '23514';
+        END IF;
+    ELSIF NEW.script_status IS DISTINCT FROM OLD.script_status THEN
+        RAISE EXCEPTION 'script_status can only be changed through transition_script_status' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."enforce_script_status_workflow"() OWNER TO "postgres";
+
+
+CREATE OR REPLACE TRIGGER "enforce_script_status_workflow_trigger" BEFORE INSERT OR UPDATE OF "script_status" ON "public"."video_scripts" FOR EACH ROW EXECUTE FUNCTION "public"."enforce_script_status_workflow"();
+
+
+CREATE OR REPLACE FUNCTION "public"."transition_script_status"("p_script_id" "uuid", "p_to_status" "text", "p_reason" "text" DEFAULT NULL) RETURNS TABLE("success" boolean, "previous_status" "text", "new_status" "text", "error_message" "text")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_role TEXT;
+    v_project_id UUID;
+    v_current_status TEXT;
+    v_rule script_status_transitions%ROWTYPE;
+BEGIN
+    IF p_script_id IS NULL OR p_to_status IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, 'Script ID and target status are required'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock the script so concurrent transitions are applied one at a time
+    SELECT vs.script_status, v.project_id INTO v_current_status, v_project_id
+    FROM video_scripts vs
+    JOIN videos v ON v.video_id = vs.video_id
+    WHERE vs.script_id = p_script_id
+    FOR UPDATE OF vs;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, 'Script not found'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Non-members cannot see the script, so answer as if it did not exist
+    v_role := get_effective_user_role(v_project_id);
+
+    IF v_role IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, 'Script not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_rule
+    FROM script_status_transitions
+    WHERE from_status = v_current_status
+      AND to_status = p_to_status;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, v_current_status, v_current_status,
+            format('Cannot move a script from %s to %s', v_current_status, p_to_status);
+        RETURN;
+    END IF;
+
+    IF NOT (v_role = ANY (v_rule.allowed_roles)) THEN
+        RETURN QUERY SELECT FALSE, v_current_status, v_current_status,
+            format('Role %s cannot move a script from %s to %s', v_role, v_current_status, p_to_status);
+        RETURN;
+    END IF;
+
+    IF v_rule.requires_reason AND NULLIF(btrim(p_reason), '') IS NULL THEN
+        RETURN QUERY SELECT FALSE, v_current_status, v_current_status,
+            format('A reason is required to move a script from %s to %s', v_current_status, p_to_status);
+        RETURN;
+    END IF;
+
+    PERFORM set_config('app.script_status_transition', 'on', true);
+
+    UPDATE video_scripts
+    SET
+        script_status = p_to_status,
+        last_edited_by = v_user_id,
+        last_edited_at = NOW()
+    WHERE script_id = p_script_id;
+
+    PERFORM set_config('app.script_status_transition', 'off', true);
+
+    INSERT INTO script_status_history (
+        script_id,
+        from_status,
+        to_status,
+        changed_by,
+        changed_by_role,
+        reason
+    ) VALUES (
+        p_script_id,
+        v_current_status,
+        p_to_status,
+        v_user_id,
+        v_role,
+        NULLIF(btrim(p_reason), '')
+    );
+
+    RETURN QUERY SELECT TRUE, v_current_status, p_to_status, NULL::TEXT;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."transition_script_status"("p_script_id" "uuid", "p_to_status" "text", "p_reason" "text") OWNER TO "postgres";
+
+
+ALTER TABLE "public"."script_status_transitions" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."script_status_history" ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "Anyone can read the status workflow" ON "public"."script_status_transitions" FOR SELECT USING (true);
+
+
+-- The audit trail is visible exactly when the script is visible; it is only
+-- written by transition_script_status
+CREATE POLICY "Users can view status history of visible scripts" ON "public"."script_status_history" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "public"."video_scripts" "vs"
+  WHERE ("vs"."script_id" = "script_status_history"."script_id"))));
+
+
+GRANT SELECT ON TABLE "public"."script_status_transitions" TO "anon";
+GRANT SELECT ON TABLE "public"."script_status_transitions" TO "authenticated";
+GRANT ALL ON TABLE "public"."script_status_transitions" TO "service_role";
+
+
+GRANT SELECT ON TABLE "public"."script_status_history" TO "anon";
+GRANT SELECT ON TABLE "public"."script_status_history" TO "authenticated";
+GRANT ALL ON TABLE "public"."script_status_history" TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."get_effective_user_role"("p_project_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."get_effective_user_role"("p_project_id" "uuid") TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."enforce_script_status_workflow"() TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."transition_script_status"("p_script_id" "uuid", "p_to_status" "text", "p_reason" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."transition_script_status"("p_script_id" "uuid", "p_to_status" "text", "p_reason" "text") TO "service_role";
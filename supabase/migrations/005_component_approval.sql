@@ -0,0 +1,259 @@
+-- Per-component approval workflow
+--
+-- component_status already allowed created / in_edit / approved, but nothing
+-- set it. set_component_status changes it with a role check (the rules must
+-- match COMPONENT_STATUS_TRANSITIONS in
+-- src/lib/workflow/componentApprovalWorkflow.ts), records the change in
+-- component_status_history and rolls the script status up:
+--
+--   * every live component approved while the script is in client_review
+--     → the script becomes approved
+--   * a component of an approved script is unapproved
+--     → the script goes back to in_editing with the unapproval reason
+--
+-- Approved components are locked: the trigger below rejects content edits,
+-- soft deletes and moves until the component is unapproved (with a reason),
+-- and rejects any change to or from "approved" that bypasses the function.
+
+CREATE TABLE IF NOT EXISTS "public"."component_status_history" (
+    "history_id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "component_id" "uuid" NOT NULL,
+    "script_id" "uuid" NOT NULL,
+    "from_status" "text" NOT NULL,
+    "to_status" "text" NOT NULL,
+    "component_version" integer NOT NULL,
+    "changed_by" "uuid",
+    "changed_by_role" "text",
+    "reason" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+
+ALTER TABLE "public"."component_status_history" OWNER TO "postgres";
+
+
+ALTER TABLE ONLY "public"."component_status_history"
+    ADD CONSTRAINT "component_status_history_pkey" PRIMARY KEY ("history_id");
+
+
+ALTER TABLE ONLY "public"."component_status_history"
+    ADD CONSTRAINT "component_status_history_component_id_fkey" FOREIGN KEY ("component_id") REFERENCES "public"."script_components"("component_id") ON DELETE CASCADE;
+
+
+ALTER TABLE ONLY "public"."component_status_history"
+    ADD CONSTRAINT "component_status_history_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "auth"."users"("id");
+
+
+CREATE INDEX "idx_component_status_history_component" ON "public"."component_status_history" USING "btree" ("component_id", "created_at" DESC);
+
+
+CREATE OR REPLACE FUNCTION "public"."enforce_component_approval_lock"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+    -- set_component_status sets this flag for the duration of its own update
+    IF COALESCE(current_setting('app.component_status_change', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.component_status = 'approved' THEN
+            RAISE EXCEPTION 'New components cannot be created as approved' USING ERRCODE = '42501';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF (OLD.component_status = 'approved') <> (NEW.component_status = 'approved') THEN
+        RAISE EXCEPTION 'Component approval can only be changed through set_component_status' USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.component_status = 'approved' AND (
+        NEW.content_tiptap IS DISTINCT FROM OLD.content_tiptap
+        OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+        OR NEW.script_id IS DISTINCT FROM OLD.script_id
+    ) THEN
+        RAISE EXCEPTION 'Component % is approved; unapprove it before editing', OLD.component_id USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."enforce_component_approval_lock"() OWNER TO "postgres";
+
+
+CREATE OR REPLACE TRIGGER "enforce_component_approval_lock_trigger" BEFORE INSERT OR UPDATE ON "public"."script_components" FOR EACH ROW EXECUTE FUNCTION "public"."enforce_component_approval_lock"();
+
+
+CREATE OR REPLACE FUNCTION "public"."set_component_status"("p_component_id" "uuid", "p_status" "text", "p_reason" "text" DEFAULT NULL, "p_expected_version" integer DEFAULT NULL) RETURNS TABLE("success" boolean, "component_status" "text", "script_status" "text", "error_message" "text")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_role TEXT;
+    v_component script_components%ROWTYPE;
+    v_script_status TEXT;
+    v_project_id UUID;
+    v_new_script_status TEXT;
+    v_allowed_roles TEXT[];
+    v_requires_reason BOOLEAN := false;
+    v_reason TEXT := NULLIF(btrim(p_reason), '');
+BEGIN
+    IF p_component_id IS NULL OR p_status IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, 'Component ID and status are required'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock the component; its script is locked too so roll-ups do not race
+    SELECT * INTO v_component
+    FROM script_components sc
+    WHERE sc.component_id = p_component_id
+      AND sc.deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, 'Component not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT vs.script_status, v.project_id INTO v_script_status, v_project_id
+    FROM video_scripts vs
+    JOIN videos v ON v.video_id = vs.video_id
+    WHERE vs.script_id = v_component.script_id
+    FOR UPDATE OF vs;
+
+    -- Non-members cannot see the component, so answer as if it did not exist
+    v_role := get_effective_user_role(v_project_id);
+
+    IF v_role IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, 'Component not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND v_component.version <> p_expected_version THEN
+        RETURN QUERY SELECT FALSE, v_component.component_status, v_script_status,
+            format('Component changed since it was reviewed: expected version %s, got %s', p_expected_version, v_component.version);
+        RETURN;
+    END IF;
+
+    IF v_script_status = 'published' THEN
+        RETURN QUERY SELECT FALSE, v_component.component_status, v_script_status,
+            'Components of a published script cannot change status'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Transition rules (see COMPONENT_STATUS_TRANSITIONS)
+    CASE
+        WHEN v_component.component_status = 'created' AND p_status = 'in_edit' THEN
+            v_allowed_roles := ARRAY['admin', 'internal', 'freelancer'];
+        WHEN v_component.component_status IN ('created', 'in_edit') AND p_status = 'approved' THEN
+            v_allowed_roles := ARRAY['admin', 'client'];
+        WHEN v_component.component_status = 'approved' AND p_status = 'in_edit' THEN
+            v_allowed_roles := ARRAY['admin', 'internal', 'client'];
+            v_requires_reason := true;
+        ELSE
+            RETURN QUERY SELECT FALSE, v_component.component_status, v_script_status,
+                format('Cannot change a component from %s to %s', v_component.component_status, p_status);
+            RETURN;
+    END CASE;
+
+    IF NOT (v_role = ANY (v_allowed_roles)) THEN
+        RETURN QUERY SELECT FALSE, v_component.component_status, v_script_status,
+            format('Role %s cannot change a component from %s to %s', v_role, v_component.component_status, p_status);
+        RETURN;
+    END IF;
+
+    IF v_requires_reason AND v_reason IS NULL THEN
+        RETURN QUERY SELECT FALSE, v_component.component_status, v_script_status,
+            'A reason is required to unapprove a component'::TEXT;
+        RETURN;
+    END IF;
+
+    PERFORM set_config('app.component_status_change', 'on', true);
+
+    UPDATE script_components sc
+    SET component_status = p_status
+    WHERE sc.component_id = p_component_id;
+
+    PERFORM set_config('app.component_status_change', 'off', true);
+
+    INSERT INTO component_status_history (
+        component_id,
+        script_id,
+        from_status,
+        to_status,
+        component_version,
+        changed_by,
+        changed_by_role,
+        reason
+    ) VALUES (
+        p_component_id,
+        v_component.script_id,
+        v_component.component_status,
+        p_status,
+        v_component.version,
+        v_user_id,
+        v_role,
+        v_reason
+    );
+
+    -- Roll the script status up from its components
+    IF p_status = 'approved' AND v_script_status = 'client_review' AND NOT EXISTS (
+        SELECT 1 FROM script_components sc
+        WHERE sc.script_id = v_component.script_id
+          AND sc.deleted_at IS NULL
+          AND sc.component_status <> 'approved'
+    ) THEN
+        v_new_script_status := 'approved';
+        v_reason := 'All components approved';
+    ELSIF v_component.component_status = 'approved' AND v_script_status = 'approved' THEN
+        v_new_script_status := 'in_editing';
+        v_reason := 'Component unapproved: ' || v_reason;
+    END IF;
+
+    IF v_new_script_status IS NOT NULL THEN
+        PERFORM set_config('app.script_status_transition', 'on', true);
+
+        UPDATE video_scripts vs
+        SET
+            script_status = v_new_script_status,
+            last_edited_by = v_user_id,
+            last_edited_at = NOW()
+        WHERE vs.script_id = v_component.script_id;
+
+        PERFORM set_config('app.script_status_transition', 'off', true);
+
+        INSERT INTO script_status_history (script_id, from_status, to_status, changed_by, changed_by_role, reason)
+        VALUES (v_component.script_id, v_script_status, v_new_script_status, v_user_id, v_role, v_reason);
+
+        v_script_status := v_new_script_status;
+    END IF;
+
+    RETURN QUERY SELECT TRUE, p_status, v_script_status, NULL::TEXT;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."set_component_status"("p_component_id" "uuid", "p_status" "text", "p_reason" "text", "p_expected_version" integer) OWNER TO "postgres";
+
+
+ALTER TABLE "public"."component_status_history" ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "Users can view status history of visible components" ON "public"."component_status_history" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "public"."script_components" "sc"
+  WHERE ("sc"."component_id" = "component_status_history"."component_id"))));
+
+
+GRANT SELECT ON TABLE "public"."component_status_history" TO "anon";
+GRANT SELECT ON TABLE "public"."component_status_history" TO "authenticated";
+GRANT ALL ON TABLE "public"."component_status_history" TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."enforce_component_approval_lock"() TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."set_component_status"("p_component_id" "uuid", "p_status" "text", "p_reason" "text", "p_expected_version" integer) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."set_component_status"("p_component_id" "uuid", "p_status" "text", "p_reason" "text", "p_expected_version" integer) TO "service_role";
@@ -0,0 +1,107 @@
+-- Full-text search across scripts and components
+--
+-- Stored tsvector columns (English configuration) over
+-- script_components.content_plain and video_scripts.title, each with a GIN
+-- index. search_scripts runs a web-style query (quoted phrases, OR, -word)
+-- against both and returns one row per matching component or script title,
+-- ranked, with a ts_headline snippet and the component's position and
+-- 1-based index in its script so the editor can jump to it.
+--
+-- Snippets mark matches with <mark>…</mark>. Clients must split on those
+-- markers and render text nodes, never inject the snippet as HTML.
+--
+-- SECURITY INVOKER: results are limited by the caller's RLS policies.
+
+ALTER TABLE "public"."script_components"
+    ADD COLUMN IF NOT EXISTS "search_vector" "tsvector" GENERATED ALWAYS AS ("to_tsvector"('english'::"regconfig", COALESCE("content_plain", ''::"text"))) STORED;
+
+
+ALTER TABLE "public"."video_scripts"
+    ADD COLUMN IF NOT EXISTS "title_search_vector" "tsvector" GENERATED ALWAYS AS ("to_tsvector"('english'::"regconfig", COALESCE("title", ''::"text"))) STORED;
+
+
+CREATE INDEX IF NOT EXISTS "idx_script_components_search" ON "public"."script_components" USING "gin" ("search_vector") WHERE ("deleted_at" IS NULL);
+
+
+CREATE INDEX IF NOT EXISTS "idx_video_scripts_title_search" ON "public"."video_scripts" USING "gin" ("title_search_vector");
+
+
+CREATE OR REPLACE FUNCTION "public"."search_scripts"("p_query" "text", "p_project_id" "uuid" DEFAULT NULL, "p_video_id" "uuid" DEFAULT NULL, "p_script_statuses" "text"[] DEFAULT NULL, "p_include_templates" boolean DEFAULT false, "p_limit" integer DEFAULT 20, "p_offset" integer DEFAULT 0) RETURNS TABLE("script_id" "uuid", "script_title" "text", "script_status" "text", "match_type" "text", "component_id" "uuid", "component_position" double precision, "component_index" integer, "rank" real, "snippet" "text")
+    LANGUAGE "sql" STABLE
+    AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS tsq
+    ),
+    scoped_scripts AS (
+        SELECT vs.script_id, vs.title, vs.script_status, vs.title_search_vector
+        FROM video_scripts vs
+        LEFT JOIN videos v ON v.video_id = vs.video_id
+        WHERE (p_project_id IS NULL OR v.project_id = p_project_id)
+          AND (p_video_id IS NULL OR vs.video_id = p_video_id)
+          AND (p_script_statuses IS NULL OR vs.script_status = ANY (p_script_statuses))
+          AND (p_include_templates OR NOT vs.is_template)
+    ),
+    component_hits AS (
+        SELECT
+            sc.script_id,
+            'component'::TEXT AS match_type,
+            sc.component_id,
+            sc.position AS component_position,
+            (
+                SELECT count(*)::INTEGER
+                FROM script_components other
+                WHERE other.script_id = sc.script_id
+                  AND other.deleted_at IS NULL
+                  AND other.position <= sc.position
+            ) AS component_index,
+            ts_rank_cd(sc.search_vector, query.tsq) AS rank,
+            ts_headline('english', sc.content_plain, query.tsq,
+                'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=25, MaxFragments=2, FragmentDelimiter=" … "') AS snippet
+        FROM script_components sc
+        JOIN scoped_scripts s ON s.script_id = sc.script_id
+        CROSS JOIN query
+        WHERE sc.deleted_at IS NULL
+          AND sc.search_vector @@ query.tsq
+    ),
+    title_hits AS (
+        SELECT
+            s.script_id,
+            'title'::TEXT AS match_type,
+            NULL::UUID AS component_id,
+            NULL::DOUBLE PRECISION AS component_position,
+            NULL::INTEGER AS component_index,
+            -- A title match is a stronger signal than a mention in the body
+            (ts_rank_cd(s.title_search_vector, query.tsq) * 2)::REAL AS rank,
+            ts_headline('english', s.title, query.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet
+        FROM scoped_scripts s
+        CROSS JOIN query
+        WHERE s.title_search_vector @@ query.tsq
+    )
+    SELECT
+        hits.script_id,
+        s.title AS script_title,
+        s.script_status,
+        hits.match_type,
+        hits.component_id,
+        hits.component_position,
+        hits.component_index,
+        hits.rank,
+        hits.snippet
+    FROM (
+        SELECT * FROM component_hits
+        UNION ALL
+        SELECT * FROM title_hits
+    ) hits
+    JOIN scoped_scripts s ON s.script_id = hits.script_id
+    ORDER BY hits.rank DESC, s.title, hits.component_index NULLS FIRST
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+
+ALTER FUNCTION "public"."search_scripts"("p_query" "text", "p_project_id" "uuid", "p_video_id" "uuid", "p_script_statuses" "text"[], "p_include_templates" boolean, "p_limit" integer, "p_offset" integer) OWNER TO "postgres";
+
+
+GRANT ALL ON FUNCTION "public"."search_scripts"("p_query" "text", "p_project_id" "uuid", "p_video_id" "uuid", "p_script_statuses" "text"[], "p_include_templates" boolean, "p_limit" integer, "p_offset" integer) TO "anon";
+GRANT ALL ON FUNCTION "public"."search_scripts"("p_query" "text", "p_project_id" "uuid", "p_video_id" "uuid", "p_script_statuses" "text"[], "p_include_templates" boolean, "p_limit" integer, "p_offset" integer) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."search_scripts"("p_query" "text", "p_project_id" "uuid", "p_video_id" "uuid", "p_script_statuses" "text"[], "p_include_templates" boolean, "p_limit" integer, "p_offset" integer) TO "service_role";
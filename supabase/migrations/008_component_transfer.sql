@@ -0,0 +1,256 @@
+-- Move or copy components between scripts
+--
+-- transfer_component moves a component to another script (same
+-- component_id, version bumped) or copies it (new component, version 1,
+-- status created). The target position comes from get_insert_position:
+-- after p_after_component_id, or at the end of the target script.
+--
+-- Like update_script_component_with_lock, p_expected_version is the version
+-- the caller last saw; a mismatch returns conflict_detected rather than
+-- moving a wording the caller has not seen.
+--
+-- Every transfer is recorded in component_transfer_audit with a snapshot of
+-- the source row, in the same shape as component_deletion_audit. Approved
+-- components are locked (005_component_approval.sql) and can be copied but
+-- not moved.
+--
+-- The caller needs an editing role in the target script's project, and for a
+-- move in the source project too; copying only needs to be a member of the
+-- source project.
+
+CREATE TABLE IF NOT EXISTS "public"."component_transfer_audit" (
+    "audit_id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "component_id" "uuid" NOT NULL,
+    "new_component_id" "uuid" NOT NULL,
+    "source_script_id" "uuid" NOT NULL,
+    "target_script_id" "uuid" NOT NULL,
+    "transfer_type" "text" NOT NULL,
+    "source_version" integer NOT NULL,
+    "target_position" double precision NOT NULL,
+    "transferred_by" "uuid",
+    "transferred_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "component_snapshot" "jsonb",
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "component_transfer_audit_transfer_type_check" CHECK (("transfer_type" = ANY (ARRAY['move'::"text", 'copy'::"text"])))
+);
+
+
+ALTER TABLE "public"."component_transfer_audit" OWNER TO "postgres";
+
+
+ALTER TABLE ONLY "public"."component_transfer_audit"
+    ADD CONSTRAINT "component_transfer_audit_pkey" PRIMARY KEY ("audit_id");
+
+
+ALTER TABLE ONLY "public"."component_transfer_audit"
+    ADD CONSTRAINT "component_transfer_audit_transferred_by_fkey" FOREIGN KEY ("transferred_by") REFERENCES "auth"."users"("id");
+
+
+CREATE INDEX "idx_component_transfer_audit_component" ON "public"."component_transfer_audit" USING "btree" ("component_id", "transferred_at" DESC);
+
+
+CREATE INDEX "idx_component_transfer_audit_source_script" ON "public"."component_transfer_audit" USING "btree" ("source_script_id", "transferred_at" DESC);
+
+
+CREATE OR REPLACE FUNCTION "public"."transfer_component"("p_component_id" "uuid", "p_target_script_id" "uuid", "p_mode" "text" DEFAULT 'move'::"text", "p_after_component_id" "uuid" DEFAULT NULL, "p_expected_version" integer DEFAULT NULL) RETURNS TABLE("success" boolean, "component_id" "uuid", "target_position" double precision, "new_version" integer, "conflict_detected" boolean, "current_version" integer, "error_message" "text")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_role TEXT;
+    v_project_id UUID;
+    v_component script_components%ROWTYPE;
+    v_after_position DOUBLE PRECISION;
+    v_position DOUBLE PRECISION;
+    v_result_id UUID;
+    v_result_version INTEGER;
+BEGIN
+    IF p_component_id IS NULL OR p_target_script_id IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Component ID and target script ID are required'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_mode NOT IN ('move', 'copy') THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, format('Unknown transfer mode: %s', p_mode);
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_component
+    FROM script_components sc
+    WHERE sc.component_id = p_component_id
+      AND sc.deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Component not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT v.project_id INTO v_project_id
+    FROM video_scripts vs
+    JOIN videos v ON v.video_id = vs.video_id
+    WHERE vs.script_id = v_component.script_id;
+
+    -- Copying reads the source project, moving edits it with the same roles
+    -- that may edit component content. Non-members cannot see the component.
+    v_role := get_effective_user_role(v_project_id);
+
+    IF v_role IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Component not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_mode = 'move' AND NOT (v_role = ANY (ARRAY['admin', 'internal', 'freelancer'])) THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER,
+            format('Role %s cannot move components', v_role);
+        RETURN;
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND v_component.version <> p_expected_version THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, TRUE, v_component.version, 'Version conflict detected'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_mode = 'move' AND v_component.script_id = p_target_script_id THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Component is already in this script'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_mode = 'move' AND v_component.component_status = 'approved' THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Component is approved; unapprove it before moving'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock the target script so concurrent inserts cannot take the same position
+    SELECT v.project_id INTO v_project_id
+    FROM video_scripts vs
+    JOIN videos v ON v.video_id = vs.video_id
+    WHERE vs.script_id = p_target_script_id
+      AND NOT vs.is_template
+    FOR UPDATE OF vs;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Target script not found'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Either mode writes to the target project
+    v_role := get_effective_user_role(v_project_id);
+
+    IF v_role IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Target script not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT (v_role = ANY (ARRAY['admin', 'internal', 'freelancer'])) THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER,
+            format('Role %s cannot %s components into this script', v_role, p_mode);
+        RETURN;
+    END IF;
+
+    IF p_after_component_id IS NOT NULL THEN
+        SELECT sc.position INTO v_after_position
+        FROM script_components sc
+        WHERE sc.component_id = p_after_component_id
+          AND sc.script_id = p_target_script_id
+          AND sc.deleted_at IS NULL;
+
+        IF v_after_position IS NULL THEN
+            RETURN QUERY SELECT FALSE, NULL::UUID, NULL::DOUBLE PRECISION, NULL::INTEGER, FALSE, NULL::INTEGER, 'Target component not found in the target script'::TEXT;
+            RETURN;
+        END IF;
+    ELSE
+        -- Append; soft-deleted rows still hold their positions
+        SELECT COALESCE(MAX(sc.position), 0) INTO v_after_position
+        FROM script_components sc
+        WHERE sc.script_id = p_target_script_id;
+    END IF;
+
+    v_position := get_insert_position(p_target_script_id, v_after_position);
+
+    IF p_mode = 'move' THEN
+        UPDATE script_components sc
+        SET
+            script_id = p_target_script_id,
+            position = v_position,
+            version = sc.version + 1,
+            last_edited_by = v_user_id,
+            last_edited_at = NOW()
+        WHERE sc.component_id = p_component_id
+        RETURNING sc.component_id, sc.version INTO v_result_id, v_result_version;
+
+        -- Keep the history continuous; the wording is unchanged but the script is not
+        INSERT INTO script_component_versions (component_id, script_id, version, content_tiptap, content_plain, edited_by)
+        VALUES (v_result_id, p_target_script_id, v_result_version, v_component.content_tiptap, v_component.content_plain, v_user_id)
+        ON CONFLICT ON CONSTRAINT script_component_versions_component_version_key DO NOTHING;
+    ELSE
+        -- Copies start over: new component, version 1, not approved
+        INSERT INTO script_components (
+            script_id,
+            position,
+            title,
+            content_tiptap,
+            content_plain,
+            component_type,
+            component_status,
+            last_edited_by
+        ) VALUES (
+            p_target_script_id,
+            v_position,
+            v_component.title,
+            v_component.content_tiptap,
+            v_component.content_plain,
+            v_component.component_type,
+            'created',
+            v_user_id
+        )
+        RETURNING script_components.component_id, script_components.version INTO v_result_id, v_result_version;
+    END IF;
+
+    INSERT INTO component_transfer_audit (
+        component_id,
+        new_component_id,
+        source_script_id,
+        target_script_id,
+        transfer_type,
+        source_version,
+        target_position,
+        transferred_by,
+        component_snapshot
+    ) VALUES (
+        p_component_id,
+        v_result_id,
+        v_component.script_id,
+        p_target_script_id,
+        p_mode,
+        v_component.version,
+        v_position,
+        v_user_id,
+        to_jsonb(v_component)
+    );
+
+    RETURN QUERY SELECT TRUE, v_result_id, v_position, v_result_version, FALSE, NULL::INTEGER, NULL::TEXT;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."transfer_component"("p_component_id" "uuid", "p_target_script_id" "uuid", "p_mode" "text", "p_after_component_id" "uuid", "p_expected_version" integer) OWNER TO "postgres";
+
+
+ALTER TABLE "public"."component_transfer_audit" ENABLE ROW LEVEL SECURITY;
+
+
+-- Visible when either end of the transfer is visible
+CREATE POLICY "Users can view transfers of visible components" ON "public"."component_transfer_audit" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "public"."script_components" "sc"
+  WHERE ("sc"."component_id" = ANY (ARRAY["component_transfer_audit"."component_id", "component_transfer_audit"."new_component_id"])))));
+
+
+GRANT SELECT ON TABLE "public"."component_transfer_audit" TO "anon";
+GRANT SELECT ON TABLE "public"."component_transfer_audit" TO "authenticated";
+GRANT ALL ON TABLE "public"."component_transfer_audit" TO "service_role";
+
+
+GRANT ALL ON FUNCTION "public"."transfer_component"("p_component_id" "uuid", "p_target_script_id" "uuid", "p_mode" "text", "p_after_component_id" "uuid", "p_expected_version" integer) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."transfer_component"("p_component_id" "uuid", "p_target_script_id" "uuid", "p_mode" "text", "p_after_component_id" "uuid", "p_expected_version" integer) TO "service_role";
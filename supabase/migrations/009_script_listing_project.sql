@@ -0,0 +1,97 @@
+-- Project of each listed script
+--
+-- list_scripts also returns the project of the script's video, so clients
+-- that mirror script lists offline can answer project-filtered lists
+-- without the database. A function's result columns cannot be changed in
+-- place, so it is dropped and recreated with the same arguments.
+
+DROP FUNCTION IF EXISTS "public"."list_scripts"("p_sort_by" "text", "p_sort_direction" "text", "p_cursor_key" "text", "p_cursor_id" "uuid", "p_limit" integer, "p_video_id" "uuid", "p_project_id" "uuid", "p_statuses" "text"[], "p_last_edited_by" "uuid", "p_updated_from" timestamp with time zone, "p_updated_to" timestamp with time zone);
+
+
+CREATE FUNCTION "public"."list_scripts"("p_sort_by" "text" DEFAULT 'updated_at'::"text", "p_sort_direction" "text" DEFAULT 'desc'::"text", "p_cursor_key" "text" DEFAULT NULL, "p_cursor_id" "uuid" DEFAULT NULL, "p_limit" integer DEFAULT 50, "p_video_id" "uuid" DEFAULT NULL, "p_project_id" "uuid" DEFAULT NULL, "p_statuses" "text"[] DEFAULT NULL, "p_last_edited_by" "uuid" DEFAULT NULL, "p_updated_from" timestamp with time zone DEFAULT NULL, "p_updated_to" timestamp with time zone DEFAULT NULL) RETURNS TABLE("script_id" "uuid", "video_id" "uuid", "project_id" "uuid", "title" "text", "description" "text", "script_status" "text", "word_count" integer, "estimated_duration" integer, "created_at" timestamp with time zone, "updated_at" timestamp with time zone, "last_edited_by" "uuid", "last_edited_at" timestamp with time zone, "sort_key" "text")
+    LANGUAGE "plpgsql" STABLE
+    SET "search_path" TO 'public'
+    AS $_$
+DECLARE
+    v_sort_expr TEXT;
+    v_key_type TEXT;
+    v_direction TEXT;
+    v_comparison TEXT;
+BEGIN
+    -- Sort keys must never be NULL or the row comparison below drops rows
+    CASE p_sort_by
+        WHEN 'updated_at' THEN
+            v_sort_expr := 'COALESCE(vs.updated_at, ''-infinity''::timestamptz)';
+            v_key_type := 'timestamptz';
+        WHEN 'title' THEN
+            v_sort_expr := 'lower(vs.title)';
+            v_key_type := 'text';
+        WHEN 'script_status' THEN
+            -- Same order as SCRIPT_STATUSES in src/lib/workflow/scriptStatusWorkflow.ts
+            v_sort_expr := 'COALESCE(array_position(ARRAY[''draft'', ''in_editing'', ''client_review'', ''approved'', ''published''], vs.script_status), 0)';
+            v_key_type := 'integer';
+        WHEN 'word_count' THEN
+            v_sort_expr := 'COALESCE(vs.word_count, 0)';
+            v_key_type := 'integer';
+        ELSE
+            RAISE EXCEPTION 'Unsupported sort column: %', p_sort_by USING ERRCODE = '22023';
+    END CASE;
+
+    IF lower(p_sort_direction) = 'asc' THEN
+        v_direction := 'ASC';
+        v_comparison := '>';
+    ELSIF lower(p_sort_direction) = 'desc' THEN
+        v_direction := 'DESC';
+        v_comparison := '<';
+    ELSE
+        RAISE EXCEPTION 'Unsupported sort direction: %', p_sort_direction USING ERRCODE = '22023';
+    END IF;
+
+    RETURN QUERY EXECUTE format($sql$
+        SELECT
+            vs.script_id,
+            vs.video_id,
+            v.project_id,
+            vs.title,
+            vs.description,
+            vs.script_status,
+            vs.word_count,
+            vs.estimated_duration,
+            vs.created_at,
+            vs.updated_at,
+            vs.last_edited_by,
+            vs.last_edited_at,
+            (%1$s)::TEXT AS sort_key
+        FROM video_scripts vs
+        LEFT JOIN videos v ON v.video_id = vs.video_id
+        WHERE NOT vs.is_template
+          AND ($1 IS NULL OR vs.video_id = $1)
+          AND ($2 IS NULL OR v.project_id = $2)
+          AND ($3 IS NULL OR vs.script_status = ANY ($3))
+          AND ($4 IS NULL OR vs.last_edited_by = $4)
+          AND ($5 IS NULL OR vs.updated_at >= $5)
+          AND ($6 IS NULL OR vs.updated_at <= $6)
+          AND ($7 IS NULL OR ((%1$s), vs.script_id) %3$s (($7)::%4$s, $8))
+        ORDER BY (%1$s) %2$s, vs.script_id %2$s
+        LIMIT $9
+    $sql$, v_sort_expr, v_direction, v_comparison, v_key_type)
+    USING
+        p_video_id,
+        p_project_id,
+        p_statuses,
+        p_last_edited_by,
+        p_updated_from,
+        p_updated_to,
+        p_cursor_key,
+        p_cursor_id,
+        LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$_$;
+
+
+ALTER FUNCTION "public"."list_scripts"("p_sort_by" "text", "p_sort_direction" "text", "p_cursor_key" "text", "p_cursor_id" "uuid", "p_limit" integer, "p_video_id" "uuid", "p_project_id" "uuid", "p_statuses" "text"[], "p_last_edited_by" "uuid", "p_updated_from" timestamp with time zone, "p_updated_to" timestamp with time zone) OWNER TO "postgres";
+
+
+GRANT ALL ON FUNCTION "public"."list_scripts"("p_sort_by" "text", "p_sort_direction" "text", "p_cursor_key" "text", "p_cursor_id" "uuid", "p_limit" integer, "p_video_id" "uuid", "p_project_id" "uuid", "p_statuses" "text"[], "p_last_edited_by" "uuid", "p_updated_from" timestamp with time zone, "p_updated_to" timestamp with time zone) TO "anon";
+GRANT ALL ON FUNCTION "public"."list_scripts"("p_sort_by" "text", "p_sort_direction" "text", "p_cursor_key" "text", "p_cursor_id" "uuid", "p_limit" integer, "p_video_id" "uuid", "p_project_id" "uuid", "p_statuses" "text"[], "p_last_edited_by" "uuid", "p_updated_from" timestamp with time zone, "p_updated_to" timestamp with time zone) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."list_scripts"("p_sort_by" "text", "p_sort_direction" "text", "p_cursor_key" "text", "p_cursor_id" "uuid", "p_limit" integer, "p_video_id" "uuid", "p_project_id" "uuid", "p_statuses" "text"[], "p_last_edited_by" "uuid", "p_updated_from" timestamp with time zone, "p_updated_to" timestamp with time zone) TO "service_role";
@@ -0,0 +1,26 @@
+-- Applied schema version
+--
+-- /api/version reports the highest migration applied to the database rather
+-- than the highest file shipped with the BFF. The Supabase CLI records each
+-- applied migration in supabase_migrations.schema_migrations, a schema the
+-- API does not expose, so the BFF reads it through this function with its
+-- service-role client. Versions are the numeric prefix of the migration file.
+
+
+CREATE OR REPLACE FUNCTION "public"."get_applied_schema_version"() RETURNS integer
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+    SELECT max(substring(sm.version FROM '^[0-9]+')::integer)
+    FROM supabase_migrations.schema_migrations sm;
+$$;
+
+
+ALTER FUNCTION "public"."get_applied_schema_version"() OWNER TO "postgres";
+
+
+-- Only the BFF may call it
+REVOKE ALL ON FUNCTION "public"."get_applied_schema_version"() FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."get_applied_schema_version"() FROM "anon";
+REVOKE ALL ON FUNCTION "public"."get_applied_schema_version"() FROM "authenticated";
+GRANT ALL ON FUNCTION "public"."get_applied_schema_version"() TO "service_role";
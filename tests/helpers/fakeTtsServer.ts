@@ -0,0 +1,124 @@
+/**
+ * Fake ElevenLabs server for BFF tests
+ *
+ * Implements the upstream endpoints used by the proxy and the readiness probe,
+ * and records every request so tests can assert on the forwarded payload and API key.
+ * A synthesis stream can be made to break or stall after its first chunk, and
+ * streams the proxy abandons before the end are counted.
+ */
+
+// Context7: consulted for http
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface RecordedTtsRequest {
+  method: string;
+  path: string;
+  apiKey?: string;
+  body?: Record<string, unknown>;
+}
+
+// 'break' destroys the connection after the first chunk; 'stall' never sends the rest
+export type StreamFault = 'break' | 'stall';
+
+export interface FakeTtsServer {
+  baseUrl: string;
+  requests: RecordedTtsRequest[];
+  failNext: (status: number) => void;
+  faultNextStream: (fault: StreamFault) => void;
+  // Synthesis streams whose client went away before the last chunk
+  abandonedStreams: () => number;
+  close: () => Promise<void>;
+}
+
+export const FAKE_AUDIO = Buffer.from('ID3-fake-mpeg-audio-frames');
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+});
+
+export async function startFakeTtsServer(expectedApiKey = 'test-elevenlabs-key'): Promise<FakeTtsServer> {
+  const requests: RecordedTtsRequest[] = [];
+  let nextFailure: number | null = null;
+  let nextStreamFault: StreamFault | null = null;
+  let abandoned = 0;
+
+  const server: Server = createServer(async (req, res) => {
+    const raw = await readBody(req);
+    const apiKey = req.headers['xi-api-key'] as string | undefined;
+    requests.push({
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      apiKey,
+      body: raw ? JSON.parse(raw) : undefined,
+    });
+
+    if (nextFailure !== null) {
+      res.writeHead(nextFailure, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ detail: { status: 'provider_failure', api_key: apiKey } }));
+      nextFailure = null;
+      return;
+    }
+
+    if (apiKey !== expectedApiKey) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ detail: { status: 'invalid_api_key' } }));
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/v1/voices') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        voices: [
+          { voice_id: 'voiceAlpha1', name: 'Alpha', category: 'premade', preview_url: 'https://cdn.example/alpha.mp3' },
+          { voice_id: 'voiceBeta2', name: 'Beta', category: 'cloned' },
+        ],
+      }));
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/v1/models') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify([{ model_id: 'eleven_multilingual_v2', can_do_text_to_speech: true }]));
+      return;
+    }
+
+    if (req.method === 'POST' && req.url?.startsWith('/v1/text-to-speech/')) {
+      const fault = nextStreamFault;
+      nextStreamFault = null;
+      res.on('close', () => {
+        if (!res.writableFinished) abandoned += 1;
+      });
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg' });
+      // Two chunks to exercise streaming
+      res.write(FAKE_AUDIO.subarray(0, 8));
+      if (fault === 'break') {
+        setTimeout(() => res.destroy(), 20);
+      } else if (fault !== 'stall') {
+        res.end(FAKE_AUDIO.subarray(8));
+      }
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    failNext: (status: number) => { nextFailure = status; },
+    faultNextStream: (fault: StreamFault) => { nextStreamFault = fault; },
+    abandonedStreams: () => abandoned,
+    close: () => new Promise<void>(resolve => {
+      // Stalled streams would otherwise keep the server open
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * BFF Test Utilities
+ *
+ * Starts an Express app on an ephemeral port and restores the real fetch
+ * (tests/setup.ts stubs fetch globally for the frontend suites).
+ */
+
+// Context7: consulted for vitest
+// Context7: consulted for http
+import { vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type express from 'express';
+import type { SecurityConfig } from '../../src/server/app';
+
+export interface TestServer {
+  baseUrl: string;
+  close: () => Promise<void>;
+}
+
+export function createTestConfig(overrides: Partial<SecurityConfig> = {}): SecurityConfig {
+  return {
+    port: 0,
+    nodeEnv: 'test',
+    corsOrigins: ['http://localhost:5173'],
+    rateLimitMax: 1000,
+    ipRateLimitMax: 10000,
+    rateLimitWindowMs: 60000,
+    rateLimitStore: 'memory',
+    idempotencyStore: 'memory',
+    idempotencyTtlMs: 60000,
+    idempotencyLockTtlMs: 30000,
+    jobStore: 'memory',
+    jobConcurrency: 2,
+    jobTtlMs: 60000,
+    ttsRateLimitMax: 100,
+    ttsRateLimitWindowMs: 60000,
+    readinessTimeoutMs: 500,
+    readinessCacheMs: 0,
+    shutdownDrainMs: 0,
+    elevenlabsApiKey: 'test-elevenlabs-key',
+    elevenlabsBaseUrl: 'http://127.0.0.1:9',
+    elevenlabsModelId: 'eleven_multilingual_v2',
+    ttsMaxCharactersPerRequest: 5000,
+    ttsUserCharacterQuota: 100000,
+    ttsProjectCharacterQuota: 500000,
+    ttsQuotaWindowMs: 86400000,
+    supabaseServiceRoleKey: 'test-service-role-key',
+    supabaseUrl: 'https://test.supabase.co',
+    supabaseJwtSecret: 'test-jwt-secret-with-at-least-32-characters',
+    supabaseJwksUrl: 'https://test.supabase.co/auth/v1/.well-known/jwks.json',
+    versionManifestPath: 'public/version.json',
+    migrationsDir: 'supabase/migrations',
+    ...overrides,
+  };
+}
+
+export async function startTestServer(app: express.Application): Promise<TestServer> {
+  vi.unstubAllGlobals();
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(err => (err ? reject(err) : resolve()));
+      // Don't wait for keep-alive sockets or responses a test left open
+      server.closeAllConnections();
+    }),
+  };
+}
@@ -8,6 +8,8 @@
 
 export class MockRedis {
   private storage: Map<string, any[]> = new Map();
+  private counters: Map<string, { value: number; expiresAt?: number }> = new Map();
+  private values: Map<string, { value: string; expiresAt?: number }> = new Map();
   public status = 'ready';
 
   constructor() {
@@ -84,12 +86,85 @@ export class MockRedis {
     return list.slice(start, stop + 1);
   }
 
+  async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+    const list = this.storage.get(key) || [];
+    this.storage.set(key, stop === -1 ? list.slice(start) : list.slice(start, stop + 1));
+    return 'OK';
+  }
+
   async del(key: string): Promise<number> {
-    const existed = this.storage.has(key);
+    const existed = this.storage.has(key) || this.liveCounter(key) !== undefined || this.liveValue(key) !== undefined;
     this.storage.delete(key);
+    this.counters.delete(key);
+    this.values.delete(key);
     return existed ? 1 : 0;
   }
 
+  // Counter commands (rate-limit store)
+  private liveCounter(key: string) {
+    const counter = this.counters.get(key);
+    if (counter?.expiresAt !== undefined && counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+
+  async incr(key: string): Promise<number> {
+    const counter = this.liveCounter(key) ?? { value: 0 };
+    counter.value += 1;
+    this.counters.set(key, counter);
+    return counter.value;
+  }
+
+  async decr(key: string): Promise<number> {
+    const counter = this.liveCounter(key) ?? { value: 0 };
+    counter.value -= 1;
+    this.counters.set(key, counter);
+    return counter.value;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = this.liveValue(key);
+    if (value !== undefined) return value;
+    const counter = this.liveCounter(key);
+    return counter ? String(counter.value) : null;
+  }
+
+  // String commands (idempotency store) - supports SET key value PX ms [NX]
+  private liveValue(key: string): string | undefined {
+    const entry = this.values.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  }
+
+  async set(key: string, value: string, mode?: 'PX', milliseconds?: number, condition?: 'NX'): Promise<'OK' | null> {
+    if (condition === 'NX' && this.liveValue(key) !== undefined) {
+      return null;
+    }
+    this.values.set(key, {
+      value,
+      expiresAt: mode === 'PX' && milliseconds !== undefined ? Date.now() + milliseconds : undefined
+    });
+    return 'OK';
+  }
+
+  async pexpire(key: string, milliseconds: number): Promise<number> {
+    const counter = this.liveCounter(key);
+    if (!counter) return 0;
+    counter.expiresAt = Date.now() + milliseconds;
+    return 1;
+  }
+
+  async pttl(key: string): Promise<number> {
+    const counter = this.liveCounter(key);
+    if (!counter) return -2;
+    return counter.expiresAt === undefined ? -1 : counter.expiresAt - Date.now();
+  }
+
   async ping(): Promise<string> {
     return 'PONG';
   }
@@ -111,6 +186,8 @@ export class MockRedis {
   // For testing: clear all data
   clearAll(): void {
     this.storage.clear();
+    this.counters.clear();
+    this.values.clear();
     this.storage.set('offline_operations', []);
     this.storage.set('dlq_operations', []);
   }
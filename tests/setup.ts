@@ -54,6 +54,7 @@ vi.mock('@tiptap/starter-kit', () => ({
 // The previous 433-line inline mock was causing memory leaks during test runs.
 // This imports a simplified mock that creates single instances without vi.fn() wrapping.
 import { createYjsMock } from './mocks/yjs.mock';
+import { CLIENT_SCHEMA_VERSION } from '../src/lib/lifecycle/clientLifecycleManager';
 
 // Apply the lightweight Y.js mock
 vi.mock('yjs', () => {
@@ -181,7 +182,7 @@ vi.stubGlobal('fetch', vi.fn(async (url: string) => {
       }),
       json: async () => ({
         version: '1.0.0',
-        schemaVersion: 1,
+        schemaVersion: CLIENT_SCHEMA_VERSION,
         timestamp: new Date().toISOString(),
         build: 'B2-Build'
       })
@@ -0,0 +1,158 @@
+/**
+ * App Offline Editing Tests
+ * Edits made while the database cannot be reached are queued on the device
+ * and shown as typed, instead of failing
+ */
+
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { useState, type ReactNode } from 'react';
+import App from '../../src/App';
+import { ComponentOutbox } from '../../src/lib/database/componentOutbox';
+import { ResilientScriptComponentManager } from '../../src/lib/database/scriptComponentManagerWithResilience';
+import type { ScriptEditorProps } from '../../src/types/editor';
+
+const manager = vi.hoisted(() => ({
+  getProjectIdByCode: vi.fn(),
+  listScripts: vi.fn(),
+  getComponentsByScriptId: vi.fn(),
+  getScriptBudgetTargets: vi.fn(),
+  saveScriptTotals: vi.fn(),
+  updateComponent: vi.fn(),
+  updateComponentWithResolution: vi.fn()
+}));
+
+vi.mock('../../src/lib/database/scriptComponentManager', () => ({
+  ScriptComponentManager: vi.fn(() => manager)
+}));
+
+vi.mock('../../src/hooks/useAuth', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', email: 'writer@example.com' },
+    role: 'admin',
+    loading: false,
+    error: null,
+    signIn: vi.fn(),
+    signUp: vi.fn(),
+    signOut: vi.fn(),
+    clearError: vi.fn()
+  })
+}));
+
+vi.mock('../../src/contexts/AuthContext', () => ({
+  AuthProvider: ({ children }: { children: ReactNode }) => children
+}));
+
+vi.mock('../../src/hooks/useClientLifecycle', () => ({
+  useClientLifecycle: () => ({ state: 'HEALTHY', checkConnection: vi.fn(), forceRefresh: vi.fn() })
+}));
+
+vi.mock('../../src/lib/supabase', () => {
+  const channel = {
+    on: () => channel,
+    subscribe: () => channel,
+    unsubscribe: () => Promise.resolve('ok')
+  };
+  return {
+    getSupabase: vi.fn(() => ({ channel: vi.fn(() => channel) })),
+    roles: { ADMIN: 'admin', INTERNAL: 'internal', FREELANCER: 'freelancer', CLIENT: 'client', VIEWER: 'viewer' }
+  };
+});
+
+// The real editor needs TipTap and collaboration; this one saves a fixed edit
+vi.mock('../../src/components/editor/ScriptEditor', () => ({
+  ScriptEditor: ({ components = [], onComponentUpdate }: ScriptEditorProps) => {
+    const [error, setError] = useState<string | null>(null);
+    const edit = () => {
+      onComponentUpdate?.(components[0].componentId, {
+        content: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Edited offline' }] }] },
+        plainText: 'Edited offline'
+      }).catch((failure: Error) => setError(failure.message));
+    };
+    return (
+      <div>
+        {components.map(component => <p key={component.componentId}>{component.plainText}</p>)}
+        <button type="button" onClick={edit}>Edit first component</button>
+        {error && <p role="alert">{error}</p>}
+      </div>
+    );
+  }
+}));
+
+const NOW = '2026-10-18T09:00:00.000Z';
+
+describe('App offline editing', () => {
+  let watchForChanges: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The workspace's manager is the one that starts watching for changes
+    watchForChanges = vi.spyOn(ResilientScriptComponentManager.prototype, 'watchForChanges');
+    manager.getProjectIdByCode.mockResolvedValue({ projectId: 'project-1' });
+    manager.listScripts.mockResolvedValue({
+      scripts: [{
+        script_id: 'script-1',
+        video_id: 'video-1',
+        title: 'Kitchen walkthrough',
+        description: null,
+        word_count: 2,
+        estimated_duration: 1,
+        script_status: 'draft',
+        created_at: NOW,
+        updated_at: NOW,
+        last_edited_at: NOW,
+        last_edited_by: 'user-1'
+      }],
+      nextCursor: null
+    });
+    manager.getComponentsByScriptId.mockResolvedValue({
+      components: [{
+        component_id: 'comp-1',
+        script_id: 'script-1',
+        content_tiptap: { type: 'doc', content: [] },
+        content_plain: 'Original text',
+        position: 1000,
+        component_type: 'main',
+        component_status: 'created',
+        version: 4,
+        created_at: NOW,
+        updated_at: NOW,
+        last_edited_by: 'user-1',
+        last_edited_at: NOW
+      }]
+    });
+    manager.getScriptBudgetTargets.mockResolvedValue({ targets: {} });
+    manager.saveScriptTotals.mockResolvedValue({});
+    manager.updateComponentWithResolution.mockRejectedValue(new TypeError('Failed to fetch'));
+  });
+
+  afterEach(async () => {
+    cleanup();
+    // The offline queue is persisted; later tests must not replay this one's writes
+    for (const workspaceManager of watchForChanges.mock.contexts as ResilientScriptComponentManager[]) {
+      await workspaceManager.clearOfflineQueue();
+      await workspaceManager.dispose();
+    }
+    watchForChanges.mockRestore();
+  });
+
+  it('should queue an edit to an existing component when the database cannot be reached', async () => {
+    const enqueue = vi.spyOn(ComponentOutbox.prototype, 'enqueue');
+    render(<App />);
+
+    expect(await screen.findByText('Original text', {}, { timeout: 5000 })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Edit first component' }));
+
+    expect(await screen.findByTestId('offline-queue-depth', {}, { timeout: 5000 })).toHaveTextContent('1 change saved on this device, waiting to sync');
+    expect(enqueue).toHaveBeenCalledWith('update', expect.objectContaining({
+      componentId: 'comp-1',
+      plainText: 'Edited offline',
+      currentVersion: 4
+    }));
+    expect(screen.getByText('Edited offline')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(manager.updateComponentWithResolution).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Generated BFF Client Tests
+ *
+ * Exercises the runtime part of src/lib/api/bffClient.ts against a stubbed
+ * fetch: URLs, auth headers, body encoding and error mapping.
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest';
+import { createBffClient, BffApiError } from '../../../src/lib/api/bffClient';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('createBffClient', () => {
+  let mockFetch: MockedFunction<typeof globalThis.fetch>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn() as MockedFunction<typeof globalThis.fetch>;
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  it('should call public operations without an access token', async () => {
+    const getAccessToken = vi.fn(async () => 'token');
+    mockFetch.mockResolvedValueOnce(jsonResponse(200, { version: '1.2.0', schemaVersion: 1, build: 'abc', timestamp: 'now' }));
+    const client = createBffClient({ baseUrl: 'https://bff.example/', getAccessToken });
+
+    const version = await client.getVersion();
+
+    expect(version.schemaVersion).toBe(1);
+    expect(mockFetch).toHaveBeenCalledWith('https://bff.example/api/version', expect.objectContaining({ method: 'GET', headers: {} }));
+    expect(getAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should send JSON bodies with the bearer token and return binary responses as Blob', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(new Uint8Array([1, 2, 3]), { status: 200, headers: { 'Content-Type': 'audio/mpeg' } }));
+    const client = createBffClient({ getAccessToken: async () => 'access-token' });
+
+    const audio = await client.synthesizeSpeech({ componentId: '7f1c3a52-4a0e-4c1e-9d47-0d9a3b9c2e11', voiceId: 'voiceAlpha1' });
+
+    expect(audio.size).toBe(3);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('/api/elevenlabs/synthesize');
+    expect(init).toMatchObject({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer access-token' }
+    });
+    expect(JSON.parse(init!.body as string)).toEqual({ componentId: '7f1c3a52-4a0e-4c1e-9d47-0d9a3b9c2e11', voiceId: 'voiceAlpha1' });
+  });
+
+  it('should forward an Idempotency-Key on mutating operations', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    const client = createBffClient({ getAccessToken: async () => 'access-token' });
+
+    await client.reportCircuitBreakers({ clientId: 'tab-1', samples: [] }, { idempotencyKey: 'report-1' });
+
+    expect(mockFetch.mock.calls[0][1]!.headers).toMatchObject({ 'Idempotency-Key': 'report-1' });
+  });
+
+  it('should raise BffApiError with the server error body', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(429, { error: 'Text-to-speech character quota exceeded', scope: 'user' }));
+    const client = createBffClient({ getAccessToken: async () => 'access-token' });
+
+    const failure = client.synthesizeSpeech({ componentId: '7f1c3a52-4a0e-4c1e-9d47-0d9a3b9c2e11', voiceId: 'voiceAlpha1' });
+
+    await expect(failure).rejects.toBeInstanceOf(BffApiError);
+    await expect(failure).rejects.toMatchObject({
+      status: 429,
+      message: 'Text-to-speech character quota exceeded',
+      body: { scope: 'user' }
+    });
+  });
+});
@@ -8,6 +8,7 @@
 // TESTGUARD-20250918-17582387
 // Context7: consulted for vitest
 import { describe, it, expect } from 'vitest';
+import { CLIENT_SCHEMA_VERSION } from '../../../src/lib/lifecycle/clientLifecycleManager';
 
 describe('/api/version endpoint', () => {
   const baseURL = 'http://localhost:3000';
@@ -35,7 +36,7 @@ describe('/api/version endpoint', () => {
       const data = await response.json();
 
       expect(data.version).toBe('1.0.0');
-      expect(data.schemaVersion).toBe(1);
+      expect(data.schemaVersion).toBe(CLIENT_SCHEMA_VERSION);
     });
 
     it('should include build metadata', async () => {
@@ -0,0 +1,62 @@
+/**
+ * ComponentApprovalControl Tests
+ *
+ * Approval badges and role-guarded approve / unapprove actions in the
+ * ScriptEditor component list.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ComponentApprovalControl } from '../../../src/components/editor/ComponentApprovalControl';
+
+describe('ComponentApprovalControl', () => {
+  it('should show the approval badge without actions for roles that cannot approve', () => {
+    render(<ComponentApprovalControl componentId="c1" status="in_edit" role="freelancer" onStatusChange={vi.fn()} />);
+
+    expect(screen.getByTestId('component-status-c1')).toHaveTextContent('In edit');
+    expect(screen.queryByTestId('approve-component-c1')).not.toBeInTheDocument();
+  });
+
+  it('should let a client approve a component', async () => {
+    const onStatusChange = vi.fn().mockResolvedValue(undefined);
+    render(<ComponentApprovalControl componentId="c1" status="created" role="client" onStatusChange={onStatusChange} />);
+
+    fireEvent.click(screen.getByTestId('approve-component-c1'));
+
+    await waitFor(() => expect(onStatusChange).toHaveBeenCalledWith('c1', 'approved', undefined));
+  });
+
+  it('should require a reason to unapprove', async () => {
+    const onStatusChange = vi.fn().mockResolvedValue(undefined);
+    render(<ComponentApprovalControl componentId="c1" status="approved" role="internal" onStatusChange={onStatusChange} />);
+
+    expect(screen.getByTestId('component-status-c1')).toHaveTextContent('✓ Approved');
+    fireEvent.click(screen.getByTestId('unapprove-component-c1'));
+    expect(screen.getByTestId('confirm-unapprove-c1')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('unapprove-reason-c1'), { target: { value: 'Price changed' } });
+    fireEvent.click(screen.getByTestId('confirm-unapprove-c1'));
+
+    await waitFor(() => expect(onStatusChange).toHaveBeenCalledWith('c1', 'in_edit', 'Price changed'));
+  });
+
+  it('should report rejected changes', async () => {
+    const rejection = new Error('Component changed since it was reviewed: expected version 2, got 3');
+    const onError = vi.fn();
+    render(
+      <ComponentApprovalControl
+        componentId="c1"
+        status="in_edit"
+        role="admin"
+        onStatusChange={vi.fn().mockRejectedValue(rejection)}
+        onError={onError}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('approve-component-c1'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('expected version 2, got 3');
+    expect(onError).toHaveBeenCalledWith(rejection);
+  });
+});
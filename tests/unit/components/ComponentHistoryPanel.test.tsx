@@ -0,0 +1,90 @@
+/**
+ * ComponentHistoryPanel Tests
+ *
+ * Browsing stored component versions, previewing old wording and restoring
+ * it through the parent callback.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ComponentHistoryPanel } from '../../../src/components/editor/ComponentHistoryPanel';
+import type { ComponentVersion } from '../../../src/types/scriptComponent';
+
+const version = (number: number, text: string, restoredFrom: number | null = null): ComponentVersion => ({
+  version_id: `ver-${number}`,
+  component_id: 'comp-1',
+  script_id: 'script-1',
+  version: number,
+  content_tiptap: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+  content_plain: text,
+  edited_by: 'user-1',
+  restored_from_version: restoredFrom,
+  created_at: '2025-09-20T10:00:00.000Z'
+});
+
+const HISTORY = [version(3, 'Third draft', 1), version(2, 'Second draft'), version(1, 'First draft')];
+
+describe('ComponentHistoryPanel', () => {
+  it('should list versions, mark the current one and preview the selected wording', async () => {
+    render(
+      <ComponentHistoryPanel
+        componentId="comp-1"
+        currentVersion={3}
+        loadHistory={vi.fn().mockResolvedValue(HISTORY)}
+        onRestore={vi.fn()}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(await screen.findByTestId('history-version-3')).toHaveTextContent('v3(current)');
+    expect(screen.getByTestId('history-version-3')).toHaveTextContent('Restored from v1');
+
+    fireEvent.click(screen.getByTestId('history-version-2'));
+
+    expect(screen.getByTestId('history-preview')).toHaveTextContent('Second draft');
+    expect(screen.getByTestId('restore-version-button')).toHaveTextContent('Restore v2');
+  });
+
+  it('should restore the selected version and not allow restoring the current one', async () => {
+    const onRestore = vi.fn().mockResolvedValue(undefined);
+    render(
+      <ComponentHistoryPanel
+        componentId="comp-1"
+        currentVersion={3}
+        loadHistory={vi.fn().mockResolvedValue(HISTORY)}
+        onRestore={onRestore}
+        onClose={vi.fn()}
+      />
+    );
+
+    fireEvent.click(await screen.findByTestId('history-version-3'));
+    expect(screen.getByTestId('restore-version-button')).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId('history-version-1'));
+    fireEvent.click(screen.getByTestId('restore-version-button'));
+
+    await waitFor(() => expect(onRestore).toHaveBeenCalledWith('comp-1', HISTORY[2]));
+  });
+
+  it('should surface restore conflicts instead of swallowing them', async () => {
+    const conflict = new Error('Optimistic lock conflict for component comp-1: expected version 3, got 4');
+    const onError = vi.fn();
+    render(
+      <ComponentHistoryPanel
+        componentId="comp-1"
+        currentVersion={3}
+        loadHistory={vi.fn().mockResolvedValue(HISTORY)}
+        onRestore={vi.fn().mockRejectedValue(conflict)}
+        onClose={vi.fn()}
+        onError={onError}
+      />
+    );
+
+    fireEvent.click(await screen.findByTestId('history-version-2'));
+    fireEvent.click(screen.getByTestId('restore-version-button'));
+
+    expect(await screen.findByTestId('component-history-error')).toHaveTextContent('expected version 3, got 4');
+    expect(onError).toHaveBeenCalledWith(conflict);
+  });
+});
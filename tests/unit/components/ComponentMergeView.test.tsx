@@ -0,0 +1,79 @@
+/**
+ * ComponentMergeView Tests
+ *
+ * Side-by-side conflict display and the content saved for each
+ * ConflictResolutionStrategy.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ComponentMergeView } from '../../../src/components/editor/ComponentMergeView';
+import { mergeTipTapContent } from '../../../src/lib/content/tiptapMerge';
+import { extractPlainText, type JSONContent } from '../../../src/lib/content/content-processor';
+import type { MergeConflict } from '../../../src/types/scriptComponent';
+
+const paragraphDoc = (...lines: string[]): JSONContent => ({
+  type: 'doc',
+  content: lines.map(line => ({ type: 'paragraph', content: [{ type: 'text', text: line }] }))
+});
+
+const base = paragraphDoc('Welcome home.', 'The boiler is in the utility room.', 'Call us.');
+const client = paragraphDoc('Welcome to your new home.', 'The boiler is in the loft.', 'Call us.');
+const server = paragraphDoc('Welcome home.', 'The boiler is in the garage.', 'Call us any time.');
+const merge = mergeTipTapContent(base, client, server);
+
+const conflict: MergeConflict = {
+  componentId: 'comp-1',
+  clientContent: client,
+  serverContent: server,
+  baseContent: base,
+  clientVersion: 3,
+  serverVersion: 4,
+  conflictAreas: merge.conflictAreas,
+  mergedContent: merge.content
+};
+
+const savedText = (onResolve: ReturnType<typeof vi.fn>) =>
+  extractPlainText(onResolve.mock.calls[0][0] as JSONContent).trim();
+
+describe('ComponentMergeView', () => {
+  it('should show both sides of each conflict and save the chosen side with the clean merges', async () => {
+    const onResolve = vi.fn().mockResolvedValue(undefined);
+    render(<ComponentMergeView conflict={conflict} onResolve={onResolve} onCancel={vi.fn()} />);
+
+    expect(screen.getByTestId('conflict-client-content[1]')).toHaveTextContent('The boiler is in the loft.');
+    expect(screen.getByTestId('conflict-server-content[1]')).toHaveTextContent('The boiler is in the garage.');
+
+    fireEvent.click(screen.getByTestId('conflict-choose-client-content[1]'));
+    expect(screen.getByTestId('merge-preview')).toHaveTextContent('The boiler is in the loft.');
+    fireEvent.click(screen.getByTestId('apply-merge-button'));
+
+    await waitFor(() => expect(onResolve).toHaveBeenCalled());
+    expect(savedText(onResolve)).toBe('Welcome to your new home.\nThe boiler is in the loft.\nCall us any time.');
+    expect(onResolve.mock.calls[0][1]).toBe('manual_merge');
+  });
+
+  it('should save one side wholesale for client_wins and server_wins', async () => {
+    const onResolve = vi.fn().mockResolvedValue(undefined);
+    render(<ComponentMergeView conflict={conflict} strategy="client_wins" onResolve={onResolve} onCancel={vi.fn()} />);
+
+    expect(screen.getByTestId('merge-strategy-client_wins')).toBeChecked();
+    expect(screen.queryByTestId('conflict-area-content[1]')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('apply-merge-button'));
+    await waitFor(() => expect(onResolve).toHaveBeenCalledWith(client, 'client_wins'));
+
+    fireEvent.click(screen.getByTestId('merge-strategy-server_wins'));
+    fireEvent.click(screen.getByTestId('apply-merge-button'));
+    await waitFor(() => expect(onResolve).toHaveBeenLastCalledWith(server, 'server_wins'));
+  });
+
+  it('should keep the view open and show the error when saving fails', async () => {
+    const onResolve = vi.fn().mockRejectedValue(new Error('Network unavailable'));
+    render(<ComponentMergeView conflict={conflict} onResolve={onResolve} onCancel={vi.fn()} />);
+
+    fireEvent.click(screen.getByTestId('apply-merge-button'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Network unavailable');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * ComponentTransferMenu Tests
+ *
+ * Moving or copying a component to another script from the component list.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ComponentTransferMenu } from '../../../src/components/editor/ComponentTransferMenu';
+
+const targets = [
+  { scriptId: 's2', title: 'Product tour' },
+  { scriptId: 's3', title: 'Customer story' }
+];
+
+describe('ComponentTransferMenu', () => {
+  it('should render nothing when there is no other script', () => {
+    const { container } = render(<ComponentTransferMenu componentId="c1" targets={[]} onTransfer={vi.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should move the component to the chosen script', async () => {
+    const onTransfer = vi.fn().mockResolvedValue(undefined);
+    render(<ComponentTransferMenu componentId="c1" targets={targets} onTransfer={onTransfer} />);
+
+    fireEvent.click(screen.getByTestId('move-component-c1'));
+    expect(screen.getByTestId('confirm-move-component-c1')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('move-component-target-c1'), { target: { value: 's3' } });
+    fireEvent.click(screen.getByTestId('confirm-move-component-c1'));
+
+    await waitFor(() => expect(onTransfer).toHaveBeenCalledWith('c1', 's3', 'move'));
+    await waitFor(() => expect(screen.queryByTestId('move-component-menu-c1')).not.toBeInTheDocument());
+  });
+
+  it('should only copy approved components', async () => {
+    const onTransfer = vi.fn().mockResolvedValue(undefined);
+    render(<ComponentTransferMenu componentId="c1" targets={targets} locked onTransfer={onTransfer} />);
+
+    fireEvent.click(screen.getByTestId('move-component-c1'));
+    expect(screen.getByTestId('move-component-mode-c1')).toBeDisabled();
+    expect(screen.getByTestId('move-component-mode-c1')).toHaveValue('copy');
+
+    fireEvent.change(screen.getByTestId('move-component-target-c1'), { target: { value: 's2' } });
+    fireEvent.click(screen.getByTestId('confirm-move-component-c1'));
+
+    await waitFor(() => expect(onTransfer).toHaveBeenCalledWith('c1', 's2', 'copy'));
+  });
+
+  it('should keep the menu open and show the error when the transfer fails', async () => {
+    const onError = vi.fn();
+    const onTransfer = vi.fn().mockRejectedValue(new Error('Target script not found'));
+    render(<ComponentTransferMenu componentId="c1" targets={targets} onTransfer={onTransfer} onError={onError} />);
+
+    fireEvent.click(screen.getByTestId('move-component-c1'));
+    fireEvent.change(screen.getByTestId('move-component-target-c1'), { target: { value: 's2' } });
+    fireEvent.click(screen.getByTestId('confirm-move-component-c1'));
+
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('Target script not found'));
+    expect(screen.getByTestId('move-component-menu-c1')).toBeInTheDocument();
+    expect(onError).toHaveBeenCalled();
+  });
+});
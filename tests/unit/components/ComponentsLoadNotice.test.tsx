@@ -0,0 +1,44 @@
+/**
+ * ComponentsLoadNotice Tests
+ *
+ * Fresh, stale, offline and unavailable component lists.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ComponentsLoadNotice } from '../../../src/components/editor/ComponentsLoadNotice';
+
+describe('ComponentsLoadNotice', () => {
+  it('should render nothing for a fresh list', () => {
+    const { container } = render(<ComponentsLoadNotice state={{ status: 'fresh' }} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should say when the list is a saved copy', () => {
+    const fetchedAt = '2025-10-01T09:30:00.000Z';
+    render(<ComponentsLoadNotice state={{ status: 'stale', fetchedAt }} />);
+
+    expect(screen.getByTestId('components-load-stale'))
+      .toHaveTextContent(`Showing a saved copy from ${new Date(fetchedAt).toLocaleString()}`);
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should say when the list is the offline copy', () => {
+    const fetchedAt = '2025-10-01T09:30:00.000Z';
+    render(<ComponentsLoadNotice state={{ status: 'offline', fetchedAt }} />);
+
+    expect(screen.getByTestId('components-load-offline'))
+      .toHaveTextContent(`Offline copy from ${new Date(fetchedAt).toLocaleString()}`);
+  });
+
+  it('should alert when the list could not be loaded and offer a retry', () => {
+    const onRetry = vi.fn();
+    render(<ComponentsLoadNotice state={{ status: 'unavailable', error: 'Service temporarily unavailable' }} onRetry={onRetry} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Components could not be loaded: Service temporarily unavailable');
+    fireEvent.click(screen.getByTestId('components-load-retry'));
+    expect(onRetry).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * OfflineQueueStatus Tests
+ *
+ * Queue depth, sync progress, refused writes, storage pressure and failed-write actions.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { OfflineQueueStatus } from '../../../src/components/editor/OfflineQueueStatus';
+import type { OutboxStatus } from '../../../src/lib/database/componentOutbox';
+
+const idle: OutboxStatus = {
+  depth: 0,
+  failures: [],
+  isReplaying: false,
+  lastError: null,
+  storageType: 'indexeddb',
+  storagePressure: null
+};
+
+const renderStatus = (status: Partial<OutboxStatus>) => {
+  const handlers = { onReplay: vi.fn(), onRetryFailed: vi.fn(), onDiscardFailed: vi.fn() };
+  render(<OfflineQueueStatus status={{ ...idle, ...status }} {...handlers} />);
+  return handlers;
+};
+
+describe('OfflineQueueStatus', () => {
+  it('should render nothing when the queue is empty', () => {
+    renderStatus({});
+
+    expect(screen.queryByTestId('offline-queue-status')).not.toBeInTheDocument();
+  });
+
+  it('should show how many changes are waiting and sync on demand', () => {
+    const { onReplay } = renderStatus({ depth: 3 });
+
+    expect(screen.getByTestId('offline-queue-depth')).toHaveTextContent('3 changes saved on this device, waiting to sync');
+    fireEvent.click(screen.getByTestId('offline-queue-replay'));
+    expect(onReplay).toHaveBeenCalled();
+  });
+
+  it('should show progress while syncing', () => {
+    renderStatus({ depth: 1, isReplaying: true });
+
+    expect(screen.getByTestId('offline-queue-depth')).toHaveTextContent('Syncing 1 saved change…');
+    expect(screen.getByTestId('offline-queue-replay')).toBeDisabled();
+  });
+
+  it('should explain a change that could not be queued', () => {
+    renderStatus({ depth: 100, lastError: 'Offline queue is full (100 changes waiting); this change was not saved' });
+
+    expect(screen.getByTestId('offline-queue-error')).toHaveTextContent('Offline queue is full');
+  });
+
+  it('should warn when offline storage is running out', () => {
+    renderStatus({
+      storagePressure: {
+        level: 'warning',
+        documentId: 'outbox:script-components',
+        storageType: 'indexeddb',
+        usedBytes: 900,
+        quotaBytes: 1000
+      }
+    });
+
+    expect(screen.getByTestId('offline-queue-pressure')).toHaveTextContent('nearly full');
+  });
+
+  it('should warn that changes kept in memory are lost when the tab closes', () => {
+    renderStatus({
+      depth: 2,
+      storageType: 'memory',
+      storagePressure: {
+        level: 'exceeded',
+        documentId: 'outbox:script-components',
+        storageType: 'memory',
+        usedBytes: 1000,
+        quotaBytes: 1000
+      }
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('lost if it is closed');
+    expect(screen.queryByTestId('offline-queue-pressure')).not.toBeInTheDocument();
+  });
+
+  it('should list failed changes with retry and discard', () => {
+    const { onRetryFailed, onDiscardFailed } = renderStatus({
+      failures: [{
+        entry: { id: 'e1', operation: 'update', params: {}, enqueuedAt: 0 },
+        error: 'Version conflict detected',
+        failedAt: 0
+      }],
+      lastError: 'Version conflict detected'
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('1 change could not be synced');
+    expect(screen.getByRole('alert')).toHaveTextContent('Edit component: Version conflict detected');
+    expect(screen.queryByTestId('offline-queue-error')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('offline-queue-retry'));
+    fireEvent.click(screen.getByTestId('offline-queue-discard'));
+    expect(onRetryFailed).toHaveBeenCalled();
+    expect(onDiscardFailed).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * ScriptBudgetPanel Tests
+ *
+ * Total, per-type and per-component progress bars and the overrun warning.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { ScriptBudgetPanel } from '../../../src/components/editor/ScriptBudgetPanel';
+import { calculateScriptBudget } from '../../../src/lib/content/scriptBudget';
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+const components = [
+  { component_id: 'c1', component_type: 'intro', content_plain: words(31) },
+  { component_id: 'c2', component_type: 'main', content_plain: words(124) }
+];
+
+describe('ScriptBudgetPanel', () => {
+  it('should show runtime against the video target with bars per type and component', () => {
+    const budget = calculateScriptBudget(components, { targetWordCount: 310, targetDurationSeconds: 120 });
+    render(<ScriptBudgetPanel budget={budget} />);
+
+    expect(screen.getByTestId('budget-total-duration')).toHaveTextContent('1:00 / 2:00');
+    expect(within(screen.getByTestId('budget-total-duration')).getByRole('progressbar')).toHaveAttribute('aria-valuenow', '50');
+    expect(screen.getByTestId('budget-total-words')).toHaveTextContent('155 / 310 words');
+    expect(screen.getByTestId('budget-type-intro')).toHaveTextContent('Intro (1)');
+    expect(screen.queryByTestId('budget-type-transition')).not.toBeInTheDocument();
+    expect(screen.getByTestId('budget-component-c2')).toHaveTextContent('Component 2 · Main');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should warn when the script overruns the video target', () => {
+    const budget = calculateScriptBudget(components, { targetWordCount: null, targetDurationSeconds: 45 });
+    render(<ScriptBudgetPanel budget={budget} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent("Script runs 1:00, 0:15 over the video's 0:45 target");
+    expect(within(screen.getByTestId('budget-total-duration')).getByRole('progressbar')).toHaveAttribute('aria-valuenow', '100');
+  });
+
+  it('should show shares of the script when there is no duration target', () => {
+    const budget = calculateScriptBudget(components);
+    render(<ScriptBudgetPanel budget={budget} />);
+
+    expect(screen.getByTestId('budget-total-duration')).toHaveTextContent('1:00 (no target)');
+    expect(within(screen.getByTestId('budget-type-main')).getByRole('progressbar')).toHaveAttribute('aria-valuenow', '80');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * ScriptListToolbar Tests
+ *
+ * Changing the sidebar sort and status filter.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ScriptListToolbar, type ScriptListView } from '../../../src/components/scripts/ScriptListToolbar';
+
+const view: ScriptListView = { sortBy: 'updated_at', sortDirection: 'desc', statuses: [] };
+
+describe('ScriptListToolbar', () => {
+  it('should change the sort column and flip the direction', () => {
+    const onChange = vi.fn();
+    render(<ScriptListToolbar view={view} onChange={onChange} />);
+
+    fireEvent.change(screen.getByTestId('script-sort-field'), { target: { value: 'word_count' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...view, sortBy: 'word_count' });
+
+    fireEvent.click(screen.getByTestId('script-sort-direction'));
+    expect(onChange).toHaveBeenLastCalledWith({ ...view, sortDirection: 'asc' });
+  });
+
+  it('should filter by a single status and clear the filter', () => {
+    const onChange = vi.fn();
+    const { rerender } = render(<ScriptListToolbar view={view} onChange={onChange} />);
+
+    fireEvent.change(screen.getByTestId('script-status-filter'), { target: { value: 'client_review' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...view, statuses: ['client_review'] });
+
+    rerender(<ScriptListToolbar view={{ ...view, statuses: ['client_review'] }} onChange={onChange} />);
+    expect(screen.getByTestId('script-status-filter')).toHaveValue('client_review');
+
+    fireEvent.change(screen.getByTestId('script-status-filter'), { target: { value: '' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...view, statuses: [] });
+  });
+});
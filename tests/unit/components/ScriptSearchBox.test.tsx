@@ -0,0 +1,74 @@
+/**
+ * ScriptSearchBox Tests
+ *
+ * Debounced searching, highlighted results and jumping to a hit.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ScriptSearchBox } from '../../../src/components/scripts/ScriptSearchBox';
+import type { ScriptSearchHit } from '../../../src/types/scriptComponent';
+
+const componentHit: ScriptSearchHit = {
+  script_id: 's1',
+  script_title: 'Launch video',
+  script_status: 'draft',
+  match_type: 'component',
+  component_id: 'c2',
+  component_position: 2000,
+  component_index: 2,
+  rank: 0.4,
+  snippet: 'the <mark>battery</mark> lasts <img src=x onerror=alert(1)>'
+};
+
+describe('ScriptSearchBox', () => {
+  it('should debounce typing into a single search', async () => {
+    vi.useFakeTimers();
+    try {
+      const search = vi.fn().mockResolvedValue([]);
+      render(<ScriptSearchBox search={search} onSelect={vi.fn()} debounceMs={300} />);
+
+      const input = screen.getByTestId('script-search-input');
+      fireEvent.change(input, { target: { value: 'bat' } });
+      fireEvent.change(input, { target: { value: 'battery' } });
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(search).toHaveBeenCalledWith('battery');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should render highlighted matches as text and select a hit', async () => {
+    const onSelect = vi.fn();
+    render(<ScriptSearchBox search={vi.fn().mockResolvedValue([componentHit])} onSelect={onSelect} debounceMs={0} />);
+
+    fireEvent.change(screen.getByTestId('script-search-input'), { target: { value: 'battery' } });
+
+    const hit = await screen.findByTestId('script-search-hit-c2');
+    expect(hit).toHaveTextContent('Launch video· Component 2');
+    expect(hit.querySelector('mark')).toHaveTextContent('battery');
+    expect(hit.querySelector('img')).toBeNull();
+
+    fireEvent.click(hit);
+
+    expect(onSelect).toHaveBeenCalledWith(componentHit);
+    expect(screen.getByTestId('script-search-input')).toHaveValue('');
+  });
+
+  it('should show an empty state and search errors', async () => {
+    const search = vi.fn()
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error('Failed to search scripts: timeout'));
+    render(<ScriptSearchBox search={search} onSelect={vi.fn()} debounceMs={0} />);
+
+    const input = screen.getByTestId('script-search-input');
+    fireEvent.change(input, { target: { value: 'nothing' } });
+    expect(await screen.findByTestId('script-search-empty')).toBeInTheDocument();
+
+    fireEvent.change(input, { target: { value: 'again' } });
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('Failed to search scripts: timeout'));
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * ScriptStatusControl Tests
+ *
+ * Offering role-appropriate transitions from the sidebar and asking for a
+ * reason on backward moves.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ScriptStatusControl } from '../../../src/components/scripts/ScriptStatusControl';
+
+describe('ScriptStatusControl', () => {
+  it('should show a static badge when the role has no transitions', () => {
+    render(<ScriptStatusControl scriptId="s1" status="client_review" role="freelancer" onTransition={vi.fn()} />);
+
+    expect(screen.getByTestId('script-status-s1')).toHaveTextContent('Client review');
+    expect(screen.queryByTestId('script-status-select-s1')).not.toBeInTheDocument();
+  });
+
+  it('should apply forward transitions immediately', async () => {
+    const onTransition = vi.fn().mockResolvedValue(undefined);
+    render(<ScriptStatusControl scriptId="s1" status="client_review" role="client" onTransition={onTransition} />);
+
+    fireEvent.change(screen.getByTestId('script-status-select-s1'), { target: { value: 'approved' } });
+
+    await waitFor(() => expect(onTransition).toHaveBeenCalledWith('s1', 'approved', undefined));
+  });
+
+  it('should ask for a reason before sending a script back', async () => {
+    const onTransition = vi.fn().mockResolvedValue(undefined);
+    render(<ScriptStatusControl scriptId="s1" status="client_review" role="client" onTransition={onTransition} />);
+
+    fireEvent.change(screen.getByTestId('script-status-select-s1'), { target: { value: 'in_editing' } });
+    expect(onTransition).not.toHaveBeenCalled();
+    expect(screen.getByTestId('script-status-confirm-s1')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('script-status-reason-s1'), { target: { value: 'Wrong product name' } });
+    fireEvent.click(screen.getByTestId('script-status-confirm-s1'));
+
+    await waitFor(() => expect(onTransition).toHaveBeenCalledWith('s1', 'in_editing', 'Wrong product name'));
+  });
+
+  it('should show the error when the database rejects the change', async () => {
+    const onTransition = vi.fn().mockRejectedValue(new Error('Role internal cannot move a script from client_review to approved'));
+    render(<ScriptStatusControl scriptId="s1" status="in_editing" role="internal" onTransition={onTransition} />);
+
+    fireEvent.change(screen.getByTestId('script-status-select-s1'), { target: { value: 'client_review' } });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Role internal cannot');
+  });
+});
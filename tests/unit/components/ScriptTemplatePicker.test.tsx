@@ -0,0 +1,79 @@
+/**
+ * ScriptTemplatePicker Tests
+ *
+ * Choosing between a blank script and a template, and collecting values for
+ * the template's placeholders before creating the script.
+ */
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ScriptTemplatePicker } from '../../../src/components/scripts/ScriptTemplatePicker';
+import type { ScriptTemplate } from '../../../src/types/scriptComponent';
+
+const TEMPLATES: ScriptTemplate[] = [
+  { script_id: 'tpl-1', title: 'Product walkthrough', updated_at: '2025-09-20T10:00:00.000Z' }
+];
+
+describe('ScriptTemplatePicker', () => {
+  it('should create a blank script by default', async () => {
+    const onCreate = vi.fn().mockResolvedValue(undefined);
+    render(
+      <ScriptTemplatePicker
+        loadTemplates={vi.fn().mockResolvedValue(TEMPLATES)}
+        loadPlaceholders={vi.fn()}
+        onCreate={onCreate}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(await screen.findByTestId('template-option-tpl-1')).toBeInTheDocument();
+    expect(screen.getByTestId('template-option-blank')).toBeChecked();
+
+    fireEvent.click(screen.getByTestId('create-script-button'));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalledWith(null, {}));
+  });
+
+  it('should require a value for every placeholder of the chosen template', async () => {
+    const onCreate = vi.fn().mockResolvedValue(undefined);
+    const loadPlaceholders = vi.fn().mockResolvedValue(['product_name', 'brand']);
+    render(
+      <ScriptTemplatePicker
+        loadTemplates={vi.fn().mockResolvedValue(TEMPLATES)}
+        loadPlaceholders={loadPlaceholders}
+        onCreate={onCreate}
+        onCancel={vi.fn()}
+      />
+    );
+
+    fireEvent.click(await screen.findByTestId('template-option-tpl-1'));
+    const productName = await screen.findByTestId('template-variable-product_name');
+    expect(loadPlaceholders).toHaveBeenCalledWith('tpl-1');
+    expect(screen.getByText('Product name')).toBeInTheDocument();
+
+    fireEvent.change(productName, { target: { value: ' Heat Pump X2 ' } });
+    expect(screen.getByTestId('create-script-button')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('template-variable-brand'), { target: { value: 'Acme' } });
+    fireEvent.click(screen.getByTestId('create-script-button'));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalledWith('tpl-1', { product_name: 'Heat Pump X2', brand: 'Acme' }));
+  });
+
+  it('should show creation errors and stay open', async () => {
+    render(
+      <ScriptTemplatePicker
+        loadTemplates={vi.fn().mockResolvedValue([])}
+        loadPlaceholders={vi.fn()}
+        onCreate={vi.fn().mockRejectedValue(new Error('Video already has a script'))}
+        onCancel={vi.fn()}
+      />
+    );
+
+    await waitFor(() => expect(screen.getByTestId('create-script-button')).toBeEnabled());
+    fireEvent.click(screen.getByTestId('create-script-button'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Video already has a script');
+  });
+});
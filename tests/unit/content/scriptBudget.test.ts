@@ -0,0 +1,91 @@
+/**
+ * Script Budget Tests
+ *
+ * Aggregating word counts and durations per component, per component type
+ * and per script against the script's targets.
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import {
+  budgetProgress,
+  calculateScriptBudget,
+  formatDuration,
+  getBudgetWarning,
+  toComponentType
+} from '../../../src/lib/content/scriptBudget';
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+const components = [
+  { component_id: 'c1', component_type: 'intro', content_plain: words(31) },
+  { component_id: 'c2', component_type: 'main', content_plain: words(155) },
+  { component_id: 'c3', component_type: 'main', content_plain: words(62) },
+  { component_id: 'c4', component_type: 'conclusion', content_plain: '' }
+];
+
+describe('calculateScriptBudget', () => {
+  it('should total words and estimate duration from the total', () => {
+    const budget = calculateScriptBudget(components);
+
+    expect(budget.wordCount).toBe(248);
+    expect(budget.durationSeconds).toBe(96);
+    expect(budget.components.map(c => [c.componentId, c.wordCount, c.durationSeconds])).toEqual([
+      ['c1', 31, 12],
+      ['c2', 155, 60],
+      ['c3', 62, 24],
+      ['c4', 0, 0]
+    ]);
+  });
+
+  it('should break the totals down by component type in a fixed order', () => {
+    const budget = calculateScriptBudget(components);
+
+    expect(budget.byType).toEqual([
+      { type: 'intro', count: 1, wordCount: 31, durationSeconds: 12 },
+      { type: 'main', count: 2, wordCount: 217, durationSeconds: 84 },
+      { type: 'transition', count: 0, wordCount: 0, durationSeconds: 0 },
+      { type: 'conclusion', count: 1, wordCount: 0, durationSeconds: 0 }
+    ]);
+  });
+
+  it('should flag scripts over their word and duration targets', () => {
+    const within = calculateScriptBudget(components, { targetWordCount: 300, targetDurationSeconds: 120 });
+    const over = calculateScriptBudget(components, { targetWordCount: 200, targetDurationSeconds: 60 });
+
+    expect(within.overWordTarget).toBe(false);
+    expect(within.overDurationTarget).toBe(false);
+    expect(getBudgetWarning(within)).toBeNull();
+
+    expect(over.overWordTarget).toBe(true);
+    expect(over.overDurationTarget).toBe(true);
+    expect(getBudgetWarning(over)).toBe("Script runs 1:36, 0:36 over the video's 1:00 target");
+  });
+
+  it('should never flag a script without targets', () => {
+    const budget = calculateScriptBudget(components);
+
+    expect(budget.overWordTarget).toBe(false);
+    expect(budget.overDurationTarget).toBe(false);
+  });
+});
+
+describe('budget helpers', () => {
+  it('should fall back to main for unknown component types', () => {
+    expect(toComponentType('transition')).toBe('transition');
+    expect(toComponentType('outro')).toBe('main');
+    expect(toComponentType(null)).toBe('main');
+  });
+
+  it('should report progress only against a positive target', () => {
+    expect(budgetProgress(45, 90)).toBe(0.5);
+    expect(budgetProgress(45, null)).toBeNull();
+    expect(budgetProgress(45, 0)).toBeNull();
+  });
+
+  it('should format seconds as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65)).toBe('1:05');
+    expect(formatDuration(600)).toBe('10:00');
+  });
+});
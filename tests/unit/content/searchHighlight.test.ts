@@ -0,0 +1,33 @@
+/**
+ * Search Snippet Highlighting Tests
+ *
+ * Splitting ts_headline snippets into plain and highlighted segments.
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import { parseHighlightedSnippet } from '../../../src/lib/content/searchHighlight';
+
+describe('parseHighlightedSnippet', () => {
+  it('should split marked words from the surrounding text', () => {
+    expect(parseHighlightedSnippet('the <mark>battery</mark> lasts <mark>all</mark> day')).toEqual([
+      { text: 'the ', highlighted: false },
+      { text: 'battery', highlighted: true },
+      { text: ' lasts ', highlighted: false },
+      { text: 'all', highlighted: true },
+      { text: ' day', highlighted: false }
+    ]);
+  });
+
+  it('should return a snippet without marks as a single plain segment', () => {
+    expect(parseHighlightedSnippet('no matches here')).toEqual([{ text: 'no matches here', highlighted: false }]);
+    expect(parseHighlightedSnippet('')).toEqual([]);
+  });
+
+  it('should keep other markup as literal text', () => {
+    expect(parseHighlightedSnippet('<b>bold</b> <mark>x</mark>')).toEqual([
+      { text: '<b>bold</b> ', highlighted: false },
+      { text: 'x', highlighted: true }
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Script Template Placeholder Tests
+ *
+ * Finding {{name}} tokens in template titles and TipTap content.
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import { extractTemplatePlaceholders, formatPlaceholderLabel } from '../../../src/lib/content/templatePlaceholders';
+
+describe('extractTemplatePlaceholders', () => {
+  it('should list placeholders from text and nested TipTap nodes in order of first use', () => {
+    const content = {
+      type: 'doc',
+      content: [
+        { type: 'paragraph', content: [{ type: 'text', text: 'Welcome to {{product_name}} by {{brand}}.' }] },
+        {
+          type: 'bulletList',
+          content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [
+            { type: 'text', text: '{{product_name}} ships with ' },
+            { type: 'text', text: '{{accessory_1}}', marks: [{ type: 'bold' }] }
+          ] }] }]
+        }
+      ]
+    };
+
+    expect(extractTemplatePlaceholders('{{brand}} walkthrough', content)).toEqual(['brand', 'product_name', 'accessory_1']);
+  });
+
+  it('should ignore malformed tokens and missing sources', () => {
+    expect(extractTemplatePlaceholders('{{ product name }} {product} {{}}', null, undefined)).toEqual([]);
+  });
+});
+
+describe('formatPlaceholderLabel', () => {
+  it('should turn snake_case names into labels', () => {
+    expect(formatPlaceholderLabel('product_name')).toBe('Product name');
+  });
+});
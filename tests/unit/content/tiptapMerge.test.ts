@@ -0,0 +1,159 @@
+/**
+ * TipTap Three-Way Merge Tests
+ *
+ * Block-level diff3, word-level merging inside paragraphs, conflict areas
+ * for overlapping edits and applying per-area resolutions.
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import { mergeTipTapContent, resolveConflictAreas } from '../../../src/lib/content/tiptapMerge';
+import { extractPlainText, type JSONContent } from '../../../src/lib/content/content-processor';
+
+const paragraph = (...parts: Array<string | JSONContent>): JSONContent => ({
+  type: 'paragraph',
+  content: parts.map(part => typeof part === 'string' ? { type: 'text', text: part } : part)
+});
+
+const doc = (...blocks: JSONContent[]): JSONContent => ({ type: 'doc', content: blocks });
+
+const text = (content: JSONContent) => extractPlainText(content).trim();
+
+const BASE = doc(
+  paragraph('Welcome to your new home.'),
+  paragraph('The boiler is in the utility room.'),
+  paragraph('Call us any time.')
+);
+
+describe('mergeTipTapContent', () => {
+  it('should merge edits to different blocks cleanly', () => {
+    const client = doc(
+      paragraph('Welcome to your brand new home.'),
+      paragraph('The boiler is in the utility room.'),
+      paragraph('Call us any time.')
+    );
+    const server = doc(
+      paragraph('Welcome to your new home.'),
+      paragraph('The boiler is in the utility room.'),
+      paragraph('Call us any time, day or night.')
+    );
+
+    const result = mergeTipTapContent(BASE, client, server);
+
+    expect(result.clean).toBe(true);
+    expect(text(result.content)).toBe('Welcome to your brand new home.\nThe boiler is in the utility room.\nCall us any time, day or night.');
+  });
+
+  it('should merge edits to different words of the same paragraph', () => {
+    const client = doc(paragraph('Welcome to your lovely new home.'), BASE.content![1], BASE.content![2]);
+    const server = doc(paragraph('Welcome to your new home!'), BASE.content![1], BASE.content![2]);
+
+    const result = mergeTipTapContent(BASE, client, server);
+
+    expect(result.clean).toBe(true);
+    expect(text(doc(result.content.content![0]))).toBe('Welcome to your lovely new home!');
+  });
+
+  it('should keep marks when merging inline text', () => {
+    const base = doc(paragraph('Open the ', { type: 'text', text: 'main', marks: [{ type: 'bold' }] }, ' valve slowly.'));
+    const client = doc(paragraph('Please open the ', { type: 'text', text: 'main', marks: [{ type: 'bold' }] }, ' valve slowly.'));
+    const server = doc(paragraph('Open the ', { type: 'text', text: 'main', marks: [{ type: 'bold' }] }, ' valve very slowly.'));
+
+    const result = mergeTipTapContent(base, client, server);
+
+    expect(result.clean).toBe(true);
+    expect(result.content.content![0].content).toEqual([
+      { type: 'text', text: 'Please open the ' },
+      { type: 'text', text: 'main', marks: [{ type: 'bold' }] },
+      { type: 'text', text: ' valve very slowly.' }
+    ]);
+  });
+
+  it('should accept inserts on both sides at different positions', () => {
+    const client = doc(paragraph('Intro.'), ...BASE.content!);
+    const server = doc(...BASE.content!, paragraph('Outro.'));
+
+    const result = mergeTipTapContent(BASE, client, server);
+
+    expect(result.clean).toBe(true);
+    expect(result.content.content).toHaveLength(5);
+    expect(text(result.content).split('\n')).toEqual([
+      'Intro.', 'Welcome to your new home.', 'The boiler is in the utility room.', 'Call us any time.', 'Outro.'
+    ]);
+  });
+
+  it('should ignore key order differences from jsonb round trips', () => {
+    const reordered = JSON.parse(JSON.stringify(BASE), (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).reverse())
+        : value
+    );
+    const client = doc(BASE.content![0], paragraph('The boiler is in the garage.'), BASE.content![2]);
+
+    const result = mergeTipTapContent(BASE, client, reordered);
+
+    expect(result.clean).toBe(true);
+    expect(text(result.content)).toContain('garage');
+  });
+
+  it('should report overlapping word edits as a text conflict with the server side kept', () => {
+    const client = doc(BASE.content![0], paragraph('The boiler is in the garage.'), BASE.content![2]);
+    const server = doc(BASE.content![0], paragraph('The boiler is in the loft.'), BASE.content![2]);
+
+    const result = mergeTipTapContent(BASE, client, server);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflictAreas).toHaveLength(1);
+    expect(result.conflictAreas[0]).toMatchObject({ path: 'content[1]', conflictType: 'text_conflict' });
+    expect(text(result.content)).toContain('loft');
+  });
+
+  it('should flag edits to a block the other side deleted as a deletion conflict', () => {
+    const client = doc(BASE.content![0], paragraph('The boiler is in the garage.'), BASE.content![2]);
+    const server = doc(BASE.content![0], BASE.content![2]);
+
+    const result = mergeTipTapContent(BASE, client, server);
+
+    expect(result.conflictAreas).toMatchObject([{ path: 'content[1]', conflictType: 'deletion_conflict' }]);
+  });
+
+  it('should merge inside nested lists', () => {
+    const list = (...items: string[]): JSONContent => ({
+      type: 'bulletList',
+      content: items.map(item => ({ type: 'listItem', content: [paragraph(item)] }))
+    });
+    const base = doc(list('Check the filter', 'Bleed the radiators'));
+    const client = doc(list('Check the filter monthly', 'Bleed the radiators'));
+    const server = doc(list('Check the filter', 'Bleed the radiators yearly'));
+
+    const result = mergeTipTapContent(base, client, server);
+
+    expect(result.clean).toBe(true);
+    expect(text(result.content)).toBe('Check the filter monthly\nBleed the radiators yearly');
+  });
+});
+
+describe('resolveConflictAreas', () => {
+  const client = doc(BASE.content![0], paragraph('The boiler is in the garage.'), BASE.content![2]);
+  const server = doc(BASE.content![0], paragraph('The boiler is in the loft.'), paragraph('Extra tip.'), BASE.content![2]);
+
+  it('should apply per-area choices and keep the server side by default', () => {
+    const merge = mergeTipTapContent(BASE, client, server);
+    const path = merge.conflictAreas[0].path;
+
+    expect(text(resolveConflictAreas(merge.content, merge.conflictAreas, {}))).toContain('loft');
+    expect(text(resolveConflictAreas(merge.content, merge.conflictAreas, { [path]: 'client' }))).toContain('garage');
+
+    const both = text(resolveConflictAreas(merge.content, merge.conflictAreas, { [path]: 'both' }));
+    expect(both).toContain('garage');
+    expect(both).toContain('loft');
+  });
+
+  it('should keep the cleanly merged blocks around a resolved area', () => {
+    const merge = mergeTipTapContent(BASE, client, server);
+    expect(merge.conflictAreas).toMatchObject([{ path: 'content[1]', conflictType: 'structural_conflict' }]);
+    const resolved = resolveConflictAreas(merge.content, merge.conflictAreas, { [merge.conflictAreas[0].path]: 'client' });
+
+    expect(text(resolved).split('\n')).toEqual(['Welcome to your new home.', 'The boiler is in the garage.', 'Call us any time.']);
+  });
+});
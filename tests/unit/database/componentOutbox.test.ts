@@ -0,0 +1,178 @@
+/**
+ * Tests for the durable component outbox
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import 'fake-indexeddb/auto';
+
+import { ComponentOutbox, isTemporaryComponentId, type OutboxStatus } from '../../../src/lib/database/componentOutbox';
+import { IndexedDBQueue } from '../../../src/lib/database/indexedDBQueue';
+
+let outboxCount = 0;
+
+describe('ComponentOutbox', () => {
+  let name: string;
+  let outbox: ComponentOutbox;
+
+  beforeEach(async () => {
+    // Fresh namespace per test; storage outlives the instance by design
+    name = `outbox-test-${++outboxCount}`;
+    outbox = new ComponentOutbox(name, 3);
+    await outbox.initialize();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await outbox.clear();
+    await outbox.close();
+  });
+
+  it('keeps entries in the order they were queued', async () => {
+    await outbox.enqueue('create', { scriptId: 'script-1' });
+    await outbox.enqueue('update', { componentId: 'comp-1' });
+    await outbox.enqueue('delete', { componentId: 'comp-2' });
+
+    expect(outbox.depth).toBe(3);
+    expect(outbox.peek()?.operation).toBe('create');
+  });
+
+  it('survives a reload', async () => {
+    await outbox.enqueue('update', { componentId: 'comp-1', currentVersion: 2 });
+    await outbox.enqueue('delete', { componentId: 'comp-1' });
+    await outbox.close();
+
+    const reloaded = new ComponentOutbox(name, 3);
+    await reloaded.initialize();
+
+    expect(reloaded.depth).toBe(2);
+    expect(reloaded.peek()?.params).toEqual({ componentId: 'comp-1', currentVersion: 2 });
+
+    await reloaded.clear();
+    await reloaded.close();
+  });
+
+  it('stores the compacted queue', async () => {
+    await outbox.enqueue('update', { componentId: 'comp-1', plainText: 'one', currentVersion: 4 });
+    await outbox.enqueue('update', { componentId: 'comp-1', plainText: 'two', currentVersion: 4 });
+    expect(outbox.depth).toBe(1);
+    await outbox.close();
+
+    const reloaded = new ComponentOutbox(name, 3);
+    await reloaded.initialize();
+
+    expect(reloaded.depth).toBe(1);
+    expect(reloaded.peek()?.params).toEqual({ componentId: 'comp-1', plainText: 'two', currentVersion: 4 });
+
+    await reloaded.clear();
+    await reloaded.close();
+  });
+
+  it('refuses writes beyond its size and says so', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await outbox.enqueue('delete', { componentId: `comp-${i}` })).not.toBeNull();
+    }
+
+    expect(await outbox.enqueue('delete', { componentId: 'comp-3' })).toBeNull();
+    expect(outbox.depth).toBe(3);
+    expect(outbox.getStatus().lastError).toContain('Offline queue is full');
+  });
+
+  it('maps a queued create\'s temporary ID to the server ID', async () => {
+    const create = await outbox.enqueue('create', { scriptId: 'script-1' });
+    expect(isTemporaryComponentId(create!.tempComponentId!)).toBe(true);
+    await outbox.enqueue('update', { componentId: create!.tempComponentId });
+
+    const resolved = vi.fn();
+    outbox.onComponentIdResolved(resolved);
+    await outbox.complete(create!, 'comp-server');
+
+    expect(resolved).toHaveBeenCalledWith(create!.tempComponentId, 'comp-server');
+    expect(outbox.findUnresolvedId(outbox.peek()!.params)).toBeNull();
+    expect(outbox.resolveIds(outbox.peek()!.params)).toEqual({ componentId: 'comp-server' });
+  });
+
+  it('reports temporary IDs whose create never reached the server', async () => {
+    expect(outbox.findUnresolvedId({ updates: [{ componentId: 'temp-abc', position: 1 }] })).toBe('temp-abc');
+    expect(outbox.findUnresolvedId({ componentId: 'comp-1' })).toBeNull();
+  });
+
+  it('keeps failures until they are retried or discarded', async () => {
+    const entry = await outbox.enqueue('update', { componentId: 'comp-1' });
+    await outbox.fail(entry!, 'Version conflict detected');
+
+    expect(outbox.depth).toBe(0);
+    expect(outbox.getStatus().failures).toHaveLength(1);
+    expect(outbox.getStatus().failures[0].error).toBe('Version conflict detected');
+
+    expect(await outbox.retryFailures()).toBe(true);
+    expect(outbox.depth).toBe(1);
+    expect(outbox.getStatus().failures).toHaveLength(0);
+
+    await outbox.fail(outbox.peek()!, 'Still failing');
+    await outbox.discardFailures();
+    expect(outbox.getStatus().failures).toHaveLength(0);
+    expect(outbox.getStatus().lastError).toBeNull();
+  });
+
+  it('drops only the change whose write failed when enqueues overlap', async () => {
+    vi.spyOn(IndexedDBQueue.prototype, 'enqueue').mockResolvedValueOnce(false);
+
+    const [first, second] = await Promise.all([
+      outbox.enqueue('delete', { componentId: 'comp-1' }),
+      outbox.enqueue('delete', { componentId: 'comp-2' })
+    ]);
+
+    expect(first).toBeNull();
+    expect(second).not.toBeNull();
+    expect(outbox.depth).toBe(1);
+    expect(outbox.peek()?.params).toEqual({ componentId: 'comp-2' });
+    await outbox.close();
+
+    const reloaded = new ComponentOutbox(name, 3);
+    await reloaded.initialize();
+    expect(reloaded.peek()?.params).toEqual({ componentId: 'comp-2' });
+    await reloaded.clear();
+    await reloaded.close();
+  });
+
+  it('keeps failures when they cannot be queued again', async () => {
+    const entry = await outbox.enqueue('update', { componentId: 'comp-1' });
+    await outbox.fail(entry!, 'Version conflict detected');
+    vi.spyOn(IndexedDBQueue.prototype, 'enqueue').mockResolvedValueOnce(false);
+
+    expect(await outbox.retryFailures()).toBe(false);
+    expect(outbox.depth).toBe(0);
+    expect(outbox.getStatus().failures).toHaveLength(1);
+    expect(outbox.getStatus().lastError).toContain('still listed as failed');
+    await outbox.close();
+
+    const reloaded = new ComponentOutbox(name, 3);
+    await reloaded.initialize();
+    expect(reloaded.getStatus().failures).toHaveLength(1);
+    await reloaded.clear();
+    await reloaded.close();
+  });
+
+  it('only completes the head entry', async () => {
+    await outbox.enqueue('delete', { componentId: 'comp-1' });
+    const second = await outbox.enqueue('delete', { componentId: 'comp-2' });
+
+    await expect(outbox.complete(second!)).rejects.toThrow('not at the head');
+  });
+
+  it('notifies subscribers of depth and replay state', async () => {
+    const statuses: OutboxStatus[] = [];
+    const unsubscribe = outbox.subscribe(status => statuses.push(status));
+
+    await outbox.enqueue('delete', { componentId: 'comp-1' });
+    outbox.beginReplay();
+    outbox.endReplay();
+    unsubscribe();
+
+    expect(statuses[0].depth).toBe(0);
+    expect(statuses.some(status => status.depth === 1)).toBe(true);
+    expect(statuses.some(status => status.isReplaying)).toBe(true);
+    expect(statuses[statuses.length - 1].isReplaying).toBe(false);
+  });
+});
@@ -10,7 +10,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import 'fake-indexeddb/auto';
 
 // Import will fail initially - this is expected for TDD RED state
-import { IndexedDBQueue } from '../../../src/lib/database/indexedDBQueue';
+import { IndexedDBQueue, DEFAULT_QUEUE_QUOTA, type StoragePressure } from '../../../src/lib/database/indexedDBQueue';
 
 describe('IndexedDBQueue', () => {
   let queue: IndexedDBQueue;
@@ -98,6 +98,32 @@ describe('IndexedDBQueue', () => {
       expect(size).toBe(1);
     });
 
+    it('should read all operations in FIFO order without removing them', async () => {
+      // Contract: peekAll returns every queued operation, oldest first
+      await queue.initialize();
+
+      await queue.enqueue(new Uint8Array([1]));
+      await queue.enqueue(new Uint8Array([2]));
+      await queue.enqueue(new Uint8Array([3]));
+
+      const all = await queue.peekAll();
+      expect(all.map(item => Array.from(item))).toEqual([[1], [2], [3]]);
+      expect(await queue.size()).toBe(3);
+    });
+
+    it('should replace all operations in the given order', async () => {
+      // Contract: replaceAll swaps the whole queue for the given operations
+      await queue.initialize();
+
+      await queue.enqueue(new Uint8Array([1]));
+      await queue.enqueue(new Uint8Array([2]));
+
+      expect(await queue.replaceAll([new Uint8Array([9]), new Uint8Array([8])])).toBe(true);
+
+      const all = await queue.peekAll();
+      expect(all.map(item => Array.from(item))).toEqual([[9], [8]]);
+    });
+
     it('should handle empty queue operations gracefully', async () => {
       // Contract: Empty queue operations should return appropriate values
       await queue.initialize();
@@ -431,7 +457,7 @@ describe('IndexedDBQueue', () => {
       await queue.initialize();
 
       expect(queue.isReady).toBe(true);
-      expect(queue.schemaVersion).toBe(1); // Initial version
+      expect(queue.schemaVersion).toBe(2); // Documents namespace store
     });
 
     it('should handle schema version upgrades', async () => {
@@ -475,7 +501,7 @@ describe('IndexedDBQueue', () => {
       const migrationInfo = await queue.getMigrationInfo();
       expect(migrationInfo).toHaveProperty('currentVersion');
       expect(migrationInfo).toHaveProperty('supportedVersions');
-      expect(migrationInfo.currentVersion).toBe(1);
+      expect(migrationInfo.currentVersion).toBe(2);
       expect(migrationInfo.supportedVersions).toContain(1);
     });
 
@@ -528,4 +554,144 @@ describe('IndexedDBQueue', () => {
       expect(schemaVersion).toBeGreaterThanOrEqual(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('Document Namespaces & Quota', () => {
+    let other: IndexedDBQueue;
+    let pressures: StoragePressure[];
+    let stopWatching: () => void;
+
+    beforeEach(() => {
+      other = new IndexedDBQueue('other-doc-456');
+      pressures = [];
+      stopWatching = IndexedDBQueue.onPressure(pressure => pressures.push(pressure));
+    });
+
+    afterEach(async () => {
+      IndexedDBQueue.configureQuota(DEFAULT_QUEUE_QUOTA);
+      delete (globalThis.navigator as any).storage;
+      vi.restoreAllMocks();
+
+      // Emptying the queues also clears any pressure left for the next test
+      for (const each of [queue, other]) {
+        if (each.isReady) await each.clear();
+      }
+      stopWatching();
+      await other.close();
+    });
+
+    const fillBrowserStorage = () => {
+      Object.defineProperty(globalThis.navigator, 'storage', {
+        configurable: true,
+        value: { estimate: vi.fn().mockResolvedValue({ usage: 1000, quota: 1000 }) }
+      });
+    };
+
+    it('should keep each document in its own namespace', async () => {
+      await queue.initialize();
+      await other.initialize();
+
+      await queue.enqueue(new Uint8Array([1, 2, 3]));
+      await other.enqueue(new Uint8Array([4, 5]));
+
+      expect((await queue.peekAll()).map(item => Array.from(item))).toEqual([[1, 2, 3]]);
+      expect((await other.peekAll()).map(item => Array.from(item))).toEqual([[4, 5]]);
+      expect(await queue.getUsage()).toEqual({
+        documentBytes: 3,
+        totalBytes: 5,
+        quotaBytes: DEFAULT_QUEUE_QUOTA.maxBytes
+      });
+
+      await other.clear();
+      expect((await queue.getUsage()).totalBytes).toBe(3);
+    });
+
+    it('should refuse writes over the shared quota without evicting queued operations', async () => {
+      IndexedDBQueue.configureQuota({ maxBytes: 8 });
+      await queue.initialize();
+      await other.initialize();
+
+      expect(await queue.enqueue(new Uint8Array(5))).toBe(true);
+      expect(await other.enqueue(new Uint8Array(5))).toBe(false);
+
+      expect(await queue.size()).toBe(1);
+      expect(await other.size()).toBe(0);
+      expect(pressures[pressures.length - 1]).toMatchObject({
+        level: 'exceeded',
+        documentId: 'other-doc-456',
+        usedBytes: 5,
+        quotaBytes: 8,
+        rejectedBytes: 5
+      });
+    });
+
+    it('should warn near the quota and report when it recovers', async () => {
+      IndexedDBQueue.configureQuota({ maxBytes: 10, warningRatio: 0.5 });
+      await queue.initialize();
+
+      await queue.enqueue(new Uint8Array(6));
+      expect(pressures.map(pressure => pressure.level)).toEqual(['warning']);
+
+      const late: StoragePressure[] = [];
+      const stopLate = IndexedDBQueue.onPressure(pressure => late.push(pressure));
+      expect(late.map(pressure => pressure.level)).toEqual(['warning']); // Current warning delivered straight away
+      stopLate();
+
+      await queue.dequeue();
+      expect(pressures.map(pressure => pressure.level)).toEqual(['warning', 'normal']);
+    });
+
+    it('should move the queue to localStorage when the browser is out of space', async () => {
+      await queue.initialize();
+      await queue.enqueue(new Uint8Array([1]));
+
+      fillBrowserStorage();
+      expect(await queue.enqueue(new Uint8Array([2]))).toBe(true);
+
+      expect(queue.storageType).toBe('localstorage');
+      expect((await queue.peekAll()).map(item => Array.from(item))).toEqual([[1], [2]]);
+      expect(pressures[pressures.length - 1]).toMatchObject({ level: 'exceeded', storageType: 'localstorage' });
+
+      // Its IndexedDB copy is gone, so a reload does not replay it twice
+      await other.initialize();
+      expect((await other.getUsage()).totalBytes).toBe(0);
+    });
+
+    it('should keep the queue in memory when localStorage is full too', async () => {
+      await queue.initialize();
+      await queue.enqueue(new Uint8Array([1]));
+
+      fillBrowserStorage();
+      vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      });
+      expect(await queue.enqueue(new Uint8Array([2]))).toBe(true);
+
+      expect(queue.storageType).toBe('memory');
+      expect((await queue.peekAll()).map(item => Array.from(item))).toEqual([[1], [2]]);
+      expect(pressures[pressures.length - 1]).toMatchObject({ level: 'exceeded', storageType: 'memory' });
+    });
+
+    it('should count operations queued before namespaces existed', async () => {
+      // A version 1 database with one operation in it
+      const request = window.indexedDB.open('offline-queue-db', 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore('operations', { keyPath: 'id', autoIncrement: true });
+        store.createIndex('documentId', 'documentId', { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+        request.result.createObjectStore('schema_versions', { keyPath: 'key' });
+        store.add({ documentId: TEST_DOCUMENT_ID, data: new Uint8Array([1, 2, 3]), timestamp: Date.now() });
+      };
+      const legacy = await new Promise<IDBDatabase>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      legacy.close();
+
+      await queue.initialize();
+
+      expect(queue.schemaVersion).toBe(2);
+      expect(await queue.size()).toBe(1);
+      expect((await queue.getUsage()).documentBytes).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for the per-project offline mirror of scripts and components
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import 'fake-indexeddb/auto';
+
+import { OfflineScriptCache } from '../../../src/lib/database/offlineScriptCache';
+import type { ScriptComponent, ScriptListItem } from '../../../src/types/scriptComponent';
+
+let projectCount = 0;
+
+const component = (id: string, position: number, updatedAt: string, overrides: Partial<ScriptComponent> = {}): ScriptComponent => ({
+  component_id: id,
+  script_id: 'script-1',
+  content_tiptap: {},
+  content_plain: id,
+  position,
+  component_type: 'main',
+  component_status: 'created',
+  version: 1,
+  created_at: '2025-10-01T09:00:00.000Z',
+  updated_at: updatedAt,
+  last_edited_by: null,
+  last_edited_at: updatedAt,
+  ...overrides
+});
+
+const script = (id: string, title: string, overrides: Partial<ScriptListItem> = {}): ScriptListItem => ({
+  script_id: id,
+  video_id: 'video-1',
+  title,
+  script_status: 'draft',
+  created_at: '2025-10-01T09:00:00.000Z',
+  updated_at: '2025-10-01T09:00:00.000Z',
+  ...overrides
+});
+
+describe('OfflineScriptCache', () => {
+  let projectId: string;
+  let cache: OfflineScriptCache;
+
+  beforeEach(async () => {
+    projectId = `offline-cache-test-${++projectCount}`;
+    cache = new OfflineScriptCache(projectId);
+    await cache.initialize();
+  });
+
+  afterEach(async () => {
+    await cache.clear();
+    await cache.close();
+  });
+
+  it('has no copy of a script list it never mirrored', async () => {
+    expect(await cache.getComponents('script-1')).toBeUndefined();
+
+    await cache.putComponents('script-1', [], '2025-10-01T10:00:00.000Z');
+
+    expect(await cache.getComponents('script-1')).toEqual({ data: [], fetchedAt: '2025-10-01T10:00:00.000Z' });
+  });
+
+  it('serves a mirrored list in position order after a reload', async () => {
+    await cache.putComponents('script-1', [
+      component('comp-2', 2000, '2025-10-01T09:00:00.000Z'),
+      component('comp-1', 1000, '2025-10-01T09:00:00.000Z')
+    ], '2025-10-01T10:00:00.000Z');
+    await cache.close();
+
+    const reloaded = new OfflineScriptCache(projectId);
+    const copy = await reloaded.getComponents('script-1');
+
+    expect(reloaded.storageType).toBe('indexeddb');
+    expect(copy?.data.map(c => c.component_id)).toEqual(['comp-1', 'comp-2']);
+    expect(copy?.fetchedAt).toBe('2025-10-01T10:00:00.000Z');
+    await reloaded.close();
+  });
+
+  it('drops components missing from a fresh list', async () => {
+    await cache.putComponents('script-1', [
+      component('comp-1', 1000, '2025-10-01T09:00:00.000Z'),
+      component('comp-2', 2000, '2025-10-01T09:00:00.000Z')
+    ], '2025-10-01T10:00:00.000Z');
+    await cache.putComponents('script-1', [component('comp-1', 1000, '2025-10-01T09:00:00.000Z')], '2025-10-01T11:00:00.000Z');
+
+    expect((await cache.getComponents('script-1'))?.data.map(c => c.component_id)).toEqual(['comp-1']);
+  });
+
+  it('never replaces a row with an older one', async () => {
+    await cache.putScripts([script('script-1', 'Alpha')], '2025-10-01T10:00:00.000Z');
+    await cache.applyChange('script_components', {
+      eventType: 'UPDATE',
+      row: component('comp-1', 1000, '2025-10-01T12:00:00.000Z', { content_plain: 'realtime' })
+    });
+    await cache.putComponents('script-1', [
+      component('comp-1', 1000, '2025-10-01T09:00:00.000Z', { content_plain: 'slow read' })
+    ], '2025-10-01T12:00:01.000Z');
+
+    expect((await cache.getComponent('comp-1'))?.data.content_plain).toBe('realtime');
+  });
+
+  it('never brings back a row removed after a slow read started', async () => {
+    const row = component('comp-1', 1000, '2025-10-01T09:00:00.000Z');
+    await cache.putComponents('script-1', [row], '2025-10-01T10:00:00.000Z');
+    await cache.applyChange('script_components', { eventType: 'DELETE', row: { component_id: 'comp-1' } });
+    await cache.close();
+
+    // The watermark outlives the row and the page
+    const reloaded = new OfflineScriptCache(projectId);
+    await reloaded.putComponents('script-1', [row], '2025-10-01T11:00:00.000Z');
+    expect((await reloaded.getComponents('script-1'))?.data).toEqual([]);
+
+    // A restore is newer than the removal
+    await reloaded.putComponents('script-1', [{ ...row, updated_at: '2025-10-01T12:00:00.000Z' }], '2025-10-01T12:00:01.000Z');
+    expect((await reloaded.getComponents('script-1'))?.data.map(c => c.component_id)).toEqual(['comp-1']);
+    await reloaded.clear();
+    await reloaded.close();
+  });
+
+  it('reports which realtime changes are news', async () => {
+    const row = component('comp-1', 1000, '2025-10-01T09:00:00.000Z');
+    await cache.putComponents('script-1', [row], '2025-10-01T10:00:00.000Z');
+
+    expect(await cache.applyChange('script_components', { eventType: 'UPDATE', row })).toBe(false);
+    expect(await cache.applyChange('script_components', {
+      eventType: 'UPDATE',
+      row: { ...row, updated_at: '2025-10-01T11:00:00.000Z' }
+    })).toBe(true);
+    expect(await cache.applyChange('script_components', {
+      eventType: 'UPDATE',
+      row: { ...row, updated_at: '2025-10-01T12:00:00.000Z', deleted_at: '2025-10-01T12:00:00.000Z' }
+    })).toBe(true);
+
+    expect((await cache.getComponents('script-1'))?.data).toEqual([]);
+    expect(await cache.applyChange('script_components', { eventType: 'DELETE', row: { component_id: 'comp-1' } })).toBe(false);
+  });
+
+  it('filters and sorts mirrored scripts like the script list', async () => {
+    await cache.putScripts([
+      script('script-1', 'Bravo', { script_status: 'approved' }),
+      script('script-2', 'Alpha'),
+      script('script-3', 'Charlie', { video_id: 'video-2' })
+    ], '2025-10-01T10:00:00.000Z');
+
+    const byTitle = await cache.getScripts({ sortBy: 'title', sortDirection: 'asc' });
+    const drafts = await cache.getScripts({ statuses: ['draft'], videoId: 'video-1' });
+
+    expect(byTitle?.data.map(s => s.title)).toEqual(['Alpha', 'Bravo', 'Charlie']);
+    expect(drafts?.data.map(s => s.script_id)).toEqual(['script-2']);
+    expect(byTitle?.fetchedAt).toBe('2025-10-01T10:00:00.000Z');
+  });
+
+  it('answers project-filtered lists from the project of each script', async () => {
+    await cache.putScripts([
+      script('script-1', 'Alpha', { project_id: 'project-1' }),
+      script('script-2', 'Bravo', { video_id: 'video-2', project_id: 'project-2' })
+    ], '2025-10-01T10:00:00.000Z');
+
+    expect((await cache.getScripts({ projectId: 'project-2' }))?.data.map(s => s.script_id)).toEqual(['script-2']);
+  });
+
+  it('ignores realtime changes outside the mirrored scripts and videos', async () => {
+    await cache.putScripts([script('script-1', 'Alpha', { project_id: 'project-1' })], '2025-10-01T10:00:00.000Z');
+    const later = { updated_at: '2025-10-01T11:00:00.000Z' };
+
+    expect(await cache.applyChange('video_scripts', {
+      eventType: 'INSERT',
+      row: script('script-9', 'Elsewhere', { video_id: 'video-9', ...later })
+    })).toBe(false);
+    expect(await cache.applyChange('script_components', {
+      eventType: 'INSERT',
+      row: component('comp-9', 1000, later.updated_at, { script_id: 'script-9' })
+    })).toBe(false);
+
+    // A new script of a mirrored video takes that video's project
+    expect(await cache.applyChange('video_scripts', { eventType: 'INSERT', row: script('script-2', 'Bravo', later) })).toBe(true);
+    expect(await cache.applyChange('script_components', {
+      eventType: 'INSERT',
+      row: component('comp-1', 1000, later.updated_at)
+    })).toBe(true);
+
+    expect((await cache.getScripts({ projectId: 'project-1' }))?.data.map(s => s.script_id)).toEqual(['script-2', 'script-1']);
+    expect(await cache.getComponent('comp-9')).toBeUndefined();
+  });
+});
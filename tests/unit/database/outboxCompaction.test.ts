@@ -0,0 +1,129 @@
+/**
+ * Tests for compaction of queued component writes
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import { compactOutbox } from '../../../src/lib/database/outboxCompaction';
+import type { OutboxEntry, OutboxOperation } from '../../../src/lib/database/componentOutbox';
+
+let sequence = 0;
+
+const entry = (operation: OutboxOperation, params: unknown, tempComponentId?: string): OutboxEntry => ({
+  id: `entry-${++sequence}`,
+  operation,
+  params,
+  tempComponentId,
+  enqueuedAt: sequence
+});
+
+const update = (componentId: string, plainText: string, currentVersion: number) =>
+  entry('update', { componentId, content: { text: plainText }, plainText, currentVersion, userId: 'user-1' });
+
+const positions = (...updates: Array<[string, number]>) =>
+  entry('updatePositions', { updates: updates.map(([componentId, position]) => ({ componentId, position })) });
+
+describe('compactOutbox', () => {
+  describe('edits', () => {
+    it('merges consecutive edits to a component, keeping the first base version', () => {
+      const compacted = compactOutbox([update('c1', 'one', 3), update('c1', 'two', 3), update('c1', 'three', 3)]);
+
+      expect(compacted).toHaveLength(1);
+      expect(compacted[0].params).toMatchObject({ componentId: 'c1', plainText: 'three', currentVersion: 3 });
+    });
+
+    it('merges across edits to other components and reorders', () => {
+      const compacted = compactOutbox([
+        update('c1', 'one', 3),
+        update('c2', 'other', 7),
+        positions(['c1', 500]),
+        update('c1', 'two', 3)
+      ]);
+
+      expect(compacted.map(e => e.operation)).toEqual(['update', 'update', 'updatePositions']);
+      expect(compacted[0].params).toMatchObject({ componentId: 'c1', plainText: 'two' });
+    });
+
+    it('does not merge across a delete or restore of the component', () => {
+      const compacted = compactOutbox([
+        update('c1', 'one', 3),
+        entry('delete', { componentId: 'c1', userId: 'user-1' }),
+        entry('restore', { componentId: 'c1', userId: 'user-1' }),
+        update('c1', 'two', 3)
+      ]);
+
+      expect(compacted).toHaveLength(4);
+    });
+  });
+
+  describe('create and delete', () => {
+    it('drops a create, its edits and its delete', () => {
+      const compacted = compactOutbox([
+        update('c1', 'kept', 1),
+        entry('create', { scriptId: 's1' }, 'temp-1'),
+        update('temp-1', 'draft', 1),
+        positions(['temp-1', 100], ['c1', 200]),
+        entry('delete', { componentId: 'temp-1', userId: 'user-1' })
+      ]);
+
+      expect(compacted.map(e => e.operation)).toEqual(['update', 'updatePositions']);
+      expect(compacted[1].params).toEqual({ updates: [{ componentId: 'c1', position: 200 }] });
+    });
+
+    it('takes the component out of a bulk delete', () => {
+      const compacted = compactOutbox([
+        entry('create', { scriptId: 's1' }, 'temp-1'),
+        entry('bulkDelete', { componentIds: ['c1', 'temp-1'], userId: 'user-1' })
+      ]);
+
+      expect(compacted).toHaveLength(1);
+      expect(compacted[0].params).toMatchObject({ componentIds: ['c1'] });
+    });
+
+    it('keeps the pair when the component is restored afterwards', () => {
+      const queued = [
+        entry('create', { scriptId: 's1' }, 'temp-1'),
+        entry('delete', { componentId: 'temp-1', userId: 'user-1' }),
+        entry('restore', { componentId: 'temp-1', userId: 'user-1' })
+      ];
+
+      expect(compactOutbox(queued)).toEqual(queued);
+    });
+
+    it('leaves a frozen create alone', () => {
+      const create = entry('create', { scriptId: 's1' }, 'temp-1');
+      const compacted = compactOutbox([create, entry('delete', { componentId: 'temp-1', userId: 'user-1' })], 1);
+
+      expect(compacted).toHaveLength(2);
+    });
+  });
+
+  describe('reorders', () => {
+    it('collapses a run of reorders, last position winning', () => {
+      const compacted = compactOutbox([
+        positions(['c1', 100], ['c2', 200]),
+        update('c3', 'edit', 2),
+        positions(['c2', 50], ['c3', 300])
+      ]);
+
+      expect(compacted.map(e => e.operation)).toEqual(['updatePositions', 'update']);
+      expect(compacted[0].params).toEqual({
+        updates: [
+          { componentId: 'c1', position: 100 },
+          { componentId: 'c2', position: 50 },
+          { componentId: 'c3', position: 300 }
+        ]
+      });
+    });
+
+    it('does not collapse across a create', () => {
+      const compacted = compactOutbox([
+        positions(['c1', 100]),
+        entry('create', { scriptId: 's1', position: 150 }, 'temp-1'),
+        positions(['temp-1', 50])
+      ]);
+
+      expect(compacted).toHaveLength(3);
+    });
+  });
+});
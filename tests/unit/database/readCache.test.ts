@@ -0,0 +1,44 @@
+/**
+ * Tests for the read cache behind the resilient component manager
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import { ReadCache } from '../../../src/lib/database/readCache';
+
+describe('ReadCache', () => {
+  it('returns the stored answer with the time it was fetched', () => {
+    const cache = new ReadCache();
+    cache.set('components:s1:false', { components: [] });
+
+    const cached = cache.get<{ components: unknown[] }>('components:s1:false');
+
+    expect(cached?.data).toEqual({ components: [] });
+    expect(Number.isNaN(Date.parse(cached!.fetchedAt))).toBe(false);
+  });
+
+  it('invalidates by key prefix or entirely', () => {
+    const cache = new ReadCache();
+    cache.set('components:s1:false', 1);
+    cache.set('component:c1:false', 2);
+    cache.set('scripts:{}', 3);
+
+    cache.invalidate('component:');
+    expect(cache.get('component:c1:false')).toBeUndefined();
+    expect(cache.get('components:s1:false')).toBeDefined();
+
+    cache.invalidate();
+    expect(cache.get('components:s1:false')).toBeUndefined();
+    expect(cache.get('scripts:{}')).toBeUndefined();
+  });
+
+  it('refuses answers fetched before an invalidation', () => {
+    const cache = new ReadCache();
+    const generation = cache.generation;
+
+    cache.invalidate();
+
+    expect(cache.set('components:s1:false', 1, generation)).toBe(false);
+    expect(cache.get('components:s1:false')).toBeUndefined();
+  });
+});
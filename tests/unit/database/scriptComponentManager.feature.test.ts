@@ -9,7 +9,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { 
   ScriptComponentManager,
-  OptimisticLockError
+  DEFAULT_OPTIMISTIC_LOCK_CONFIG,
+  OptimisticLockError,
+  MergeConflictError
 } from '../../../src/lib/database/scriptComponentManager';
 import { createMockSupabaseClient } from '../../mocks/supabase';
 
@@ -214,6 +216,795 @@ describe('ScriptComponentManager', () => {
     });
   });
 
+  describe('Version History', () => {
+    const storedVersion = {
+      version_id: 'ver-2',
+      component_id: 'comp-123',
+      script_id: 'script-1',
+      version: 2,
+      content_tiptap: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Original wording' }] }] },
+      content_plain: 'Original wording',
+      edited_by: 'user-456',
+      restored_from_version: null,
+      created_at: '2025-09-20T10:00:00.000Z'
+    };
+
+    // Query builder that resolves order() and maybeSingle() with the given result
+    const mockHistoryQuery = (result: { data: unknown; error: { message: string } | null }) => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue(result),
+        maybeSingle: vi.fn().mockResolvedValue(result)
+      };
+      mockSupabase.from.mockReturnValue(query);
+      return query;
+    };
+
+    it('should list stored versions newest first', async () => {
+      const query = mockHistoryQuery({ data: [{ ...storedVersion, version: 3 }, storedVersion], error: null });
+
+      const result = await manager.getComponentHistory('comp-123');
+
+      expect(result.error).toBeUndefined();
+      expect(result.versions.map(v => v.version)).toEqual([3, 2]);
+      expect(mockSupabase.from).toHaveBeenCalledWith('script_component_versions');
+      expect(query.eq).toHaveBeenCalledWith('component_id', 'comp-123');
+      expect(query.order).toHaveBeenCalledWith('version', { ascending: false });
+    });
+
+    it('should report history load failures as an error string', async () => {
+      mockHistoryQuery({ data: null, error: { message: 'permission denied' } });
+
+      const result = await manager.getComponentHistory('comp-123');
+
+      expect(result.versions).toEqual([]);
+      expect(result.error).toBe('Failed to fetch component history: permission denied');
+    });
+
+    it('should restore a version as a new locked update', async () => {
+      mockHistoryQuery({ data: storedVersion, error: null });
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: true, new_version: 6, conflict_detected: false }],
+        error: null
+      });
+
+      const result = await manager.restoreComponentVersion('comp-123', 2, 5, 'user-456');
+
+      expect(result.newVersion).toBe(6);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        'update_script_component_with_lock',
+        {
+          p_component_id: 'comp-123',
+          p_content: storedVersion.content_tiptap,
+          p_plain_text: 'Original wording',
+          p_current_version: 5,
+          p_user_id: 'user-456',
+          p_restored_from_version: 2
+        }
+      );
+    });
+
+    it('should throw OptimisticLockError when the component changed since it was loaded', async () => {
+      mockHistoryQuery({ data: storedVersion, error: null });
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{
+          success: false,
+          new_version: null,
+          conflict_detected: true,
+          current_content: { type: 'doc', content: [] },
+          current_version: 7,
+          error_message: 'Version conflict detected'
+        }],
+        error: null
+      });
+
+      await expect(manager.restoreComponentVersion('comp-123', 2, 5, 'user-456'))
+        .rejects.toBeInstanceOf(OptimisticLockError);
+    });
+
+    it('should reject unknown and current versions without writing', async () => {
+      mockHistoryQuery({ data: null, error: null });
+
+      await expect(manager.restoreComponentVersion('comp-123', 9, 5, 'user-456'))
+        .rejects.toThrow('Version 9 not found for component comp-123');
+      await expect(manager.restoreComponentVersion('comp-123', 5, 5, 'user-456'))
+        .rejects.toThrow('Version 5 is already the current version');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Automatic Merge on Conflict', () => {
+    const paragraphDoc = (...lines: string[]) => ({
+      type: 'doc',
+      content: lines.map(line => ({ type: 'paragraph', content: [{ type: 'text', text: line }] }))
+    });
+    const base = paragraphDoc('Welcome home.', 'The boiler is in the utility room.');
+
+    const conflictResponse = (serverContent: object, serverVersion: number) => ({
+      data: [{
+        success: false,
+        new_version: null,
+        conflict_detected: true,
+        current_content: serverContent,
+        current_version: serverVersion,
+        error_message: 'Version conflict detected'
+      }],
+      error: null
+    });
+    const successResponse = (newVersion: number) => ({
+      data: [{ success: true, new_version: newVersion, conflict_detected: false }],
+      error: null
+    });
+
+    it('should merge with the concurrent edit and retry against the server version', async () => {
+      const client = paragraphDoc('Welcome to your new home.', 'The boiler is in the utility room.');
+      const server = paragraphDoc('Welcome home.', 'The boiler is in the garage.');
+      mockSupabase.rpc
+        .mockResolvedValueOnce(conflictResponse(server, 4))
+        .mockResolvedValueOnce(successResponse(5));
+
+      const result = await manager.updateComponentWithResolution('comp-123', client, 'unused', 3, 'user-456', { baseContent: base });
+
+      expect(result).toMatchObject({ success: true, newVersion: 5, merged: true });
+      expect(result.plainText).toBe('Welcome to your new home.\nThe boiler is in the garage.\n');
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith('update_script_component_with_lock', expect.objectContaining({
+        p_current_version: 4,
+        p_content: paragraphDoc('Welcome to your new home.', 'The boiler is in the garage.')
+      }));
+    });
+
+    it('should load the merge base from version history when it is not supplied', async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: { version: 3, content_tiptap: base, content_plain: '' }, error: null })
+      };
+      mockSupabase.from.mockReturnValue(query);
+      mockSupabase.rpc
+        .mockResolvedValueOnce(conflictResponse(paragraphDoc('Welcome home.', 'The boiler is in the garage.'), 4))
+        .mockResolvedValueOnce(successResponse(5));
+
+      const result = await manager.updateComponentWithResolution(
+        'comp-123', paragraphDoc('Hello.', 'The boiler is in the utility room.'), 'Hello.', 3, 'user-456'
+      );
+
+      expect(result.merged).toBe(true);
+      expect(query.eq).toHaveBeenCalledWith('version', 3);
+    });
+
+    it('should throw MergeConflictError with conflict areas when both sides edited the same words', async () => {
+      const client = paragraphDoc('Welcome home.', 'The boiler is in the loft.');
+      const server = paragraphDoc('Welcome home.', 'The boiler is in the garage.');
+      mockSupabase.rpc.mockResolvedValueOnce(conflictResponse(server, 4));
+
+      const error = await manager.updateComponentWithResolution('comp-123', client, '', 3, 'user-456', { baseContent: base })
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(MergeConflictError);
+      expect(error.conflict).toMatchObject({
+        componentId: 'comp-123',
+        clientVersion: 3,
+        serverVersion: 4,
+        conflictAreas: [{ path: 'content[1]', conflictType: 'text_conflict' }]
+      });
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Conflict Resolution Strategies', () => {
+    const doc = (text: string) => ({ type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] });
+    const base = doc('Welcome home.');
+    const client = doc('Welcome to your new home.');
+
+    const conflictResponse = (serverContent: object, serverVersion: number) => ({
+      data: [{
+        success: false,
+        new_version: null,
+        conflict_detected: true,
+        current_content: serverContent,
+        current_version: serverVersion,
+        error_message: 'Version conflict detected'
+      }],
+      error: null
+    });
+    const successResponse = (newVersion: number) => ({
+      data: [{ success: true, new_version: newVersion, conflict_detected: false }],
+      error: null
+    });
+
+    it('should overwrite the server version for client_wins and report the strategy', async () => {
+      mockSupabase.rpc
+        .mockResolvedValueOnce(conflictResponse(doc('Welcome back.'), 4))
+        .mockResolvedValueOnce(successResponse(5));
+
+      const result = await manager.updateComponentWithResolution(
+        'comp-123', client, 'Welcome to your new home.', 3, 'user-456', { strategy: 'client_wins', baseContent: base }
+      );
+
+      expect(result).toMatchObject({ newVersion: 5, content: client, resolvedBy: 'client_wins', merged: false });
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith('update_script_component_with_lock', expect.objectContaining({
+        p_content: client,
+        p_current_version: 4
+      }));
+      expect(manager.getMetrics().conflictResolutionsByStrategy).toEqual({
+        client_wins: { count: 1, averageTime: expect.any(Number) }
+      });
+    });
+
+    it('should adopt the server content without writing for server_wins', async () => {
+      const server = doc('Welcome back.');
+      mockSupabase.rpc.mockResolvedValueOnce(conflictResponse(server, 4));
+
+      const result = await manager.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { strategy: 'server_wins' }
+      );
+
+      expect(result).toMatchObject({ newVersion: 4, content: server, plainText: 'Welcome back.\n', resolvedBy: 'server_wins' });
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry on the latest version for retry_with_latest only when the content did not change', async () => {
+      // Same content read back from jsonb with reordered keys; only the version moved
+      const unchanged = { content: [{ content: [{ text: 'Welcome home.', type: 'text' }], type: 'paragraph' }], type: 'doc' };
+      mockSupabase.rpc
+        .mockResolvedValueOnce(conflictResponse(unchanged, 4))
+        .mockResolvedValueOnce(successResponse(5));
+
+      const retried = await manager.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { strategy: 'retry_with_latest', baseContent: base }
+      );
+      expect(retried).toMatchObject({ newVersion: 5, resolvedBy: 'retry_with_latest' });
+
+      mockSupabase.rpc.mockResolvedValueOnce(conflictResponse(doc('Welcome back.'), 6));
+      await expect(manager.updateComponentWithResolution(
+        'comp-123', client, '', 5, 'user-456', { strategy: 'retry_with_latest', baseContent: base }
+      )).rejects.toBeInstanceOf(MergeConflictError);
+    });
+
+    it('should hand mergeable conflicts to the merge UI for manual_merge and when auto merge is disabled', async () => {
+      const server = doc('Welcome home.');
+      mockSupabase.rpc.mockResolvedValue(conflictResponse({ ...server, attrs: { touched: true } }, 4));
+
+      await expect(manager.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { strategy: 'manual_merge', baseContent: base }
+      )).rejects.toBeInstanceOf(MergeConflictError);
+
+      const noAutoMerge = new ScriptComponentManager(mockSupabase as any, { enableAutoMerge: false });
+      await expect(noAutoMerge.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { baseContent: base }
+      )).rejects.toBeInstanceOf(MergeConflictError);
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop after maxRetryAttempts and rethrow the last conflict', async () => {
+      const limited = new ScriptComponentManager(mockSupabase as any, { maxRetryAttempts: 2 });
+      mockSupabase.rpc
+        .mockResolvedValueOnce(conflictResponse(doc('Welcome home.'), 4))
+        .mockResolvedValueOnce(conflictResponse(doc('Welcome home.'), 5));
+
+      const error = await limited.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { strategy: 'client_wins' }
+      ).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(OptimisticLockError);
+      expect(error.currentVersion).toBe(5);
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve without retrying even when only one attempt is allowed', async () => {
+      const single = new ScriptComponentManager(mockSupabase as any, { maxRetryAttempts: 1 });
+      const server = doc('Welcome back.');
+      mockSupabase.rpc.mockResolvedValue(conflictResponse(server, 4));
+
+      const adopted = await single.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { strategy: 'server_wins' }
+      );
+      expect(adopted).toMatchObject({ newVersion: 4, content: server, resolvedBy: 'server_wins' });
+
+      await expect(single.updateComponentWithResolution(
+        'comp-123', client, '', 3, 'user-456', { strategy: 'manual_merge', baseContent: base }
+      )).rejects.toBeInstanceOf(MergeConflictError);
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(2);
+    });
+
+    it('should average resolution time across strategies and clear it on reset', async () => {
+      mockSupabase.rpc
+        .mockResolvedValueOnce(conflictResponse(doc('Welcome home.'), 4))
+        .mockResolvedValueOnce(successResponse(5));
+
+      await manager.updateComponentWithResolution('comp-123', client, '', 3, 'user-456', { baseContent: base });
+
+      const metrics = manager.getMetrics();
+      expect(metrics.conflictResolutionsByStrategy?.auto_merge?.count).toBe(1);
+      expect(metrics.conflictResolutionTime).toBeGreaterThanOrEqual(0);
+      expect(DEFAULT_OPTIMISTIC_LOCK_CONFIG.enableAutoMerge).toBe(true);
+
+      manager.resetMetrics();
+      expect(manager.getMetrics().conflictResolutionsByStrategy).toEqual({});
+    });
+  });
+
+  describe('Script Duplication and Templates', () => {
+    const scriptRow = {
+      script_id: 'script-copy',
+      video_id: 'video-2',
+      title: 'Heat Pump X2 walkthrough',
+      script_status: 'draft',
+      is_template: false,
+      source_script_id: 'tpl-1',
+      created_at: '2025-09-20T10:00:00.000Z',
+      updated_at: '2025-09-20T10:00:00.000Z'
+    };
+
+    it('should duplicate a script and its components through a single RPC', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [scriptRow], error: null });
+
+      const result = await manager.duplicateScript('script-1', 'video-2', { title: ' Copy ', userId: 'user-456' });
+
+      expect(result.script).toEqual(scriptRow);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('duplicate_video_script', {
+        p_source_script_id: 'script-1',
+        p_target_video_id: 'video-2',
+        p_title: 'Copy',
+        p_description: null,
+        p_is_template: false,
+        p_variables: {},
+        p_user_id: 'user-456'
+      });
+    });
+
+    it('should only allow a missing target video when saving as a template', async () => {
+      const rejected = await manager.duplicateScript('script-1', null);
+      expect(rejected.error).toBe('Target video ID is required unless saving as a template');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+
+      mockSupabase.rpc.mockResolvedValue({ data: [{ ...scriptRow, video_id: null, is_template: true }], error: null });
+      const template = await manager.duplicateScript('script-1', null, { asTemplate: true });
+
+      expect(template.script?.is_template).toBe(true);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('duplicate_video_script', expect.objectContaining({ p_is_template: true }));
+    });
+
+    it('should create a script from a template with placeholder values', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [scriptRow], error: null });
+
+      const result = await manager.createScriptFromTemplate('tpl-1', 'video-2', { product_name: 'Heat Pump X2' });
+
+      expect(result.script?.script_id).toBe('script-copy');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('create_script_from_template', {
+        p_template_id: 'tpl-1',
+        p_video_id: 'video-2',
+        p_variables: { product_name: 'Heat Pump X2' },
+        p_title: null,
+        p_user_id: null
+      });
+    });
+
+    it('should report database errors such as a video that already has a script', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Video video-2 already has a script' } });
+
+      const result = await manager.createScriptFromTemplate('tpl-1', 'video-2');
+
+      expect(result.error).toBe('Failed to create script from template: Video video-2 already has a script');
+      expect(manager.getMetrics().successfulOperations).toBe(0);
+    });
+
+    it('should collect template placeholders from the title and components', async () => {
+      const scriptQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { script_id: 'tpl-1', title: '{{product_name}} walkthrough' }, error: null })
+      };
+      const componentsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        is: vi.fn().mockResolvedValue({
+          data: [{ content_tiptap: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Made by {{brand}}' }] }] } }],
+          error: null
+        })
+      };
+      mockSupabase.from.mockImplementation((table: string) => table === 'video_scripts' ? scriptQuery : componentsQuery);
+
+      const result = await manager.getTemplatePlaceholders('tpl-1');
+
+      expect(result).toEqual({ placeholders: ['product_name', 'brand'] });
+    });
+  });
+
+  describe('Script Status Workflow', () => {
+    it('should change status through transition_script_status', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: true, previous_status: 'in_editing', new_status: 'client_review', error_message: null }],
+        error: null
+      });
+
+      const result = await manager.transitionScriptStatus('script-1', 'client_review', { currentStatus: 'in_editing', role: 'internal' });
+
+      expect(result).toEqual({ success: true, status: 'client_review' });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_script_status', {
+        p_script_id: 'script-1',
+        p_to_status: 'client_review',
+        p_reason: null
+      });
+    });
+
+    it('should reject transitions the role may not make without calling the database', async () => {
+      const result = await manager.transitionScriptStatus('script-1', 'approved', { currentStatus: 'client_review', role: 'internal' });
+
+      expect(result).toEqual({
+        success: false,
+        status: 'client_review',
+        error: 'Role internal cannot move a script from client_review to approved'
+      });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should surface rejections from the database function', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: false, previous_status: 'published', new_status: 'published', error_message: 'Cannot move a script from published to approved' }],
+        error: null
+      });
+
+      const result = await manager.transitionScriptStatus('script-1', 'approved');
+
+      expect(result).toEqual({ success: false, status: 'published', error: 'Cannot move a script from published to approved' });
+      expect(manager.getMetrics().successfulOperations).toBe(0);
+    });
+
+    it('should read the status audit trail newest first', async () => {
+      const entry = {
+        history_id: 'h1', script_id: 'script-1', from_status: 'client_review', to_status: 'in_editing',
+        changed_by: 'user-1', changed_by_role: 'client', reason: 'Wrong product name', created_at: '2025-09-20T10:00:00.000Z'
+      };
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({ data: [entry], error: null })
+      };
+      mockSupabase.from.mockReturnValue(query);
+
+      const result = await manager.getScriptStatusHistory('script-1');
+
+      expect(result.history).toEqual([entry]);
+      expect(mockSupabase.from).toHaveBeenCalledWith('script_status_history');
+      expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    });
+  });
+
+  describe('Component Approval', () => {
+    it('should approve through set_component_status and report the rolled-up script status', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: true, component_status: 'approved', script_status: 'approved', error_message: null }],
+        error: null
+      });
+
+      const result = await manager.setComponentStatus('comp-123', 'approved', {
+        expectedVersion: 4,
+        currentStatus: 'in_edit',
+        role: 'client'
+      });
+
+      expect(result).toEqual({ success: true, status: 'approved', scriptStatus: 'approved' });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('set_component_status', {
+        p_component_id: 'comp-123',
+        p_status: 'approved',
+        p_reason: null,
+        p_expected_version: 4
+      });
+    });
+
+    it('should refuse approval by roles other than client or admin before calling the database', async () => {
+      const result = await manager.setComponentStatus('comp-123', 'approved', { currentStatus: 'in_edit', role: 'freelancer' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Role freelancer cannot change a component from in_edit to approved');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason to unapprove', async () => {
+      const result = await manager.setComponentStatus('comp-123', 'in_edit', { currentStatus: 'approved', role: 'internal' });
+
+      expect(result).toMatchObject({ success: false, status: 'approved', error: 'A reason is required to unapprove a component' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should surface database rejections such as a stale review', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{
+          success: false,
+          component_status: 'in_edit',
+          script_status: 'client_review',
+          error_message: 'Component changed since it was reviewed: expected version 4, got 5'
+        }],
+        error: null
+      });
+
+      const result = await manager.setComponentStatus('comp-123', 'approved', { expectedVersion: 4 });
+
+      expect(result).toEqual({
+        success: false,
+        status: 'in_edit',
+        scriptStatus: 'client_review',
+        error: 'Component changed since it was reviewed: expected version 4, got 5'
+      });
+    });
+  });
+
+  describe('Moving and Copying Components', () => {
+    it('should move a component to the end of another script with the expected version', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{
+          success: true,
+          component_id: 'comp-123',
+          target_position: 4000,
+          new_version: 3,
+          conflict_detected: false,
+          current_version: null,
+          error_message: null
+        }],
+        error: null
+      });
+
+      const result = await manager.moveComponentToScript('comp-123', 'script-456', null, { expectedVersion: 2 });
+
+      expect(result).toEqual({ success: true, componentId: 'comp-123', position: 4000, version: 3, conflictDetected: false });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transfer_component', {
+        p_component_id: 'comp-123',
+        p_target_script_id: 'script-456',
+        p_mode: 'move',
+        p_after_component_id: null,
+        p_expected_version: 2
+      });
+    });
+
+    it('should copy a component after a given component and return the new copy', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{
+          success: true,
+          component_id: 'comp-copy',
+          target_position: 1500,
+          new_version: 1,
+          conflict_detected: false,
+          current_version: null,
+          error_message: null
+        }],
+        error: null
+      });
+
+      const result = await manager.copyComponentToScript('comp-123', 'script-456', 'comp-target');
+
+      expect(result.componentId).toBe('comp-copy');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transfer_component', expect.objectContaining({
+        p_mode: 'copy',
+        p_after_component_id: 'comp-target',
+        p_expected_version: null
+      }));
+    });
+
+    it('should report a version conflict instead of moving unseen edits', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{
+          success: false,
+          component_id: null,
+          target_position: null,
+          new_version: null,
+          conflict_detected: true,
+          current_version: 5,
+          error_message: 'Version conflict detected'
+        }],
+        error: null
+      });
+
+      const result = await manager.moveComponentToScript('comp-123', 'script-456', null, { expectedVersion: 4 });
+
+      expect(result).toEqual({
+        success: false,
+        conflictDetected: true,
+        currentVersion: 5,
+        error: 'Version conflict detected'
+      });
+      expect(manager.getMetrics().conflictCount).toBe(1);
+    });
+
+    it('should surface rejections such as moving an approved component', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{
+          success: false,
+          component_id: null,
+          target_position: null,
+          new_version: null,
+          conflict_detected: false,
+          current_version: null,
+          error_message: 'Component is approved; unapprove it before moving'
+        }],
+        error: null
+      });
+
+      const result = await manager.moveComponentToScript('comp-123', 'script-456');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Component is approved; unapprove it before moving');
+    });
+  });
+
+  describe('Script Budget', () => {
+    it('should read the word target and the video duration target', async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { target_word_count: 300, videos: { target_duration_seconds: 90 } },
+          error: null
+        })
+      };
+      mockSupabase.from.mockReturnValue(query);
+
+      const result = await manager.getScriptBudgetTargets('script-123');
+
+      expect(result).toEqual({ targets: { targetWordCount: 300, targetDurationSeconds: 90 } });
+      expect(query.select).toHaveBeenCalledWith('target_word_count, videos(target_duration_seconds)');
+      expect(query.eq).toHaveBeenCalledWith('script_id', 'script-123');
+    });
+
+    it('should treat missing targets as unset', async () => {
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { target_word_count: null, videos: null }, error: null })
+      });
+
+      const result = await manager.getScriptBudgetTargets('script-123');
+
+      expect(result.targets).toEqual({ targetWordCount: null, targetDurationSeconds: null });
+    });
+
+    it('should persist word count and duration totals on the script', async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      const update = vi.fn().mockReturnValue({ eq });
+      mockSupabase.from.mockReturnValue({ update });
+
+      const result = await manager.saveScriptTotals('script-123', { wordCount: 310, durationSeconds: 120 });
+
+      expect(result).toEqual({ success: true });
+      expect(update).toHaveBeenCalledWith({ word_count: 310, current_word_count: 310, estimated_duration: 120 });
+      expect(eq).toHaveBeenCalledWith('script_id', 'script-123');
+    });
+
+    it('should report failures to persist totals', async () => {
+      mockSupabase.from.mockReturnValue({
+        update: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: { message: 'permission denied' } }) })
+      });
+
+      const result = await manager.saveScriptTotals('script-123', { wordCount: 1, durationSeconds: 0 });
+
+      expect(result).toEqual({ success: false, error: 'Failed to save script totals: permission denied' });
+    });
+  });
+
+  describe('Full-Text Search', () => {
+    it('should not query the database for a blank search', async () => {
+      const result = await manager.searchScripts('   ');
+
+      expect(result).toEqual({ hits: [] });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should pass the trimmed query and filters to search_scripts', async () => {
+      const hit = {
+        script_id: 'script-123',
+        script_title: 'Launch video',
+        script_status: 'draft',
+        match_type: 'component',
+        component_id: 'comp-123',
+        component_position: 2000,
+        component_index: 2,
+        rank: 0.4,
+        snippet: 'the <mark>battery</mark> lasts'
+      };
+      mockSupabase.rpc.mockResolvedValue({ data: [hit], error: null });
+
+      const result = await manager.searchScripts('  battery ', {
+        projectId: 'project-1',
+        scriptStatuses: ['draft', 'in_editing'],
+        limit: 10
+      });
+
+      expect(result).toEqual({ hits: [hit] });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('search_scripts', {
+        p_query: 'battery',
+        p_project_id: 'project-1',
+        p_video_id: null,
+        p_script_statuses: ['draft', 'in_editing'],
+        p_include_templates: false,
+        p_limit: 10,
+        p_offset: 0
+      });
+    });
+
+    it('should report search failures', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'syntax error in tsquery' } });
+
+      const result = await manager.searchScripts('battery');
+
+      expect(result).toEqual({ hits: [], error: 'Failed to search scripts: syntax error in tsquery' });
+    });
+  });
+
+  describe('Script Listing', () => {
+    const row = (id: string, sortKey: string) => ({
+      script_id: id,
+      video_id: 'video-1',
+      title: `Script ${id}`,
+      script_status: 'draft',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-02T00:00:00Z',
+      sort_key: sortKey
+    });
+
+    it('should request one row more than the page size and return a cursor when there is more', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [row('s1', '2025-01-03'), row('s2', '2025-01-02'), row('s3', '2025-01-01')],
+        error: null
+      });
+
+      const page = await manager.listScripts({ limit: 2, projectId: 'project-1', statuses: ['draft'] });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('list_scripts', {
+        p_sort_by: 'updated_at',
+        p_sort_direction: 'desc',
+        p_cursor_key: null,
+        p_cursor_id: null,
+        p_limit: 3,
+        p_video_id: null,
+        p_project_id: 'project-1',
+        p_statuses: ['draft'],
+        p_last_edited_by: null,
+        p_updated_from: null,
+        p_updated_to: null
+      });
+      expect(page.scripts.map(s => s.script_id)).toEqual(['s1', 's2']);
+      expect(page.scripts[0]).not.toHaveProperty('sort_key');
+      expect(page.nextCursor).not.toBeNull();
+    });
+
+    it('should continue after the last row of the previous page', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: [row('s1', 'alpha'), row('s2', 'beta')], error: null });
+      const first = await manager.listScripts({ sortBy: 'title', sortDirection: 'asc', limit: 1 });
+
+      mockSupabase.rpc.mockResolvedValueOnce({ data: [row('s2', 'beta')], error: null });
+      const second = await manager.listScripts({ sortBy: 'title', sortDirection: 'asc', limit: 1, cursor: first.nextCursor });
+
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith('list_scripts', expect.objectContaining({
+        p_sort_by: 'title',
+        p_sort_direction: 'asc',
+        p_cursor_key: 'alpha',
+        p_cursor_id: 's1'
+      }));
+      expect(second.scripts.map(s => s.script_id)).toEqual(['s2']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: [row('s1', 'alpha'), row('s2', 'beta')], error: null });
+      const first = await manager.listScripts({ sortBy: 'title', limit: 1 });
+
+      const result = await manager.listScripts({ sortBy: 'word_count', cursor: first.nextCursor });
+
+      expect(result).toEqual({ scripts: [], nextCursor: null, error: 'Invalid cursor for this sort order' });
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report listing failures', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+      const result = await manager.listScripts();
+
+      expect(result).toEqual({ scripts: [], nextCursor: null, error: 'Failed to list scripts: permission denied' });
+    });
+  });
+
   describe('Performance Metrics', () => {
     // TESTGUARD-APPROVED: TESTGUARD-20250912-47f1ed47
     beforeEach(() => {
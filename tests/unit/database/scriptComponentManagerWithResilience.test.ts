@@ -10,21 +10,37 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 // Context7: consulted for @supabase/supabase-js
 import { SupabaseClient } from '@supabase/supabase-js';
 import { ResilientScriptComponentManager } from '../../../src/lib/database/scriptComponentManagerWithResilience';
+import { ComponentOutbox } from '../../../src/lib/database/componentOutbox';
+import { OfflineScriptCache } from '../../../src/lib/database/offlineScriptCache';
 import { createMockSupabaseClient, createMockChannel } from '../../mocks/supabase';
+import { MergeConflictError, type ComponentsListResult, type ResilientResult } from '../../../src/types/scriptComponent';
+
+// The database's answer, failing the test if the call never reached it
+function answerOf<T>(result: ResilientResult<T>): T {
+  if (result.status !== 'ok') {
+    throw new Error(`Expected an answer, got ${result.status}`);
+  }
+  return result.data;
+}
 
 describe('ResilientScriptComponentManager', () => {
   let manager: ResilientScriptComponentManager;
   let mockSupabase: ReturnType<typeof createMockSupabaseClient>;
+  let mockChannel: ReturnType<typeof createMockChannel>;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    const mockChannel = createMockChannel();
+    mockChannel = createMockChannel();
     mockSupabase = createMockSupabaseClient(mockChannel);
     manager = new ResilientScriptComponentManager(mockSupabase as unknown as SupabaseClient);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     vi.clearAllTimers();
+    // The offline queue is persisted; later tests must not replay this one's writes
+    await manager.clearOfflineQueue();
+    await manager.clearOfflineCache();
+    await manager.dispose();
   });
 
   describe('Circuit Breaker Protection', () => {
@@ -42,7 +58,7 @@ describe('ResilientScriptComponentManager', () => {
         })
       });
 
-      const result = await manager.deleteComponent('component-123', 'user-456');
+      const result = answerOf(await manager.deleteComponent('component-123', 'user-456'));
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Database connection failed');
@@ -73,7 +89,7 @@ describe('ResilientScriptComponentManager', () => {
       const duration = Date.now() - start;
 
       expect(duration).toBeLessThan(100); // Should be instant fallback
-      expect(result.error).toContain('Service temporarily unavailable');
+      expect(result).toEqual({ status: 'unavailable', error: 'Service temporarily unavailable' });
     });
 
     it('should queue operations when circuit is open', async () => {
@@ -82,8 +98,7 @@ describe('ResilientScriptComponentManager', () => {
 
       const result = await manager.deleteComponent('component-123', 'user-456');
 
-      expect(result.success).toBe(false);
-      expect((result as any).queued).toBe(true);
+      expect(result.status).toBe('queued');
       expect(manager.getOfflineQueueSize()).toBeGreaterThan(0);
     });
 
@@ -138,7 +153,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.deleteComponent('component-123', 'user-456', 'No longer needed');
+        const result = answerOf(await manager.deleteComponent('component-123', 'user-456', 'No longer needed'));
 
         expect(result.success).toBe(true);
         expect(result.deletedAt).toBe(mockDeletedAt);
@@ -161,7 +176,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.deleteComponent('non-existent', 'user-456');
+        const result = answerOf(await manager.deleteComponent('non-existent', 'user-456'));
 
         expect(result.success).toBe(false);
         expect(result.error).toContain('not found');
@@ -188,7 +203,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.restoreComponent('component-123', 'user-456');
+        const result = answerOf(await manager.restoreComponent('component-123', 'user-456'));
 
         expect(result.success).toBe(true);
         expect(result.restoredAt).toBeDefined();
@@ -215,7 +230,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.getComponentsByScriptId('script-123');
+        const result = answerOf(await manager.getComponentsByScriptId('script-123'));
 
         expect(result.components).toHaveLength(2);
         expect(result.components[0].component_id).toBe('comp-1');
@@ -239,7 +254,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.getComponentsByScriptId('script-123', true);
+        const result = answerOf(await manager.getComponentsByScriptId('script-123', true));
 
         expect(result.components).toHaveLength(2);
       });
@@ -266,11 +281,10 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.getComponentById('comp-123');
+        const result = answerOf(await manager.getComponentById('comp-123'));
 
-        expect(result).not.toBeNull();
-        expect(result?.component).toBeDefined();
-        expect(result?.component?.component_id).toBe('comp-123');
+        expect(result.component).toBeDefined();
+        expect(result.component?.component_id).toBe('comp-123');
       });
     });
 
@@ -294,7 +308,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.bulkDeleteComponents(componentIds, 'user-456');
+        const result = answerOf(await manager.bulkDeleteComponents(componentIds, 'user-456'));
 
         expect(result.success).toBe(true);
         expect(result.deletedCount).toBe(2);
@@ -320,7 +334,7 @@ describe('ResilientScriptComponentManager', () => {
           })
         });
 
-        const result = await manager.updateComponentPositions(updates);
+        const result = answerOf(await manager.updateComponentPositions(updates));
 
         expect(result.success).toBe(true);
         expect(result.updatedCount).toBe(2);
@@ -328,6 +342,232 @@ describe('ResilientScriptComponentManager', () => {
     });
   });
 
+  describe('listScripts', () => {
+    it('should return a page of scripts with its cursor', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          { script_id: 'script-1', title: 'A', script_status: 'draft', sort_key: 'a' },
+          { script_id: 'script-2', title: 'B', script_status: 'draft', sort_key: 'b' }
+        ],
+        error: null
+      });
+
+      const result = answerOf(await manager.listScripts({ sortBy: 'title', sortDirection: 'asc', limit: 1 }));
+
+      expect(result.error).toBeUndefined();
+      expect(result.scripts.map(s => s.script_id)).toEqual(['script-1']);
+      expect(result.nextCursor).not.toBeNull();
+    });
+
+    it('should report the list as unavailable when the circuit is open', async () => {
+      manager.openCircuitBreaker('listScripts');
+
+      const result = await manager.listScripts();
+
+      expect(result).toEqual({ status: 'unavailable', error: 'Service temporarily unavailable' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Result Contract', () => {
+    const mockComponentList = (components: Array<{ component_id: string }>) => {
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockReturnValue({
+              is: vi.fn().mockResolvedValue({ data: components, error: null })
+            })
+          })
+        })
+      });
+    };
+
+    it('should tell an empty script apart from an unreachable database', async () => {
+      mockComponentList([]);
+      expect(await manager.getComponentsByScriptId('script-empty')).toEqual({ status: 'ok', data: { components: [] } });
+
+      manager.openCircuitBreaker('getComponents');
+      expect(await manager.getComponentsByScriptId('script-uncached')).toEqual({
+        status: 'unavailable',
+        error: 'Service temporarily unavailable'
+      });
+    });
+
+    it('should report a version conflict instead of queuing the edit', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: false, conflict_detected: true, current_version: 5, current_content: {} }],
+        error: null
+      });
+
+      const result = await manager.updateComponent('comp-1', { text: 'mine' }, 'mine', 3, 'user-456');
+
+      expect(result).toMatchObject({ status: 'conflict', componentId: 'comp-1', currentVersion: 5 });
+      expect(manager.getOfflineQueueSize()).toBe(0);
+    });
+
+    it('should hand an edit that needs merging by hand back to the caller', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: false, conflict_detected: true, current_version: 5, current_content: { text: 'theirs' } }],
+        error: null
+      });
+
+      const update = manager.updateComponentWithResolution('comp-1', { text: 'mine' }, 'mine', 3, 'user-456', {
+        baseContent: { text: 'base' },
+        strategy: 'manual_merge'
+      });
+
+      await expect(update).rejects.toBeInstanceOf(MergeConflictError);
+      expect(manager.getOfflineQueueSize()).toBe(0);
+    });
+
+    it('should serve a cached list stale while it revalidates', async () => {
+      mockComponentList([{ component_id: 'comp-1' }]);
+      await manager.getComponentsByScriptId('script-123');
+
+      mockComponentList([{ component_id: 'comp-1' }, { component_id: 'comp-2' }]);
+      const onRevalidated = vi.fn<(result: ResilientResult<ComponentsListResult>) => void>();
+      const stale = await manager.getComponentsByScriptId('script-123', false, { onRevalidated });
+
+      expect(stale).toMatchObject({ status: 'ok', stale: true, data: { components: [{ component_id: 'comp-1' }] } });
+      expect(stale.status === 'ok' && stale.fetchedAt).toEqual(expect.any(String));
+
+      await vi.waitFor(() => expect(onRevalidated).toHaveBeenCalled());
+      expect(answerOf(onRevalidated.mock.calls[0][0]).components).toHaveLength(2);
+    });
+
+    it('should serve the cached list without revalidating while the circuit is open', async () => {
+      mockComponentList([{ component_id: 'comp-1' }]);
+      await manager.getComponentsByScriptId('script-123');
+      mockSupabase.from.mockClear();
+
+      manager.openCircuitBreaker('getComponents');
+      const result = await manager.getComponentsByScriptId('script-123');
+
+      expect(result).toMatchObject({ status: 'ok', stale: true });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should drop cached reads once a write reaches the server', async () => {
+      mockComponentList([{ component_id: 'comp-1' }]);
+      await manager.getComponentsByScriptId('script-123');
+
+      mockSupabase.rpc.mockResolvedValue({ data: [{ success: true, new_version: 4 }], error: null });
+      await manager.updateComponent('comp-1', { text: 'edit' }, 'edit', 3, 'user-456');
+
+      const result = await manager.getComponentsByScriptId('script-123');
+      expect(result).toEqual({ status: 'ok', data: { components: [{ component_id: 'comp-1' }] } });
+    });
+  });
+
+  describe('Offline Copy', () => {
+    const mockComponentList = (components: Array<{ component_id: string; script_id: string; position: number; updated_at: string }>) => {
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockReturnValue({
+              is: vi.fn().mockResolvedValue({ data: components, error: null })
+            })
+          })
+        })
+      });
+    };
+
+    const row = { component_id: 'comp-1', script_id: 'script-123', position: 1000, updated_at: '2025-10-01T09:00:00.000Z' };
+
+    const realtimeHandler = (table: string) => {
+      const call = mockChannel.on.mock.calls.find(([, filter]) => (filter as { table: string }).table === table);
+      return call![2] as (payload: unknown) => void;
+    };
+
+    it('should serve the offline copy when the database cannot be reached after a reload', async () => {
+      const online = new ResilientScriptComponentManager(
+        mockSupabase as unknown as SupabaseClient,
+        undefined,
+        undefined,
+        new OfflineScriptCache('offline-copy-test')
+      );
+      mockComponentList([row]);
+      await online.getComponentsByScriptId('script-123');
+      await online.dispose();
+
+      const offline = new ResilientScriptComponentManager(
+        mockSupabase as unknown as SupabaseClient,
+        undefined,
+        undefined,
+        new OfflineScriptCache('offline-copy-test')
+      );
+      offline.openCircuitBreaker('getComponents');
+
+      const result = await offline.getComponentsByScriptId('script-123');
+      const unseen = await offline.getComponentsByScriptId('script-456');
+
+      expect(result).toMatchObject({ status: 'ok', stale: true, offline: true, data: { components: [row] } });
+      expect(result.status === 'ok' && result.fetchedAt).toEqual(expect.any(String));
+      expect(unseen.status).toBe('unavailable');
+
+      await offline.clearOfflineCache();
+      await offline.dispose();
+    });
+
+    it('should refetch after a newer realtime change and ignore older ones', async () => {
+      manager.watchForChanges();
+      mockComponentList([row]);
+      await manager.getComponentsByScriptId('script-123');
+
+      realtimeHandler('script_components')({ eventType: 'UPDATE', new: row, old: {} });
+      await vi.waitFor(async () => {
+        expect(await manager.getComponentsByScriptId('script-123')).toMatchObject({ stale: true });
+      });
+
+      const edited = { ...row, updated_at: '2025-10-01T10:00:00.000Z' };
+      realtimeHandler('script_components')({ eventType: 'UPDATE', new: edited, old: {} });
+      mockComponentList([edited]);
+
+      await vi.waitFor(async () => {
+        expect(await manager.getComponentsByScriptId('script-123')).toEqual({ status: 'ok', data: { components: [edited] } });
+      });
+    });
+
+    it('should ignore realtime changes to scripts of videos it has not mirrored', async () => {
+      const cache = new OfflineScriptCache('realtime-filter-test');
+      const scoped = new ResilientScriptComponentManager(mockSupabase as unknown as SupabaseClient, undefined, undefined, cache);
+      scoped.watchForChanges();
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ script_id: 'script-1', video_id: 'video-1', project_id: 'project-1', title: 'A', script_status: 'draft', updated_at: '2025-10-01T09:00:00.000Z', sort_key: 'a' }],
+        error: null
+      });
+      await scoped.listScripts();
+
+      realtimeHandler('video_scripts')({
+        eventType: 'INSERT',
+        new: { script_id: 'script-9', video_id: 'video-9', title: 'Other project', updated_at: '2025-10-01T10:00:00.000Z' },
+        old: {}
+      });
+      realtimeHandler('video_scripts')({
+        eventType: 'INSERT',
+        new: { script_id: 'script-2', video_id: 'video-1', title: 'Same video', updated_at: '2025-10-01T10:00:00.000Z' },
+        old: {}
+      });
+      await vi.waitFor(async () => {
+        expect(await scoped.listScripts()).not.toMatchObject({ stale: true });
+      });
+
+      const mirrored = await cache.getScripts({ projectId: 'project-1' });
+      expect(mirrored?.data.map(s => s.script_id).sort()).toEqual(['script-1', 'script-2']);
+
+      await scoped.clearOfflineCache();
+      await scoped.dispose();
+    });
+
+    it('should stop listening when asked', () => {
+      const stop = manager.watchForChanges();
+
+      expect(mockSupabase.channel).toHaveBeenCalledWith('script_cache_default');
+      stop();
+      expect(mockChannel.unsubscribe).toHaveBeenCalled();
+    });
+  });
+
   describe('Metrics and Monitoring', () => {
     it('should track circuit breaker statistics', () => {
       const stats = manager.getCircuitBreakerStats();
@@ -381,5 +621,238 @@ describe('ResilientScriptComponentManager', () => {
 
       expect(manager.getOfflineQueueSize()).toBe(0);
     });
+
+    it('should report writes refused by a full queue', async () => {
+      manager.openCircuitBreaker('delete');
+
+      for (let i = 0; i < 100; i++) {
+        await manager.deleteComponent(`comp-${i}`, 'user-456');
+      }
+      const refused = await manager.deleteComponent('comp-100', 'user-456');
+
+      expect(refused.status).toBe('unavailable');
+      expect(refused.status === 'unavailable' && refused.error).toContain('Offline queue is full');
+      expect(manager.getOfflineQueueStatus().lastError).toContain('Offline queue is full');
+    });
+  });
+
+  describe('Offline Outbox', () => {
+    const mockDeleteSuccess = () => {
+      mockSupabase.from.mockReturnValue({
+        update: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            is: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: { component_id: 'comp-server', deleted_at: new Date().toISOString() },
+                  error: null
+                })
+              })
+            })
+          })
+        })
+      });
+    };
+
+    it('should replay queued writes in order, sending the server ID for a queued create', async () => {
+      manager.openCircuitBreaker('create');
+
+      const created = await manager.createComponent('script-123', {}, '', 'user-456', 1000, 'created');
+      const tempId = created.status === 'queued' ? created.tempComponentId! : '';
+      expect(tempId).toMatch(/^temp-/);
+
+      // The positions breaker is closed, but the reorder must wait for the create
+      const reordered = await manager.updateComponentPositions([{ componentId: tempId, position: 500 }]);
+      expect(reordered.status).toBe('queued');
+      expect(manager.getOfflineQueueSize()).toBe(2);
+
+      const calls: string[] = [];
+      const positionEq = vi.fn().mockImplementation((_column: string, id: string) => {
+        calls.push(`position:${id}`);
+        return { is: vi.fn().mockResolvedValue({ error: null }) };
+      });
+      mockSupabase.from.mockReturnValue({
+        insert: vi.fn().mockImplementation(() => {
+          calls.push('create');
+          return {
+            select: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({ data: { component_id: 'comp-server' }, error: null })
+            })
+          };
+        }),
+        update: vi.fn().mockReturnValue({ eq: positionEq })
+      });
+      const resolved = vi.fn();
+      manager.onComponentIdResolved(resolved);
+
+      manager.closeCircuitBreaker('create');
+
+      await vi.waitFor(() => expect(manager.getOfflineQueueSize()).toBe(0));
+      expect(calls).toEqual(['create', 'position:comp-server']);
+      expect(resolved).toHaveBeenCalledWith(tempId, 'comp-server');
+    });
+
+    it('should move writes the server rejects to the failures list', async () => {
+      manager.openCircuitBreaker('delete');
+      await manager.deleteComponent('comp-1', 'user-456');
+
+      mockSupabase.from.mockReturnValue({
+        update: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            is: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({ data: null, error: { message: 'Component not found', code: 'PGRST116' } })
+              })
+            })
+          })
+        })
+      });
+
+      manager.closeCircuitBreaker('delete');
+
+      await vi.waitFor(() => expect(manager.getOfflineQueueStatus().failures).toHaveLength(1));
+      expect(manager.getOfflineQueueSize()).toBe(0);
+      expect(manager.getOfflineQueueStatus().failures[0].entry.operation).toBe('delete');
+
+      await manager.discardFailedOperations();
+      expect(manager.getOfflineQueueStatus().failures).toHaveLength(0);
+    });
+
+    it('should send nothing for a component created and deleted while offline', async () => {
+      manager.openCircuitBreaker('create');
+
+      const created = await manager.createComponent('script-123', {}, '', 'user-456', 1000, 'created');
+      const tempId = created.status === 'queued' ? created.tempComponentId! : '';
+      const deleted = await manager.deleteComponent(tempId, 'user-456');
+
+      expect(deleted.status).toBe('queued');
+      expect(manager.getOfflineQueueSize()).toBe(0);
+
+      manager.closeCircuitBreaker('create');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should merge offline edits into one update against the original version', async () => {
+      manager.openCircuitBreaker('update');
+      await manager.updateComponent('comp-1', { text: 'one' }, 'one', 3, 'user-456');
+      await manager.updateComponent('comp-1', { text: 'two' }, 'two', 3, 'user-456');
+      expect(manager.getOfflineQueueSize()).toBe(1);
+
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            is: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({ data: { component_id: 'comp-1', version: 3 }, error: null })
+            })
+          })
+        })
+      });
+      mockSupabase.rpc.mockResolvedValue({ data: [{ success: true, new_version: 4 }], error: null });
+
+      manager.closeCircuitBreaker('update');
+
+      await vi.waitFor(() => expect(manager.getOfflineQueueSize()).toBe(0));
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('update_script_component_with_lock', expect.objectContaining({
+        p_component_id: 'comp-1',
+        p_plain_text: 'two',
+        p_current_version: 3
+      }));
+    });
+
+    it('should fail a queued edit whose base version is stale without writing it', async () => {
+      manager.openCircuitBreaker('update');
+      await manager.updateComponent('comp-1', { text: 'offline' }, 'offline', 3, 'user-456');
+
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            is: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({ data: { component_id: 'comp-1', version: 5 }, error: null })
+            })
+          })
+        })
+      });
+
+      manager.closeCircuitBreaker('update');
+
+      await vi.waitFor(() => expect(manager.getOfflineQueueStatus().failures).toHaveLength(1));
+      expect(manager.getOfflineQueueStatus().failures[0].error).toContain('server has version 5');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should queue a status change the database never answered, but not one it refused', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: [{ success: false, component_status: 'in_edit', script_status: null, error_message: 'Role client cannot approve' }],
+        error: null,
+        status: 200
+      });
+      const refused = answerOf(await manager.setComponentStatus('comp-1', 'approved', { expectedVersion: 3 }));
+      expect(refused).toMatchObject({ success: false, error: 'Role client cannot approve' });
+
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'TypeError: Failed to fetch', code: '' }, status: 0 });
+      const queued = await manager.setComponentStatus('comp-1', 'approved', { expectedVersion: 3 });
+      expect(queued.status).toBe('queued');
+      expect(manager.getOfflineQueueSize()).toBe(1);
+
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ success: true, component_status: 'approved', script_status: 'approved', error_message: null }],
+        error: null,
+        status: 200
+      });
+      await manager.replayOfflineQueue();
+
+      expect(manager.getOfflineQueueSize()).toBe(0);
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith('set_component_status', expect.objectContaining({
+        p_component_id: 'comp-1',
+        p_status: 'approved',
+        p_expected_version: 3
+      }));
+    });
+
+    it('should collapse offline reorders into one position update', async () => {
+      manager.openCircuitBreaker('updatePositions');
+      await manager.updateComponentPositions([{ componentId: 'comp-1', position: 2000 }, { componentId: 'comp-2', position: 1000 }]);
+      await manager.updateComponentPositions([{ componentId: 'comp-1', position: 500 }]);
+      expect(manager.getOfflineQueueSize()).toBe(1);
+
+      const positions: Array<[string, unknown]> = [];
+      mockSupabase.from.mockReturnValue({
+        update: vi.fn().mockImplementation((values: { position: number }) => ({
+          eq: vi.fn().mockImplementation((_column: string, id: string) => {
+            positions.push([id, values.position]);
+            return { is: vi.fn().mockResolvedValue({ error: null }) };
+          })
+        }))
+      });
+
+      manager.closeCircuitBreaker('updatePositions');
+
+      await vi.waitFor(() => expect(manager.getOfflineQueueSize()).toBe(0));
+      expect(positions).toEqual([['comp-1', 500], ['comp-2', 1000]]);
+    });
+
+    it('should replay writes left queued by an earlier session', async () => {
+      const outbox = new ComponentOutbox('reload-test');
+      const offline = new ResilientScriptComponentManager(mockSupabase as unknown as SupabaseClient, undefined, outbox);
+      offline.openCircuitBreaker('delete');
+      await offline.deleteComponent('comp-server', 'user-456');
+      expect(offline.getOfflineQueueSize()).toBe(1);
+      await offline.dispose();
+
+      mockDeleteSuccess();
+      const reloaded = new ResilientScriptComponentManager(
+        mockSupabase as unknown as SupabaseClient,
+        undefined,
+        new ComponentOutbox('reload-test')
+      );
+
+      await vi.waitFor(() => expect(mockSupabase.from).toHaveBeenCalledWith('script_components'));
+      await vi.waitFor(() => expect(reloaded.getOfflineQueueSize()).toBe(0));
+
+      await reloaded.clearOfflineQueue();
+      await reloaded.dispose();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * useWorkspaceProject Hook Tests
+ * Tests for resolving the workspace's project code to a project ID that
+ * survives going offline
+ */
+
+// Context7: consulted for vitest
+// Context7: consulted for @testing-library/react
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useWorkspaceProject } from '../../../src/hooks/useWorkspaceProject';
+import type { ScriptComponentManager } from '../../../src/lib/database/scriptComponentManager';
+
+const PROJECT_ID = '7f0c6a52-2d4e-4a3c-9a4f-2b1d8c6e5f10';
+
+describe('useWorkspaceProject', () => {
+  let getProjectIdByCode: ReturnType<typeof vi.fn>;
+  let manager: ScriptComponentManager;
+
+  beforeEach(() => {
+    globalThis.localStorage.clear();
+    getProjectIdByCode = vi.fn().mockResolvedValue({ projectId: PROJECT_ID });
+    manager = { getProjectIdByCode } as unknown as ScriptComponentManager;
+  });
+
+  it('should resolve the project code to its ID', async () => {
+    const { result } = renderHook(() => useWorkspaceProject(manager, 'EAV023'));
+
+    expect(result.current.project).toEqual({ status: 'loading' });
+    await waitFor(() => expect(result.current.project).toEqual({ status: 'ready', projectId: PROJECT_ID }));
+    expect(getProjectIdByCode).toHaveBeenCalledWith('EAV023');
+  });
+
+  it('should wait for a signed-in user before looking the project up', () => {
+    renderHook(() => useWorkspaceProject(manager, null));
+
+    expect(getProjectIdByCode).not.toHaveBeenCalled();
+  });
+
+  it('should open with the remembered ID when the database cannot be reached', async () => {
+    const online = renderHook(() => useWorkspaceProject(manager, 'EAV023'));
+    await waitFor(() => expect(online.result.current.project.status).toBe('ready'));
+    online.unmount();
+
+    getProjectIdByCode.mockResolvedValue({ error: 'Failed to fetch' });
+    const { result } = renderHook(() => useWorkspaceProject(manager, 'EAV023'));
+
+    expect(result.current.project).toEqual({ status: 'ready', projectId: PROJECT_ID });
+    await waitFor(() => expect(getProjectIdByCode).toHaveBeenCalledTimes(2));
+    expect(result.current.project).toEqual({ status: 'ready', projectId: PROJECT_ID });
+  });
+
+  it('should report a project it cannot resolve and try again on retry', async () => {
+    getProjectIdByCode.mockResolvedValueOnce({ error: 'Project EAV023 not found' });
+    const { result } = renderHook(() => useWorkspaceProject(manager, 'EAV023'));
+
+    await waitFor(() => expect(result.current.project).toEqual({ status: 'error', error: 'Project EAV023 not found' }));
+
+    act(() => result.current.retry());
+
+    await waitFor(() => expect(result.current.project).toEqual({ status: 'ready', projectId: PROJECT_ID }));
+  });
+});
@@ -22,7 +22,8 @@ describe('ClientLifecycleManager', () => {
     onStateChange = vi.fn();
     manager = new ClientLifecycleManager({
       currentVersion: '1.0.0',
-      versionEndpoint: '/api/version'
+      versionEndpoint: '/api/version',
+      schemaVersion: 1 // Pinned so fixtures stay valid as migrations are added
     });
   });
 
@@ -135,6 +136,24 @@ describe('ClientLifecycleManager', () => {
 
       expect(manager.isUpdateRequired(serverVersion, clientVersion)).toBe(true);
     });
+
+    it('should require update when client is older than the minimum supported version', () => {
+      const serverVersion: VersionInfo = { version: '1.0.3', schemaVersion: 1, minClientVersion: '1.0.2' };
+
+      expect(manager.isUpdateRequired(serverVersion, '1.0.1')).toBe(true);
+      expect(manager.isUpdateRequired(serverVersion, '1.0.2')).toBe(false);
+    });
+
+    it('should compare schema versions against the configured client schema', () => {
+      const migratedManager = new ClientLifecycleManager({
+        currentVersion: '1.0.0',
+        versionEndpoint: '/api/version',
+        schemaVersion: 2
+      });
+
+      expect(migratedManager.isUpdateRequired({ version: '1.0.0', schemaVersion: 2 }, '1.0.0')).toBe(false);
+      expect(migratedManager.isUpdateRequired({ version: '1.0.0', schemaVersion: 1 }, '1.0.0')).toBe(true);
+    });
   });
 
   describe('Observable Pattern', () => {
@@ -0,0 +1,100 @@
+/**
+ * Circuit Breaker Telemetry Reporter Tests
+ *
+ * Uses real opossum breakers to verify that events are accumulated as deltas
+ * and posted to the BFF with the signed-in user's access token.
+ */
+
+// Context7: consulted for vitest
+// Context7: consulted for opossum
+import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest';
+import CircuitBreaker from 'opossum';
+import { CircuitBreakerTelemetry } from '../../../src/lib/monitoring/circuitBreakerTelemetry';
+
+describe('CircuitBreakerTelemetry', () => {
+  let telemetry: CircuitBreakerTelemetry;
+  let mockFetch: MockedFunction<typeof globalThis.fetch>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn(async () => new Response(null, { status: 204 })) as MockedFunction<typeof globalThis.fetch>;
+    vi.stubGlobal('fetch', mockFetch);
+    telemetry = new CircuitBreakerTelemetry({ endpoint: '/api/telemetry/circuit-breakers' });
+  });
+
+  it('should accumulate breaker events and latencies until a report is taken', async () => {
+    let shouldFail = false;
+    const breaker = new CircuitBreaker(async () => {
+      if (shouldFail) throw new Error('save failed');
+      return 'saved';
+    }, { resetTimeout: 60000 });
+    telemetry.track('script-component-manager', 'update', breaker);
+
+    await breaker.fire();
+    shouldFail = true;
+    await expect(breaker.fire()).rejects.toThrow('save failed');
+    breaker.open();
+    await expect(breaker.fire()).rejects.toThrow();
+
+    const report = telemetry.takeReport();
+    expect(report?.samples).toHaveLength(1);
+    const [sample] = report!.samples;
+    expect(sample).toMatchObject({
+      source: 'script-component-manager',
+      breaker: 'update',
+      state: 'open',
+      events: { fire: 3, success: 1, failure: 1, reject: 1 }
+    });
+    expect(sample.latenciesMs).toHaveLength(2);
+
+    // Deltas reset, state is kept
+    expect(telemetry.takeReport()?.samples[0]).toMatchObject({ state: 'open', events: {}, latenciesMs: [] });
+    breaker.shutdown();
+  });
+
+  it('should post reports with the access token', async () => {
+    const breaker = new CircuitBreaker(async () => 'ok');
+    telemetry.track('custom-supabase-provider', 'persistUpdate', breaker);
+    await breaker.fire();
+
+    telemetry.start({ getAccessToken: async () => 'access-token', intervalMs: 60000 });
+    await telemetry.flush();
+    telemetry.stop();
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/telemetry/circuit-breakers', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer access-token' })
+    }));
+    const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+    expect(body.samples[0]).toMatchObject({ breaker: 'persistUpdate', events: { fire: 1, success: 1 } });
+    breaker.shutdown();
+  });
+
+  it('should not post anonymous reports', async () => {
+    telemetry.track('custom-supabase-provider', 'persistUpdate', new CircuitBreaker(async () => 'ok'));
+
+    telemetry.start({ getAccessToken: async () => undefined });
+    await telemetry.flush();
+    telemetry.stop();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should keep counting while signed out and report it all once signed in', async () => {
+    const breaker = new CircuitBreaker(async () => 'ok');
+    telemetry.track('custom-supabase-provider', 'persistUpdate', breaker);
+    let token: string | undefined;
+
+    telemetry.start({ getAccessToken: async () => token });
+    await breaker.fire();
+    await telemetry.flush();
+    await breaker.fire();
+    token = 'access-token';
+    await telemetry.flush();
+    telemetry.stop();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+    expect(body.samples[0].events).toEqual({ fire: 2, success: 2 });
+    breaker.shutdown();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Supabase JWT Authentication Middleware Tests
+ *
+ * Signs real tokens (HS256 secret and ES256 JWKS) to verify that valid
+ * sessions populate req.context and that expired, forged and under-privileged
+ * requests receive structured 401/403 responses.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for jose
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { SignJWT, generateKeyPair, exportJWK, createLocalJWKSet } from 'jose';
+import type { CryptoKey, JWTVerifyGetKey } from 'jose';
+import { createAuthMiddleware, requireRole } from '../../../src/server/middleware/auth';
+import { startTestServer, type TestServer } from '../../helpers/serverTestUtils';
+
+const JWT_SECRET = 'test-jwt-secret-with-at-least-32-characters';
+const ISSUER = 'https://test.supabase.co/auth/v1';
+const USER_ID = '3b6f0a8e-2c1d-4f5e-9a7b-1c2d3e4f5a6b';
+
+type Rows = { profileRole?: string | null; projectRole?: string | null };
+
+function createRoleClient(rows: Rows) {
+  const from = vi.fn((table: string) => {
+    const query = {
+      select: vi.fn(() => query),
+      eq: vi.fn(() => query),
+      maybeSingle: vi.fn(async () => {
+        if (table === 'user_profiles') {
+          return { data: rows.profileRole === undefined ? null : { role: rows.profileRole }, error: null };
+        }
+        return { data: rows.projectRole ? { role_name: rows.projectRole } : null, error: null };
+      })
+    };
+    return query;
+  });
+  return { from };
+}
+
+function signHs256(overrides: { sub?: string; expiresIn?: string | number; secret?: string } = {}) {
+  return new SignJWT({ role: 'authenticated' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(overrides.sub ?? USER_ID)
+    .setIssuer(ISSUER)
+    .setAudience('authenticated')
+    .setIssuedAt()
+    .setExpirationTime(overrides.expiresIn ?? '1h')
+    .sign(new TextEncoder().encode(overrides.secret ?? JWT_SECRET));
+}
+
+describe('Supabase JWT auth middleware', () => {
+  let server: TestServer | undefined;
+  let esKey: CryptoKey;
+  let keySet: JWTVerifyGetKey;
+
+  beforeAll(async () => {
+    const { privateKey, publicKey } = await generateKeyPair('ES256');
+    esKey = privateKey;
+    keySet = createLocalJWKSet({ keys: [{ ...(await exportJWK(publicKey)), kid: 'test-key', alg: 'ES256' }] });
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function startApp(rows: Rows, options: { jwtSecret?: string } = { jwtSecret: JWT_SECRET }) {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.context = { requestId: 'req-auth', startTime: Date.now() };
+      next();
+    });
+    app.use(createAuthMiddleware({
+      supabase: createRoleClient(rows) as any,
+      logger: pino({ level: 'silent' }),
+      issuer: ISSUER,
+      jwtSecret: options.jwtSecret,
+      keySet
+    }));
+    app.get('/whoami', (req, res) => {
+      res.json({ userId: req.context.userId ?? null, role: req.context.role ?? null, projectRole: req.context.projectRole ?? null });
+    });
+    app.get('/admin', requireRole('admin', 'internal'), (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = await startTestServer(app);
+    return server.baseUrl;
+  }
+
+  it('should continue anonymously without an Authorization header', async () => {
+    const baseUrl = await startApp({ profileRole: 'admin' });
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ userId: null, role: null, projectRole: null });
+  });
+
+  it('should populate userId and role from a valid HS256 token', async () => {
+    const baseUrl = await startApp({ profileRole: 'internal' });
+    const token = await signHs256();
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ userId: USER_ID, role: 'internal', projectRole: null });
+  });
+
+  it('should verify asymmetric tokens against the JWKS', async () => {
+    const baseUrl = await startApp({ profileRole: 'client' }, {});
+    const token = await new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: 'test-key' })
+      .setSubject(USER_ID)
+      .setIssuer(ISSUER)
+      .setAudience('authenticated')
+      .setExpirationTime('1h')
+      .sign(esKey);
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).role).toBe('client');
+  });
+
+  it('should reject expired tokens with token_expired', async () => {
+    const baseUrl = await startApp({ profileRole: 'admin' });
+    const token = await signHs256({ expiresIn: Math.floor(Date.now() / 1000) - 60 });
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('invalid_token');
+    expect(await response.json()).toEqual({ error: 'Access token expired', code: 'token_expired', requestId: 'req-auth' });
+  });
+
+  it('should reject forged tokens and HS256 tokens when no secret is configured', async () => {
+    const baseUrl = await startApp({ profileRole: 'admin' });
+    const forged = await signHs256({ secret: 'attacker-controlled-secret-of-32-characters!' });
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${forged}` } });
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe('invalid_token');
+
+    await server?.close();
+    const jwksOnlyUrl = await startApp({ profileRole: 'admin' }, {});
+    const hsToken = await signHs256();
+    const jwksOnly = await globalThis.fetch(`${jwksOnlyUrl}/whoami`, { headers: { Authorization: `Bearer ${hsToken}` } });
+    expect(jwksOnly.status).toBe(401);
+  });
+
+  it('should reject malformed Authorization headers', async () => {
+    const baseUrl = await startApp({ profileRole: 'admin' });
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`, { headers: { Authorization: 'Basic dXNlcjpwYXNz' } });
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe('invalid_authorization_header');
+  });
+
+  it('should fail closed with 403 when the user has no valid profile role', async () => {
+    const baseUrl = await startApp({ profileRole: 'superuser' });
+    const token = await signHs256();
+
+    const response = await globalThis.fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('role_unavailable');
+  });
+
+  describe('requireRole', () => {
+    it('should return 401 for anonymous requests', async () => {
+      const baseUrl = await startApp({ profileRole: 'admin' });
+
+      const response = await globalThis.fetch(`${baseUrl}/admin`);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe('authentication_required');
+    });
+
+    it('should return 403 when the role is not allowed', async () => {
+      const baseUrl = await startApp({ profileRole: 'client' });
+      const token = await signHs256();
+
+      const response = await globalThis.fetch(`${baseUrl}/admin`, { headers: { Authorization: `Bearer ${token}` } });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        error: 'Requires one of: admin, internal',
+        code: 'insufficient_role',
+        requestId: 'req-auth'
+      });
+    });
+
+    it('should use an active project membership role when a project is specified', async () => {
+      const baseUrl = await startApp({ profileRole: 'client', projectRole: 'internal' });
+      const token = await signHs256();
+
+      const response = await globalThis.fetch(`${baseUrl}/admin`, {
+        headers: { Authorization: `Bearer ${token}`, 'X-Project-ID': 'project-berkeley' }
+      });
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
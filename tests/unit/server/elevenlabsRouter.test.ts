@@ -0,0 +1,231 @@
+/**
+ * ElevenLabs Proxy Router Tests
+ *
+ * Runs the router against a local fake TTS server to verify key isolation,
+ * payload validation, streaming, per-user/per-project quotas, and teardown of
+ * streams that break or that the client abandons.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for express
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { createElevenLabsRouter } from '../../../src/server/routes/elevenlabs';
+import { TtsQuotaTracker } from '../../../src/server/services/ttsQuota';
+import { startTestServer, type TestServer } from '../../helpers/serverTestUtils';
+import { startFakeTtsServer, FAKE_AUDIO, type FakeTtsServer } from '../../helpers/fakeTtsServer';
+
+const COMPONENT_ID = '7f1c3a52-4a0e-4c1e-9d47-0d9a3b9c2e11';
+const PROJECT_ID = 'project-berkeley';
+
+function createComponentClient(contentPlain: string, isMember: () => boolean) {
+  const rows: Record<string, () => unknown> = {
+    script_components: () => ({
+      component_id: COMPONENT_ID,
+      content_plain: contentPlain,
+      video_scripts: { videos: { project_id: PROJECT_ID } }
+    }),
+    project_members: () => (isMember() ? { user_id: 'user-1' } : null)
+  };
+  return {
+    from: vi.fn((table: string) => {
+      const query = {
+        select: vi.fn(() => query),
+        eq: vi.fn(() => query),
+        is: vi.fn(() => query),
+        maybeSingle: vi.fn(async () => ({ data: rows[table](), error: null }))
+      };
+      return query;
+    })
+  };
+}
+
+describe('ElevenLabs proxy router', () => {
+  let tts: FakeTtsServer;
+  let server: TestServer;
+  let quota: TtsQuotaTracker;
+  let authenticatedUser: string | undefined;
+  let member: boolean;
+  let role: 'admin' | 'client';
+
+  beforeAll(async () => {
+    tts = await startFakeTtsServer();
+  });
+
+  afterAll(async () => {
+    await tts.close();
+  });
+
+  beforeEach(async () => {
+    tts.requests.length = 0;
+    authenticatedUser = 'user-1';
+    member = true;
+    role = 'client';
+    quota = new TtsQuotaTracker({ userCharacters: 50, projectCharacters: 80, windowMs: 60000 });
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.context = { requestId: 'req-test', startTime: Date.now(), userId: authenticatedUser, role };
+      next();
+    });
+    app.use('/api/elevenlabs', createElevenLabsRouter({
+      apiKey: 'test-elevenlabs-key',
+      baseUrl: tts.baseUrl,
+      defaultModelId: 'eleven_multilingual_v2',
+      maxCharactersPerRequest: 40,
+      supabase: createComponentClient('Welcome to your new Berkeley home.', () => member) as any,
+      quota,
+      logger: pino({ level: 'silent' })
+    }));
+    server = await startTestServer(app);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const synthesize = (body: Record<string, unknown>) => globalThis.fetch(`${server.baseUrl}/api/elevenlabs/synthesize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    authenticatedUser = undefined;
+
+    const response = await globalThis.fetch(`${server.baseUrl}/api/elevenlabs/voices`);
+
+    expect(response.status).toBe(401);
+    expect(tts.requests).toHaveLength(0);
+  });
+
+  it('should list voices using the server-held API key', async () => {
+    const response = await globalThis.fetch(`${server.baseUrl}/api/elevenlabs/voices`);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.voices).toEqual([
+      { voiceId: 'voiceAlpha1', name: 'Alpha', category: 'premade', previewUrl: 'https://cdn.example/alpha.mp3' },
+      { voiceId: 'voiceBeta2', name: 'Beta', category: 'cloned' }
+    ]);
+    expect(tts.requests[0].apiKey).toBe('test-elevenlabs-key');
+  });
+
+  it('should stream synthesized audio for the component text', async () => {
+    const response = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+    const audio = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('audio/mpeg');
+    expect(audio.equals(FAKE_AUDIO)).toBe(true);
+    expect(tts.requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/v1/text-to-speech/voiceAlpha1/stream',
+      body: { text: 'Welcome to your new Berkeley home.', model_id: 'eleven_multilingual_v2' }
+    });
+    expect(response.headers.get('x-tts-user-quota-remaining')).toBe(String(50 - 34));
+  });
+
+  it('should validate the payload with zod', async () => {
+    const response = await synthesize({ componentId: 'not-a-uuid', voiceId: '../../admin' });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.issues.map((issue: { path: string }) => issue.path)).toEqual(['componentId', 'voiceId']);
+    expect(tts.requests).toHaveLength(0);
+  });
+
+  it('should hide components of projects the caller cannot access unless they are admins', async () => {
+    member = false;
+    const response = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+
+    expect(response.status).toBe(404);
+    expect(tts.requests).toHaveLength(0);
+    expect((await quota.getUsage('project', PROJECT_ID)).used).toBe(0);
+
+    role = 'admin';
+    const asAdmin = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+    expect(asAdmin.status).toBe(200);
+    await asAdmin.arrayBuffer();
+  });
+
+  it('should enforce the per-user character quota', async () => {
+    await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' }).then(r => r.arrayBuffer());
+
+    const response = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+    const data = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(data).toMatchObject({ scope: 'user', used: 34, limit: 50, requested: 34 });
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(tts.requests).toHaveLength(1);
+  });
+
+  it('should enforce the per-project character quota across users', async () => {
+    await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' }).then(r => r.arrayBuffer());
+    authenticatedUser = 'user-2';
+    await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' }).then(r => r.arrayBuffer());
+    authenticatedUser = 'user-3';
+
+    const response = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+    const data = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(data.scope).toBe('project');
+  });
+
+  it('should not overspend a quota when reservations run concurrently', async () => {
+    const results = await Promise.allSettled([
+      quota.reserve('user-9', PROJECT_ID, 30),
+      quota.reserve('user-9', PROJECT_ID, 30),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await quota.getUsage('user', 'user-9')).used).toBe(30);
+    expect((await quota.getUsage('project', PROJECT_ID)).used).toBe(30);
+  });
+
+  it('should release reserved characters and hide provider details on upstream failure', async () => {
+    tts.failNext(500);
+
+    const response = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+    const body = await response.text();
+
+    expect(response.status).toBe(502);
+    expect(body).not.toContain('test-elevenlabs-key');
+    expect((await quota.getUsage('user', 'user-1')).used).toBe(0);
+  });
+
+  it('should release reserved characters when the audio stream breaks part-way', async () => {
+    tts.faultNextStream('break');
+
+    const response = await synthesize({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' });
+
+    expect(response.status).toBe(200);
+    await expect(response.arrayBuffer()).rejects.toThrow();
+    await vi.waitFor(async () => expect((await quota.getUsage('user', 'user-1')).used).toBe(0));
+  });
+
+  it('should abort the provider request when the client disconnects', async () => {
+    tts.faultNextStream('stall');
+    const abandonedBefore = tts.abandonedStreams();
+    const client = new AbortController();
+
+    const response = await globalThis.fetch(`${server.baseUrl}/api/elevenlabs/synthesize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ componentId: COMPONENT_ID, voiceId: 'voiceAlpha1' }),
+      signal: client.signal
+    });
+    const reader = response.body!.getReader();
+    await reader.read();
+    client.abort();
+
+    await vi.waitFor(() => expect(tts.abandonedStreams()).toBe(abandonedBefore + 1));
+    // The provider has charged for the request already
+    expect((await quota.getUsage('user', 'user-1')).used).toBe(34);
+  });
+});
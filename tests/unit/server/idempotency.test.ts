@@ -0,0 +1,220 @@
+/**
+ * Idempotency Middleware Tests
+ *
+ * Covers replay of completed responses, in-flight and payload-reuse conflicts,
+ * release on server and rate-limit errors, per-user key scoping, the memory
+ * store's sweep and size cap, and the Redis-backed store.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for express
+import { describe, it, expect, afterEach } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import {
+  idempotency,
+  MemoryIdempotencyStore,
+  RedisIdempotencyStore,
+  type IdempotencyStore,
+} from '../../../src/server/middleware/idempotency';
+import { MockRedis } from '../../mocks/redis';
+import { startTestServer, type TestServer } from '../../helpers/serverTestUtils';
+
+const silentLogger = pino({ level: 'silent' });
+
+describe('Idempotency middleware', () => {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function startIdempotentApp(store: IdempotencyStore = new MemoryIdempotencyStore()) {
+    const calls = { count: 0 };
+    let releaseSlow: (() => void) | undefined;
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.context = { requestId: `req-${calls.count}`, startTime: Date.now(), userId: req.get('x-test-user') };
+      next();
+    });
+    app.use(idempotency({ store, ttlMs: 60000, lockTtlMs: 30000, logger: silentLogger }));
+    app.post('/items', (req, res) => {
+      calls.count += 1;
+      res.status(201).set('X-Item-Count', String(calls.count)).json({ id: calls.count, name: req.body.name });
+    });
+    app.post('/slow', async (_req, res) => {
+      calls.count += 1;
+      await new Promise<void>(resolve => { releaseSlow = resolve; });
+      res.json({ done: true });
+    });
+    app.post('/broken', (_req, res) => {
+      calls.count += 1;
+      res.status(calls.count === 1 ? 503 : 200).json({ attempt: calls.count });
+    });
+    app.post('/limited', (_req, res) => {
+      calls.count += 1;
+      res.status(calls.count === 1 ? 429 : 201).json({ attempt: calls.count });
+    });
+    app.get('/items', (_req, res) => {
+      calls.count += 1;
+      res.json({ count: calls.count });
+    });
+
+    server = await startTestServer(app);
+    return { baseUrl: server.baseUrl, calls, finishSlow: () => releaseSlow?.() };
+  }
+
+  const post = (baseUrl: string, path: string, body: unknown, key?: string, userId?: string) =>
+    globalThis.fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key ? { 'Idempotency-Key': key } : {}),
+        ...(userId ? { 'x-test-user': userId } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+  it('should replay the stored response for a retried key without re-running the handler', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    const first = await post(baseUrl, '/items', { name: 'intro' }, 'key-1', 'user-a');
+    expect(first.status).toBe(201);
+    expect(await first.json()).toEqual({ id: 1, name: 'intro' });
+
+    const retry = await post(baseUrl, '/items', { name: 'intro' }, 'key-1', 'user-a');
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(retry.headers.get('x-item-count')).toBe('1');
+    expect(await retry.json()).toEqual({ id: 1, name: 'intro' });
+    expect(calls.count).toBe(1);
+  });
+
+  it('should pass through requests without a key and non-mutating methods', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    await post(baseUrl, '/items', { name: 'a' });
+    await post(baseUrl, '/items', { name: 'a' });
+    await globalThis.fetch(`${baseUrl}/items`, { headers: { 'Idempotency-Key': 'key-get' } });
+    await globalThis.fetch(`${baseUrl}/items`, { headers: { 'Idempotency-Key': 'key-get' } });
+
+    expect(calls.count).toBe(4);
+  });
+
+  it('should reject a malformed key', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    const response = await post(baseUrl, '/items', { name: 'a' }, 'x'.repeat(300));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('invalid_idempotency_key');
+    expect(calls.count).toBe(0);
+  });
+
+  it('should reject reuse of a key with a different payload', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    await post(baseUrl, '/items', { name: 'intro' }, 'key-2');
+    const reused = await post(baseUrl, '/items', { name: 'outro' }, 'key-2');
+
+    expect(reused.status).toBe(422);
+    expect((await reused.json()).code).toBe('idempotency_key_reused');
+    expect(calls.count).toBe(1);
+  });
+
+  it('should return 409 while the original request is still in flight', async () => {
+    const { baseUrl, calls, finishSlow } = await startIdempotentApp();
+
+    const original = post(baseUrl, '/slow', {}, 'key-3');
+    // Wait for the handler to start so the key is claimed
+    while (calls.count === 0) await new Promise(resolve => setTimeout(resolve, 5));
+
+    const duplicate = await post(baseUrl, '/slow', {}, 'key-3');
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.headers.get('retry-after')).toBe('1');
+    expect((await duplicate.json()).code).toBe('idempotency_in_flight');
+
+    finishSlow();
+    expect((await original).status).toBe(200);
+    const replayed = await post(baseUrl, '/slow', {}, 'key-3');
+    expect(replayed.headers.get('idempotent-replayed')).toBe('true');
+    expect(calls.count).toBe(1);
+  });
+
+  it('should release the key after a server error so the retry runs again', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    expect((await post(baseUrl, '/broken', {}, 'key-4')).status).toBe(503);
+    const retry = await post(baseUrl, '/broken', {}, 'key-4');
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+    expect(calls.count).toBe(2);
+  });
+
+  it('should not store a rate-limit rejection, so the retry runs once the limit resets', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    expect((await post(baseUrl, '/limited', {}, 'key-6')).status).toBe(429);
+    const retry = await post(baseUrl, '/limited', {}, 'key-6');
+
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+    expect(calls.count).toBe(2);
+  });
+
+  it('should sweep expired records and cap stored responses in the memory store', async () => {
+    const store = new MemoryIdempotencyStore({ maxBytes: 100 });
+    const completed = (body: string) => ({
+      state: 'completed' as const,
+      fingerprint: 'f',
+      status: 201,
+      headers: {},
+      body,
+    });
+
+    await store.complete('old', completed('a'.repeat(40)), 60000);
+    await store.complete('new', completed('b'.repeat(40)), 60000);
+    await store.complete('newest', completed('c'.repeat(40)), 60000);
+
+    // The oldest response made way for the newest
+    expect(store.size.bytes).toBeLessThanOrEqual(100);
+    expect((await store.claim('old', { state: 'in_flight', fingerprint: 'f' }, 1000)).claimed).toBe(true);
+    expect((await store.claim('newest', { state: 'in_flight', fingerprint: 'f' }, 1000)).claimed).toBe(false);
+
+    store.sweep(Date.now() + 120000);
+    expect(store.size).toEqual({ records: 0, bytes: 0 });
+    store.close();
+  });
+
+  it('should scope keys to the authenticated user', async () => {
+    const { baseUrl, calls } = await startIdempotentApp();
+
+    await post(baseUrl, '/items', { name: 'intro' }, 'shared-key', 'user-a');
+    const otherUser = await post(baseUrl, '/items', { name: 'intro' }, 'shared-key', 'user-b');
+
+    expect(otherUser.headers.get('idempotent-replayed')).toBeNull();
+    expect(calls.count).toBe(2);
+  });
+
+  it('should share stored responses across instances through the Redis store', async () => {
+    const redis = new MockRedis();
+    const { baseUrl, calls } = await startIdempotentApp(new RedisIdempotencyStore(redis));
+
+    await post(baseUrl, '/items', { name: 'intro' }, 'key-5', 'user-a');
+
+    // A second BFF instance sees the completed record written by the first
+    const otherInstance = new RedisIdempotencyStore(redis);
+    const claim = await otherInstance.claim('user:user-a:key-5', { state: 'in_flight', fingerprint: 'x' }, 1000);
+    expect(claim.claimed).toBe(false);
+    expect(claim.claimed === false && claim.record.state).toBe('completed');
+
+    const retry = await post(baseUrl, '/items', { name: 'intro' }, 'key-5', 'user-a');
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(calls.count).toBe(1);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Background Job Tests
+ *
+ * Covers the JobQueue lifecycle (progress, completion, failure, cancellation,
+ * concurrency), persistence through the Redis store, per-user scoping of the
+ * /api/jobs routes and the SSE event stream consumed by the generated client.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for express
+import { describe, it, expect, afterEach } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import {
+  JobQueue,
+  MemoryJobStore,
+  RedisJobStore,
+  type JobEvent,
+  type JobStore,
+} from '../../../src/server/services/jobs';
+import { createJobsRouter } from '../../../src/server/routes/jobs';
+import { createBffClient, BffApiError } from '../../../src/lib/api/bffClient';
+import { MockRedis } from '../../mocks/redis';
+import { startTestServer, type TestServer } from '../../helpers/serverTestUtils';
+
+const silentLogger = pino({ level: 'silent' });
+
+// Handler that runs until the test releases it
+function controllable() {
+  let release!: (value?: unknown) => void;
+  let reject!: (error: Error) => void;
+  const done = new Promise((resolve, fail) => { release = resolve; reject = fail; });
+  return { done, release, reject };
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('JobQueue', () => {
+  let queue: JobQueue | undefined;
+
+  afterEach(async () => {
+    await queue?.stop();
+    queue = undefined;
+  });
+
+  const createQueue = (store: JobStore = new MemoryJobStore(), concurrency = 2) => {
+    queue = new JobQueue({ store, concurrency, ttlMs: 60000, logger: silentLogger, pollIntervalMs: 10 });
+    return queue;
+  };
+
+  it('should run a job to completion and publish progress to subscribers', async () => {
+    const jobs = createQueue();
+    const gate = controllable();
+    const events: JobEvent[] = [];
+    let closed = false;
+
+    const job = await jobs.enqueue('export', 'user-a', async context => {
+      await context.progress(0.5, 'Rendering');
+      await gate.done;
+      return { url: 'https://files.example/export.pdf' };
+    });
+    jobs.watch(job.id, { onEvent: event => events.push(event), onClose: () => { closed = true; } });
+
+    await settle();
+    expect((await jobs.get(job.id, 'user-a'))).toMatchObject({ status: 'running', progress: 0.5, message: 'Rendering' });
+
+    gate.release();
+    await settle();
+
+    expect(events.map(event => event.type)).toEqual(['progress', 'progress', 'completed']);
+    expect(events[1].job).toMatchObject({ status: 'running', progress: 0.5 });
+    expect(events[2].job).toMatchObject({ status: 'completed', progress: 1, result: { url: 'https://files.example/export.pdf' } });
+    expect(closed).toBe(true);
+  });
+
+  it('should record handler errors as failed jobs', async () => {
+    const jobs = createQueue();
+
+    const job = await jobs.enqueue('tts', 'user-a', async () => {
+      throw new Error('Provider unavailable');
+    });
+    await settle();
+
+    expect(await jobs.get(job.id, 'user-a')).toMatchObject({ status: 'failed', error: 'Provider unavailable' });
+  });
+
+  it('should limit concurrency and start queued jobs as slots free up', async () => {
+    const jobs = createQueue(new MemoryJobStore(), 1);
+    const first = controllable();
+
+    const running = await jobs.enqueue('export', 'user-a', () => first.done);
+    const waiting = await jobs.enqueue('export', 'user-a', async () => 'second');
+    await settle();
+
+    expect((await jobs.get(waiting.id, 'user-a'))!.status).toBe('queued');
+    first.release();
+    await settle();
+
+    expect((await jobs.get(running.id, 'user-a'))!.status).toBe('completed');
+    expect(await jobs.get(waiting.id, 'user-a')).toMatchObject({ status: 'completed', result: 'second' });
+  });
+
+  it('should abort the handler on cancel and ignore its later outcome', async () => {
+    const jobs = createQueue();
+    const gate = controllable();
+    let aborted = false;
+
+    const job = await jobs.enqueue('compaction', 'user-a', async context => {
+      context.signal.addEventListener('abort', () => { aborted = true; });
+      await gate.done;
+      return 'finished anyway';
+    });
+    await settle();
+
+    expect(await jobs.cancel(job.id, 'user-b')).toBeUndefined();
+    const cancelled = await jobs.cancel(job.id, 'user-a');
+    expect(cancelled!.status).toBe('cancelled');
+    expect(aborted).toBe(true);
+
+    gate.release();
+    await settle();
+    expect((await jobs.get(job.id, 'user-a'))!.status).toBe('cancelled');
+  });
+
+  it('should persist jobs to Redis so another instance can poll them', async () => {
+    const redis = new MockRedis();
+    const jobs = createQueue(new RedisJobStore(redis));
+    const gate = controllable();
+
+    const job = await jobs.enqueue('export', 'user-a', async context => {
+      await context.progress(0.25);
+      await gate.done;
+      return 'done';
+    });
+    await settle();
+
+    const otherInstance = new JobQueue({
+      store: new RedisJobStore(redis),
+      concurrency: 1,
+      ttlMs: 60000,
+      logger: silentLogger,
+      pollIntervalMs: 10,
+    });
+    expect(await otherInstance.get(job.id, 'user-a')).toMatchObject({ status: 'running', progress: 0.25 });
+    expect(await otherInstance.get(job.id, 'user-b')).toBeUndefined();
+    expect((await otherInstance.list('user-a', 10)).map(listed => listed.id)).toEqual([job.id]);
+
+    const events: JobEvent[] = [];
+    const closed = new Promise<void>(resolve => {
+      otherInstance.watch(job.id, { onEvent: event => events.push(event), onClose: resolve });
+    });
+    await settle();
+    gate.release();
+    await closed;
+
+    expect(events.at(-1)).toMatchObject({ type: 'completed', job: { result: 'done' } });
+  });
+
+  it('should fail outstanding jobs and close subscribers on stop', async () => {
+    const jobs = createQueue();
+    const gate = controllable();
+    let closed = false;
+
+    const job = await jobs.enqueue('export', 'user-a', () => gate.done);
+    jobs.watch(job.id, { onEvent: () => undefined, onClose: () => { closed = true; } });
+    await settle();
+    await jobs.stop();
+
+    expect(await jobs.get(job.id, 'user-a')).toMatchObject({ status: 'failed', error: 'Server shutting down' });
+    expect(closed).toBe(true);
+    await expect(jobs.enqueue('export', 'user-a', async () => undefined)).rejects.toThrow('Job queue is shutting down');
+  });
+});
+
+describe('/api/jobs routes', () => {
+  let server: TestServer | undefined;
+  let queue: JobQueue | undefined;
+
+  afterEach(async () => {
+    await queue?.stop();
+    await server?.close();
+    server = undefined;
+    queue = undefined;
+  });
+
+  async function startJobsApp() {
+    queue = new JobQueue({ store: new MemoryJobStore(), concurrency: 2, ttlMs: 60000, logger: silentLogger });
+    const app = express();
+    app.use((req, _res, next) => {
+      req.context = { requestId: 'req-jobs', startTime: Date.now(), userId: req.get('authorization')?.replace('Bearer ', '') };
+      next();
+    });
+    app.use('/api/jobs', createJobsRouter({ jobs: queue, heartbeatMs: 20 }));
+    server = await startTestServer(app);
+    return { jobs: queue, baseUrl: server.baseUrl };
+  }
+
+  const clientFor = (baseUrl: string, userId: string) =>
+    createBffClient({ baseUrl, getAccessToken: async () => userId });
+
+  it('should return job status only to the user who started it', async () => {
+    const { jobs, baseUrl } = await startJobsApp();
+    const job = await jobs.enqueue('export', 'user-a', async () => ({ pages: 3 }));
+    await settle();
+
+    const status = await clientFor(baseUrl, 'user-a').getJob({ jobId: job.id });
+    expect(status).toMatchObject({ id: job.id, status: 'completed', result: { pages: 3 } });
+    expect(status).not.toHaveProperty('userId');
+
+    const { jobs: listed } = await clientFor(baseUrl, 'user-a').listJobs();
+    expect(listed.map(listed => listed.id)).toEqual([job.id]);
+    expect((await clientFor(baseUrl, 'user-b').listJobs()).jobs).toEqual([]);
+
+    const error = await clientFor(baseUrl, 'user-b').getJob({ jobId: job.id }).catch(caught => caught);
+    expect(error).toBeInstanceOf(BffApiError);
+    expect(error.status).toBe(404);
+  });
+
+  it('should require authentication and a UUID job ID', async () => {
+    const { baseUrl } = await startJobsApp();
+
+    expect((await globalThis.fetch(`${baseUrl}/api/jobs`)).status).toBe(401);
+    const invalid = await globalThis.fetch(`${baseUrl}/api/jobs/not-a-uuid`, { headers: { Authorization: 'Bearer user-a' } });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should cancel a running job and refuse to cancel a finished one', async () => {
+    const { jobs, baseUrl } = await startJobsApp();
+    const gate = controllable();
+    const running = await jobs.enqueue('export', 'user-a', () => gate.done);
+    const finished = await jobs.enqueue('export', 'user-a', async () => 'ok');
+    await settle();
+    const client = clientFor(baseUrl, 'user-a');
+
+    expect((await client.cancelJob({ jobId: running.id })).status).toBe('cancelled');
+    const conflict = await client.cancelJob({ jobId: finished.id }).catch(caught => caught);
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.code).toBe('job_not_cancellable');
+    gate.release();
+  });
+
+  it('should stream a snapshot, progress and the terminal event over SSE', async () => {
+    const { jobs, baseUrl } = await startJobsApp();
+    const gate = controllable();
+    const job = await jobs.enqueue('tts', 'user-a', async context => {
+      await gate.done;
+      await context.progress(0.5, 'Half way');
+      throw new Error('Voice not found');
+    });
+    await settle();
+
+    const stream = await clientFor(baseUrl, 'user-a').streamJobEvents({ jobId: job.id });
+    const received: string[] = [];
+    setTimeout(() => gate.release(), 50);
+    for await (const event of stream) {
+      received.push(`${event.type}:${event.job.status}`);
+    }
+
+    expect(received).toEqual(['snapshot:running', 'progress:running', 'failed:failed']);
+  });
+
+  it('should send a single snapshot for jobs that already finished', async () => {
+    const { jobs, baseUrl } = await startJobsApp();
+    const job = await jobs.enqueue('export', 'user-a', async () => 'ok');
+    await settle();
+
+    const response = await globalThis.fetch(`${baseUrl}/api/jobs/${job.id}/events`, { headers: { Authorization: 'Bearer user-a' } });
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    const body = await response.text();
+
+    expect(body).toContain('event: snapshot');
+    expect(body).toContain('"status":"completed"');
+    expect(body.match(/^event:/gm)).toHaveLength(1);
+  });
+});
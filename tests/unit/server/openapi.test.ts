@@ -0,0 +1,111 @@
+/**
+ * OpenAPI Contract Tests
+ *
+ * Verifies the document served at /api/openapi.json, that live responses
+ * conform to their declared schemas, and that the committed React client
+ * matches what the generator produces from the current contracts.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for zod
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { createApp } from '../../../src/server/app';
+import { buildOpenApiDocument } from '../../../src/server/openapi/document';
+import { generateClientSource } from '../../../src/server/openapi/clientGenerator';
+import { apiContracts, BFF_API_INFO } from '../../../src/server/openapi/routes';
+import { defineRoute, named } from '../../../src/server/openapi/contract';
+import { versionPayloadSchema } from '../../../src/server/routes/version';
+import { startTestServer, createTestConfig, type TestServer } from '../../helpers/serverTestUtils';
+
+describe('OpenAPI document', () => {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should serve an OpenAPI 3.1 document describing the BFF routes', async () => {
+    server = await startTestServer(createApp(createTestConfig()));
+
+    const response = await globalThis.fetch(`${server.baseUrl}/api/openapi.json`);
+    const document = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toEqual(expect.arrayContaining([
+      '/healthz', '/readyz', '/metrics', '/api/version', '/api/elevenlabs/voices',
+      '/api/elevenlabs/synthesize', '/api/telemetry/circuit-breakers'
+    ]));
+
+    const synthesize = document.paths['/api/elevenlabs/synthesize'].post;
+    expect(synthesize.operationId).toBe('synthesizeSpeech');
+    expect(synthesize.security).toEqual([{ bearerAuth: [] }]);
+    expect(synthesize.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/SynthesizeRequest' });
+    expect(synthesize.responses['200'].content['audio/mpeg']).toBeDefined();
+    expect(synthesize.responses['400'].content['application/json'].schema.$ref).toBe('#/components/schemas/ValidationErrorResponse');
+    expect(synthesize.responses['401']).toBeDefined();
+
+    const version = document.paths['/api/version'].get;
+    expect(version.security).toBeUndefined();
+    expect(version.responses['429'].content['application/json'].schema.$ref).toBe('#/components/schemas/RateLimitResponse');
+    expect(document.components.schemas.SynthesizeRequest.required).toEqual(['componentId', 'voiceId']);
+  });
+
+  it('should serve responses that conform to their declared schemas', async () => {
+    server = await startTestServer(createApp(createTestConfig()));
+
+    const body = await (await globalThis.fetch(`${server.baseUrl}/api/version`)).json();
+
+    expect(versionPayloadSchema.strict().safeParse(body).success).toBe(true);
+  });
+
+  it('should describe path and query parameters', () => {
+    const document = buildOpenApiDocument([
+      defineRoute({
+        method: 'get',
+        path: '/api/items/{itemId}',
+        operationId: 'getItem',
+        summary: 'Fetch an item',
+        tags: ['items'],
+        auth: true,
+        request: {
+          params: z.object({ itemId: z.string().uuid() }),
+          query: z.object({ expand: z.enum(['children']).optional() })
+        },
+        responses: { 200: { description: 'Item', body: named('Item', z.object({ id: z.string() })) } }
+      })
+    ], BFF_API_INFO);
+
+    expect(document.paths['/api/items/{itemId}'].get).toMatchObject({
+      parameters: [
+        { name: 'itemId', in: 'path', required: true },
+        { name: 'expand', in: 'query', required: false, schema: { type: 'string', enum: ['children'] } }
+      ]
+    });
+  });
+
+  it('should reject two different schemas published under one name', () => {
+    const route = (schema: z.ZodType, operationId: string) => defineRoute({
+      method: 'get',
+      path: `/api/${operationId}`,
+      operationId,
+      summary: operationId,
+      tags: [],
+      auth: false,
+      responses: { 200: { description: 'ok', body: named('Clash', schema) } }
+    });
+
+    expect(() => buildOpenApiDocument([route(z.object({ a: z.string() }), 'first'), route(z.object({ b: z.string() }), 'second')], BFF_API_INFO))
+      .toThrow('Schema name "Clash" is used for two different schemas');
+  });
+
+  it('should have an up-to-date generated client (run npm run generate:api-client)', () => {
+    const expected = generateClientSource(buildOpenApiDocument(apiContracts, BFF_API_INFO));
+
+    expect(readFileSync('src/lib/api/bffClient.ts', 'utf-8')).toBe(expected);
+  });
+});
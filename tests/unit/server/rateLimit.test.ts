@@ -0,0 +1,149 @@
+/**
+ * Rate Limiting Middleware Tests
+ *
+ * Covers user-vs-IP keying, per-policy budgets, the Redis-backed store
+ * (via tests/mocks/redis.ts), the exact retry time in 429 responses, and
+ * the CORS headers the browser app needs to send keys and read limits.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for express-rate-limit
+import { describe, it, expect, afterEach } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { createRateLimiter, RedisRateLimitStore, type RateLimiterOptions } from '../../../src/server/middleware/rateLimit';
+import { createApp } from '../../../src/server/app';
+import { MockRedis } from '../../mocks/redis';
+import { startTestServer, createTestConfig, type TestServer } from '../../helpers/serverTestUtils';
+
+const silentLogger = pino({ level: 'silent' });
+
+describe('Rate limiting', () => {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function startLimitedApp(options: RateLimiterOptions, max = 2) {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.context = { requestId: 'req-limit', startTime: Date.now(), userId: req.get('x-test-user') };
+      next();
+    });
+    app.use(createRateLimiter({ name: 'api', max, windowMs: 60000 }, options));
+    app.get('/ping', (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = await startTestServer(app);
+    return server.baseUrl;
+  }
+
+  const get = (baseUrl: string, userId?: string) =>
+    globalThis.fetch(`${baseUrl}/ping`, { headers: userId ? { 'x-test-user': userId } : {} });
+
+  it('should return 429 with exact retry timing once the budget is spent', async () => {
+    const baseUrl = await startLimitedApp({ storeKind: 'memory', logger: silentLogger });
+
+    expect((await get(baseUrl)).status).toBe(200);
+    const second = await get(baseUrl);
+    expect(second.headers.get('ratelimit-remaining')).toBe('0');
+
+    const before = Date.now();
+    const limited = await get(baseUrl);
+    const body = await limited.json();
+
+    expect(limited.status).toBe(429);
+    expect(body).toMatchObject({ policy: 'api', limit: 2, requestId: 'req-limit' });
+    expect(body.retryAfterMs).toBeGreaterThan(59000);
+    expect(body.retryAfterMs).toBeLessThanOrEqual(60000);
+    expect(limited.headers.get('retry-after')).toBe(String(body.retryAfter));
+    expect(Date.parse(body.resetAt) - before).toBeLessThanOrEqual(60000 + 1000);
+  });
+
+  it('should give each authenticated user an independent budget', async () => {
+    const baseUrl = await startLimitedApp({ storeKind: 'memory', logger: silentLogger }, 1);
+
+    expect((await get(baseUrl, 'user-a')).status).toBe(200);
+    expect((await get(baseUrl, 'user-a')).status).toBe(429);
+    expect((await get(baseUrl, 'user-b')).status).toBe(200);
+    // Anonymous traffic from the same IP is counted separately from users
+    expect((await get(baseUrl)).status).toBe(200);
+  });
+
+  it('should share counters across instances through the Redis store', async () => {
+    const redis = new MockRedis();
+    const baseUrl = await startLimitedApp({ storeKind: 'redis', redis, logger: silentLogger }, 2);
+
+    expect((await get(baseUrl, 'user-a')).status).toBe(200);
+    expect(await redis.get('rate-limit:api:user:user-a')).toBe('1');
+
+    // A second BFF instance sees the hit recorded by the first
+    const otherInstance = new RedisRateLimitStore(redis, 'api');
+    otherInstance.init({ windowMs: 60000 } as never);
+    const { totalHits, resetTime } = await otherInstance.increment('user:user-a');
+    expect(totalHits).toBe(2);
+    expect(resetTime!.getTime()).toBeGreaterThan(Date.now());
+
+    expect((await get(baseUrl, 'user-a')).status).toBe(429);
+  });
+
+  it('should require a Redis client for the Redis store', () => {
+    expect(() => createRateLimiter({ name: 'api', max: 1, windowMs: 1000 }, { storeKind: 'redis', logger: silentLogger }))
+      .toThrow('Redis rate-limit store requires a Redis client');
+  });
+
+  it('should apply the stricter TTS budget only to synthesis', async () => {
+    const app = createApp(createTestConfig({ ttsRateLimitMax: 1 }), { redis: new MockRedis() });
+    server = await startTestServer(app);
+    const synthesize = () => globalThis.fetch(`${server!.baseUrl}/api/elevenlabs/synthesize`, { method: 'POST' });
+
+    // Anonymous requests pass the limiter and are then rejected by the router
+    expect((await synthesize()).status).toBe(401);
+    const limited = await synthesize();
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).policy).toBe('tts');
+
+    expect((await globalThis.fetch(`${server.baseUrl}/api/version`)).status).toBe(200);
+  });
+
+  it('should throttle each IP before authentication, including probes and forged tokens', async () => {
+    const app = createApp(createTestConfig({ ipRateLimitMax: 3 }), { redis: new MockRedis() });
+    server = await startTestServer(app);
+    const forged = () => globalThis.fetch(`${server!.baseUrl}/api/version`, {
+      headers: { Authorization: 'Bearer forged.token.value' }
+    });
+
+    expect((await forged()).status).toBe(401);
+    expect((await forged()).status).toBe(401);
+    expect((await globalThis.fetch(`${server.baseUrl}/metrics`)).status).not.toBe(429);
+
+    const limited = await globalThis.fetch(`${server.baseUrl}/readyz`);
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).policy).toBe('ip');
+    expect((await globalThis.fetch(`${server.baseUrl}/healthz`)).status).toBe(200);
+  });
+
+  it('should let the browser app send idempotency and project headers and read the limit headers', async () => {
+    const app = createApp(createTestConfig(), { redis: new MockRedis() });
+    server = await startTestServer(app);
+    const origin = 'http://localhost:5173';
+
+    const preflight = await globalThis.fetch(`${server.baseUrl}/api/elevenlabs/synthesize`, {
+      method: 'OPTIONS',
+      headers: {
+        Origin: origin,
+        'Access-Control-Request-Method': 'POST',
+        'Access-Control-Request-Headers': 'authorization,content-type,idempotency-key,x-project-id'
+      }
+    });
+    const allowed = preflight.headers.get('access-control-allow-headers')!.toLowerCase().split(',');
+    expect(allowed).toEqual(expect.arrayContaining(['idempotency-key', 'x-project-id']));
+
+    const response = await globalThis.fetch(`${server.baseUrl}/api/version`, { headers: { Origin: origin } });
+    const exposed = response.headers.get('access-control-expose-headers')!.toLowerCase().split(',');
+    expect(exposed).toEqual(expect.arrayContaining(['idempotent-replayed', 'retry-after', 'ratelimit-remaining', 'ratelimit-reset']));
+  });
+});
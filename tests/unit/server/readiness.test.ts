@@ -0,0 +1,159 @@
+/**
+ * Readiness Probe Tests
+ *
+ * Verifies /readyz per-dependency reporting, per-check timeouts, the
+ * critical vs degraded distinction, result caching without upstream error
+ * details and the draining flip on shutdown.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import type { Server } from 'http';
+import { createApp, gracefulShutdown, getReadinessProbe } from '../../../src/server/app';
+import { MockRedis } from '../../mocks/redis';
+import { startTestServer, createTestConfig, type TestServer } from '../../helpers/serverTestUtils';
+import { startFakeTtsServer, type FakeTtsServer } from '../../helpers/fakeTtsServer';
+
+type SupabaseBehaviour = 'up' | 'error' | 'hang';
+
+function createPingClient(behaviour: SupabaseBehaviour) {
+  const query = {
+    select: vi.fn(() => query),
+    limit: vi.fn(() => {
+      if (behaviour === 'hang') return new Promise(() => undefined);
+      return Promise.resolve(behaviour === 'error'
+        ? { data: null, error: { message: 'connection refused' } }
+        : { data: null, error: null });
+    })
+  };
+  return { from: vi.fn(() => query) };
+}
+
+describe('/readyz', () => {
+  let tts: FakeTtsServer;
+  let server: TestServer | undefined;
+
+  beforeAll(async () => {
+    tts = await startFakeTtsServer();
+  });
+
+  afterAll(async () => {
+    await tts.close();
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    vi.restoreAllMocks();
+  });
+
+  async function start(supabase: SupabaseBehaviour, overrides: Parameters<typeof createTestConfig>[0] = {}, redis = new MockRedis()) {
+    const app = createApp(
+      createTestConfig({ elevenlabsBaseUrl: tts.baseUrl, rateLimitStore: 'redis', ...overrides }),
+      { supabase: createPingClient(supabase) as any, redis }
+    );
+    server = await startTestServer(app);
+    return { app, baseUrl: server.baseUrl };
+  }
+
+  const readyz = async (baseUrl: string) => {
+    const response = await globalThis.fetch(`${baseUrl}/readyz`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('should report ready with per-dependency status when everything is up', async () => {
+    const { baseUrl } = await start('up');
+
+    const { status, body } = await readyz(baseUrl);
+
+    expect(status).toBe(200);
+    expect(body.status).toBe('ready');
+    expect(body.checks.map((check: { name: string; status: string }) => [check.name, check.status])).toEqual([
+      ['supabase', 'up'],
+      ['tts', 'up'],
+      ['rate_limit_store', 'up'],
+      ['idempotency_store', 'up'],
+      ['job_store', 'up']
+    ]);
+    expect(tts.requests.at(-1)).toMatchObject({ path: '/v1/models', apiKey: 'test-elevenlabs-key' });
+  });
+
+  it('should stay in rotation as degraded when only non-critical dependencies fail', async () => {
+    const redis = new MockRedis();
+    vi.spyOn(redis, 'ping').mockRejectedValue(new Error('ECONNREFUSED'));
+    const { baseUrl } = await start('up', {}, redis);
+    tts.failNext(503);
+
+    const { status, body } = await readyz(baseUrl);
+
+    expect(status).toBe(200);
+    expect(body.status).toBe('degraded');
+    expect(body.checks.find((check: { name: string }) => check.name === 'tts')).toEqual({
+      name: 'tts',
+      status: 'down',
+      critical: false
+    });
+    expect(body.checks.find((check: { name: string }) => check.name === 'rate_limit_store').status).toBe('down');
+  });
+
+  it('should return 503 when Supabase is unreachable', async () => {
+    const { baseUrl } = await start('error');
+
+    const { status, body } = await readyz(baseUrl);
+
+    expect(status).toBe(503);
+    expect(body.status).toBe('not_ready');
+    expect(body.checks[0]).toEqual({ name: 'supabase', status: 'down', critical: true });
+    expect(JSON.stringify(body)).not.toContain('connection refused');
+  });
+
+  it('should time out a hung dependency without stalling the probe', async () => {
+    const { baseUrl } = await start('hang', { readinessTimeoutMs: 50 });
+    const startedAt = Date.now();
+
+    const { status, body } = await readyz(baseUrl);
+
+    expect(status).toBe(503);
+    expect(body.checks[0]).toMatchObject({ name: 'supabase', status: 'down' });
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('should reuse check results for the cache period and share a run between concurrent probes', async () => {
+    const { baseUrl } = await start('up', { readinessCacheMs: 60000 });
+    const modelRequests = () => tts.requests.filter(request => request.path === '/v1/models').length;
+    const before = modelRequests();
+
+    const [first, second] = await Promise.all([readyz(baseUrl), readyz(baseUrl)]);
+    const third = await readyz(baseUrl);
+
+    expect(modelRequests() - before).toBe(1);
+    expect([first.body.status, second.body.status, third.body.status]).toEqual(['ready', 'ready', 'ready']);
+    expect(third.body.timestamp).toBe(first.body.timestamp);
+  });
+
+  it('should flip to not-ready before closing the server on shutdown', async () => {
+    const { app, baseUrl } = await start('up');
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    const fakeServer = { close: vi.fn() } as unknown as Server;
+    vi.useFakeTimers();
+
+    try {
+      gracefulShutdown(fakeServer, 'SIGTERM', { readiness: getReadinessProbe(app), drainMs: 5000 });
+
+      expect(getReadinessProbe(app)?.isDraining()).toBe(true);
+      expect(fakeServer.close).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(5000);
+      expect(fakeServer.close).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.clearAllTimers();
+      vi.useRealTimers();
+    }
+
+    const { status, body } = await readyz(baseUrl);
+    expect(status).toBe(503);
+    expect(body.status).toBe('draining');
+    expect(exit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Script Export Tests
+ *
+ * Covers TipTap flattening and Markdown rendering of marks, headings and
+ * lists, the DOCX/PDF containers, access control on the export route, and
+ * exports run as background jobs.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+// Context7: consulted for express
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import {
+  flattenTipTap,
+  formatDuration,
+  loadScriptForExport,
+  renderDocx,
+  renderMarkdown,
+  renderPdf,
+  type ExportScript,
+} from '../../../src/server/services/scriptExport';
+import { createScriptsRouter } from '../../../src/server/routes/scripts';
+import { JobQueue, MemoryJobStore } from '../../../src/server/services/jobs';
+import type { JSONContent } from '../../../src/lib/content/content-processor';
+import { startTestServer, type TestServer } from '../../helpers/serverTestUtils';
+
+const SCRIPT_ID = '5d0b7c1e-8a43-4f2b-9e61-3c7a2f9d4b10';
+const PROJECT_ID = 'project-berkeley';
+
+const text = (value: string, marks: string[] = []): JSONContent => ({
+  type: 'text',
+  text: value,
+  marks: marks.map(type => ({ type })),
+});
+
+const INTRO: JSONContent = {
+  type: 'doc',
+  content: [
+    { type: 'heading', attrs: { level: 1 }, content: [text('Welcome home')] },
+    {
+      type: 'paragraph',
+      content: [
+        text('Your '),
+        text('new', ['bold']),
+        text(' kitchen is '),
+        text('ready ', ['italic']),
+        { type: 'text', text: 'today', marks: [{ type: 'link', attrs: { href: 'https://example.com/guide' } }] },
+      ],
+    },
+  ],
+};
+
+const STEPS: JSONContent = {
+  type: 'doc',
+  content: [
+    {
+      type: 'orderedList',
+      attrs: { start: 1 },
+      content: [
+        { type: 'listItem', content: [{ type: 'paragraph', content: [text('Open the valve')] }] },
+        {
+          type: 'listItem',
+          content: [
+            { type: 'paragraph', content: [text('Check the '), text('filter', ['code'])] },
+            {
+              type: 'bulletList',
+              content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [text('Replace yearly', ['strike'])] }] }],
+            },
+          ],
+        },
+      ],
+    },
+    { type: 'blockquote', content: [{ type: 'paragraph', content: [text('Call us'), { type: 'hardBreak' }, text('any time')] }] },
+  ],
+};
+
+const SCRIPT: ExportScript = {
+  scriptId: SCRIPT_ID,
+  projectId: PROJECT_ID,
+  title: 'Berkeley Handover',
+  components: [
+    { number: 1, componentId: 'c1', type: 'intro', content: INTRO, wordCount: 8, estimatedDuration: 3 },
+    { number: 2, componentId: 'c2', type: 'main', title: 'Maintenance', content: STEPS, wordCount: 11, estimatedDuration: 4 },
+  ],
+  wordCount: 19,
+  estimatedDuration: 7,
+};
+
+// Supabase query builder stub: each table resolves to a fixed result
+function createExportClient(tables: Record<string, { data: unknown; error: null | { message: string } }>) {
+  const from = vi.fn((table: string) => {
+    const result = tables[table] ?? { data: null, error: null };
+    const query = {
+      select: vi.fn(() => query),
+      eq: vi.fn(() => query),
+      is: vi.fn(() => query),
+      order: vi.fn(async () => result),
+      maybeSingle: vi.fn(async () => result),
+    };
+    return query;
+  });
+  return { from };
+}
+
+describe('Script export rendering', () => {
+  it('should flatten nested lists with numbering, depth and continuation markers', () => {
+    const blocks = flattenTipTap(STEPS);
+
+    expect(blocks.map(block => [block.kind, block.list?.depth, block.list?.number, block.marker, block.quoteDepth])).toEqual([
+      ['paragraph', 0, 1, true, 0],
+      ['paragraph', 0, 2, true, 0],
+      ['paragraph', 1, undefined, true, 0],
+      ['paragraph', undefined, undefined, undefined, 1],
+    ]);
+  });
+
+  it('should render title, component numbers, type, word count and duration in Markdown', () => {
+    const markdown = renderMarkdown(SCRIPT);
+
+    expect(markdown).toContain('# Berkeley Handover\n\n_2 components · 19 words · 0:07 estimated_');
+    expect(markdown).toContain('## 1. Intro\n\n_Type: Intro · 8 words · 0:03 estimated_');
+    expect(markdown).toContain('## 2. Maintenance\n\n_Type: Main · 11 words · 0:04 estimated_');
+  });
+
+  it('should render marks, headings, lists and quotes faithfully in Markdown', () => {
+    const markdown = renderMarkdown(SCRIPT);
+
+    expect(markdown).toContain('### Welcome home');
+    expect(markdown).toContain('Your **new** kitchen is _ready_ [today](https://example.com/guide)');
+    expect(markdown).toContain('1. Open the valve\n2. Check the `filter`\n   - ~~Replace yearly~~');
+    expect(markdown).toContain('> Call us\\\n> any time');
+  });
+
+  it('should format durations as minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(75)).toBe('1:15');
+  });
+
+  it('should produce a DOCX package and a PDF document', async () => {
+    const docx = await renderDocx(SCRIPT);
+    const pdf = await renderPdf(SCRIPT);
+
+    expect(docx.subarray(0, 2).toString('latin1')).toBe('PK');
+    expect(pdf.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+
+  it('should load components in position order with word counts from the content processor', async () => {
+    const supabase = createExportClient({
+      video_scripts: { data: { script_id: SCRIPT_ID, title: 'Berkeley Handover', videos: { project_id: PROJECT_ID } }, error: null },
+      script_components: {
+        data: [
+          { component_id: 'c1', title: null, component_type: 'intro', content_tiptap: INTRO },
+          { component_id: 'c2', title: 'Maintenance', component_type: 'main', content_tiptap: STEPS },
+        ],
+        error: null,
+      },
+    });
+
+    const script = await loadScriptForExport(supabase as any, SCRIPT_ID);
+
+    expect(script!.components.map(component => [component.number, component.type, component.wordCount])).toEqual([
+      [1, 'intro', 8],
+      [2, 'main', 12],
+    ]);
+    expect(script!.wordCount).toBe(20);
+  });
+});
+
+describe('/api/scripts/:scriptId/export', () => {
+  let server: TestServer;
+  let jobs: JobQueue;
+  let member: boolean;
+  let role: 'admin' | 'client' | undefined;
+
+  beforeEach(async () => {
+    member = true;
+    role = 'client';
+    const supabase = {
+      from: (table: string) => createExportClient({
+        video_scripts: { data: { script_id: SCRIPT_ID, title: 'Berkeley Handover', videos: { project_id: PROJECT_ID } }, error: null },
+        script_components: { data: [{ component_id: 'c1', title: null, component_type: 'intro', content_tiptap: INTRO }], error: null },
+        project_members: { data: member ? { user_id: 'user-1' } : null, error: null },
+      }).from(table),
+    };
+
+    const logger = pino({ level: 'silent' });
+    jobs = new JobQueue({ store: new MemoryJobStore(), concurrency: 1, ttlMs: 60000, logger });
+    const app = express();
+    app.use((req, _res, next) => {
+      const userId = (req.headers['x-user'] as string | undefined) ?? (role && 'user-1');
+      req.context = { requestId: 'req-export', startTime: Date.now(), userId, role };
+      next();
+    });
+    app.use('/api/scripts', createScriptsRouter({ supabase: supabase as any, logger, jobs }));
+    server = await startTestServer(app);
+  });
+
+  afterEach(async () => {
+    await jobs.stop();
+    await server.close();
+  });
+
+  const exportScript = (format: string, scriptId = SCRIPT_ID) =>
+    globalThis.fetch(`${server.baseUrl}/api/scripts/${scriptId}/export?format=${format}`);
+
+  it('should return the rendered file as an attachment', async () => {
+    const response = await exportScript('md');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toBe(
+      'attachment; filename="berkeley-handover.md"; filename*=UTF-8\'\'Berkeley%20Handover.md'
+    );
+    expect(await response.text()).toContain('## 1. Intro');
+  });
+
+  it('should serve DOCX and PDF with their media types', async () => {
+    expect((await exportScript('docx')).headers.get('content-type'))
+      .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect((await exportScript('pdf')).headers.get('content-type')).toBe('application/pdf');
+  });
+
+  it('should hide scripts from users outside the project unless they are admins', async () => {
+    member = false;
+    expect((await exportScript('md')).status).toBe(404);
+
+    role = 'admin';
+    expect((await exportScript('md')).status).toBe(200);
+  });
+
+  it('should validate the format and script ID and require authentication', async () => {
+    expect((await exportScript('rtf')).status).toBe(400);
+    expect((await exportScript('md', 'not-a-uuid')).status).toBe(400);
+
+    role = undefined;
+    expect((await exportScript('md')).status).toBe(401);
+  });
+
+  it('should render exports as background jobs and serve the finished file', async () => {
+    const started = await globalThis.fetch(`${server.baseUrl}/api/scripts/${SCRIPT_ID}/exports?format=md`, { method: 'POST' });
+    const job = await started.json();
+
+    expect(started.status).toBe(202);
+    expect(started.headers.get('location')).toBe(`/api/jobs/${job.id}`);
+    expect(job).toMatchObject({ type: 'script-export' });
+    expect(job.userId).toBeUndefined();
+
+    await vi.waitFor(async () => expect((await jobs.get(job.id, 'user-1'))?.status).toBe('completed'));
+
+    const download = await globalThis.fetch(`${server.baseUrl}/api/scripts/exports/${job.id}`);
+    expect(download.status).toBe(200);
+    expect(download.headers.get('content-disposition')).toContain('filename="berkeley-handover.md"');
+    expect(await download.text()).toContain('## 1. Intro');
+
+    const otherUser = await globalThis.fetch(`${server.baseUrl}/api/scripts/exports/${job.id}`, { headers: { 'x-user': 'user-2' } });
+    expect(otherUser.status).toBe(404);
+  });
+
+  it('should check access before queueing and refuse downloads of unfinished exports', async () => {
+    member = false;
+    const hidden = await globalThis.fetch(`${server.baseUrl}/api/scripts/${SCRIPT_ID}/exports?format=md`, { method: 'POST' });
+    expect(hidden.status).toBe(404);
+    expect(await jobs.list('user-1', 10)).toEqual([]);
+
+    const pending = await jobs.enqueue('script-export', 'user-1', () => new Promise(() => undefined));
+    const conflict = await globalThis.fetch(`${server.baseUrl}/api/scripts/exports/${pending.id}`);
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ code: 'job_not_completed' });
+  });
+});
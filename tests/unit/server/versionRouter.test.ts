@@ -0,0 +1,171 @@
+/**
+ * /api/version Router Tests
+ *
+ * Contract: build metadata from the manifest, schema version from the applied
+ * migrations (migrations directory as fallback), optional minimum client
+ * version, no-cache headers.
+ */
+
+// @vitest-environment node
+// Context7: consulted for vitest
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createApp } from '../../../src/server/app';
+import { readSchemaVersion, readBuildManifest } from '../../../src/server/routes/version';
+import { CLIENT_SCHEMA_VERSION } from '../../../src/lib/lifecycle/clientLifecycleManager';
+import { createTestConfig, startTestServer, type TestServer } from '../../helpers/serverTestUtils';
+
+type SchemaLookup = { data: number | null; error: { message: string } | null };
+
+function createMigrationsClient(lookup: () => SchemaLookup) {
+  return {
+    rpc: vi.fn(() => ({
+      abortSignal: vi.fn(() => Promise.resolve(lookup()))
+    }))
+  };
+}
+
+describe('/api/version router', () => {
+  let workDir: string;
+
+  beforeAll(() => {
+    workDir = mkdtempSync(path.join(tmpdir(), 'eav-version-'));
+  });
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('readSchemaVersion', () => {
+    it('should report the highest numbered migration', () => {
+      const dir = mkdtempSync(path.join(workDir, 'migrations-'));
+      writeFileSync(path.join(dir, '001_production_baseline.sql'), '');
+      writeFileSync(path.join(dir, '004_component_history.sql'), '');
+      writeFileSync(path.join(dir, 'README.md'), '');
+
+      expect(readSchemaVersion(dir)).toBe(4);
+    });
+
+    it('should fail loudly when no migrations exist', () => {
+      const dir = mkdtempSync(path.join(workDir, 'empty-'));
+
+      expect(() => readSchemaVersion(dir)).toThrow('No migrations found');
+    });
+
+    it('should match the schema version compiled into the client', () => {
+      // Contract: bump CLIENT_SCHEMA_VERSION together with every new migration
+      const highestMigration = Math.max(...readdirSync('supabase/migrations')
+        .map(file => /^(\d+)_/.exec(file))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => parseInt(match[1], 10)));
+
+      expect(CLIENT_SCHEMA_VERSION).toBe(highestMigration);
+    });
+  });
+
+  describe('readBuildManifest', () => {
+    it('should read version and build from the manifest', () => {
+      const manifestPath = path.join(workDir, 'version.json');
+      writeFileSync(manifestPath, JSON.stringify({
+        version: '2.3.4',
+        build: 'B3-Build',
+        timestamp: '2025-09-19T00:34:36.000Z'
+      }));
+
+      expect(readBuildManifest(manifestPath)).toEqual({
+        version: '2.3.4',
+        build: 'B3-Build',
+        builtAt: '2025-09-19T00:34:36.000Z'
+      });
+    });
+
+    it('should fall back to the package version without a manifest', () => {
+      const manifest = readBuildManifest(path.join(workDir, 'missing.json'));
+
+      expect(manifest.version).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(manifest.build).toBe('development');
+    });
+  });
+
+  describe('GET /api/version', () => {
+    let server: TestServer;
+
+    beforeAll(async () => {
+      const supabase = createMigrationsClient(() => ({ data: CLIENT_SCHEMA_VERSION, error: null }));
+      server = await startTestServer(createApp(
+        createTestConfig({ minClientVersion: '1.0.0' }),
+        { supabase: supabase as any }
+      ));
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    // Each caching scenario needs a router with an empty cache
+    async function startIsolated(lookup: SchemaLookup) {
+      const client = createMigrationsClient(() => lookup);
+      const isolated = await startTestServer(createApp(createTestConfig(), { supabase: client as any }));
+      return { app: isolated.baseUrl, client, close: isolated.close };
+    }
+
+    it('should serve the version contract with no-cache headers', async () => {
+      const response = await globalThis.fetch(`${server.baseUrl}/api/version`);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('cache-control')).toBe('no-cache, no-store, must-revalidate');
+      expect(data).toMatchObject({
+        version: '1.0.0',
+        schemaVersion: CLIENT_SCHEMA_VERSION,
+        minClientVersion: '1.0.0',
+        build: 'B2-Build'
+      });
+      expect(Date.parse(data.timestamp)).not.toBeNaN();
+    });
+
+    it('should report the migrations applied to the database rather than the shipped files', async () => {
+      const { app, close } = await startIsolated({ data: CLIENT_SCHEMA_VERSION - 1, error: null });
+
+      const data = await (await globalThis.fetch(`${app}/api/version`)).json();
+      await close();
+
+      expect(data.schemaVersion).toBe(CLIENT_SCHEMA_VERSION - 1);
+    });
+
+    it('should reuse the applied version instead of querying on every request', async () => {
+      const { app, client, close } = await startIsolated({ data: CLIENT_SCHEMA_VERSION, error: null });
+
+      await globalThis.fetch(`${app}/api/version`);
+      await globalThis.fetch(`${app}/api/version`);
+      await close();
+
+      expect(client.rpc).toHaveBeenCalledTimes(1);
+      expect(client.rpc).toHaveBeenCalledWith('get_applied_schema_version');
+    });
+
+    it('should fall back to the shipped migrations when the database cannot answer', async () => {
+      const { app, client, close } = await startIsolated({ data: null, error: { message: 'permission denied' } });
+
+      const first = await (await globalThis.fetch(`${app}/api/version`)).json();
+      const second = await (await globalThis.fetch(`${app}/api/version`)).json();
+      await close();
+
+      expect(first.schemaVersion).toBe(readSchemaVersion('supabase/migrations'));
+      expect(second.schemaVersion).toBe(first.schemaVersion);
+      // Failures are not cached - the next request asks again
+      expect(client.rpc).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return structured 404s for unknown endpoints', async () => {
+      const response = await globalThis.fetch(`${server.baseUrl}/api/unknown`);
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Endpoint not found');
+      expect(data.requestId).toBeDefined();
+    });
+  });
+});
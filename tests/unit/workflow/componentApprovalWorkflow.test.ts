@@ -0,0 +1,31 @@
+/**
+ * Component Approval Workflow Tests
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import {
+  findComponentTransition,
+  isComponentLocked,
+  toComponentStatus
+} from '../../../src/lib/workflow/componentApprovalWorkflow';
+
+describe('componentApprovalWorkflow', () => {
+  it('should only let clients and admins approve', () => {
+    expect(findComponentTransition('in_edit', 'approved', 'client')).toBeDefined();
+    expect(findComponentTransition('in_edit', 'approved', 'admin')).toBeDefined();
+    expect(findComponentTransition('in_edit', 'approved', 'internal')).toBeUndefined();
+    expect(findComponentTransition('in_edit', 'approved', null)).toBeUndefined();
+  });
+
+  it('should require a reason to unapprove', () => {
+    expect(findComponentTransition('approved', 'in_edit', 'internal')?.requiresReason).toBe(true);
+    expect(findComponentTransition('approved', 'created', 'admin')).toBeUndefined();
+  });
+
+  it('should lock only approved components and normalise unknown statuses', () => {
+    expect(isComponentLocked('approved')).toBe(true);
+    expect(isComponentLocked('in_edit')).toBe(false);
+    expect(toComponentStatus('deleted')).toBe('created');
+  });
+});
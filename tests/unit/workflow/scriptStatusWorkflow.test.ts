@@ -0,0 +1,49 @@
+/**
+ * Script Status Workflow Tests
+ *
+ * Allowed transitions per role and the reasons required for backward moves.
+ */
+
+// Context7: consulted for vitest
+import { describe, it, expect } from 'vitest';
+import {
+  assertTransitionAllowed,
+  getAllowedTransitions,
+  isScriptStatus
+} from '../../../src/lib/workflow/scriptStatusWorkflow';
+import { ScriptStatusTransitionError } from '../../../src/types/scriptComponent';
+
+const targets = (...args: Parameters<typeof getAllowedTransitions>) =>
+  getAllowedTransitions(...args).map(transition => transition.to);
+
+describe('scriptStatusWorkflow', () => {
+  it('should only let internal staff and admins send a script to client review', () => {
+    expect(targets('in_editing', 'internal')).toContain('client_review');
+    expect(targets('in_editing', 'admin')).toContain('client_review');
+    expect(targets('in_editing', 'freelancer')).toEqual(['draft']);
+    expect(targets('in_editing', 'client')).toEqual([]);
+  });
+
+  it('should only let clients and admins approve', () => {
+    expect(targets('client_review', 'client')).toEqual(['in_editing', 'approved']);
+    expect(targets('client_review', 'admin')).toContain('approved');
+    expect(targets('client_review', 'internal')).not.toContain('approved');
+  });
+
+  it('should offer nothing to viewers or users without a role', () => {
+    expect(targets('draft', 'viewer')).toEqual([]);
+    expect(targets('draft', null)).toEqual([]);
+  });
+
+  it('should reject skipped steps, wrong roles and backward moves without a reason', () => {
+    expect(() => assertTransitionAllowed('draft', 'published', 'admin')).toThrow('Cannot move a script from draft to published');
+    expect(() => assertTransitionAllowed('client_review', 'approved', 'internal')).toThrow(ScriptStatusTransitionError);
+    expect(() => assertTransitionAllowed('client_review', 'in_editing', 'client', '  ')).toThrow('A reason is required');
+    expect(assertTransitionAllowed('client_review', 'in_editing', 'client', 'Wrong product name').to).toBe('in_editing');
+  });
+
+  it('should recognise only workflow statuses', () => {
+    expect(isScriptStatus('client_review')).toBe(true);
+    expect(isScriptStatus('archived')).toBe(false);
+  });
+});
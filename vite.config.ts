@@ -6,17 +6,23 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { sentryVitePlugin } from '@sentry/vite-plugin'
+import { loadVersionInfo } from './src/server/routes/version'
 
 // Custom plugin to serve /api/version endpoint
+// Mirrors the BFF router so dev clients see the same build and schema metadata
 const apiVersionPlugin = () => ({
   name: 'api-version',
   configureServer(server: { middlewares: { use: (path: string, handler: (req: unknown, res: { setHeader: (name: string, value: string) => void; end: (data: string) => void }) => void) => void } }) {
+    const versionInfo = loadVersionInfo({
+      manifestPath: 'public/version.json',
+      migrationsDir: 'supabase/migrations',
+      minClientVersion: process.env.MIN_CLIENT_VERSION
+    });
+
     server.middlewares.use('/api/version', (_req: unknown, res: { setHeader: (name: string, value: string) => void; end: (data: string) => void }) => {
       const versionData = {
-        version: '1.0.0',
-        schemaVersion: 1,
-        timestamp: new Date().toISOString(),
-        build: 'B2-Build'
+        ...versionInfo,
+        timestamp: new Date().toISOString()
       };
 
       res.setHeader('Content-Type', 'application/json');